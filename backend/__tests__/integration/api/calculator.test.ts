@@ -0,0 +1,236 @@
+import { describe, it, expect } from 'vitest';
+import type {
+  MurabahaOutput,
+  SalamOutput,
+  ScenarioAnalysisOutput,
+  StockScreeningOutput,
+  SukukOutput,
+  TakafulOutput,
+} from 'mcp-server/schemas';
+import { app } from '../../helpers/test-app';
+
+// Error body the calculator controller returns on 4xx
+interface CalculatorErrorResponse {
+  error: string;
+  code?: string;
+  details?: { field: string; message: string }[];
+  types?: string[];
+}
+
+describe('Calculator Endpoint Integration Tests', () => {
+  const postScenarios = (body: unknown) =>
+    app.request('/api/calculate/scenarios', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+  describe('POST /api/calculate/scenarios', () => {
+    it('should return each party outcome for every profit level and ratio', async () => {
+      const response = await postScenarios({
+        contractType: 'musharakah',
+        partners: [
+          { name: 'Ali', investment: 50000 },
+          { name: 'Sara', investment: 30000 },
+        ],
+        profitRange: { from: -20000, to: 20000, step: 20000 },
+        profitRatios: [
+          [0.5, 0.5],
+          [0.7, 0.3],
+        ],
+      });
+      const body = (await response.json()) as ScenarioAnalysisOutput;
+
+      expect(response.status).toBe(200);
+      expect(body.ratio_scenarios).toEqual(['50:50', '70:30']);
+      expect(body.profit_levels).toEqual([-20000, 0, 20000]);
+      expect(body.scenarios).toHaveLength(6);
+
+      // Losses follow capital whatever ratio is agreed
+      const losses = body.scenarios.filter((s) => s.is_loss);
+      expect(losses.map((s) => s.outcomes)).toEqual([
+        [-12500, -7500],
+        [-12500, -7500],
+      ]);
+      expect(body.scenarios[5]).toMatchObject({
+        profit_loss: 20000,
+        ratio: '70:30',
+        basis: 'Agreed ratio',
+        outcomes: [14000, 6000],
+      });
+    }, 30000);
+
+    it('should keep Mudharabah losses with the capital provider', async () => {
+      const response = await postScenarios({
+        contractType: 'mudharabah',
+        capitalAmount: 100000,
+        profits: [-10000, 10000],
+        profitRatios: [[0.6, 0.4]],
+      });
+      const body = (await response.json()) as ScenarioAnalysisOutput;
+
+      expect(response.status).toBe(200);
+      expect(body.scenarios.map((s) => s.outcomes)).toEqual([
+        [-10000, 0],
+        [6000, 4000],
+      ]);
+    }, 30000);
+
+    it('should reject input the calculator cannot use', async () => {
+      const response = await postScenarios({ contractType: 'mudharabah', profits: [1000] });
+      const body = (await response.json()) as CalculatorErrorResponse;
+
+      expect(response.status).toBe(400);
+      expect(body.error).toContain('capitalAmount');
+    }, 30000);
+
+    it('should reject a body that is not JSON', async () => {
+      const response = await app.request('/api/calculate/scenarios', {
+        method: 'POST',
+        body: 'not json',
+      });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST /api/calculate/:type', () => {
+    const post = (type: string, body: unknown) =>
+      app.request(`/api/calculate/${type}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+    it('should run the calculator with the given input', async () => {
+      const response = await post('murabaha', {
+        costPrice: 80000,
+        markupRate: 0.1,
+        tenorMonths: 60,
+        currency: 'MYR',
+      });
+      const body = (await response.json()) as MurabahaOutput;
+
+      expect(response.status).toBe(200);
+      expect(body.selling_price).toBe(88000);
+      expect(body.currency).toBe('MYR');
+      expect(body.calculation_steps.length).toBeGreaterThan(0);
+    }, 30000);
+
+    it('should validate input with the calculator schema', async () => {
+      const response = await post('murabaha', { costPrice: -5, markupRate: 0.1 });
+      const body = (await response.json()) as CalculatorErrorResponse;
+
+      expect(response.status).toBe(400);
+      expect(body.error).toBe('Validation failed');
+      expect(body.details).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ field: 'costPrice' }),
+          expect.objectContaining({ field: 'tenorMonths' }),
+        ])
+      );
+    });
+
+    it('should reject Salam capital that is not paid in full at contract', async () => {
+      const salam = {
+        commodity: 'Wheat',
+        quantity: 100,
+        pricePerUnit: 250,
+        contractDate: '2026-01-15',
+        deliveryDate: '2026-07-15',
+        parallelSalam: { margin: 0.08 },
+      };
+
+      const paid = await post('salam', salam);
+      const paidBody = (await paid.json()) as SalamOutput;
+      expect(paid.status).toBe(200);
+      expect(paidBody.salam_capital).toBe(25000);
+      expect(paidBody.financier_profit).toBe(2000);
+
+      const partial = await post('salam', { ...salam, capitalPaid: 10000 });
+      const partialBody = (await partial.json()) as CalculatorErrorResponse;
+      expect(partial.status).toBe(400);
+      expect(partialBody.error).toContain('must be paid in full at contract');
+    }, 30000);
+
+    it('should smooth Mudharabah sukuk distributions with the profit reserve', async () => {
+      const response = await post('sukuk', {
+        sukukType: 'mudharabah',
+        issueSize: 1000000,
+        faceValue: 1000,
+        tenorYears: 2,
+        expectedProfitRate: 0.06,
+        holdersProfitRatio: 0.8,
+        actualProfits: [50000, 20000, -10000, 60000],
+      });
+      const body = (await response.json()) as SukukOutput;
+
+      expect(response.status).toBe(200);
+      expect(body.schedule.map((p) => p.perCertificate)).toEqual([30, 26, 0, 30]);
+      expect(body.reserve_at_maturity).toBe(10000);
+      expect(body.redemption_per_certificate).toBe(1010);
+    }, 30000);
+
+    it('should cover a Takaful deficit from the reserve and then an operator Qard', async () => {
+      const response = await post('takaful', {
+        model: 'wakalah',
+        contributions: 100000,
+        wakalahFeeRate: 0.3,
+        claimsPaid: 90000,
+        investmentProfit: -2000,
+        openingReserve: 5000,
+      });
+      const body = (await response.json()) as TakafulOutput;
+
+      expect(response.status).toBe(200);
+      expect(body.is_deficit).toBe(true);
+      expect(body.reserve_used).toBe(5000);
+      expect(body.qard_provided).toBe(17000);
+      expect(body.operator_income).toBe(30000);
+    }, 30000);
+
+    it('should reject a Qard al-Hasan fee tied to the amount lent', async () => {
+      const response = await post('qard_hasan', {
+        principal: 12000,
+        tenorMonths: 12,
+        adminFee: { rate: 0.02 },
+      });
+      const body = (await response.json()) as CalculatorErrorResponse;
+
+      expect(response.status).toBe(400);
+      expect(body.details).toEqual([
+        expect.objectContaining({
+          field: 'adminFee.rate',
+          message: expect.stringContaining('riba'),
+        }),
+      ]);
+    });
+
+    it('should screen CSV holdings and total the purification', async () => {
+      const response = await post('stock_screening', {
+        holdingsCsv: [
+          'name,market_cap,interest_bearing_debt,cash_and_interest_bearing_securities,total_revenue,non_permissible_income,excluded_activities,dividends',
+          'Acme,1000000,120000,50000,400000,12000,,5000',
+          'Brewco,500000,200000,10000,100000,1000,alcohol,1000',
+        ].join('\n'),
+      });
+      const body = (await response.json()) as StockScreeningOutput;
+
+      expect(response.status).toBe(200);
+      expect(body.compliant_count).toBe(1);
+      expect(body.companies[1].failedScreens).toEqual([
+        'Business activity',
+        'Interest-bearing debt / market cap',
+      ]);
+      expect(body.total_purification).toBe(160);
+    }, 30000);
+
+    it('should return 404 for an unknown calculator', async () => {
+      const response = await post('riba', {});
+      const body = (await response.json()) as CalculatorErrorResponse;
+
+      expect(response.status).toBe(404);
+      expect(body.types).toContain('musharakah');
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { app } from '../../helpers/test-app';
+import { createTestDocument, createTestChunk } from '../../helpers/test-data';
+import { resetTestDatabase } from '../../helpers/test-db';
+import { createKnowledgeMcpServer } from '@/lib/knowledge-mcp-server';
+import { ChunkRepository } from '@/repositories/chunk.repository';
+import { SearchService } from '@/services/search.service';
+import { KnowledgeAgent } from '@/agents/knowledge-agent';
+import type { EmbeddingService } from '@/services/embedding-service';
+import type { AskQuestionOutput, SearchKnowledgeOutput } from '@/schemas/search.schemas';
+
+// Unit vector along one axis, so cosine similarity between axes is 0 and within an axis is 1
+function axisEmbedding(axis: number, weight = 1): number[] {
+  const embedding = new Array(768).fill(0);
+  embedding[axis] = weight;
+  embedding[axis + 1] = Math.sqrt(1 - weight * weight);
+  return embedding;
+}
+
+// Stand-in for Ollama: every query embeds to axis 0
+const fakeEmbedder = {
+  embedSingle: async () => axisEmbedding(0),
+} as unknown as EmbeddingService;
+
+describe('Knowledge MCP Server Integration Tests', () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    await resetTestDatabase();
+
+    const chunkRepo = new ChunkRepository();
+    const server = createKnowledgeMcpServer({
+      searchService: new SearchService(chunkRepo, fakeEmbedder),
+      // A threshold above any similarity makes the agent answer without calling the LLM
+      knowledgeAgent: new KnowledgeAgent(chunkRepo, fakeEmbedder, { confidenceThreshold: 1.01 }),
+    });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+
+    client = new Client({ name: 'knowledge-test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  async function searchKnowledge(args: Record<string, unknown>) {
+    await client.listTools();
+    const result = await client.callTool({ name: 'search_knowledge', arguments: args });
+    return result as typeof result & { structuredContent: SearchKnowledgeOutput };
+  }
+
+  async function askQuestion(args: Record<string, unknown>) {
+    await client.listTools();
+    const result = await client.callTool({ name: 'ask_question', arguments: args });
+    return result as typeof result & { structuredContent: AskQuestionOutput };
+  }
+
+  describe('search_knowledge', () => {
+    it('should return chunks ranked by similarity with titles and categories', async () => {
+      const riba = await createTestDocument({
+        title: 'Prohibition of Riba',
+        category: 'principles',
+      });
+      const murabaha = await createTestDocument({
+        title: 'Murabaha Financing',
+        category: 'products',
+      });
+
+      await createTestChunk(riba.id, axisEmbedding(0, 0.9), { content: 'Riba is forbidden' });
+      await createTestChunk(murabaha.id, axisEmbedding(0, 1), {
+        content: 'Murabaha is a cost-plus sale',
+        chunkIndex: 3,
+      });
+
+      const result = await searchKnowledge({ query: 'What is riba?' });
+
+      expect(result.isError).toBeFalsy();
+      const { results } = result.structuredContent;
+      expect(results).toHaveLength(2);
+      expect(results[0]).toMatchObject({
+        rank: 1,
+        documentId: murabaha.id,
+        title: 'Murabaha Financing',
+        category: 'products',
+        chunkIndex: 3,
+        content: 'Murabaha is a cost-plus sale',
+      });
+      expect(results[0].similarity).toBeCloseTo(1, 3);
+      expect(results[1]).toMatchObject({
+        rank: 2,
+        title: 'Prohibition of Riba',
+        category: 'principles',
+      });
+      expect(results[1].similarity).toBeCloseTo(0.9, 3);
+    });
+
+    it('should filter by category and respect limit', async () => {
+      const principles = await createTestDocument({ title: 'Principles', category: 'principles' });
+      const products = await createTestDocument({ title: 'Products', category: 'products' });
+
+      for (let i = 0; i < 3; i++) {
+        await createTestChunk(principles.id, axisEmbedding(0, 0.95), { chunkIndex: i });
+      }
+      await createTestChunk(products.id, axisEmbedding(0, 1));
+
+      const result = await searchKnowledge({
+        query: 'principles',
+        limit: 2,
+        filters: { category: 'principles' },
+      });
+
+      const { results } = result.structuredContent;
+      expect(results).toHaveLength(2);
+      expect(results.every((r) => r.category === 'principles')).toBe(true);
+    });
+
+    it('should drop chunks below the similarity threshold', async () => {
+      const document = await createTestDocument({ title: 'Unrelated', category: 'general' });
+      await createTestChunk(document.id, axisEmbedding(10));
+
+      const result = await searchKnowledge({ query: 'riba', threshold: 0.5 });
+
+      expect(result.structuredContent.results).toEqual([]);
+      expect(result.content).toEqual([
+        { type: 'text', text: 'No knowledge base chunks matched "riba".' },
+      ]);
+    });
+
+    it('should reject an empty query', async () => {
+      const result = await searchKnowledge({ query: '' });
+
+      expect(result.isError).toBe(true);
+    });
+  });
+
+  describe('ask_question', () => {
+    it('should answer with the sources retrieved for the category', async () => {
+      const riba = await createTestDocument({
+        title: 'Prohibition of Riba',
+        category: 'principles',
+      });
+      await createTestChunk(riba.id, axisEmbedding(0, 0.9), { content: 'Riba is forbidden' });
+
+      const result = await askQuestion({ question: 'What is riba?', category: 'principles' });
+
+      expect(result.isError).toBeFalsy();
+      const { answer, confidence, category, sources } = result.structuredContent;
+      expect(answer).toContain("I don't have enough information");
+      expect(confidence).toBeCloseTo(0.9, 3);
+      expect(category).toBe('principles');
+      expect(sources).toHaveLength(1);
+      expect(sources[0]).toMatchObject({ documentId: riba.id, content: 'Riba is forbidden' });
+      expect(sources[0].relevance).toBeCloseTo(0.9, 3);
+    });
+
+    it('should reject an empty question', async () => {
+      const result = await askQuestion({ question: '' });
+
+      expect(result.isError).toBe(true);
+    });
+  });
+
+  describe('POST /api/mcp', () => {
+    it('should list knowledge tools over Streamable HTTP', async () => {
+      const response = await app.request('/api/mcp', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream',
+        },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} }),
+      });
+      const body = (await response.json()) as { result: { tools: { name: string }[] } };
+
+      expect(response.status).toBe(200);
+      expect(body.result.tools.map((t) => t.name)).toEqual(['search_knowledge', 'ask_question']);
+    });
+
+    it('should reject GET requests', async () => {
+      const response = await app.request('/api/mcp');
+
+      expect(response.status).toBe(405);
+    });
+  });
+});
@@ -48,6 +48,8 @@ describe('AgentOrchestrator', () => {
       getSession: vi.fn(),
       updateSession: vi.fn(),
       getLastNMessages: vi.fn().mockReturnValue([]),
+      setPendingCalculation: vi.fn(),
+      takePendingCalculation: vi.fn(),
     } as unknown as SessionStore;
 
     orchestrator = new AgentOrchestrator(
@@ -332,7 +334,8 @@ describe('AgentOrchestrator', () => {
       });
 
       expect(mockCalculationAgent.process).toHaveBeenCalledWith(
-        'Calculate Musharakah profit for $5000'
+        'Calculate Musharakah profit for $5000',
+        undefined
       );
       expect(mockKnowledgeAgent.processStreaming).not.toHaveBeenCalled();
     });
@@ -353,6 +356,213 @@ describe('AgentOrchestrator', () => {
       const contentEvents = capturedEvents.filter((e) => e.type === 'content');
       expect(contentEvents).toHaveLength(0);
     });
+
+    it('should return every calculation of a compound query as an array', async () => {
+      const musharakah = {
+        type: 'musharakah',
+        inputs: { total_profit: 100000 },
+        outputs: { 'Partner A': 50000, 'Partner B': 50000 },
+        steps: [],
+      };
+      const mudharabah = {
+        type: 'mudharabah',
+        inputs: { profit: 100000 },
+        outputs: { capital_provider: 60000, entrepreneur: 40000 },
+        steps: [],
+      };
+      vi.mocked(mockCalculationAgent.process).mockResolvedValue({
+        result: '## Comparison',
+        calculation: musharakah,
+        calculations: [musharakah, mudharabah],
+      });
+
+      const result = await orchestrator.processQuery(
+        'Compare a 60/40 mudharabah with an equal-capital musharakah on $100k profit',
+        'session-123',
+        streamCallback
+      );
+
+      expect(result.calculation).toEqual([musharakah, mudharabah]);
+    });
+
+    describe('clarification', () => {
+      const pending = {
+        type: 'mudharabah',
+        parameters: { capitalProviderRatio: 0.6, entrepreneurRatio: 0.4 },
+        missing: [{ name: 'capitalAmount', description: 'Total capital provided' }],
+        query: 'Calculate my 60:40 mudharabah profit',
+      };
+      const question = 'To complete the Mudharabah calculation I need a few more details';
+
+      function missingParametersError() {
+        return Object.assign(new Error('Missing parameters for mudharabah: capitalAmount'), {
+          name: 'CalculationAgentError',
+          code: 'MISSING_PARAMETERS',
+          pending,
+          question,
+        });
+      }
+
+      it('should ask for missing parameters and keep the partial extraction', async () => {
+        vi.mocked(mockCalculationAgent.process).mockRejectedValue(missingParametersError());
+
+        const result = await orchestrator.processQuery(
+          'Calculate my 60:40 mudharabah profit',
+          'session-123',
+          streamCallback
+        );
+
+        expect(result.answer).toBe(question);
+        expect(result.calculation).toBeUndefined();
+        expect(capturedEvents).toContainEqual({
+          type: 'clarification',
+          data: { calculationType: 'mudharabah', missing: pending.missing, question },
+        });
+        expect(mockSessionStore.setPendingCalculation).toHaveBeenCalledWith('session-123', pending);
+        expect(mockSessionStore.updateSession).toHaveBeenCalledWith(
+          'session-123',
+          expect.objectContaining({ role: 'assistant', content: question })
+        );
+        expect(mockComplianceAgent.validate).not.toHaveBeenCalled();
+      });
+
+      it('should complete the pending calculation with a reply routed to calculation', async () => {
+        vi.mocked(mockSessionStore.takePendingCalculation).mockReturnValue(pending);
+        vi.mocked(mockCalculationAgent.process).mockResolvedValue({
+          result: 'Capital provider receives $6,000',
+          calculation: {
+            type: 'mudharabah',
+            inputs: { capital_amount: 100000, profit: 10000 },
+            outputs: { capital_provider: 6000, entrepreneur: 4000 },
+            steps: [],
+          },
+        });
+
+        const result = await orchestrator.processQuery(
+          'Capital was $100k and profit $10k',
+          'session-123',
+          streamCallback
+        );
+
+        expect(mockRoutingAgent.process).toHaveBeenCalledWith('Capital was $100k and profit $10k');
+        expect(mockCalculationAgent.process).toHaveBeenCalledWith(
+          'Capital was $100k and profit $10k',
+          pending
+        );
+        expect(result.calculation).toMatchObject({
+          outputs: { capital_provider: 6000, entrepreneur: 4000 },
+        });
+      });
+
+      it('should complete the pending calculation with a numbers-only reply routed elsewhere', async () => {
+        vi.mocked(mockSessionStore.takePendingCalculation).mockReturnValue(pending);
+        vi.mocked(mockRoutingAgent.process).mockResolvedValue({
+          category: 'general',
+          confidence: 0.4,
+          explanation: 'No recognisable topic',
+        });
+        vi.mocked(mockCalculationAgent.process).mockResolvedValue({
+          result: 'Capital provider receives 30,000',
+          calculation: {
+            type: 'mudharabah',
+            inputs: { capital_amount: 50000, profit: 50000 },
+            outputs: { capital_provider: 30000, entrepreneur: 20000 },
+            steps: [],
+          },
+        });
+
+        const result = await orchestrator.processQuery(
+          '50,000 and 50,000',
+          'session-123',
+          streamCallback
+        );
+
+        expect(mockCalculationAgent.process).toHaveBeenCalledWith('50,000 and 50,000', pending);
+        expect(mockKnowledgeAgent.processStreaming).not.toHaveBeenCalled();
+        expect(result.category).toBe('calculation');
+        expect(result.calculation).toMatchObject({
+          outputs: { capital_provider: 30000, entrepreneur: 20000 },
+        });
+      });
+
+      it('should ask for the rest when a reply routed elsewhere fills some missing values', async () => {
+        const twoMissing = {
+          ...pending,
+          missing: [{ name: 'capitalAmount' }, { name: 'profit' }],
+        };
+        vi.mocked(mockSessionStore.takePendingCalculation).mockReturnValue(twoMissing);
+        vi.mocked(mockRoutingAgent.process).mockResolvedValue({
+          category: 'general',
+          confidence: 0.4,
+          explanation: 'No recognisable topic',
+        });
+        vi.mocked(mockCalculationAgent.process).mockRejectedValue(missingParametersError());
+
+        const result = await orchestrator.processQuery('100k', 'session-123', streamCallback);
+
+        expect(result.answer).toBe(question);
+        expect(result.category).toBe('calculation');
+        expect(mockSessionStore.setPendingCalculation).toHaveBeenCalledWith('session-123', pending);
+        expect(mockKnowledgeAgent.processStreaming).not.toHaveBeenCalled();
+      });
+
+      it('should drop the pending calculation when the reply is an unrelated question', async () => {
+        vi.mocked(mockSessionStore.takePendingCalculation).mockReturnValue(pending);
+        vi.mocked(mockCalculationAgent.process).mockRejectedValue(missingParametersError());
+        vi.mocked(mockRoutingAgent.process).mockResolvedValue({
+          category: 'principles',
+          confidence: 0.95,
+          explanation: 'Question about a Shariah principle',
+        });
+        vi.mocked(mockKnowledgeAgent.processStreaming).mockResolvedValue({
+          answer: 'Gharar is excessive uncertainty in a contract',
+          sources: [],
+          confidence: 0.9,
+          category: 'principles',
+        });
+
+        const result = await orchestrator.processQuery(
+          'What is gharar?',
+          'session-123',
+          streamCallback
+        );
+
+        expect(result.answer).toBe('Gharar is excessive uncertainty in a contract');
+        expect(result.category).toBe('principles');
+        expect(mockCalculationAgent.process).toHaveBeenCalledWith('What is gharar?', pending);
+        expect(mockSessionStore.takePendingCalculation).toHaveBeenCalledWith('session-123');
+        expect(mockSessionStore.setPendingCalculation).not.toHaveBeenCalled();
+      });
+    });
+
+    it('should answer with the rule a calculator refused the values under', async () => {
+      const explanation = [
+        "I can't run the Qard Hasan calculation with these values:",
+        '',
+        '- **Admin fee rate**: A fee of 2.00% of the principal is tied to the amount lent, which is riba on a Qard al-Hasan',
+      ].join('\n');
+      vi.mocked(mockCalculationAgent.process).mockRejectedValue(
+        Object.assign(new Error('MCP error -32602: Input validation error'), {
+          name: 'CalculationAgentError',
+          code: 'VALIDATION_ERROR',
+          explanation,
+        })
+      );
+
+      const result = await orchestrator.processQuery(
+        'Qard al-Hasan of 10,000 with a 2% fee',
+        'session-123',
+        streamCallback
+      );
+
+      expect(result.answer).toBe(explanation);
+      expect(result.calculation).toBeUndefined();
+      expect(mockSessionStore.updateSession).toHaveBeenCalledWith(
+        'session-123',
+        expect.objectContaining({ role: 'assistant', content: explanation })
+      );
+      expect(mockComplianceAgent.validate).not.toHaveBeenCalled();
+    });
   });
 
   describe('processQuery - Flagged Responses', () => {
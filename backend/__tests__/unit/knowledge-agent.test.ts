@@ -35,6 +35,7 @@ describe('KnowledgeAgent', () => {
       documentId: `doc-${i + 1}`,
       similarity: baseSimilarity - i * 0.05,
       metadata: {
+        title: `Document ${i + 1}`,
         category: 'principles',
         chunkIndex: i,
       },
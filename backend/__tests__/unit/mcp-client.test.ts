@@ -0,0 +1,290 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+interface MockClient {
+  connect: ReturnType<typeof vi.fn>;
+  listTools: ReturnType<typeof vi.fn>;
+  callTool: ReturnType<typeof vi.fn>;
+  ping: ReturnType<typeof vi.fn>;
+  close: ReturnType<typeof vi.fn>;
+  onclose?: () => void;
+}
+
+const { clients, transports, httpTransports, mockConnect, mockCallTool, mockPing } = vi.hoisted(
+  () => ({
+    clients: [] as MockClient[],
+    transports: [] as Array<{ params: unknown }>,
+    httpTransports: [] as Array<{ url: URL }>,
+    mockConnect: vi.fn(),
+    mockCallTool: vi.fn(),
+    mockPing: vi.fn(),
+  })
+);
+
+vi.mock('@modelcontextprotocol/sdk/client/index.js', () => ({
+  Client: vi.fn(function () {
+    const client: MockClient = {
+      connect: mockConnect,
+      listTools: vi.fn().mockResolvedValue({ tools: [{ name: 'calculate_zakat' }] }),
+      callTool: mockCallTool,
+      ping: mockPing,
+      // Like the SDK, closing fires onclose
+      close: vi.fn(async () => client.onclose?.()),
+    };
+    clients.push(client);
+    return client;
+  }),
+}));
+
+vi.mock('@modelcontextprotocol/sdk/client/stdio.js', () => ({
+  StdioClientTransport: class {
+    pid = 4321;
+    stderr = null;
+    constructor(public params: unknown) {
+      transports.push(this);
+    }
+  },
+}));
+
+vi.mock('@modelcontextprotocol/sdk/client/streamableHttp.js', () => ({
+  StreamableHTTPClientTransport: class {
+    constructor(public url: URL) {
+      httpTransports.push(this);
+    }
+  },
+}));
+
+vi.mock('@/lib/shutdown', () => ({
+  onShutdown: vi.fn(),
+}));
+
+import { MCPClient, MCPClientError } from '@/lib/mcp-client';
+import { onShutdown } from '@/lib/shutdown';
+
+describe('MCPClient', () => {
+  let mcpClient: MCPClient;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.clearAllMocks();
+    clients.length = 0;
+    transports.length = 0;
+    httpTransports.length = 0;
+    mockConnect.mockResolvedValue(undefined);
+    mockCallTool.mockResolvedValue({ content: [{ type: 'text', text: 'ok' }] });
+    mockPing.mockResolvedValue({});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    mcpClient = new MCPClient(
+      { command: 'node', args: ['server.js'] },
+      { callTimeoutMs: 1000, reconnectBaseDelayMs: 100, maxReconnectAttempts: 3 }
+    );
+  });
+
+  afterEach(async () => {
+    await mcpClient.disconnect();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  describe('connect', () => {
+    it('should start a single server process for concurrent callers', async () => {
+      await Promise.all([
+        mcpClient.callTool('calculate_zakat', {}),
+        mcpClient.callTool('calculate_zakat', {}),
+        mcpClient.listTools(),
+      ]);
+
+      expect(clients).toHaveLength(1);
+      expect(transports).toHaveLength(1);
+      expect(transports[0].params).toEqual({
+        command: 'node',
+        args: ['server.js'],
+        stderr: 'pipe',
+      });
+    });
+
+    it('should report the connection and server process in its health', async () => {
+      expect(mcpClient.getHealth()).toMatchObject({ status: 'disconnected', transport: 'stdio' });
+
+      await mcpClient.connect();
+
+      expect(mcpClient.getHealth()).toMatchObject({
+        status: 'connected',
+        transport: 'stdio',
+        pid: 4321,
+        reconnectAttempts: 0,
+      });
+    });
+
+    it('should reach a shared server over Streamable HTTP for a URL target', async () => {
+      const httpClient = new MCPClient({ url: 'http://mcp-server:3001/mcp' });
+
+      await httpClient.connect();
+
+      expect(transports).toHaveLength(0);
+      expect(httpTransports.map((t) => t.url.href)).toEqual(['http://mcp-server:3001/mcp']);
+      expect(httpClient.getHealth()).toMatchObject({ status: 'connected', transport: 'http' });
+      expect(httpClient.getHealth().pid).toBeUndefined();
+      await httpClient.disconnect();
+    });
+
+    it('should close the half-started server when the handshake fails', async () => {
+      mockConnect.mockRejectedValueOnce(new Error('spawn node ENOENT'));
+
+      await expect(mcpClient.connect()).rejects.toMatchObject({ code: 'CONNECTION_ERROR' });
+      expect(clients[0].close).toHaveBeenCalled();
+      expect(mcpClient.getHealth()).toMatchObject({
+        status: 'disconnected',
+        lastError: 'spawn node ENOENT',
+      });
+    });
+  });
+
+  describe('callTool', () => {
+    it('should apply the per-call timeout', async () => {
+      await mcpClient.callTool('calculate_zakat', { assets: { cash: 1000 } });
+
+      expect(mockCallTool).toHaveBeenCalledWith(
+        { name: 'calculate_zakat', arguments: { assets: { cash: 1000 } } },
+        undefined,
+        { timeout: 1000 }
+      );
+    });
+
+    it('should report a timed-out call with the TIMEOUT code', async () => {
+      mockCallTool.mockRejectedValueOnce(
+        new McpError(ErrorCode.RequestTimeout, 'Request timed out')
+      );
+
+      const error = await mcpClient.callTool('calculate_zakat', {}).catch((e) => e);
+
+      expect(error).toBeInstanceOf(MCPClientError);
+      expect(error.code).toBe('TIMEOUT');
+      expect(error.message).toContain('1000ms');
+    });
+
+    it('should report a dropped connection as CONNECTION_ERROR', async () => {
+      mockCallTool.mockRejectedValueOnce(
+        new McpError(ErrorCode.ConnectionClosed, 'Connection closed')
+      );
+
+      await expect(mcpClient.callTool('calculate_zakat', {})).rejects.toMatchObject({
+        code: 'CONNECTION_ERROR',
+      });
+    });
+  });
+
+  describe('reconnection', () => {
+    it('should reconnect with backoff when the server exits', async () => {
+      await mcpClient.connect();
+
+      clients[0].onclose?.();
+      expect(mcpClient.getHealth()).toMatchObject({
+        status: 'reconnecting',
+        reconnectAttempts: 1,
+      });
+
+      await vi.advanceTimersByTimeAsync(99);
+      expect(clients).toHaveLength(1);
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(clients).toHaveLength(2);
+      expect(mcpClient.getHealth()).toMatchObject({ status: 'connected', reconnectAttempts: 0 });
+    });
+
+    it('should double the delay after each failed attempt and then give up', async () => {
+      await mcpClient.connect();
+      mockConnect.mockRejectedValue(new Error('server crashed on start'));
+
+      clients[0].onclose?.();
+      await vi.advanceTimersByTimeAsync(100);
+      expect(clients).toHaveLength(2);
+
+      await vi.advanceTimersByTimeAsync(199);
+      expect(clients).toHaveLength(2);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(clients).toHaveLength(3);
+
+      await vi.advanceTimersByTimeAsync(400);
+      expect(clients).toHaveLength(4);
+      expect(mcpClient.getHealth()).toMatchObject({
+        status: 'disconnected',
+        lastError: 'server crashed on start',
+      });
+
+      await vi.advanceTimersByTimeAsync(10000);
+      expect(clients).toHaveLength(4);
+    });
+
+    it('should connect straight away for a call made during the backoff', async () => {
+      await mcpClient.connect();
+      clients[0].onclose?.();
+
+      await mcpClient.callTool('calculate_zakat', {});
+
+      expect(clients).toHaveLength(2);
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(clients).toHaveLength(2);
+    });
+
+    it('should not reconnect after disconnect', async () => {
+      await mcpClient.connect();
+
+      await mcpClient.disconnect();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(clients[0].close).toHaveBeenCalled();
+      expect(clients).toHaveLength(1);
+      expect(mcpClient.getHealth().status).toBe('disconnected');
+    });
+  });
+
+  describe('ping', () => {
+    it('should return the round-trip latency', async () => {
+      mockPing.mockImplementation(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 25));
+        return {};
+      });
+
+      const latency = mcpClient.ping();
+      await vi.advanceTimersByTimeAsync(25);
+
+      expect(await latency).toBe(25);
+      expect(mockPing).toHaveBeenCalledWith({ timeout: 1000 });
+    });
+
+    it('should fail with TIMEOUT when the server does not answer', async () => {
+      mockPing.mockRejectedValueOnce(new McpError(ErrorCode.RequestTimeout, 'Request timed out'));
+
+      await expect(mcpClient.ping()).rejects.toMatchObject({ code: 'TIMEOUT' });
+    });
+  });
+
+  describe('getInstance', () => {
+    it('should register the shared client with the app shutdown', () => {
+      const instance = MCPClient.getInstance({ command: 'node' });
+
+      expect(MCPClient.getInstance()).toBe(instance);
+      expect(onShutdown).toHaveBeenCalledWith('MCP client', expect.any(Function));
+    });
+
+    it('should connect over HTTP when MCP_SERVER_URL is set', async () => {
+      vi.stubEnv('MCP_SERVER_URL', 'http://mcp-server:3001/mcp');
+      vi.resetModules();
+      // Fresh module, so the shared instance is created from the environment
+      const { MCPClient: FreshClient } = await import('@/lib/mcp-client');
+
+      const instance = FreshClient.getInstance();
+      await instance.connect();
+
+      expect(httpTransports.map((t) => t.url.href)).toEqual(['http://mcp-server:3001/mcp']);
+      expect(transports).toHaveLength(0);
+      expect(instance.getHealth().transport).toBe('http');
+
+      await instance.disconnect();
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, it, expect } from 'vitest';
+import { RuleBasedExtractor } from '@/agents/extractors';
+
+const types = [
+  'musharakah',
+  'mudharabah',
+  'murabaha',
+  'ijarah',
+  'diminishing_musharakah',
+  'zakat',
+  'mudharabah_pool',
+];
+
+describe('RuleBasedExtractor', () => {
+  const extractor = new RuleBasedExtractor();
+
+  describe('parseAmount', () => {
+    it.each([
+      ['50,000', 50000],
+      ['100k', 100000],
+      ['1.5 million', 1500000],
+      ['$2m', 2000000],
+      ['Rp 100 juta', 100000000],
+      ['Rp 2 miliar', 2000000000],
+      ['100.000.000', 100000000],
+      ['2 crore', 20000000],
+      ['RM 80,000.50', 80000.5],
+    ])('should parse %s', (text, expected) => {
+      expect(extractor.parseAmount(text)).toBe(expected);
+    });
+
+    it('should return null for text that is not an amount', () => {
+      expect(extractor.parseAmount('fifty')).toBeNull();
+    });
+  });
+
+  describe('Musharakah', () => {
+    it('should read partners and profit', () => {
+      expect(
+        extractor.extract('Partner A invested 50,000 and B 30,000, profit 16,000', types)
+      ).toEqual({
+        type: 'musharakah',
+        parameters: {
+          partners: [
+            { name: 'Partner A', investment: 50000 },
+            { name: 'Partner B', investment: 30000 },
+          ],
+          totalProfit: 16000,
+        },
+      });
+    });
+
+    it('should read scaled amounts and the currency', () => {
+      const result = extractor.extract(
+        'Musharakah: Budi Rp 100 juta, Sari Rp 150 juta, profit Rp 50 juta',
+        types
+      );
+
+      expect(result?.parameters).toEqual({
+        partners: [
+          { name: 'Budi', investment: 100000000 },
+          { name: 'Sari', investment: 150000000 },
+        ],
+        totalProfit: 50000000,
+        currency: 'IDR',
+      });
+    });
+
+    it('should read a loss as negative profit', () => {
+      const result = extractor.extract(
+        'Partnership losses of 10,000; Partner A 60,000, Partner B 40,000',
+        types
+      );
+
+      expect(result?.parameters.totalProfit).toBe(-10000);
+    });
+
+    it('should set profit ratio only when it has a share per partner', () => {
+      const result = extractor.extract(
+        'Musharakah with Ali 100k and Sara 100k, profit 30k split 60:40',
+        types
+      );
+
+      expect(result?.parameters.profitRatio).toEqual([0.6, 0.4]);
+    });
+  });
+
+  describe('Mudharabah', () => {
+    it('should read capital, profit and a 60:40 ratio', () => {
+      expect(
+        extractor.extract('Mudharabah with 1.5 million capital and 300k profit, 60:40 ratio', types)
+      ).toEqual({
+        type: 'mudharabah',
+        parameters: {
+          capitalAmount: 1500000,
+          profit: 300000,
+          capitalProviderRatio: 0.6,
+          entrepreneurRatio: 0.4,
+        },
+      });
+    });
+
+    it("should read the mudarib's percentage", () => {
+      const result = extractor.extract(
+        'Mudharabah: capital $100,000, profit $20,000, mudarib gets 30%',
+        types
+      );
+
+      expect(result?.parameters).toMatchObject({
+        capitalProviderRatio: 0.7,
+        entrepreneurRatio: 0.3,
+      });
+    });
+
+    it('should leave out values the query does not give', () => {
+      const result = extractor.extract('Calculate my 60:40 mudharabah profit', types);
+
+      expect(result?.parameters).toEqual({ capitalProviderRatio: 0.6, entrepreneurRatio: 0.4 });
+    });
+  });
+
+  describe('Murabaha and Ijarah', () => {
+    it('should read cost, markup, tenor in years and a percentage down payment', () => {
+      const result = extractor.extract(
+        'Murabaha for a car costing RM 80,000 with 10% markup over 5 years, 20% down',
+        types
+      );
+
+      expect(result).toEqual({
+        type: 'murabaha',
+        parameters: {
+          costPrice: 80000,
+          markupRate: 0.1,
+          tenorMonths: 60,
+          downPayment: 16000,
+          currency: 'MYR',
+        },
+      });
+    });
+
+    it('should recognise an IMBT lease', () => {
+      const result = extractor.extract(
+        'IMBT lease of equipment worth 500k for 36 months at 6% annual rental',
+        types
+      );
+
+      expect(result).toEqual({
+        type: 'ijarah',
+        parameters: {
+          leaseType: 'muntahia_bittamleek',
+          assetCost: 500000,
+          leaseTermMonths: 36,
+          annualRentalRate: 0.06,
+        },
+      });
+    });
+  });
+
+  describe('Zakat', () => {
+    it('should read assets, gold and liabilities', () => {
+      const result = extractor.extract(
+        'Zakat on cash 20,000, 100g of gold at $60 per gram, debts 5,000',
+        types
+      );
+
+      expect(result?.parameters).toEqual({
+        assets: { cash: 20000, goldGrams: 100 },
+        liabilities: 5000,
+        goldPricePerGram: 60,
+      });
+    });
+  });
+
+  describe('Type detection', () => {
+    it('should leave comparisons of several contracts to the model', () => {
+      expect(
+        extractor.extract('Compare a 60/40 mudharabah with an equal-capital musharakah', types)
+      ).toBeNull();
+    });
+
+    it('should leave what-if scenario analysis to the model', () => {
+      expect(
+        extractor.extract('What if our musharakah profit ranges from -20k to 40k at 60:40?', [
+          ...types,
+          'scenario_analysis',
+        ])
+      ).toBeNull();
+    });
+
+    it('should prefer the specific contract over the one it contains', () => {
+      // Diminishing Musharakah is not parsed by rules, so nothing comes back
+      expect(
+        extractor.extract('Diminishing musharakah on a 500k house over 20 years', types)
+      ).toBeNull();
+    });
+
+    it('should ignore types the server does not offer', () => {
+      expect(extractor.extract('Musharakah with A 100 and B 200, profit 30', ['zakat'])).toBeNull();
+    });
+
+    it('should return null when no calculation is named', () => {
+      expect(extractor.extract('Calculate something', types)).toBeNull();
+    });
+  });
+});
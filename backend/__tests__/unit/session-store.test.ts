@@ -226,6 +226,34 @@ describe('SessionStore', () => {
     });
   });
 
+  describe('pendingCalculation', () => {
+    const pending = {
+      type: 'mudharabah',
+      parameters: { capitalProviderRatio: 0.6, entrepreneurRatio: 0.4 },
+      missing: [{ name: 'capitalAmount', description: 'Total capital provided' }],
+      query: 'Calculate my 60:40 mudharabah profit',
+    };
+
+    it('should return the pending calculation once', () => {
+      const sessionId = sessionStore.createSession();
+
+      sessionStore.setPendingCalculation(sessionId, pending);
+
+      expect(sessionStore.takePendingCalculation(sessionId)).toEqual(pending);
+      expect(sessionStore.takePendingCalculation(sessionId)).toBeUndefined();
+    });
+
+    it('should return undefined for non-existent session', () => {
+      expect(sessionStore.takePendingCalculation('non-existent-id')).toBeUndefined();
+    });
+
+    it('should throw error when setting on non-existent session', () => {
+      expect(() => {
+        sessionStore.setPendingCalculation('non-existent-id', pending);
+      }).toThrow('Session not found');
+    });
+  });
+
   describe('deleteSession', () => {
     it('should delete existing session', () => {
       const sessionId = sessionStore.createSession();
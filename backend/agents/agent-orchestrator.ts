@@ -1,10 +1,20 @@
 import type { RoutingAgent } from './routing-agent';
 import type { KnowledgeAgent } from './knowledge-agent';
-import type { CalculationAgent } from './calculation-agent';
+import type {
+  CalculationAgent,
+  MissingParametersError,
+  RejectedParametersError,
+} from './calculation-agent';
 import type { ComplianceAgent } from './compliance-agent';
 import type { SessionStore, Session } from '@/services/session-store';
 import type { StreamEvent, OrchestratorResult } from '@/types/orchestrator.types';
-import type { CalculationType, ComplianceResult } from './types';
+import type {
+  CalculationResult,
+  CalculationType,
+  ComplianceResult,
+  PendingCalculation,
+  RoutingResult,
+} from './types';
 
 /**
  * Custom error for orchestrator failures
@@ -56,20 +66,51 @@ export class AgentOrchestrator {
 
       // Step 2: Route query
       streamCallback({ type: 'status', data: 'Analyzing query...' });
-      const routing = await this.routingAgent.process(query);
+      let routing: RoutingResult = await this.routingAgent.process(query);
       streamCallback({ type: 'routing', data: routing });
 
       // Step 3: Route to specialized agent
       let agentResponse: string;
       let sources: Array<{ documentId: string; relevance: number }> = [];
-      let calculation: CalculationType | undefined;
+      let calculation: CalculationType | CalculationType[] | undefined;
 
-      if (routing.category === 'calculation') {
+      // A calculation waiting on a clarification is tried first: a reply such as
+      // "50,000 and 30,000" does not route as a calculation on its own
+      const pending = this.sessionStore.takePendingCalculation(sessionId);
+      let calcResult: CalculationResult | undefined;
+
+      if (routing.category === 'calculation' || pending) {
         // Calculation agent (no streaming)
         streamCallback({ type: 'status', data: 'Performing calculation...' });
-        const calcResult = await this.calculationAgent.process(query);
+        try {
+          calcResult = await this.calculationAgent.process(query, pending);
+        } catch (error) {
+          // A reply that fills none of the missing values is a new question:
+          // drop the calculation and answer it where it was routed
+          if (routing.category === 'calculation' || !this.fillsNone(pending, error)) {
+            routing = { ...routing, category: 'calculation' };
+            if (this.isMissingParameters(error)) {
+              return this.requestClarification(
+                query,
+                sessionId,
+                error,
+                routing,
+                startTime,
+                streamCallback
+              );
+            }
+            if (this.isRejectedParameters(error)) {
+              return this.answerDirectly(query, sessionId, error.explanation, routing, startTime);
+            }
+            throw error;
+          }
+        }
+      }
+
+      if (calcResult) {
+        routing = { ...routing, category: 'calculation' };
         agentResponse = calcResult.result;
-        calculation = calcResult.calculation;
+        calculation = calcResult.calculations ?? calcResult.calculation;
       } else {
         // Knowledge agent (with streaming)
         streamCallback({
@@ -164,6 +205,93 @@ export class AgentOrchestrator {
     }
   }
 
+  /**
+   * Ask for the values a calculation is missing and keep what was extracted
+   */
+  private requestClarification(
+    query: string,
+    sessionId: string,
+    error: MissingParametersError,
+    routing: RoutingResult,
+    startTime: number,
+    streamCallback: (event: StreamEvent) => void
+  ): OrchestratorResult {
+    const { pending, question } = error;
+
+    this.sessionStore.setPendingCalculation(sessionId, pending);
+    streamCallback({
+      type: 'clarification',
+      data: { calculationType: pending.type, missing: pending.missing, question },
+    });
+
+    return this.answerDirectly(query, sessionId, question, routing, startTime);
+  }
+
+  /**
+   * Answer with a message built from tool schemas (a clarification question or
+   * the rules a calculator refused the values under), so there is nothing to
+   * validate for compliance
+   */
+  private answerDirectly(
+    query: string,
+    sessionId: string,
+    answer: string,
+    routing: RoutingResult,
+    startTime: number
+  ): OrchestratorResult {
+    this.sessionStore.updateSession(sessionId, {
+      role: 'user',
+      content: query,
+      timestamp: new Date(),
+      category: routing.category,
+    });
+    this.sessionStore.updateSession(sessionId, {
+      role: 'assistant',
+      content: answer,
+      timestamp: new Date(),
+      compliance: 'COMPLIANT',
+    });
+
+    return {
+      answer,
+      category: routing.category,
+      metadata: {
+        routingConfidence: routing.confidence,
+        processingTime: Date.now() - startTime,
+        complianceStatus: 'COMPLIANT',
+        sessionId,
+      },
+    };
+  }
+
+  private isMissingParameters(error: unknown): error is MissingParametersError {
+    return (
+      error instanceof Error &&
+      error.name === 'CalculationAgentError' &&
+      (error as MissingParametersError).code === 'MISSING_PARAMETERS'
+    );
+  }
+
+  /**
+   * Whether a reply to a clarification left every missing value of the pending
+   * calculation still missing
+   */
+  private fillsNone(pending: PendingCalculation | undefined, error: unknown): boolean {
+    if (!pending || !this.isMissingParameters(error) || error.pending.type !== pending.type) {
+      return false;
+    }
+    const stillMissing = new Set(error.pending.missing.map((m) => m.name));
+    return pending.missing.every((m) => stillMissing.has(m.name));
+  }
+
+  private isRejectedParameters(error: unknown): error is RejectedParametersError {
+    return (
+      error instanceof Error &&
+      error.name === 'CalculationAgentError' &&
+      typeof (error as RejectedParametersError).explanation === 'string'
+    );
+  }
+
   /**
    * Build conversation context from last 3 user messages
    */
@@ -1,13 +1,29 @@
 import { BasePromptBuilder } from './base-prompt-builder';
 
+// Calculator offered to the extractor, as listed by the MCP server
+export interface CalculationToolSpec {
+  // Tool name without the calculate_ prefix, used as the extraction "type"
+  type: string;
+  description?: string;
+  inputSchema: Record<string, unknown>;
+}
+
 export class CalculationPromptBuilder extends BasePromptBuilder<string> {
-  buildPrompt(query: string): string {
+  /**
+   * @param query - User query to extract parameters from
+   * @param tools - Calculators the MCP server currently offers; the extracted
+   *   type must be one of them
+   */
+  buildPrompt(query: string, tools: CalculationToolSpec[] = []): string {
     return [
       this.buildSystemPrompt(),
+      this.buildToolsSection(tools),
       this.buildOutputFormat(),
       this.buildExamples(),
       this.buildQuerySection(query),
-    ].join('\n\n');
+    ]
+      .filter(Boolean)
+      .join('\n\n');
   }
 
   protected buildSystemPrompt(): string {
@@ -19,12 +35,44 @@ CALCULATION TYPES:
    - All partners contribute capital
    - Profits distributed by pre-agreed ratio (or capital ratio if not specified)
    - Losses ALWAYS distributed by capital ratio (Shariah requirement)
+   - If partners add or withdraw capital during the period, capital is time-weighted
 
 2. mudharabah - Capital provider (Rabb al-Mal) + Entrepreneur (Mudarib)
    - Capital provider supplies 100% capital
    - Entrepreneur provides labor and expertise
    - Profits shared by pre-agreed ratio
    - Losses borne entirely by capital provider (Shariah requirement)
+   - Unless the loss was caused by the Mudarib's negligence or misconduct (ta'addi/taqsir)
+   - Prior-period losses are recovered from profit before it is shared
+
+3. murabaha - Cost-plus sale where the bank buys an asset and sells it to the customer
+   - Cost price and agreed markup are disclosed to the customer
+   - Selling price is fixed at contract time and paid in monthly installments
+   - Keywords: Murabaha, cost-plus, markup, installments, car/home/asset financing
+
+4. ijarah - Lease where the lessor owns the asset and the lessee pays rental
+   - operating: asset returns to the lessor at the end
+   - muntahia_bittamleek (IMBT): ownership transfers to the lessee at the end
+   - Keywords: Ijarah, lease, rental, IMBT, lease-to-own
+
+5. diminishing_musharakah - Bank and customer co-own an asset (usually a home)
+   - Customer buys the bank's share in monthly units
+   - Customer pays rent only on the share the bank still owns
+   - Keywords: diminishing Musharakah, Musharakah Mutanaqisah, co-ownership, home financing buyout
+
+6. zakat - Obligatory 2.5% almsgiving on wealth above the nisab threshold
+   - Assets: cash, gold and silver (in grams), trade goods, receivables, investments
+   - Short-term debts are deducted; nisab is 85g gold or 595g silver
+   - Keywords: zakat, nisab, haul, zakatable wealth
+
+7. mudharabah_pool - Pooled investment account with many depositors and the bank as Mudarib
+   - Depositors' profit shared by weighted amount (deposit × tenor weightage)
+   - Optional Profit Equalisation Reserve (PER) and Investment Risk Reserve (IRR)
+   - Keywords: investment pool, depositors, weightage, PER, IRR, investment account, pooled deposits
+
+8. scenario_analysis - What-if matrix for a Musharakah or Mudharabah across profit/loss levels and ratios
+   - Shows each party's outcome for every profit/loss level and profit-sharing ratio
+   - Keywords: what if, scenarios, sensitivity, range of profits, different ratios
 
 PARAMETERS TO EXTRACT:
 
@@ -32,13 +80,69 @@ For Musharakah:
   - partners: Array of {name: string, investment: number}
   - totalProfit: number (negative for loss)
   - profitRatio: Array of numbers (optional, must sum to 1.0)
+  - partners[].capitalMovements: Array of {date: "YYYY-MM-DD", amount: number} (optional, negative for withdrawal)
+  - periodStart, periodEnd: "YYYY-MM-DD" (required only with capitalMovements)
+  - weighting: "daily" | "monthly" (optional, default daily)
 
 For Mudharabah:
   - capitalAmount: number
-  - profit: number (negative for loss)
+  - profit: number (net profit, negative for loss; omit if grossRevenue is given)
+  - grossRevenue: number (optional, use with expenses instead of profit)
+  - expenses: number (optional, allowable operating expenses)
+  - priorLosses: number (optional, unrecovered losses from earlier periods)
+  - mudaribNegligence: boolean (optional, true only if negligence/misconduct/breach is stated)
   - capitalProviderRatio: number (0-1)
   - entrepreneurRatio: number (0-1, must sum to 1.0 with capitalProviderRatio)
 
+For Murabaha:
+  - costPrice: number (price the bank paid for the asset)
+  - markupRate: number (markup on cost as decimal, 0.15 for 15%)
+  - downPayment: number (optional, omit if not mentioned)
+  - tenorMonths: number (number of monthly installments)
+
+For Ijarah:
+  - leaseType: "operating" | "muntahia_bittamleek"
+  - assetCost: number
+  - leaseTermMonths: number
+  - annualRentalRate: number (decimal, 0.06 for 6%)
+  - reviewPeriodMonths: number (optional, only if rental is reviewed)
+  - reviewedRates: Array of numbers (optional, rates for later review periods)
+  - residualValue: number (optional, residual or transfer value)
+  - majorMaintenanceBy: "lessor" | "lessee" (optional)
+  - annualMaintenanceCost: number (optional)
+
+For Diminishing Musharakah:
+  - bank: {name: string, investment: number} (financier's share)
+  - customer: {name: string, investment: number} (customer's share, e.g. down payment)
+  - tenorMonths: number
+  - annualRentalRate: number (decimal, rent on the bank's share)
+
+For Zakat:
+  - assets: {cash?, goldGrams?, silverGrams?, tradeGoods?, receivables?, investments?} (omit categories not mentioned)
+  - liabilities: number (optional, short-term debts)
+  - goldPricePerGram: number (optional, required if gold is held or nisab is gold)
+  - silverPricePerGram: number (optional, required if silver is held or nisab is silver)
+  - nisabBasis: "gold" | "silver" (optional, default gold)
+  - haulCompleted: boolean (optional, false only if the user says a year has not passed)
+
+For Mudharabah Pool:
+  - depositors: Array of {name: string, amount: number, tenorMonths: number}
+  - weightages: Array of {tenorMonths: number, weightage: number} (one per tenor)
+  - grossIncome: number (negative for loss)
+  - mudaribShareRatio: number (0-1, bank's share as Mudarib)
+  - perRate: number (optional, PER appropriation from gross income, 0-1)
+  - irrRate: number (optional, IRR appropriation from depositors' share, 0-1)
+
+For Scenario Analysis:
+  - contractType: "musharakah" | "mudharabah"
+  - partners: Array of {name: string, investment: number} (Musharakah)
+  - capitalAmount: number (Mudharabah)
+  - profits: Array of numbers (profit/loss levels, negative for loss) OR profitRange: {from, to, step}
+  - profitRatios: Array of ratio arrays, each summing to 1.0 (per partner for Musharakah, [capital provider, entrepreneur] for Mudharabah)
+
+For all types:
+  - currency: string (optional, ISO 4217 code such as "MYR", "IDR" or "KWD")
+
 EXTRACTION RULES:
 1. Convert all percentages to decimals (60% → 0.6, 25% → 0.25)
 2. Normalize ratios that don't sum to 1:
@@ -48,26 +152,120 @@ EXTRACTION RULES:
 4. If profit ratio not specified in Musharakah, omit profitRatio field (will default to capital ratio)
 5. For Mudharabah, if only one ratio given (e.g., "entrepreneur gets 30%"), calculate the other (0.7, 0.3)
 6. Negative amounts indicate losses
-7. Extract numerical values accurately, including decimals and large numbers`;
+7. Extract numerical values accurately, including decimals and large numbers
+8. For Murabaha, convert tenor in years to months (5 years → 60)
+9. For Murabaha, if markup is given as an amount, convert to a rate of cost price ($3k on $20k → 0.15)
+10. For Ijarah, use "muntahia_bittamleek" when the lessee ends up owning the asset, otherwise "operating"
+11. For Diminishing Musharakah, use "Bank" and "Customer" as names if not specified; if only the asset price and bank share are given, the customer's investment is the remainder
+12. For Musharakah capital movements, "investment" is the capital at periodStart; if no year is given for the period, assume a calendar year
+13. For Zakat, convert gold/silver weights to grams (1 tola = 11.66g, 1 oz = 31.1g) and omit prices that are not given
+14. For Mudharabah, give either profit or grossRevenue (with expenses), never both
+15. Use mudharabah_pool (not mudharabah) when there are several depositors or tenor weightages; name depositors "Depositor A", "Depositor B", etc. if not specified
+16. Set currency only when the query names one: RM → MYR, Rp → IDR, KD → KWD, SAR/riyal → SAR, AED/dirham → AED, Rs → PKR, € → EUR, £ → GBP, US$/USD → USD; omit it for a bare "$" or when no currency is given
+17. Never invent values: if the query names a calculation but leaves out amounts, ratios or other required values, return the type with only the parameters the query states (parameters may be {})
+18. A "Follow-up with the missing ..." line answers an earlier question; combine its values with the query above it
+19. When the query asks for several calculations (compare, versus, alternatives), return {"calculations": [...]} with one entry per calculation in the order asked, repeating shared values such as the profit in each; return a single object otherwise
+20. Use scenario_analysis (not a list of calculations) when one contract is evaluated over several profit/loss values or ratios ("what if", "from -20k to 40k", "at 50:50 and 70:30")`;
   }
 
   protected buildOutputFormat(): string {
     return `OUTPUT FORMAT (strict JSON only, no markdown):
 {
-  "type": "musharakah" | "mudharabah",
+  "type": string,  // one of the AVAILABLE CALCULATORS types
   "parameters": {
     // For musharakah:
     "partners": [{"name": string, "investment": number}, ...],
     "totalProfit": number,
     "profitRatio"?: [number, ...]  // optional
+    "periodStart"?: "YYYY-MM-DD", "periodEnd"?: "YYYY-MM-DD",  // with capitalMovements
+    "weighting"?: "daily" | "monthly"
 
     // For mudharabah:
     "capitalAmount": number,
-    "profit": number,
+    "profit": number,  // or "grossRevenue": number, "expenses"?: number
+    "priorLosses"?: number,
+    "mudaribNegligence"?: boolean,
     "capitalProviderRatio": number,
     "entrepreneurRatio": number
+
+    // For murabaha:
+    "costPrice": number,
+    "markupRate": number,
+    "downPayment"?: number,  // optional
+    "tenorMonths": number
+
+    // For ijarah:
+    "leaseType": "operating" | "muntahia_bittamleek",
+    "assetCost": number,
+    "leaseTermMonths": number,
+    "annualRentalRate": number,
+    "reviewPeriodMonths"?: number,
+    "reviewedRates"?: [number, ...],
+    "residualValue"?: number,
+    "majorMaintenanceBy"?: "lessor" | "lessee",
+    "annualMaintenanceCost"?: number
+
+    // For diminishing_musharakah:
+    "bank": {"name": string, "investment": number},
+    "customer": {"name": string, "investment": number},
+    "tenorMonths": number,
+    "annualRentalRate": number
+
+    // For zakat:
+    "assets": {"cash"?: number, "goldGrams"?: number, "silverGrams"?: number, "tradeGoods"?: number, "receivables"?: number, "investments"?: number},
+    "liabilities"?: number,
+    "goldPricePerGram"?: number,
+    "silverPricePerGram"?: number,
+    "nisabBasis"?: "gold" | "silver",
+    "haulCompleted"?: boolean
+
+    // For mudharabah_pool:
+    "depositors": [{"name": string, "amount": number, "tenorMonths": number}, ...],
+    "weightages": [{"tenorMonths": number, "weightage": number}, ...],
+    "grossIncome": number,
+    "mudaribShareRatio": number,
+    "perRate"?: number,
+    "irrRate"?: number
+
+    // For scenario_analysis:
+    "contractType": "musharakah" | "mudharabah",
+    "partners"?: [{"name": string, "investment": number}, ...],  // musharakah
+    "capitalAmount"?: number,  // mudharabah
+    "profits"?: [number, ...],  // or "profitRange": {"from": number, "to": number, "step": number}
+    "profitRatios"?: [[number, ...], ...]
+
+    // For all types:
+    "currency"?: string  // ISO 4217 code, omit if not stated
+
+    // For any other calculator: the properties of its JSON Schema
   }
-}`;
+}
+
+For several calculations in one query:
+{"calculations": [{"type": string, "parameters": {...}}, ...]}`;
+  }
+
+  private buildToolsSection(tools: CalculationToolSpec[]): string {
+    if (tools.length === 0) {
+      return '';
+    }
+
+    const entries = tools.map(({ type, description, inputSchema }) => {
+      // $schema is noise to the model
+      const schema = { ...inputSchema };
+      delete schema.$schema;
+      return [
+        `- ${type}${description ? `: ${description}` : ''}`,
+        `  Parameters (JSON Schema): ${JSON.stringify(schema)}`,
+      ].join('\n');
+    });
+
+    return [
+      'AVAILABLE CALCULATORS ("type" must be one of these):',
+      ...entries,
+      '',
+      'For a calculator not described under CALCULATION TYPES, extract parameters exactly as its JSON Schema defines them.',
+    ].join('\n');
   }
 
   protected buildExamples(): string {
@@ -128,6 +326,26 @@ EXTRACTION RULES:
         ),
         description: 'Musharakah with loss (negative profit)',
       },
+      {
+        input:
+          'Budi invests Rp 150 juta and Sari Rp 100 juta in a Musharakah, profit is Rp 37.5 juta',
+        output: JSON.stringify(
+          {
+            type: 'musharakah',
+            parameters: {
+              partners: [
+                { name: 'Budi', investment: 150000000 },
+                { name: 'Sari', investment: 100000000 },
+              ],
+              totalProfit: 37500000,
+              currency: 'IDR',
+            },
+          },
+          null,
+          2
+        ),
+        description: 'Musharakah in Indonesian rupiah (juta = million)',
+      },
       {
         input: 'Mudharabah: capital $100k, 60-40 split, profit $30k',
         output: JSON.stringify(
@@ -218,6 +436,36 @@ EXTRACTION RULES:
         ),
         description: 'Multiple partners with names and custom ratio',
       },
+      {
+        input:
+          'Musharakah for 2024: Ali starts with $100k and adds $50k on 1 July, Sara starts with $100k and withdraws $40k on 15 October. Loss of $20k, weight monthly',
+        output: JSON.stringify(
+          {
+            type: 'musharakah',
+            parameters: {
+              partners: [
+                {
+                  name: 'Ali',
+                  investment: 100000,
+                  capitalMovements: [{ date: '2024-07-01', amount: 50000 }],
+                },
+                {
+                  name: 'Sara',
+                  investment: 100000,
+                  capitalMovements: [{ date: '2024-10-15', amount: -40000 }],
+                },
+              ],
+              totalProfit: -20000,
+              periodStart: '2024-01-01',
+              periodEnd: '2024-12-31',
+              weighting: 'monthly',
+            },
+          },
+          null,
+          2
+        ),
+        description: 'Musharakah with mid-period capital movements (time-weighted)',
+      },
       {
         input: 'Partnership with investments of $5 and $3, profit is $2',
         output: JSON.stringify(
@@ -253,6 +501,283 @@ EXTRACTION RULES:
         ),
         description: 'Islamic terminology (Mudarib)',
       },
+      {
+        input:
+          'Mudharabah with $200k capital: revenue $60k, expenses $25k, and $15k of last year losses still unrecovered. 70:30 split',
+        output: JSON.stringify(
+          {
+            type: 'mudharabah',
+            parameters: {
+              capitalAmount: 200000,
+              grossRevenue: 60000,
+              expenses: 25000,
+              priorLosses: 15000,
+              capitalProviderRatio: 0.7,
+              entrepreneurRatio: 0.3,
+            },
+          },
+          null,
+          2
+        ),
+        description: 'Mudharabah with expenses and prior-period loss recovery',
+      },
+      {
+        input:
+          'The mudarib breached the investment terms and lost $30k of the $100k capital. Profit split was 60/40',
+        output: JSON.stringify(
+          {
+            type: 'mudharabah',
+            parameters: {
+              capitalAmount: 100000,
+              profit: -30000,
+              mudaribNegligence: true,
+              capitalProviderRatio: 0.6,
+              entrepreneurRatio: 0.4,
+            },
+          },
+          null,
+          2
+        ),
+        description: 'Mudharabah loss caused by mudarib misconduct',
+      },
+      {
+        input: 'Murabaha car financing: cost $20,000, 15% markup, $5,000 down payment, 36 months',
+        output: JSON.stringify(
+          {
+            type: 'murabaha',
+            parameters: {
+              costPrice: 20000,
+              markupRate: 0.15,
+              downPayment: 5000,
+              tenorMonths: 36,
+            },
+          },
+          null,
+          2
+        ),
+        description: 'Murabaha with down payment',
+      },
+      {
+        input: 'Bank buys a house for $300k and sells it to me with $60k profit over 5 years',
+        output: JSON.stringify(
+          {
+            type: 'murabaha',
+            parameters: {
+              costPrice: 300000,
+              markupRate: 0.2,
+              tenorMonths: 60,
+            },
+          },
+          null,
+          2
+        ),
+        description: 'Murabaha with markup amount and tenor in years',
+      },
+      {
+        input: 'Murabaha for a car costing RM 85,000 with 12% markup over 48 months',
+        output: JSON.stringify(
+          {
+            type: 'murabaha',
+            parameters: {
+              costPrice: 85000,
+              markupRate: 0.12,
+              tenorMonths: 48,
+              currency: 'MYR',
+            },
+          },
+          null,
+          2
+        ),
+        description: 'Murabaha in Malaysian ringgit',
+      },
+      {
+        input:
+          'Ijarah muntahia bittamleek on $120k equipment, 3 years at 6% rental, ownership transferred for $1,000 at the end',
+        output: JSON.stringify(
+          {
+            type: 'ijarah',
+            parameters: {
+              leaseType: 'muntahia_bittamleek',
+              assetCost: 120000,
+              leaseTermMonths: 36,
+              annualRentalRate: 0.06,
+              residualValue: 1000,
+            },
+          },
+          null,
+          2
+        ),
+        description: 'Lease ending with ownership (IMBT)',
+      },
+      {
+        input:
+          'Operating lease of a $50k vehicle for 24 months at 5%, rental reviewed yearly to 5.5%, residual value $20k',
+        output: JSON.stringify(
+          {
+            type: 'ijarah',
+            parameters: {
+              leaseType: 'operating',
+              assetCost: 50000,
+              leaseTermMonths: 24,
+              annualRentalRate: 0.05,
+              reviewPeriodMonths: 12,
+              reviewedRates: [0.055],
+              residualValue: 20000,
+            },
+          },
+          null,
+          2
+        ),
+        description: 'Operating Ijarah with rental review',
+      },
+      {
+        input:
+          'Diminishing musharakah for a $500k house, I pay $100k and the bank $400k, 20 years, 5% rent',
+        output: JSON.stringify(
+          {
+            type: 'diminishing_musharakah',
+            parameters: {
+              bank: { name: 'Bank', investment: 400000 },
+              customer: { name: 'Customer', investment: 100000 },
+              tenorMonths: 240,
+              annualRentalRate: 0.05,
+            },
+          },
+          null,
+          2
+        ),
+        description: 'Diminishing Musharakah home financing',
+      },
+      {
+        input: 'How much zakat on 100g gold and $5,000 cash? Gold is $65 per gram',
+        output: JSON.stringify(
+          {
+            type: 'zakat',
+            parameters: {
+              assets: { goldGrams: 100, cash: 5000 },
+              goldPricePerGram: 65,
+            },
+          },
+          null,
+          2
+        ),
+        description: 'Zakat on gold and cash',
+      },
+      {
+        input:
+          'My business has $40k inventory, $10k receivables, $15k in the bank and owes suppliers $8k. Silver is $0.80/g, use silver nisab',
+        output: JSON.stringify(
+          {
+            type: 'zakat',
+            parameters: {
+              assets: { tradeGoods: 40000, receivables: 10000, cash: 15000 },
+              liabilities: 8000,
+              silverPricePerGram: 0.8,
+              nisabBasis: 'silver',
+            },
+          },
+          null,
+          2
+        ),
+        description: 'Business Zakat with liabilities and silver nisab',
+      },
+      {
+        input:
+          'Investment pool earned $10k. Ahmed deposited $100k for 1 month (weightage 0.5), Fatima $50k for 12 months (weightage 1.0). Bank takes 30% as mudarib, 10% PER and 5% IRR',
+        output: JSON.stringify(
+          {
+            type: 'mudharabah_pool',
+            parameters: {
+              depositors: [
+                { name: 'Ahmed', amount: 100000, tenorMonths: 1 },
+                { name: 'Fatima', amount: 50000, tenorMonths: 12 },
+              ],
+              weightages: [
+                { tenorMonths: 1, weightage: 0.5 },
+                { tenorMonths: 12, weightage: 1.0 },
+              ],
+              grossIncome: 10000,
+              mudaribShareRatio: 0.3,
+              perRate: 0.1,
+              irrRate: 0.05,
+            },
+          },
+          null,
+          2
+        ),
+        description: 'Mudharabah investment pool with tenor weightages and reserves',
+      },
+      {
+        input: 'Calculate my 60:40 mudharabah profit',
+        output: JSON.stringify(
+          {
+            type: 'mudharabah',
+            parameters: {
+              capitalProviderRatio: 0.6,
+              entrepreneurRatio: 0.4,
+            },
+          },
+          null,
+          2
+        ),
+        description: 'Capital and profit not given - omitted, not guessed',
+      },
+      {
+        input:
+          'Compare a 60/40 Mudharabah on $200k capital with a Musharakah where Ali and Omar each put in $100k, on the same $50k profit',
+        output: JSON.stringify(
+          {
+            calculations: [
+              {
+                type: 'mudharabah',
+                parameters: {
+                  capitalAmount: 200000,
+                  profit: 50000,
+                  capitalProviderRatio: 0.6,
+                  entrepreneurRatio: 0.4,
+                },
+              },
+              {
+                type: 'musharakah',
+                parameters: {
+                  partners: [
+                    { name: 'Ali', investment: 100000 },
+                    { name: 'Omar', investment: 100000 },
+                  ],
+                  totalProfit: 50000,
+                },
+              },
+            ],
+          },
+          null,
+          2
+        ),
+        description: 'Comparison - one entry per calculation, shared profit repeated',
+      },
+      {
+        input:
+          'What if our Musharakah (Ali $50k, Sara $30k) makes anything from a $20k loss to a $40k profit, in steps of $20k, at 50:50 or 70:30?',
+        output: JSON.stringify(
+          {
+            type: 'scenario_analysis',
+            parameters: {
+              contractType: 'musharakah',
+              partners: [
+                { name: 'Ali', investment: 50000 },
+                { name: 'Sara', investment: 30000 },
+              ],
+              profitRange: { from: -20000, to: 40000, step: 20000 },
+              profitRatios: [
+                [0.5, 0.5],
+                [0.7, 0.3],
+              ],
+            },
+          },
+          null,
+          2
+        ),
+        description: 'What-if - one scenario analysis, not several calculations',
+      },
     ];
 
     return this.formatExamples(examples);
@@ -62,7 +62,10 @@ If compliant, return COMPLIANT. If violations found, return FLAGGED with details
 
    IMPORTANT MUDHARABAH RULES:
    - Loss is borne ONLY by capital provider
-   - Entrepreneur loses time/effort only`;
+   - Entrepreneur loses time/effort only
+   - EXCEPTION: If the loss is caused by the entrepreneur's negligence or misconduct (ta'addi/taqsir), the entrepreneur bears it = VALID
+   - Allowable operating expenses are deducted before profit is shared = VALID
+   - Prior-period losses are recovered from profit before sharing (capital made whole first) = VALID`;
   }
 
   protected buildOutputFormat(): string {
@@ -131,6 +134,18 @@ FLAGGED|0.88|Response normalizes interest-based loans|Promotes riba,Misleading t
         output:
           'FLAGGED|0.91|Contains factual error about Mudharabah loss distribution|Inaccurate Islamic concepts|Clarify that capital provider bears all loss in Mudharabah, entrepreneur loses time/effort',
       },
+      {
+        input:
+          "The Mudarib invested outside the agreed terms, causing a $30,000 loss. Due to this misconduct (ta'addi), the Mudarib bears the $30,000 loss and the capital provider's capital is made whole.",
+        output:
+          'COMPLIANT|0.93|Correctly applies Mudarib liability for negligence or misconduct in Mudharabah|NONE|NONE',
+      },
+      {
+        input:
+          'Mudharabah net result: revenue $60,000 less $25,000 operating expenses = $35,000. $15,000 of prior losses is first recovered to restore capital, leaving $20,000 shared 70:30: capital provider $14,000, Mudarib $6,000.',
+        output:
+          'COMPLIANT|0.94|Valid Mudharabah with expenses deducted and prior losses recovered before profit sharing|NONE|NONE',
+      },
       {
         input: 'Forex trading is completely halal as long as you follow Islamic principles.',
         output:
@@ -22,7 +22,7 @@ CATEGORIES:
 - products: Questions about specific Islamic financial products (Murabaha, Ijarah, Sukuk, Takaful, etc.)
 - compliance: Questions about Shariah compliance verification, auditing, governance
 - comparison: Questions comparing Islamic vs conventional finance, or comparing Islamic products
-- calculation: Questions requiring profit-sharing calculations (Mudharabah, Musharakah profit distribution)
+- calculation: Questions requiring numeric calculations (Mudharabah, Musharakah profit distribution, Murabaha selling price and installments, Ijarah rental schedules, Diminishing Musharakah buyout schedules, Zakat due on wealth, Mudharabah investment pool distributions, Salam and Istisna' payment timelines and profit, Sukuk distributions and redemption, Takaful fund surplus or deficit and its distribution, Qard al-Hasan repayment schedules and fees, Shariah stock screening ratios and dividend purification)
 - general: Greetings, small talk, unclear queries not fitting other categories`;
   }
 
@@ -100,6 +100,47 @@ CATEGORIES:
         input: 'Musharakah profit-sharing formula?',
         output: 'calculation|0.86|Question about calculation methodology',
       },
+      {
+        input:
+          'Murabaha for a $20,000 car with 10% markup over 24 months - what are my installments?',
+        output: 'calculation|0.93|Requires Murabaha price and installment calculation',
+      },
+      {
+        input: 'What would monthly rentals be on a 3-year Ijarah for $120k equipment at 6%?',
+        output: 'calculation|0.92|Requires Ijarah rental schedule calculation',
+      },
+      {
+        input: 'How much zakat on 100g gold and $5,000 cash?',
+        output: 'calculation|0.95|Requires Zakat amount calculation',
+      },
+      {
+        input: 'How is pool profit shared between depositors with 0.5 and 1.0 weightages?',
+        output: 'calculation|0.91|Requires Mudharabah pool distribution calculation',
+      },
+      {
+        input:
+          'Bank pays $250/tonne upfront for 100 tonnes of wheat in 6 months and sells it on at 8% - profit?',
+        output: 'calculation|0.92|Requires Salam and parallel Salam calculation',
+      },
+      {
+        input:
+          'Compare a $1M 5-year Ijarah sukuk at 5% with a Musharakah sukuk expecting 5.5% - payout per $1,000 certificate?',
+        output: 'calculation|0.91|Requires Sukuk distribution comparison with amounts',
+      },
+      {
+        input:
+          'Our takaful fund took $2M contributions with a 25% wakalah fee and paid $1.2M in claims - what surplus goes back to participants?',
+        output: 'calculation|0.92|Requires Takaful fund surplus calculation',
+      },
+      {
+        input: 'Interest-free loan of 12,000 over 12 months with a 2% admin fee - what do I repay?',
+        output: 'calculation|0.91|Requires Qard al-Hasan repayment schedule and fee check',
+      },
+      {
+        input:
+          'Is this stock halal? Debt is 25% of market cap and 3% of revenue is interest - how much of my $800 dividend do I donate?',
+        output: 'calculation|0.92|Requires Shariah screening ratios and purification amount',
+      },
       {
         input: 'Hi there',
         output: 'general|0.90|Simple greeting',
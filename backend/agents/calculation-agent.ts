@@ -1,7 +1,32 @@
 import { ChatOllama } from '@langchain/ollama';
-import { CalculationPromptBuilder } from './builders/calculation-prompt-builder';
-import { MCPClient, MCPClientError, MCPToolResult } from '@/lib/mcp-client';
-import { CalculationResult } from './types';
+import { AjvJsonSchemaValidator } from '@modelcontextprotocol/sdk/validation/ajv';
+import type { JsonSchemaType, JsonSchemaValidator } from '@modelcontextprotocol/sdk/validation';
+import {
+  CalculationPromptBuilder,
+  type CalculationToolSpec,
+} from './builders/calculation-prompt-builder';
+import { RuleBasedExtractor, type RuleExtraction } from './extractors';
+import { MCPClient, MCPClientError, MCPToolResult, type MCPToolDefinition } from '@/lib/mcp-client';
+import {
+  DiminishingMusharakahOutputSchema,
+  IjarahOutputSchema,
+  MudharabahOutputSchema,
+  MudharabahPoolOutputSchema,
+  MurabahaOutputSchema,
+  MusharakahOutputSchema,
+  ScenarioAnalysisOutputSchema,
+  ZakatOutputSchema,
+  type DiminishingMusharakahOutput,
+  type IjarahOutput,
+  type MudharabahOutput,
+  type MudharabahPoolOutput,
+  type MurabahaOutput,
+  type MusharakahOutput,
+  type ScenarioAnalysisOutput,
+  type ToolOutputBase,
+  type ZakatOutput,
+} from 'mcp-server/schemas';
+import { CalculationResult, MissingParameter, PendingCalculation } from './types';
 
 export class CalculationAgentError extends Error {
   constructor(
@@ -14,35 +39,150 @@ export class CalculationAgentError extends Error {
   }
 }
 
+/**
+ * Raised when the query names a calculation but leaves out required parameters;
+ * carries what was extracted so the caller can ask for the rest
+ */
+export class MissingParametersError extends CalculationAgentError {
+  constructor(
+    public pending: PendingCalculation,
+    public question: string
+  ) {
+    super(
+      `Missing parameters for ${pending.type}: ${pending.missing.map((m) => m.name).join(', ')}`,
+      'MISSING_PARAMETERS'
+    );
+  }
+}
+
+/**
+ * Raised when a calculator refuses the parameters under one of its Shariah or
+ * input rules (e.g. a Qard al-Hasan fee charged as a rate, which is riba);
+ * carries the rules broken as an answer the caller can show the user
+ */
+export class RejectedParametersError extends CalculationAgentError {
+  constructor(
+    message: string,
+    public explanation: string,
+    originalError?: unknown
+  ) {
+    super(message, 'VALIDATION_ERROR', originalError);
+  }
+}
+
 export interface CalculationAgentConfig {
   baseUrl?: string;
   model?: string;
   apiKey?: string;
   maxRetries?: number;
   temperature?: number;
+  // How long to wait for the model when the rule-based parser has an answer ready
+  llmTimeoutMs?: number;
+}
+
+// Parameter types for extraction; the top-level ones are type aliases so they
+// satisfy Record<string, unknown> and pass straight through as tool arguments
+interface CapitalMovement {
+  date: string;
+  amount: number;
 }
 
-// Parameter types for extraction
 interface MusharakahPartner {
   name: string;
   investment: number;
+  capitalMovements?: CapitalMovement[];
 }
 
-interface MusharakahParameters {
+type MusharakahParameters = {
   partners: MusharakahPartner[];
   totalProfit: number;
   profitRatio?: number[];
-}
+  periodStart?: string;
+  periodEnd?: string;
+  weighting?: 'daily' | 'monthly';
+  currency?: string;
+};
 
-interface MudharabahParameters {
+type MudharabahParameters = {
   capitalAmount: number;
-  profit: number;
+  profit?: number;
+  grossRevenue?: number;
+  expenses?: number;
+  priorLosses?: number;
+  mudaribNegligence?: boolean;
   capitalProviderRatio: number;
   entrepreneurRatio: number;
-}
-
-// Discriminated union for extraction results
-type ExtractionResult =
+  currency?: string;
+};
+
+type MudharabahPoolParameters = {
+  depositors: Array<{ name: string; amount: number; tenorMonths: number }>;
+  weightages: Array<{ tenorMonths: number; weightage: number }>;
+  grossIncome: number;
+  mudaribShareRatio: number;
+  perRate?: number;
+  irrRate?: number;
+  currency?: string;
+};
+
+type MurabahaParameters = {
+  costPrice: number;
+  markupRate: number;
+  downPayment?: number;
+  tenorMonths: number;
+  currency?: string;
+};
+
+type IjarahParameters = {
+  leaseType: 'operating' | 'muntahia_bittamleek';
+  assetCost: number;
+  leaseTermMonths: number;
+  annualRentalRate: number;
+  reviewPeriodMonths?: number;
+  reviewedRates?: number[];
+  residualValue?: number;
+  majorMaintenanceBy?: 'lessor' | 'lessee';
+  annualMaintenanceCost?: number;
+  currency?: string;
+};
+
+type DiminishingMusharakahParameters = {
+  bank: MusharakahPartner;
+  customer: MusharakahPartner;
+  tenorMonths: number;
+  annualRentalRate: number;
+  currency?: string;
+};
+
+type ZakatParameters = {
+  assets: {
+    cash?: number;
+    goldGrams?: number;
+    silverGrams?: number;
+    tradeGoods?: number;
+    receivables?: number;
+    investments?: number;
+  };
+  liabilities?: number;
+  goldPricePerGram?: number;
+  silverPricePerGram?: number;
+  nisabBasis?: 'gold' | 'silver';
+  haulCompleted?: boolean;
+  currency?: string;
+};
+
+type ScenarioAnalysisParameters = {
+  contractType: 'musharakah' | 'mudharabah';
+  partners?: Array<{ name: string; investment: number }>;
+  capitalAmount?: number;
+  profits?: number[];
+  profitRange?: { from: number; to: number; step: number };
+  profitRatios?: number[][];
+  currency?: string;
+};
+
+// Discriminated union for extraction results of the built-in calculators
+type BuiltInExtraction =
   | {
       type: 'musharakah';
       parameters: MusharakahParameters;
@@ -50,55 +190,118 @@ type ExtractionResult =
   | {
       type: 'mudharabah';
       parameters: MudharabahParameters;
+    }
+  | {
+      type: 'murabaha';
+      parameters: MurabahaParameters;
+    }
+  | {
+      type: 'ijarah';
+      parameters: IjarahParameters;
+    }
+  | {
+      type: 'diminishing_musharakah';
+      parameters: DiminishingMusharakahParameters;
+    }
+  | {
+      type: 'zakat';
+      parameters: ZakatParameters;
+    }
+  | {
+      type: 'mudharabah_pool';
+      parameters: MudharabahPoolParameters;
+    }
+  | {
+      type: 'scenario_analysis';
+      parameters: ScenarioAnalysisParameters;
     };
 
-// MCP Response types
-interface MusharakahDistribution {
-  partner: string;
-  share: string;
-  capitalRatio: string;
+// Any other calculator the server lists, with parameters shaped by its input schema
+interface DiscoveredExtraction {
+  type: string;
+  parameters: Record<string, unknown> & { currency?: string };
 }
 
-interface MudharabahDistribution {
-  capital_provider_rabb_al_mal: {
-    share: string;
-    ratio: string;
-  };
-  entrepreneur_mudarib: {
-    share: string;
-    ratio: string;
-  };
+type ExtractionResult = BuiltInExtraction | DiscoveredExtraction;
+
+// One calculation to run, with notes from cross-checking its extraction
+interface PreparedCalculation {
+  extraction: ExtractionResult;
+  notes: string[];
 }
 
-interface MusharakahMCPResponse {
-  summary: string;
-  contract_type: string;
-  total_investment: number;
-  total_profit_loss: number;
-  is_loss: boolean;
-  distribution: MusharakahDistribution[];
-  shariah_explanation: string;
-  calculation_steps: string[];
+// Calculators are the server's calculate_* tools; the extraction type is the rest of the name
+const CALCULATOR_TOOL_PREFIX = 'calculate_';
+
+// Upper bound on calculations extracted from one compound query
+const MAX_CALCULATIONS = 5;
+
+// Types with dedicated explanation and input/output mapping below; other
+// discovered calculators are formatted from their output fields
+const BUILT_IN_TYPES: ReadonlyArray<BuiltInExtraction['type']> = [
+  'musharakah',
+  'mudharabah',
+  'murabaha',
+  'ijarah',
+  'diminishing_musharakah',
+  'zakat',
+  'mudharabah_pool',
+  'scenario_analysis',
+];
+
+// Results are formatted only after the tool's input schema accepted the parameters,
+// so a built-in type name means the built-in parameter shape
+function isBuiltIn(extraction: ExtractionResult): extraction is BuiltInExtraction {
+  return (BUILT_IN_TYPES as readonly string[]).includes(extraction.type);
 }
 
-interface MudharabahMCPResponse {
-  summary: string;
-  contract_type: string;
-  capital_amount: number;
-  profit_loss: number;
-  is_loss: boolean;
-  distribution: MudharabahDistribution;
-  shariah_explanation: string;
-  calculation_steps: string[];
+interface Calculator extends CalculationToolSpec {
+  toolName: string;
+  validate: JsonSchemaValidator<Record<string, unknown>>;
+}
+
+// Present on every tool output when the input specified an ISO 4217 currency
+type CurrencyFields = Pick<ToolOutputBase, 'currency' | 'minor_units'>;
+
+// A tool's structured content, with the calculator-specific fields left untyped
+type ToolContent = ToolOutputBase & Record<string, unknown>;
+
+/**
+ * Check the fields every calculator output carries; the rest was already checked
+ * by MCPClient against the tool's declared output schema
+ */
+function isToolOutput(content: Record<string, unknown>): content is ToolContent {
+  return (
+    typeof content.summary === 'string' &&
+    typeof content.contract_type === 'string' &&
+    typeof content.shariah_explanation === 'string' &&
+    Array.isArray(content.calculation_steps)
+  );
+}
+
+type MudharabahShare = MudharabahOutput['distribution']['entrepreneur_mudarib'];
+
+// Output schema of a built-in calculator, narrowing its structured content
+interface OutputSchema<T> {
+  safeParse(value: unknown): { success: true; data: T } | { success: false; error: Error };
 }
 
-type MCPResponse = MusharakahMCPResponse | MudharabahMCPResponse;
+// Formatted details and headline numbers of a built-in calculator's output
+interface BuiltInSummary {
+  details: string[];
+  outputs: Record<string, number>;
+}
 
 export class CalculationAgent {
   private llmClient: ChatOllama;
   private mcpClient: MCPClient;
   private maxRetries: number;
   private promptBuilder: CalculationPromptBuilder;
+  private ruleExtractor: RuleBasedExtractor;
+  private llmTimeoutMs: number;
+  private schemaValidator = new AjvJsonSchemaValidator();
+  // Calculators listed by the MCP server, keyed by type; discovered on first use
+  private calculators: Map<string, Calculator> | null = null;
 
   constructor(config: CalculationAgentConfig = {}) {
     const {
@@ -109,6 +312,7 @@ export class CalculationAgent {
       apiKey = process.env.OLLAMA_API_KEY,
       maxRetries = 3,
       temperature = 0.1,
+      llmTimeoutMs = 20000,
     } = config;
 
     let headers: Headers | undefined;
@@ -126,52 +330,251 @@ export class CalculationAgent {
     this.mcpClient = MCPClient.getInstance();
     this.maxRetries = maxRetries;
     this.promptBuilder = new CalculationPromptBuilder();
+    this.ruleExtractor = new RuleBasedExtractor();
+    this.llmTimeoutMs = llmTimeoutMs;
   }
 
-  async process(query: string): Promise<CalculationResult> {
+  /**
+   * @param query - User query, or the reply to a clarification question
+   * @param pending - Calculation from an earlier MissingParametersError that the
+   *   query answers
+   */
+  async process(query: string, pending?: PendingCalculation): Promise<CalculationResult> {
     if (!query?.trim()) {
       throw new CalculationAgentError('Query cannot be empty', 'EMPTY_QUERY');
     }
 
     return this.executeWithRetry(async () => {
-      // Step 1: Extract parameters using LLM
-      const extractionResult = await this.extractParameters(query);
+      // Step 1: Discover the calculators the MCP server offers
+      const calculators = await this.discoverCalculators();
+
+      // Step 2: Extract parameters, one entry per requested calculation
+      const prepared = await this.extractParameters(query, calculators, pending);
 
-      // Step 2: Call MCP tool based on type
-      const mcpResult = await this.callMCPTool(extractionResult);
+      // Step 3: Call MCP tools; calculations are independent, so run them together
+      const mcpResults = await Promise.all(prepared.map((p) => this.callMCPTool(p.extraction)));
 
-      // Step 3: Format result with explanation
-      return this.formatResult(mcpResult, extractionResult);
+      // Step 4: Format results with explanation
+      const results = prepared.map((p, i) =>
+        this.formatResult(mcpResults[i], p.extraction, p.notes)
+      );
+      return results.length === 1 ? results[0] : this.combineResults(results);
     });
   }
 
-  private async extractParameters(query: string): Promise<ExtractionResult> {
-    const prompt = this.promptBuilder.buildPrompt(query);
-    const response = await this.llmClient.invoke(prompt);
+  /**
+   * List the server's calculate_* tools once and compile a validator for each input schema
+   */
+  private async discoverCalculators(): Promise<Map<string, Calculator>> {
+    if (this.calculators) {
+      return this.calculators;
+    }
+
+    let tools: MCPToolDefinition[];
+    try {
+      tools = await this.mcpClient.listTools();
+    } catch (error) {
+      throw new CalculationAgentError(
+        `MCP connection failed: ${this.getErrorMessage(error)}`,
+        error instanceof MCPClientError ? error.code : 'CONNECTION_ERROR',
+        error
+      );
+    }
+
+    const calculators = new Map<string, Calculator>();
+    for (const tool of tools) {
+      if (!tool.name.startsWith(CALCULATOR_TOOL_PREFIX)) {
+        continue;
+      }
+      const type = tool.name.slice(CALCULATOR_TOOL_PREFIX.length);
+      calculators.set(type, {
+        type,
+        toolName: tool.name,
+        description: tool.description,
+        inputSchema: tool.inputSchema,
+        validate: this.schemaValidator.getValidator(tool.inputSchema as JsonSchemaType),
+      });
+    }
+
+    if (calculators.size === 0) {
+      throw new CalculationAgentError(
+        'MCP server offers no calculation tools',
+        'NO_CALCULATION_TOOLS'
+      );
+    }
+
+    this.calculators = calculators;
+    return calculators;
+  }
+
+  /**
+   * Extract with the LLM, falling back to the rule-based parser when the model
+   * fails, times out or returns unparseable output; when both succeed their
+   * values are cross-checked and disagreements noted for the steps
+   */
+  private async extractParameters(
+    query: string,
+    calculators: Map<string, Calculator>,
+    pending?: PendingCalculation
+  ): Promise<PreparedCalculation[]> {
+    // A reply to a clarification is read together with the query that prompted it
+    const fullQuery = pending
+      ? `${pending.query}\nFollow-up with the missing ${pending.missing.map((m) => m.name).join(', ')}: ${query}`
+      : query;
+
+    const ruleExtraction = this.ruleExtractor.extract(fullQuery, [...calculators.keys()]);
+
+    let prepared: PreparedCalculation[];
+    try {
+      const extractions = await this.extractWithLLM(fullQuery, calculators, !!ruleExtraction);
+      prepared = extractions.map((extraction) => ({ extraction, notes: [] }));
+      if (ruleExtraction) {
+        this.crossCheck(ruleExtraction, prepared);
+      }
+    } catch (error) {
+      if (!ruleExtraction) {
+        throw error;
+      }
+      prepared = [
+        {
+          extraction: ruleExtraction,
+          notes: [
+            `Parameters read by the rule-based parser; the language model was unavailable (${this.getErrorMessage(error)})`,
+          ],
+        },
+      ];
+    }
+
+    if (prepared.length > MAX_CALCULATIONS) {
+      throw new CalculationAgentError(
+        `Please ask for at most ${MAX_CALCULATIONS} calculations at once`,
+        'TOO_MANY_CALCULATIONS'
+      );
+    }
+
+    return prepared.map((p) => ({
+      ...p,
+      extraction: this.checkParameters(p.extraction, calculators, fullQuery, pending),
+    }));
+  }
+
+  private async extractWithLLM(
+    query: string,
+    calculators: Map<string, Calculator>,
+    hasFallback: boolean
+  ): Promise<ExtractionResult[]> {
+    const prompt = this.promptBuilder.buildPrompt(query, [...calculators.values()]);
+    // Without a fallback a slow model is still worth waiting for
+    const response = await this.llmClient.invoke(
+      prompt,
+      hasFallback ? { signal: AbortSignal.timeout(this.llmTimeoutMs) } : undefined
+    );
 
     const content =
       typeof response.content === 'string' ? response.content : String(response.content);
 
-    return this.parseExtractionResponse(content);
+    return this.parseExtractionResponse(content, calculators);
+  }
+
+  /**
+   * Compare the model's extraction with the rule-based one; the model's values
+   * are kept and every disagreement is added to that calculation's notes
+   */
+  private crossCheck(ruleExtraction: RuleExtraction, prepared: PreparedCalculation[]): void {
+    const match = prepared.find((p) => p.extraction.type === ruleExtraction.type);
+    if (!match) {
+      if (prepared.length === 1) {
+        prepared[0].notes.push(
+          `Cross-check: the rule-based parser read this as ${this.formatLabel(ruleExtraction.type)}, the model as ${this.formatLabel(prepared[0].extraction.type)}; using the model's reading`
+        );
+      }
+      return;
+    }
+
+    const modelValues = this.numericLeaves(match.extraction.parameters);
+    const ruleValues = this.numericLeaves(ruleExtraction.parameters);
+    for (const [path, ruleValue] of Object.entries(ruleValues)) {
+      const modelValue = modelValues[path];
+      if (modelValue === undefined || Math.abs(modelValue - ruleValue) < 1e-6) {
+        continue;
+      }
+      match.notes.push(
+        `Cross-check: ${path} was read as ${modelValue.toLocaleString('en-US')} by the model and ${ruleValue.toLocaleString('en-US')} by the rule-based parser; using the model's value`
+      );
+    }
   }
 
-  private parseExtractionResponse(response: string): ExtractionResult {
+  private checkParameters(
+    extraction: ExtractionResult,
+    calculators: Map<string, Calculator>,
+    fullQuery: string,
+    pending?: PendingCalculation
+  ): ExtractionResult {
+    // Keep values from the earlier round that the model did not repeat
+    if (pending?.type === extraction.type) {
+      extraction = {
+        ...extraction,
+        parameters: { ...pending.parameters, ...extraction.parameters },
+      };
+    }
+
+    const calculator = calculators.get(extraction.type) as Calculator;
+
+    // Ask for required values the query left out rather than failing
+    const missing = this.findMissingParameters(calculator, extraction.parameters);
+    if (missing.length > 0) {
+      throw new MissingParametersError(
+        {
+          type: extraction.type,
+          parameters: extraction.parameters,
+          missing,
+          query: fullQuery,
+        },
+        this.buildClarificationQuestion(calculator, missing)
+      );
+    }
+
+    // Catch mistyped parameters before calling the tool
+    const validation = calculator.validate(extraction.parameters);
+    if (!validation.valid) {
+      throw new CalculationAgentError(
+        `Validation Error: parameters for ${calculator.toolName} are invalid: ${validation.errorMessage}`,
+        'VALIDATION_ERROR'
+      );
+    }
+
+    return extraction;
+  }
+
+  private parseExtractionResponse(
+    response: string,
+    calculators: Map<string, Calculator>
+  ): ExtractionResult[] {
     try {
       // Clean JSON from potential markdown code blocks
       const cleaned = response.replace(/```json\n?|\n?```/g, '').trim();
 
       const parsed = JSON.parse(cleaned);
 
-      // Validate structure
-      if (!parsed.type || !parsed.parameters) {
-        throw new Error('Missing type or parameters in response');
+      // Compound queries come back as {"calculations": [...]}
+      const entries = Array.isArray(parsed?.calculations) ? parsed.calculations : [parsed];
+      if (entries.length === 0) {
+        throw new Error('No calculations in response');
       }
 
-      if (!['musharakah', 'mudharabah'].includes(parsed.type)) {
-        throw new Error(`Invalid calculation type: ${parsed.type}`);
-      }
+      return entries.map((entry: { type?: string; parameters?: Record<string, unknown> }) => {
+        // Validate structure; parameters may be empty when the query gave no values
+        if (!entry?.type) {
+          throw new Error('Missing type in response');
+        }
+        entry.parameters ??= {};
 
-      return parsed as ExtractionResult;
+        if (!calculators.has(entry.type)) {
+          throw new Error(`Invalid calculation type: ${entry.type}`);
+        }
+
+        return { type: entry.type, parameters: entry.parameters };
+      });
     } catch (error) {
       throw new CalculationAgentError(
         'Failed to parse extraction response. Please rephrase your query with clear investment amounts and profit/loss values.',
@@ -181,26 +584,63 @@ export class CalculationAgent {
     }
   }
 
-  private async callMCPTool(extraction: ExtractionResult): Promise<MCPResponse> {
-    const toolName =
-      extraction.type === 'musharakah' ? 'calculate_musharakah' : 'calculate_mudharabah';
+  private findMissingParameters(
+    calculator: Calculator,
+    parameters: ExtractionResult['parameters']
+  ): MissingParameter[] {
+    const { required = [], properties = {} } = calculator.inputSchema as {
+      required?: string[];
+      properties?: Record<string, { description?: string }>;
+    };
+    const values = parameters as Record<string, unknown>;
+
+    return required
+      .filter((name) => values[name] === undefined || values[name] === null)
+      .map((name) => ({ name, description: properties[name]?.description }));
+  }
+
+  private buildClarificationQuestion(calculator: Calculator, missing: MissingParameter[]): string {
+    return [
+      `To complete the ${this.formatLabel(calculator.type)} calculation I need a few more details:`,
+      '',
+      ...missing.map(
+        (m) =>
+          `- **${this.formatParameterName(m.name)}**${m.description ? `: ${m.description}` : ''}`
+      ),
+      '',
+      'Please reply with these values.',
+    ].join('\n');
+  }
+
+  private async callMCPTool(extraction: ExtractionResult): Promise<ToolContent> {
+    const toolName = `${CALCULATOR_TOOL_PREFIX}${extraction.type}`;
 
     try {
       await this.mcpClient.connect();
-      const result: MCPToolResult = await this.mcpClient.callTool(
-        toolName,
-        extraction.parameters as unknown as Record<string, unknown>
-      );
+      const result: MCPToolResult = await this.mcpClient.callTool(toolName, extraction.parameters);
 
-      // MCP returns { content: [{ type: 'text', text: string }], isError?: boolean }
+      // Errors come back as text content; results as structuredContent that
+      // MCPClient has validated against the tool's output schema
       if (result.isError) {
         const errorText = result.content[0]?.text || 'MCP tool returned error';
         throw new Error(errorText);
       }
 
-      const mcpOutput: MCPResponse = JSON.parse(result.content[0].text);
-      return mcpOutput;
+      if (!result.structuredContent) {
+        throw new Error(`${toolName} returned no structured content`);
+      }
+      if (!isToolOutput(result.structuredContent)) {
+        throw new Error(
+          `${toolName} returned output without a summary, contract type, explanation and steps`
+        );
+      }
+
+      return result.structuredContent;
     } catch (error) {
+      // A tool whose output breaks its schema needs a code fix, not a retry
+      if (error instanceof MCPClientError && error.code === 'OUTPUT_VALIDATION_ERROR') {
+        throw new CalculationAgentError(error.message, error.code, error);
+      }
       if (error instanceof MCPClientError) {
         throw new CalculationAgentError(
           `MCP connection failed: ${error.message}`,
@@ -209,9 +649,14 @@ export class CalculationAgent {
         );
       }
 
-      // Check if it's a validation error from MCP
+      // Check if it's a validation error from MCP, either the tool's own or the
+      // SDK's "MCP error -32602: Input validation error: ..." for schema rules
       const errorMessage = this.getErrorMessage(error);
-      if (errorMessage.includes('Validation Error')) {
+      if (/validation error|-32602/i.test(errorMessage)) {
+        const explanation = this.explainRejectedParameters(extraction.type, errorMessage);
+        if (explanation) {
+          throw new RejectedParametersError(errorMessage, explanation, error);
+        }
         throw new CalculationAgentError(errorMessage, 'VALIDATION_ERROR', error);
       }
 
@@ -223,47 +668,139 @@ export class CalculationAgent {
     }
   }
 
-  private formatResult(mcpResult: MCPResponse, extraction: ExtractionResult): CalculationResult {
-    const explanation = this.buildExplanation(mcpResult);
+  /**
+   * Turn the Zod issues the MCP SDK lists after "Invalid arguments for tool ...:"
+   * into one line per rule broken, or undefined when the error carries none
+   */
+  private explainRejectedParameters(type: string, errorMessage: string): string | undefined {
+    const match = errorMessage.match(/Invalid arguments for tool [^:]+: (\[[\s\S]*\])\s*$/);
+    if (!match) {
+      return undefined;
+    }
+
+    let issues: unknown;
+    try {
+      issues = JSON.parse(match[1]);
+    } catch {
+      return undefined;
+    }
+    if (!Array.isArray(issues)) {
+      return undefined;
+    }
+
+    const reasons = issues.flatMap((issue: { path?: unknown; message?: unknown }) => {
+      if (typeof issue?.message !== 'string') {
+        return [];
+      }
+      const path = Array.isArray(issue.path) ? issue.path.join(' ') : '';
+      return [
+        path ? `- **${this.formatParameterName(path)}**: ${issue.message}` : `- ${issue.message}`,
+      ];
+    });
+    if (reasons.length === 0) {
+      return undefined;
+    }
+
+    return [
+      `I can't run the ${this.formatLabel(type)} calculation with these values:`,
+      '',
+      ...reasons,
+      '',
+      'Please adjust them and ask again.',
+    ].join('\n');
+  }
+
+  private formatResult(
+    mcpResult: ToolContent,
+    extraction: ExtractionResult,
+    notes: string[] = []
+  ): CalculationResult {
+    const currency = mcpResult.currency ?? extraction.parameters.currency;
+    const steps = [...(mcpResult.calculation_steps || []), ...notes];
+    // Shared output keys, whatever the tool
+    const schedule = this.extractRows(mcpResult.schedule);
+    const table = mcpResult.table;
+
+    if (!isBuiltIn(extraction)) {
+      // Discovered calculator: report whatever numbers its output carries
+      const outputs = this.numericFields(mcpResult);
+      delete outputs.minor_units;
+
+      return {
+        result: this.buildExplanation(mcpResult, this.formatFields(outputs), steps),
+        calculation: {
+          type: extraction.type,
+          ...(currency && { currency }),
+          inputs: this.numericFields(extraction.parameters),
+          outputs,
+          steps,
+          schedule,
+          table,
+        },
+      };
+    }
+
+    const { details, outputs } = this.summarizeBuiltIn(extraction, mcpResult);
 
     return {
-      result: explanation,
+      result: this.buildExplanation(mcpResult, details, steps),
       calculation: {
         type: extraction.type,
+        ...(currency && { currency }),
         inputs: this.extractInputs(extraction),
-        outputs: this.extractOutputs(mcpResult),
-        steps: mcpResult.calculation_steps || [],
+        outputs,
+        steps,
+        schedule,
+        table,
       },
     };
   }
 
-  private buildExplanation(mcpResult: MCPResponse): string {
+  /**
+   * Merge the results of a compound query: a side-by-side table of outputs,
+   * then each calculation's own explanation
+   */
+  private combineResults(results: CalculationResult[]): CalculationResult {
+    const calculations = results.map((r) => r.calculation);
+    const headers = calculations.map((c, i) => `${i + 1}. ${this.formatLabel(c.type)}`);
+    const keys = [...new Set(calculations.flatMap((c) => Object.keys(c.outputs)))];
+
     const lines: string[] = [
-      `## ${mcpResult.summary}`,
-      '',
-      `**Contract Type**: ${mcpResult.contract_type}`,
+      '## Comparison',
       '',
+      `| | ${headers.join(' | ')} |`,
+      `|---|${headers.map(() => '---').join('|')}|`,
     ];
-
-    // Add investment/capital details
-    if ('total_investment' in mcpResult) {
-      lines.push(`**Total Investment**: ${this.formatCurrency(mcpResult.total_investment)}`);
-    }
-    if ('capital_amount' in mcpResult) {
-      lines.push(`**Capital Amount**: ${this.formatCurrency(mcpResult.capital_amount)}`);
+    if (calculations.some((c) => c.currency)) {
+      lines.push(`| Currency | ${calculations.map((c) => c.currency ?? '—').join(' | ')} |`);
     }
+    keys.forEach((key) => {
+      const cells = calculations.map((c) =>
+        key in c.outputs ? c.outputs[key].toLocaleString('en-US') : '—'
+      );
+      lines.push(`| ${this.formatLabel(key)} | ${cells.join(' | ')} |`);
+    });
+    lines.push('');
 
-    const profitLossLabel = mcpResult.is_loss ? 'Loss' : 'Profit';
-    const profitLossAmount =
-      'total_profit_loss' in mcpResult ? mcpResult.total_profit_loss : mcpResult.profit_loss;
+    results.forEach((r, i) => {
+      lines.push('---', '', `# ${headers[i]}`, '', r.result, '');
+    });
 
-    lines.push(`**${profitLossLabel}**: ${this.formatCurrency(Math.abs(profitLossAmount))}`);
-    lines.push('');
+    return {
+      result: lines.join('\n').trimEnd(),
+      calculation: calculations[0],
+      calculations,
+    };
+  }
 
-    // Distribution section
-    lines.push('### Distribution:');
-    lines.push(...this.formatDistribution(mcpResult));
-    lines.push('');
+  private buildExplanation(mcpResult: ToolOutputBase, details: string[], steps: string[]): string {
+    const lines: string[] = [
+      `## ${mcpResult.summary}`,
+      '',
+      `**Contract Type**: ${mcpResult.contract_type}`,
+      '',
+      ...details,
+    ];
 
     // Shariah compliance
     lines.push('### Shariah Compliance:');
@@ -271,9 +808,9 @@ export class CalculationAgent {
     lines.push('');
 
     // Calculation steps
-    if (mcpResult.calculation_steps && mcpResult.calculation_steps.length > 0) {
+    if (steps.length > 0) {
       lines.push('### Calculation Steps:');
-      mcpResult.calculation_steps.forEach((step: string, i: number) => {
+      steps.forEach((step: string, i: number) => {
         lines.push(`${i + 1}. ${step}`);
       });
     }
@@ -281,80 +818,500 @@ export class CalculationAgent {
     return lines.join('\n');
   }
 
-  private formatDistribution(mcpResult: MCPResponse): string[] {
-    const lines: string[] = [];
+  /**
+   * Narrow a built-in calculator's content with its output schema, then format
+   * its details and pick the headline numbers for the calculation outputs
+   */
+  private summarizeBuiltIn(extraction: BuiltInExtraction, content: ToolContent): BuiltInSummary {
+    switch (extraction.type) {
+      case 'musharakah': {
+        const output = this.parseOutput(MusharakahOutputSchema, content, extraction.type);
+        return {
+          details: this.formatMusharakah(output),
+          outputs: Object.fromEntries(output.distribution.map((d) => [d.partner, d.shareAmount])),
+        };
+      }
+      case 'mudharabah': {
+        const output = this.parseOutput(MudharabahOutputSchema, content, extraction.type);
+        return {
+          details: this.formatMudharabah(output),
+          outputs: {
+            capital_provider: output.distribution.capital_provider_rabb_al_mal.shareAmount,
+            entrepreneur: output.distribution.entrepreneur_mudarib.shareAmount,
+          },
+        };
+      }
+      case 'murabaha': {
+        const output = this.parseOutput(MurabahaOutputSchema, content, extraction.type);
+        return {
+          details: this.formatMurabaha(output),
+          outputs: {
+            markup_amount: output.markup_amount,
+            selling_price: output.selling_price,
+            financed_amount: output.financed_amount,
+            installment_amount: output.installment_amount,
+          },
+        };
+      }
+      case 'ijarah': {
+        const output = this.parseOutput(IjarahOutputSchema, content, extraction.type);
+        return {
+          details: this.formatIjarah(output),
+          outputs: {
+            total_rental: output.total_rental,
+            lessor_profit: output.lessor_profit,
+            first_rental: output.schedule[0]?.rental ?? 0,
+            transfer_value: output.end_of_lease.amount,
+          },
+        };
+      }
+      case 'diminishing_musharakah': {
+        const output = this.parseOutput(
+          DiminishingMusharakahOutputSchema,
+          content,
+          extraction.type
+        );
+        return {
+          details: this.formatDiminishingMusharakah(output),
+          outputs: {
+            unit_purchase: output.unit_purchase,
+            total_rent: output.total_rent,
+            total_payments: output.total_payments,
+            first_payment: output.schedule[0]?.payment ?? 0,
+          },
+        };
+      }
+      case 'zakat': {
+        const output = this.parseOutput(ZakatOutputSchema, content, extraction.type);
+        return {
+          details: this.formatZakat(output),
+          outputs: {
+            total_assets: output.total_assets,
+            zakatable_wealth: output.zakatable_wealth,
+            nisab_threshold: output.nisab_threshold,
+            zakat_due: output.zakat_due,
+          },
+        };
+      }
+      case 'mudharabah_pool': {
+        const output = this.parseOutput(MudharabahPoolOutputSchema, content, extraction.type);
+        return {
+          details: this.formatMudharabahPool(output),
+          outputs: {
+            per_appropriation: output.per_appropriation,
+            mudarib_share: output.mudarib_share,
+            irr_appropriation: output.irr_appropriation,
+            ...Object.fromEntries(output.depositors.map((d) => [d.name, d.profit])),
+          },
+        };
+      }
+      case 'scenario_analysis': {
+        const output = this.parseOutput(ScenarioAnalysisOutputSchema, content, extraction.type);
+        // Each party's range of outcomes
+        const outputs: Record<string, number> = {};
+        output.parties.forEach((party, i) => {
+          const outcomes = output.scenarios.map((row) => row.outcomes[i]);
+          outputs[`${party.name}_min`] = Math.min(...outcomes);
+          outputs[`${party.name}_max`] = Math.max(...outcomes);
+        });
+        outputs.scenarios = output.scenarios.length;
+        return { details: this.formatScenarioAnalysis(output), outputs };
+      }
+    }
+  }
+
+  private parseOutput<T>(schema: OutputSchema<T>, content: ToolContent, type: string): T {
+    const parsed = schema.safeParse(content);
+    if (!parsed.success) {
+      // MCPClient validated against the schema the server declared, so the
+      // server and this build disagree on the output shape
+      throw new CalculationAgentError(
+        `Tool output does not match its schema: ${CALCULATOR_TOOL_PREFIX}${type}`,
+        'OUTPUT_VALIDATION_ERROR',
+        parsed.error
+      );
+    }
+    return parsed.data;
+  }
+
+  private formatMusharakah(mcpResult: MusharakahOutput): string[] {
+    const capitalLabel = mcpResult.capital_weighting
+      ? `${mcpResult.capital_weighting} time-weighted capital`
+      : 'capital';
+
+    return [
+      `**Total Investment**: ${this.formatCurrency(mcpResult.total_investment, mcpResult)}`,
+      `**${mcpResult.is_loss ? 'Loss' : 'Profit'}**: ${this.formatCurrency(Math.abs(mcpResult.total_profit_loss), mcpResult)}`,
+      '',
+      '### Distribution:',
+      ...mcpResult.distribution.map((d) => {
+        const capitalRatio = this.formatPercentage(this.parseRatio(d.capitalRatio));
+        return `- **${d.partner}**: ${this.formatCurrency(d.shareAmount, mcpResult)} (${capitalRatio} ${capitalLabel})`;
+      }),
+      '',
+    ];
+  }
+
+  private formatMudharabah(mcpResult: MudharabahOutput): string[] {
+    const lines: string[] = [
+      `**Capital Amount**: ${this.formatCurrency(mcpResult.capital_amount, mcpResult)}`,
+    ];
+    if (mcpResult.gross_revenue !== undefined) {
+      lines.push(`**Gross Revenue**: ${this.formatCurrency(mcpResult.gross_revenue, mcpResult)}`);
+      lines.push(
+        `**Operating Expenses**: ${this.formatCurrency(mcpResult.expenses ?? 0, mcpResult)}`
+      );
+    }
 
-    // Musharakah format (array)
-    if (Array.isArray(mcpResult.distribution)) {
-      mcpResult.distribution.forEach((d: MusharakahDistribution) => {
-        const capitalRatio = this.formatPercentage(parseFloat(d.capitalRatio));
+    lines.push(
+      `**${mcpResult.is_loss ? 'Loss' : 'Profit'}**: ${this.formatCurrency(Math.abs(mcpResult.profit_loss), mcpResult)}`
+    );
+    if (mcpResult.unrecovered_losses !== undefined) {
+      if (mcpResult.prior_loss_recovered) {
         lines.push(
-          `- **${d.partner}**: ${this.formatCurrency(parseFloat(d.share))} (${capitalRatio} capital)`
+          `**Prior Losses Recovered**: ${this.formatCurrency(mcpResult.prior_loss_recovered, mcpResult)}`
         );
-      });
+      }
+      lines.push(
+        `**Unrecovered Losses Carried Forward**: ${this.formatCurrency(mcpResult.unrecovered_losses, mcpResult)}`
+      );
     }
-    // Mudharabah format (object)
-    else {
-      const cpShare = mcpResult.distribution.capital_provider_rabb_al_mal;
-      const entShare = mcpResult.distribution.entrepreneur_mudarib;
+    if (mcpResult.mudarib_negligence) {
+      lines.push("**Mudarib Negligence (ta'addi/taqsir)**: Yes");
+    }
+    lines.push('');
+
+    const cpShare = mcpResult.distribution.capital_provider_rabb_al_mal;
+    const entShare = mcpResult.distribution.entrepreneur_mudarib;
+    lines.push('### Distribution:');
+    lines.push(
+      `- **Capital Provider (Rabb al-Mal)**: ${this.formatCurrency(cpShare.shareAmount, mcpResult)} (${this.formatMudharabahBasis(cpShare)})`
+    );
+    lines.push(
+      `- **Entrepreneur (Mudarib)**: ${this.formatCurrency(entShare.shareAmount, mcpResult)} (${this.formatMudharabahBasis(entShare)})`
+    );
+    lines.push('');
+
+    return lines;
+  }
+
+  private formatFields(fields: Record<string, number>): string[] {
+    const lines = Object.entries(fields).map(
+      ([key, value]) => `**${this.formatLabel(key)}**: ${value.toLocaleString('en-US')}`
+    );
+    lines.push('');
+
+    return lines;
+  }
+
+  private formatMurabaha(mcpResult: MurabahaOutput): string[] {
+    const lines: string[] = [
+      `**Cost Price**: ${this.formatCurrency(mcpResult.cost_price, mcpResult)}`,
+      `**Markup**: ${this.formatCurrency(mcpResult.markup_amount, mcpResult)} (${this.formatPercentage(mcpResult.markup_rate)})`,
+      `**Selling Price**: ${this.formatCurrency(mcpResult.selling_price, mcpResult)}`,
+      `**Down Payment**: ${this.formatCurrency(mcpResult.down_payment, mcpResult)}`,
+      `**Deferred Balance**: ${this.formatCurrency(mcpResult.financed_amount, mcpResult)}`,
+      '',
+      '### Installment Schedule:',
+    ];
+
+    mcpResult.schedule.forEach((i) => {
+      lines.push(
+        `- **Month ${i.installment}**: ${this.formatCurrency(i.payment, mcpResult)} (remaining ${this.formatCurrency(i.remainingBalance, mcpResult)})`
+      );
+    });
+    lines.push('');
 
+    return lines;
+  }
+
+  private formatIjarah(mcpResult: IjarahOutput): string[] {
+    const lines: string[] = [
+      `**Asset Cost**: ${this.formatCurrency(mcpResult.asset_cost, mcpResult)}`,
+      `**Lease Term**: ${mcpResult.lease_term_months} months`,
+      `**Total Rental**: ${this.formatCurrency(mcpResult.total_rental, mcpResult)}`,
+      `**Lessor Profit**: ${this.formatCurrency(mcpResult.lessor_profit, mcpResult)}`,
+      `**Major Maintenance**: Borne by ${mcpResult.major_maintenance_by}`,
+      '',
+      '### Rental Schedule:',
+    ];
+
+    mcpResult.schedule.forEach((p) => {
       lines.push(
-        `- **Capital Provider (Rabb al-Mal)**: ${this.formatCurrency(parseFloat(cpShare.share))} (${this.formatPercentage(parseFloat(cpShare.ratio))})`
+        `- **Month ${p.period}**: ${this.formatCurrency(p.rental, mcpResult)} at ${this.formatPercentage(p.annualRate)} p.a. (outstanding cost ${this.formatCurrency(p.outstandingCost, mcpResult)})`
       );
+    });
+    lines.push('');
+
+    lines.push('### End of Lease:');
+    lines.push(mcpResult.end_of_lease.description);
+    lines.push('');
+
+    return lines;
+  }
+
+  private formatDiminishingMusharakah(mcpResult: DiminishingMusharakahOutput): string[] {
+    const lines: string[] = [
+      `**Asset Value**: ${this.formatCurrency(mcpResult.asset_value, mcpResult)}`,
+      `**${mcpResult.bank.name}**: ${this.formatCurrency(mcpResult.bank.investment, mcpResult)} (${mcpResult.bank.initialOwnership} ownership)`,
+      `**${mcpResult.customer.name}**: ${this.formatCurrency(mcpResult.customer.investment, mcpResult)} (${mcpResult.customer.initialOwnership} ownership)`,
+      `**Monthly Unit Purchase**: ${this.formatCurrency(mcpResult.unit_purchase, mcpResult)}`,
+      `**Total Rent**: ${this.formatCurrency(mcpResult.total_rent, mcpResult)}`,
+      `**Total Payments**: ${this.formatCurrency(mcpResult.total_payments, mcpResult)}`,
+      '',
+      '### Ownership and Payment Schedule:',
+    ];
+
+    mcpResult.schedule.forEach((p) => {
       lines.push(
-        `- **Entrepreneur (Mudarib)**: ${this.formatCurrency(parseFloat(entShare.share))} (${this.formatPercentage(parseFloat(entShare.ratio))})`
+        `- **Month ${p.period}**: ${this.formatCurrency(p.payment, mcpResult)} (unit ${this.formatCurrency(p.unitPurchase, mcpResult)} + rent ${this.formatCurrency(p.rent, mcpResult)}), ${mcpResult.customer.name} owns ${p.customerOwnership}`
+      );
+    });
+    lines.push('');
+
+    return lines;
+  }
+
+  private formatZakat(mcpResult: ZakatOutput): string[] {
+    const lines: string[] = ['### Zakatable Assets:'];
+
+    mcpResult.assets.forEach((a) => {
+      lines.push(
+        `- **${this.formatLabel(a.category)}**: ${this.formatCurrency(a.value, mcpResult)}`
+      );
+    });
+    lines.push('');
+
+    lines.push(`**Total Assets**: ${this.formatCurrency(mcpResult.total_assets, mcpResult)}`);
+    lines.push(
+      `**Deductible Liabilities**: ${this.formatCurrency(mcpResult.liabilities, mcpResult)}`
+    );
+    lines.push(
+      `**Net Zakatable Wealth**: ${this.formatCurrency(mcpResult.zakatable_wealth, mcpResult)}`
+    );
+    lines.push(
+      `**Nisab (${mcpResult.nisab_basis})**: ${this.formatCurrency(mcpResult.nisab_threshold, mcpResult)} - ${mcpResult.nisab_met ? 'met' : 'not met'}`
+    );
+    lines.push(`**Zakat Due**: ${this.formatCurrency(mcpResult.zakat_due, mcpResult)}`);
+    lines.push('');
+
+    return lines;
+  }
+
+  private formatMudharabahPool(mcpResult: MudharabahPoolOutput): string[] {
+    const lines: string[] = [
+      `**Total Deposits**: ${this.formatCurrency(mcpResult.total_deposits, mcpResult)}`,
+      `**Gross ${mcpResult.is_loss ? 'Loss' : 'Income'}**: ${this.formatCurrency(Math.abs(mcpResult.gross_income), mcpResult)}`,
+    ];
+
+    if (!mcpResult.is_loss) {
+      lines.push(
+        `**Profit Equalisation Reserve**: ${this.formatCurrency(mcpResult.per_appropriation, mcpResult)}`
+      );
+      lines.push(`**Mudarib Share**: ${this.formatCurrency(mcpResult.mudarib_share, mcpResult)}`);
+      lines.push(
+        `**Investment Risk Reserve**: ${this.formatCurrency(mcpResult.irr_appropriation, mcpResult)}`
+      );
+      lines.push(
+        `**Distributed to Depositors**: ${this.formatCurrency(mcpResult.distributed_profit, mcpResult)}`
       );
     }
+    lines.push('');
+
+    lines.push('### Depositor Distribution:');
+    mcpResult.depositors.forEach((d) => {
+      lines.push(
+        `- **${d.name}**: ${this.formatCurrency(d.profit, mcpResult)} on ${this.formatCurrency(d.amount, mcpResult)} (${d.tenorMonths}-month tenor, weightage ${d.weightage}, ${d.returnRate} return)`
+      );
+    });
+    lines.push('');
 
     return lines;
   }
 
-  private extractInputs(extraction: ExtractionResult): Record<string, number> {
+  private formatScenarioAnalysis(mcpResult: ScenarioAnalysisOutput): string[] {
+    const lines = [
+      `**Parties**: ${mcpResult.parties.map((p) => `${p.name} (${this.formatCurrency(p.capital, mcpResult)}, ${p.capital_ratio} of capital)`).join(', ')}`,
+      `**Profit/Loss Levels**: ${mcpResult.profit_levels.map((v) => this.formatCurrency(v, mcpResult)).join(', ')}`,
+      `**Ratio Scenarios**: ${mcpResult.ratio_scenarios.join(', ')}`,
+      '',
+      '### Scenarios:',
+    ];
+
+    mcpResult.scenarios.forEach((row) => {
+      const shares = row.outcomes.map(
+        (amount, i) => `${mcpResult.parties[i].name} ${this.formatCurrency(amount, mcpResult)}`
+      );
+      lines.push(
+        `- **${this.formatCurrency(row.profit_loss, mcpResult)} @ ${row.ratio}** (${row.basis}): ${shares.join(', ')}`
+      );
+    });
+    lines.push('');
+
+    return lines;
+  }
+
+  private formatMudharabahBasis(share: MudharabahShare): string {
+    // Profit shares carry a ratio, loss shares carry the rule that allocated them
+    return share.ratio
+      ? this.formatPercentage(this.parseRatio(share.ratio))
+      : (share.explanation ?? '');
+  }
+
+  private extractInputs(extraction: BuiltInExtraction): Record<string, number> {
     const inputs: Record<string, number> = {};
 
     if (extraction.type === 'musharakah') {
       extraction.parameters.partners.forEach((p: MusharakahPartner) => {
         inputs[`${p.name}_investment`] = p.investment;
+        if (p.capitalMovements?.length) {
+          inputs[`${p.name}_net_capital_movement`] = p.capitalMovements.reduce(
+            (sum, m) => sum + m.amount,
+            0
+          );
+        }
       });
       inputs.total_profit = extraction.parameters.totalProfit;
     } else if (extraction.type === 'mudharabah') {
       inputs.capital_amount = extraction.parameters.capitalAmount;
-      inputs.profit = extraction.parameters.profit;
+      if (extraction.parameters.grossRevenue !== undefined) {
+        inputs.gross_revenue = extraction.parameters.grossRevenue;
+        inputs.expenses = extraction.parameters.expenses ?? 0;
+      } else {
+        inputs.profit = extraction.parameters.profit ?? 0;
+      }
+      if (extraction.parameters.priorLosses) {
+        inputs.prior_losses = extraction.parameters.priorLosses;
+      }
       inputs.capital_provider_ratio = extraction.parameters.capitalProviderRatio;
       inputs.entrepreneur_ratio = extraction.parameters.entrepreneurRatio;
+    } else if (extraction.type === 'murabaha') {
+      inputs.cost_price = extraction.parameters.costPrice;
+      inputs.markup_rate = extraction.parameters.markupRate;
+      inputs.down_payment = extraction.parameters.downPayment ?? 0;
+      inputs.tenor_months = extraction.parameters.tenorMonths;
+    } else if (extraction.type === 'ijarah') {
+      inputs.asset_cost = extraction.parameters.assetCost;
+      inputs.lease_term_months = extraction.parameters.leaseTermMonths;
+      inputs.annual_rental_rate = extraction.parameters.annualRentalRate;
+      inputs.residual_value = extraction.parameters.residualValue ?? 0;
+      if (extraction.parameters.reviewPeriodMonths) {
+        inputs.review_period_months = extraction.parameters.reviewPeriodMonths;
+      }
+    } else if (extraction.type === 'diminishing_musharakah') {
+      inputs[`${extraction.parameters.bank.name}_investment`] =
+        extraction.parameters.bank.investment;
+      inputs[`${extraction.parameters.customer.name}_investment`] =
+        extraction.parameters.customer.investment;
+      inputs.tenor_months = extraction.parameters.tenorMonths;
+      inputs.annual_rental_rate = extraction.parameters.annualRentalRate;
+    } else if (extraction.type === 'zakat') {
+      const { assets, liabilities, goldPricePerGram, silverPricePerGram } = extraction.parameters;
+      inputs.cash = assets.cash ?? 0;
+      inputs.gold_grams = assets.goldGrams ?? 0;
+      inputs.silver_grams = assets.silverGrams ?? 0;
+      inputs.trade_goods = assets.tradeGoods ?? 0;
+      inputs.receivables = assets.receivables ?? 0;
+      inputs.investments = assets.investments ?? 0;
+      inputs.liabilities = liabilities ?? 0;
+      if (goldPricePerGram) inputs.gold_price_per_gram = goldPricePerGram;
+      if (silverPricePerGram) inputs.silver_price_per_gram = silverPricePerGram;
+    } else if (extraction.type === 'scenario_analysis') {
+      const { partners, capitalAmount, profitRatios } = extraction.parameters;
+      partners?.forEach((p) => {
+        inputs[`${p.name}_investment`] = p.investment;
+      });
+      if (capitalAmount !== undefined) {
+        inputs.capital_amount = capitalAmount;
+      }
+      inputs.ratio_scenarios = profitRatios?.length || 1;
+    } else if (extraction.type === 'mudharabah_pool') {
+      extraction.parameters.depositors.forEach((d) => {
+        inputs[`${d.name}_amount`] = d.amount;
+      });
+      inputs.gross_income = extraction.parameters.grossIncome;
+      inputs.mudarib_share_ratio = extraction.parameters.mudaribShareRatio;
+      inputs.per_rate = extraction.parameters.perRate ?? 0;
+      inputs.irr_rate = extraction.parameters.irrRate ?? 0;
     }
 
     return inputs;
   }
 
-  private extractOutputs(mcpResult: MCPResponse): Record<string, number> {
-    const outputs: Record<string, number> = {};
+  private numericFields(value: Record<string, unknown>, prefix = ''): Record<string, number> {
+    // Flatten nested objects (assets.cash -> assets_cash); arrays are left to extractRows
+    const fields: Record<string, number> = {};
 
-    if (Array.isArray(mcpResult.distribution)) {
-      // Musharakah
-      mcpResult.distribution.forEach((d: MusharakahDistribution) => {
-        outputs[d.partner] = parseFloat(d.share);
-      });
-    } else {
-      // Mudharabah
-      outputs.capital_provider = parseFloat(
-        mcpResult.distribution.capital_provider_rabb_al_mal.share
-      );
-      outputs.entrepreneur = parseFloat(mcpResult.distribution.entrepreneur_mudarib.share);
+    for (const [key, field] of Object.entries(value)) {
+      const name = prefix ? `${prefix}_${key}` : key;
+      if (typeof field === 'number') {
+        fields[name] = field;
+      } else if (field && typeof field === 'object' && !Array.isArray(field)) {
+        Object.assign(fields, this.numericFields(field as Record<string, unknown>, name));
+      }
+    }
+
+    return fields;
+  }
+
+  private numericLeaves(value: unknown, path = ''): Record<string, number> {
+    // Every number in the parameters, arrays included (partners[1].investment)
+    if (typeof value === 'number') {
+      return { [path]: value };
+    }
+    const leaves: Record<string, number> = {};
+    if (Array.isArray(value)) {
+      value.forEach((item, i) => Object.assign(leaves, this.numericLeaves(item, `${path}[${i}]`)));
+    } else if (value && typeof value === 'object') {
+      for (const [key, field] of Object.entries(value)) {
+        Object.assign(leaves, this.numericLeaves(field, path ? `${path}.${key}` : key));
+      }
     }
+    return leaves;
+  }
 
-    return outputs;
+  private extractRows(value: unknown): Array<Record<string, number>> | undefined {
+    if (!Array.isArray(value) || value.length === 0) {
+      return undefined;
+    }
+    return value
+      .filter((row) => row && typeof row === 'object')
+      .map((row) => this.numericFields(row as Record<string, unknown>));
   }
 
-  private formatCurrency(value: number): string {
+  private formatCurrency(
+    value: number,
+    { currency, minor_units = 2 }: CurrencyFields = {}
+  ): string {
+    // Narrow symbols keep local conventions readable (RM, Rp); precision follows the
+    // currency's minor unit as reported by the MCP tool (IDR 0, KWD 3). Without a
+    // currency the amount is shown bare rather than assumed to be dollars
     return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
+      ...(currency && { style: 'currency', currency, currencyDisplay: 'narrowSymbol' }),
+      minimumFractionDigits: minor_units,
+      maximumFractionDigits: minor_units,
     }).format(value);
   }
 
+  private formatLabel(value: string): string {
+    // Convert snake_case to Title Case (trade_goods -> Trade Goods)
+    return value
+      .split('_')
+      .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+      .join(' ');
+  }
+
+  private formatParameterName(name: string): string {
+    // Convert camelCase to a sentence (capitalAmount -> Capital amount)
+    const words = name.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+    return words.charAt(0).toUpperCase() + words.slice(1);
+  }
+
+  private parseRatio(value: string): number {
+    // MCP tools report ratios as "62.50%", accept plain decimals ("0.625") as well
+    return value.trim().endsWith('%') ? parseFloat(value) / 100 : parseFloat(value);
+  }
+
   private formatPercentage(value: number): string {
     // Convert decimal to percentage (0.625 -> 62.50%)
     return `${(value * 100).toFixed(2)}%`;
@@ -372,7 +1329,14 @@ export class CalculationAgent {
         // Don't retry validation/parsing errors - user needs to rephrase
         if (
           error instanceof CalculationAgentError &&
-          ['EMPTY_QUERY', 'EXTRACTION_PARSE_ERROR', 'VALIDATION_ERROR'].includes(error.code)
+          [
+            'EMPTY_QUERY',
+            'EXTRACTION_PARSE_ERROR',
+            'MISSING_PARAMETERS',
+            'TOO_MANY_CALCULATIONS',
+            'VALIDATION_ERROR',
+            'OUTPUT_VALIDATION_ERROR',
+          ].includes(error.code)
         ) {
           throw error;
         }
@@ -0,0 +1 @@
+export { RuleBasedExtractor, type RuleExtraction } from './rule-based-extractor';
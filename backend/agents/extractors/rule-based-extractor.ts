@@ -0,0 +1,502 @@
+// Parameters read from a query without the language model
+export interface RuleExtraction {
+  type: string;
+  parameters: Record<string, unknown>;
+}
+
+// Scale words and suffixes, including Indonesian (juta, miliar) and South Asian (lakh, crore)
+const MULTIPLIERS: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  ribu: 1e3,
+  rb: 1e3,
+  m: 1e6,
+  mn: 1e6,
+  million: 1e6,
+  juta: 1e6,
+  jt: 1e6,
+  b: 1e9,
+  bn: 1e9,
+  billion: 1e9,
+  miliar: 1e9,
+  milyar: 1e9,
+  lakh: 1e5,
+  crore: 1e7,
+};
+
+// Same mapping as extraction rule 16 in the prompt; a bare "$" names no currency
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  us$: 'USD',
+  usd: 'USD',
+  rm: 'MYR',
+  myr: 'MYR',
+  rp: 'IDR',
+  idr: 'IDR',
+  kd: 'KWD',
+  kwd: 'KWD',
+  sar: 'SAR',
+  aed: 'AED',
+  rs: 'PKR',
+  pkr: 'PKR',
+  '€': 'EUR',
+  eur: 'EUR',
+  '£': 'GBP',
+  gbp: 'GBP',
+};
+
+const CURRENCY = String.raw`(?:US\$|USD|RM|MYR|Rp\.?|IDR|KD|KWD|SAR|AED|Rs\.?|PKR|EUR|GBP|\$|€|£)`;
+const NUMBER = String.raw`\d{1,3}(?:\.\d{3}){2,}|\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?`;
+const SCALE = String.raw`(?:\s*(?:thousand|million|billion|juta|jt|ribu|rb|miliar|milyar|lakh|crore|mn|bn)|[kmb])`;
+const AMOUNT = String.raw`(?:${CURRENCY}\s?)?(?:${NUMBER})${SCALE}?\b`;
+const PERCENT = String.raw`(\d+(?:\.\d+)?)\s*(?:%|percent\b)`;
+const TENOR = String.raw`(\d+(?:\.\d+)?)[\s-]*(months?|years?|yrs?)\b`;
+
+// Contract names; a more specific contract hides the one it contains
+const EXPLICIT_TYPES: Array<{ type: string; pattern: RegExp; hides?: string[] }> = [
+  {
+    type: 'scenario_analysis',
+    pattern: /what[\s-]if|scenarios?\b|sensitivity/i,
+    hides: ['musharakah', 'mudharabah'],
+  },
+  {
+    type: 'diminishing_musharakah',
+    pattern: /diminishing|mutanaqisah/i,
+    hides: ['musharakah'],
+  },
+  {
+    type: 'mudharabah_pool',
+    pattern: /investment pool|depositors/i,
+    hides: ['mudharabah'],
+  },
+  { type: 'mudharabah', pattern: /mudh?arr?abah?|mudarib|rabb[\s-]al[\s-]mal/i },
+  { type: 'musharakah', pattern: /musharr?akah?|shirkah/i },
+  { type: 'murabaha', pattern: /murabahah?/i },
+  { type: 'ijarah', pattern: /ijarah?\b|\bimbt\b/i },
+  { type: 'zakat', pattern: /zaka[th]/i },
+];
+
+// Everyday words that point to a contract when none is named
+const IMPLIED_TYPES: Array<{ type: string; pattern: RegExp }> = [
+  { type: 'musharakah', pattern: /partners?(hip)?\b/i },
+  { type: 'murabaha', pattern: /cost[\s-]plus|mark[\s-]?up/i },
+  { type: 'ijarah', pattern: /\blease|leasing/i },
+  { type: 'zakat', pattern: /nisab/i },
+];
+
+// Capitalised words that are never partner names
+const NOT_NAMES = new Set([
+  'a',
+  'i',
+  'and',
+  'calculate',
+  'capital',
+  'compute',
+  'each',
+  'invested',
+  'loss',
+  'musharakah',
+  'partnership',
+  'profit',
+  'ratio',
+  'the',
+  'total',
+  'what',
+  'with',
+]);
+
+/**
+ * Deterministic parser for common calculation phrasings, used when the
+ * language model is unavailable and to cross-check what it extracted
+ *
+ * Handles amounts such as "50,000", "100k", "1.5 million" and "Rp 100 juta",
+ * ratios such as "60:40" and percentages. Returns only the parameters it can
+ * read with confidence, so missing values still go through clarification.
+ */
+export class RuleBasedExtractor {
+  /**
+   * @param query - User query
+   * @param types - Calculation types the server offers
+   * @returns Extraction, or null when the type is unclear or unsupported
+   */
+  extract(query: string, types: string[]): RuleExtraction | null {
+    const type = this.detectType(query, types);
+    if (!type) {
+      return null;
+    }
+
+    const parameters = this.extractParameters(type, query);
+    if (!parameters) {
+      return null;
+    }
+
+    const currency = this.detectCurrency(query);
+    return { type, parameters: currency ? { ...parameters, currency } : parameters };
+  }
+
+  /**
+   * Parse one amount, e.g. "$1.5 million" -> 1500000, "Rp 100 juta" -> 100000000
+   */
+  parseAmount(text: string): number | null {
+    const match = new RegExp(`^\\s*(?:${CURRENCY}\\s?)?(${NUMBER})(${SCALE})?\\s*$`, 'i').exec(
+      text
+    );
+    if (!match) {
+      return null;
+    }
+
+    const [, digits, scale] = match;
+    // "100.000.000" uses dots as thousands separators
+    const normalized = /^\d{1,3}(\.\d{3}){2,}$/.test(digits)
+      ? digits.replace(/\./g, '')
+      : digits.replace(/,/g, '');
+    const multiplier = scale ? MULTIPLIERS[scale.trim().toLowerCase()] : 1;
+
+    return Math.round(parseFloat(normalized) * multiplier * 1e6) / 1e6;
+  }
+
+  private detectType(query: string, types: string[]): string | null {
+    const explicit = EXPLICIT_TYPES.filter((t) => t.pattern.test(query));
+    const hidden = new Set(explicit.flatMap((t) => t.hides ?? []));
+    const named = explicit.map((t) => t.type).filter((t) => !hidden.has(t));
+
+    // Comparisons of several contracts are left to the model
+    const candidates =
+      named.length > 0
+        ? named
+        : [...new Set(IMPLIED_TYPES.filter((t) => t.pattern.test(query)).map((t) => t.type))];
+
+    return candidates.length === 1 && types.includes(candidates[0]) ? candidates[0] : null;
+  }
+
+  private extractParameters(type: string, query: string): Record<string, unknown> | null {
+    switch (type) {
+      case 'musharakah':
+        return this.extractMusharakah(query);
+      case 'mudharabah':
+        return this.extractMudharabah(query);
+      case 'murabaha':
+        return this.extractMurabaha(query);
+      case 'ijarah':
+        return this.extractIjarah(query);
+      case 'zakat':
+        return this.extractZakat(query);
+      default:
+        // Diminishing Musharakah, pools, scenario analysis and discovered calculators need the model
+        return null;
+    }
+  }
+
+  private extractMusharakah(query: string): Record<string, unknown> {
+    const parameters: Record<string, unknown> = {};
+
+    const partners = this.extractPartners(query);
+    if (partners.length > 0) {
+      parameters.partners = partners;
+    }
+
+    const profit = this.extractProfit(query);
+    if (profit !== null) {
+      parameters.totalProfit = profit;
+    }
+
+    // A ratio only sets profit sharing when it has one share per partner
+    const ratio = this.extractRatio(query);
+    if (ratio && ratio.length === partners.length) {
+      parameters.profitRatio = ratio;
+    }
+
+    return parameters;
+  }
+
+  private extractMudharabah(query: string): Record<string, unknown> {
+    const parameters: Record<string, unknown> = {};
+
+    const capital =
+      this.amountAfter(query, String.raw`capital|invest(?:s|ed|ment|ing)?|provides?|provided`) ??
+      this.amountBefore(query, 'capital');
+    if (capital !== null) {
+      parameters.capitalAmount = capital;
+    }
+
+    const profit = this.extractProfit(query);
+    if (profit !== null) {
+      parameters.profit = profit;
+    }
+
+    const ratio = this.extractRatio(query);
+    const mudaribShare =
+      this.percentAfter(
+        query,
+        String.raw`(?:mudarib|entrepreneur|manager)\s+(?:gets|receives|takes)`
+      ) ??
+      this.percentBefore(
+        query,
+        String.raw`(?:to|for)\s+(?:the\s+)?(?:mudarib|entrepreneur|manager)`
+      );
+    if (ratio?.length === 2) {
+      [parameters.capitalProviderRatio, parameters.entrepreneurRatio] = ratio;
+    } else if (mudaribShare !== null) {
+      parameters.capitalProviderRatio = this.round(1 - mudaribShare);
+      parameters.entrepreneurRatio = mudaribShare;
+    }
+
+    return parameters;
+  }
+
+  private extractMurabaha(query: string): Record<string, unknown> {
+    const parameters: Record<string, unknown> = {};
+
+    const cost =
+      this.amountAfter(
+        query,
+        String.raw`cost(?:\s+price)?|costing|price|worth|bought|purchased?|buys?`
+      ) ?? this.firstAmount(query);
+    if (cost !== null) {
+      parameters.costPrice = cost;
+    }
+
+    const markup =
+      this.percentBefore(query, String.raw`(?:mark[\s-]?up|profit|margin)`) ??
+      this.percentAfter(query, String.raw`(?:mark[\s-]?up|margin|profit)(?:\s+rate)?`);
+    if (markup !== null) {
+      parameters.markupRate = markup;
+    }
+
+    const tenor = this.extractTenorMonths(query);
+    if (tenor !== null) {
+      parameters.tenorMonths = tenor;
+    }
+
+    const downPercent = this.percentBefore(query, 'down');
+    const downAmount = this.amountAfter(query, String.raw`down[\s-]?payment`);
+    if (downAmount !== null) {
+      parameters.downPayment = downAmount;
+    } else if (downPercent !== null && cost !== null) {
+      parameters.downPayment = this.round(cost * downPercent);
+    }
+
+    return parameters;
+  }
+
+  private extractIjarah(query: string): Record<string, unknown> {
+    const parameters: Record<string, unknown> = {
+      leaseType: /muntahia|bittamleek|\bimbt\b|lease[\s-]to[\s-]own|ownership/i.test(query)
+        ? 'muntahia_bittamleek'
+        : 'operating',
+    };
+
+    const assetCost =
+      this.amountAfter(
+        query,
+        String.raw`asset|cost|worth|valued at|equipment|vehicle|car|property|building|machine(?:ry)?`
+      ) ?? this.firstAmount(query);
+    if (assetCost !== null) {
+      parameters.assetCost = assetCost;
+    }
+
+    const term = this.extractTenorMonths(query);
+    if (term !== null) {
+      parameters.leaseTermMonths = term;
+    }
+
+    const rate =
+      this.percentBefore(
+        query,
+        String.raw`(?:annual\s+)?(?:rental|rent|rate|yield|return|p\.?a\.?|per annum)`
+      ) ?? this.percentAfter(query, String.raw`rental(?:\s+rate)?|rent|rate|yield`);
+    if (rate !== null) {
+      parameters.annualRentalRate = rate;
+    }
+
+    return parameters;
+  }
+
+  private extractZakat(query: string): Record<string, unknown> {
+    const assets: Record<string, number> = {};
+
+    const categories: Array<[string, string]> = [
+      ['cash', String.raw`cash|savings|bank balance`],
+      ['tradeGoods', String.raw`inventory|trade goods|merchandise`],
+      ['receivables', String.raw`receivables?`],
+      ['investments', String.raw`investments?|shares`],
+    ];
+    for (const [name, keywords] of categories) {
+      const value = this.amountAfter(query, keywords) ?? this.amountBefore(query, keywords);
+      if (value !== null) {
+        assets[name] = value;
+      }
+    }
+
+    const gold = this.extractGrams(query, 'gold');
+    if (gold !== null) {
+      assets.goldGrams = gold;
+    }
+    const silver = this.extractGrams(query, 'silver');
+    if (silver !== null) {
+      assets.silverGrams = silver;
+    }
+
+    const parameters: Record<string, unknown> = { assets };
+
+    const liabilities = this.amountAfter(query, String.raw`debts?|liabilit(?:y|ies)|owe`);
+    if (liabilities !== null) {
+      parameters.liabilities = liabilities;
+    }
+
+    const goldPrice = this.pricePerGram(query, 'gold');
+    if (goldPrice !== null) {
+      parameters.goldPricePerGram = goldPrice;
+    }
+    const silverPrice = this.pricePerGram(query, 'silver');
+    if (silverPrice !== null) {
+      parameters.silverPricePerGram = silverPrice;
+    }
+
+    return parameters;
+  }
+
+  /**
+   * Named contributions: "Partner A invested 50,000 and B 30,000", "Ali $50k, Sara $30k"
+   */
+  private extractPartners(query: string): Array<{ name: string; investment: number }> {
+    const pattern = new RegExp(
+      String.raw`\b(Partner\s+[A-Z]\b|[A-Z][a-zA-Z]*)` +
+        String.raw`(?:\s+(?:invested|invests|investing|contributed|contributes|put in|puts in|provided|provides|brings|brought|has|with))?` +
+        String.raw`\s*:?\s*(${AMOUNT})`,
+      'g'
+    );
+
+    const partners: Array<{ name: string; investment: number }> = [];
+    for (const match of query.matchAll(pattern)) {
+      const name = match[1].replace(/\s+/g, ' ');
+      const investment = this.parseAmount(match[2]);
+      if (NOT_NAMES.has(name.toLowerCase()) || CURRENCY_SYMBOLS[name.toLowerCase()]) {
+        continue;
+      }
+      if (investment !== null && investment > 0) {
+        // "B" in "Partner A ... and B ..." is Partner B
+        const fullName = /^[A-Z]$/.test(name) ? `Partner ${name}` : name;
+        partners.push({ name: fullName, investment });
+      }
+    }
+
+    return partners;
+  }
+
+  private extractProfit(query: string): number | null {
+    const profit =
+      this.amountAfter(query, String.raw`profits?|earned|earnings|income`) ??
+      this.amountBefore(query, 'profits?');
+    if (profit !== null) {
+      return profit;
+    }
+
+    const loss =
+      this.amountAfter(query, String.raw`loss(?:es)?|lost`) ?? this.amountBefore(query, 'loss');
+    return loss !== null ? -loss : null;
+  }
+
+  /**
+   * "60:40", "60/40" or "3 to 2 ratio", normalised to shares summing to 1
+   */
+  private extractRatio(query: string): number[] | null {
+    const match =
+      /\b(\d+(?:\.\d+)?)\s*[:/]\s*(\d+(?:\.\d+)?)(?:\s*[:/]\s*(\d+(?:\.\d+)?))?\b/.exec(query) ??
+      /\b(\d+(?:\.\d+)?)\s+to\s+(\d+(?:\.\d+)?)\s+(?:ratio|split)/i.exec(query);
+    if (!match) {
+      return null;
+    }
+
+    const parts = match.slice(1).filter(Boolean).map(Number);
+    const total = parts.reduce((sum, p) => sum + p, 0);
+    return total > 0 ? parts.map((p) => this.round(p / total)) : null;
+  }
+
+  private extractTenorMonths(query: string): number | null {
+    const match = new RegExp(TENOR, 'i').exec(query);
+    if (!match) {
+      return null;
+    }
+    const value = parseFloat(match[1]);
+    return /^y/i.test(match[2]) ? Math.round(value * 12) : Math.round(value);
+  }
+
+  private extractGrams(query: string, metal: string): number | null {
+    // 1 tola = 11.66g, 1 troy oz = 31.1g (extraction rule 13)
+    const match = new RegExp(
+      String.raw`(\d+(?:\.\d+)?)\s*(g|grams?|tolas?|oz|ounces?)\s+(?:of\s+)?${metal}`,
+      'i'
+    ).exec(query);
+    if (!match) {
+      return null;
+    }
+    const value = parseFloat(match[1]);
+    const unit = match[2].toLowerCase();
+    if (unit.startsWith('tola')) return this.round(value * 11.66);
+    if (unit === 'oz' || unit.startsWith('ounce')) return this.round(value * 31.1);
+    return value;
+  }
+
+  private pricePerGram(query: string, metal: string): number | null {
+    const match = new RegExp(
+      String.raw`${metal}(?:\s+price)?(?:\s+(?:is|at|of))?\s*(${AMOUNT})\s*(?:per|/|a)\s*g(?:ram)?\b`,
+      'i'
+    ).exec(query);
+    return match ? this.parseAmount(match[1]) : null;
+  }
+
+  private amountAfter(query: string, keywords: string): number | null {
+    const match = new RegExp(
+      String.raw`\b(?:${keywords})\b(?:\s+(?:of|is|was|were|at|to|for|amount|amounts|totall?(?:ing|ed)?))*\s*:?\s*(${AMOUNT})`,
+      'i'
+    ).exec(query);
+    return match ? this.parseAmount(match[1]) : null;
+  }
+
+  private amountBefore(query: string, keywords: string): number | null {
+    const match = new RegExp(String.raw`(${AMOUNT})\s+(?:of\s+|in\s+)?(?:${keywords})\b`, 'i').exec(
+      query
+    );
+    return match ? this.parseAmount(match[1]) : null;
+  }
+
+  private firstAmount(query: string): number | null {
+    // Skip amounts that are really tenors or percentages
+    const pattern = new RegExp(
+      String.raw`(${AMOUNT})(?!\s*(?:%|percent|months?|years?|yrs?))`,
+      'gi'
+    );
+    for (const match of query.matchAll(pattern)) {
+      const value = this.parseAmount(match[1]);
+      if (value !== null) {
+        return value;
+      }
+    }
+    return null;
+  }
+
+  private percentBefore(query: string, keywords: string): number | null {
+    const match = new RegExp(String.raw`${PERCENT}\s*(?:of\s+)?(?:${keywords})`, 'i').exec(query);
+    return match ? this.round(parseFloat(match[1]) / 100) : null;
+  }
+
+  private percentAfter(query: string, keywords: string): number | null {
+    const match = new RegExp(
+      String.raw`\b(?:${keywords})(?:\s+(?:of|is|at|rate))*\s*:?\s*${PERCENT}`,
+      'i'
+    ).exec(query);
+    return match ? this.round(parseFloat(match[1]) / 100) : null;
+  }
+
+  private detectCurrency(query: string): string | undefined {
+    const match = /(US\$|€|£)|\b(USD|RM|MYR|Rp|IDR|KD|KWD|SAR|AED|Rs|PKR|EUR|GBP)\b/i.exec(query);
+    if (!match) {
+      return undefined;
+    }
+    return CURRENCY_SYMBOLS[(match[1] ?? match[2]).toLowerCase()];
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 1e6) / 1e6;
+  }
+}
@@ -40,21 +40,51 @@ export interface KnowledgeResult {
 
 export interface CalculationResult {
   result: string;
-  calculation: {
-    type: 'musharakah' | 'mudharabah';
-    inputs: Record<string, number>;
-    outputs: Record<string, number>;
-    steps: string[];
-  };
+  // First calculation; the only one unless the query asked for several
+  calculation: CalculationType;
+  // Every calculation of a compound query, in the order asked
+  calculations?: CalculationType[];
 }
 
 export type CalculationType = {
-  type: 'musharakah' | 'mudharabah';
+  // Calculator that produced the result, e.g. "murabaha" for calculate_murabaha
+  type: string;
+  // ISO 4217 code, present when the query named a currency
+  currency?: string;
   inputs: Record<string, number>;
   outputs: Record<string, number>;
   steps: string[];
+  // Period-by-period rows for amortization-style contracts (installments, rentals, buyouts)
+  schedule?: Array<Record<string, number>>;
+  // Matrix results (scenario analysis), one row per scenario
+  table?: {
+    columns: string[];
+    rows: Array<Array<string | number>>;
+  };
 };
 
+export interface MissingParameter {
+  name: string;
+  // From the tool's input schema, used to phrase the follow-up question
+  description?: string;
+}
+
+// Calculation held in the session until the user supplies the missing values
+export interface PendingCalculation {
+  type: string;
+  // Parameters extracted so far
+  parameters: Record<string, unknown>;
+  missing: MissingParameter[];
+  // Original query, re-read together with the user's reply
+  query: string;
+}
+
+export interface CalculationClarification {
+  calculationType: string;
+  missing: MissingParameter[];
+  question: string;
+}
+
 export const ComplianceStatus = z.enum(['COMPLIANT', 'FLAGGED']);
 export type ComplianceStatus = z.infer<typeof ComplianceStatus>;
 
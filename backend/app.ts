@@ -4,7 +4,8 @@ import { logger } from 'hono/logger';
 import dotenv from 'dotenv';
 import { db } from './db/config';
 import { sql } from 'drizzle-orm';
-import { documentRoutes, searchRoutes } from './routes';
+import { documentRoutes, searchRoutes, mcpRoutes, calculatorRoutes } from './routes';
+import { MCPClient } from './lib/mcp-client';
 import path from 'path';
 import { fileURLToPath } from 'url';
 
@@ -29,8 +30,12 @@ app.get('/', (c) => {
     version: '1.0.0',
     endpoints: {
       health: '/health',
+      mcpHealth: '/health/mcp',
       search: '/api/search',
       documents: '/api/documents',
+      mcp: '/api/mcp',
+      calculate: '/api/calculate/:type',
+      scenarios: '/api/calculate/scenarios',
     },
     documentation: 'Visit /health to check system status',
   });
@@ -59,6 +64,33 @@ app.get('/health', async (c) => {
   }
 });
 
+// Calculator server: pings it (connecting if needed) and reports the client's connection state
+app.get('/health/mcp', async (c) => {
+  const mcpClient = MCPClient.getInstance();
+
+  try {
+    const latencyMs = await mcpClient.ping();
+
+    return c.json({
+      status: 'ok',
+      mcp: { ...mcpClient.getHealth(), latencyMs },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return c.json(
+      {
+        status: 'error',
+        mcp: mcpClient.getHealth(),
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+      },
+      503
+    );
+  }
+});
+
 // Register API routes
 documentRoutes(app);
 searchRoutes(app);
+mcpRoutes(app);
+calculatorRoutes(app);
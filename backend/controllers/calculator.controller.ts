@@ -0,0 +1,68 @@
+import { Context } from 'hono';
+import { z } from 'zod';
+import {
+  CALCULATOR_TYPES,
+  CalculatorService,
+  CalculatorServiceError,
+  isCalculatorType,
+  type CalculatorType,
+} from '@/services/calculator.service';
+
+export class CalculatorController {
+  constructor(private calculatorService: CalculatorService) {}
+
+  /**
+   * Any calculator by type, with the tool's input as the JSON body
+   */
+  async calculate(c: Context) {
+    const type = c.req.param('type');
+    if (!isCalculatorType(type)) {
+      return c.json({ error: `Unknown calculator type: ${type}`, types: CALCULATOR_TYPES }, 404);
+    }
+
+    return this.run(c, type);
+  }
+
+  /**
+   * What-if matrix of Musharakah/Mudharabah outcomes across profit levels and ratios
+   */
+  async scenarios(c: Context) {
+    return this.run(c, 'scenario_analysis');
+  }
+
+  private async run(c: Context, type: CalculatorType) {
+    let input: unknown;
+    try {
+      input = await c.req.json();
+    } catch {
+      return c.json({ error: 'Request body must be JSON' }, 400);
+    }
+
+    try {
+      const output = await this.calculatorService.calculate(type, input);
+      return c.json(output);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return c.json(
+          {
+            error: 'Validation failed',
+            details: error.errors.map((e) => ({
+              field: e.path.join('.') || 'root',
+              message: e.message,
+            })),
+          },
+          400
+        );
+      }
+      if (error instanceof CalculatorServiceError && error.code === 'CALCULATION_ERROR') {
+        return c.json({ error: error.message, code: error.code }, 400);
+      }
+      if (error instanceof CalculatorServiceError && error.code !== 'INVALID_OUTPUT') {
+        return c.json({ error: 'Calculator unavailable', code: error.code }, 503);
+      }
+
+      console.error(`Calculation error (${type}):`, error);
+      return c.json({ error: 'Failed to run calculation' }, 500);
+    }
+  }
+}
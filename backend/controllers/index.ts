@@ -1,2 +1,4 @@
 export { DocumentController } from './document.controller';
 export { SearchController } from './search.controller';
+export { McpController } from './mcp.controller';
+export { CalculatorController } from './calculator.controller';
@@ -0,0 +1,41 @@
+import { Context } from 'hono';
+import { WebStandardStreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js';
+import { createKnowledgeMcpServer, type KnowledgeMcpServerDeps } from '@/lib/knowledge-mcp-server';
+
+export class McpController {
+  constructor(private deps: KnowledgeMcpServerDeps) {}
+
+  /**
+   * Serve one MCP request over Streamable HTTP (POST /api/mcp)
+   *
+   * Stateless: a fresh server and transport per request, so any backend
+   * replica can answer and nothing is kept between calls.
+   */
+  async handle(c: Context) {
+    if (c.req.method !== 'POST') {
+      return c.json(
+        { jsonrpc: '2.0', error: { code: -32000, message: 'Method not allowed' }, id: null },
+        405
+      );
+    }
+
+    const server = createKnowledgeMcpServer(this.deps);
+    const transport = new WebStandardStreamableHTTPServerTransport({
+      sessionIdGenerator: undefined,
+      enableJsonResponse: true,
+    });
+
+    try {
+      await server.connect(transport);
+      return await transport.handleRequest(c.req.raw);
+    } catch (error) {
+      console.error('MCP endpoint error:', error);
+      return c.json(
+        { jsonrpc: '2.0', error: { code: -32603, message: 'Internal server error' }, id: null },
+        500
+      );
+    } finally {
+      await server.close();
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import {
+  SearchInputSchema,
+  SearchKnowledgeOutputSchema,
+  AskQuestionInputSchema,
+  AskQuestionOutputSchema,
+  type SearchKnowledgeOutput,
+  type AskQuestionOutput,
+} from '@/schemas/search.schemas';
+import type { SearchService } from '@/services/search.service';
+import type { KnowledgeAgent } from '@/agents/knowledge-agent';
+
+export interface KnowledgeMcpServerDeps {
+  searchService: SearchService;
+  // ask_question is only registered when an agent is provided
+  knowledgeAgent?: KnowledgeAgent;
+}
+
+function validationError(error: z.ZodError) {
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: `Validation Error: ${error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')}`,
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Create an MCP server exposing the curated knowledge base to other assistants
+ *
+ * - search_knowledge: ranked chunks from ChunkRepository.vectorSearch with
+ *   document titles, categories and similarity
+ * - ask_question: RAG answer from KnowledgeAgent with its sources
+ *
+ * @param deps - Search service and optional knowledge agent to serve
+ */
+export function createKnowledgeMcpServer({
+  searchService,
+  knowledgeAgent,
+}: KnowledgeMcpServerDeps): McpServer {
+  const server = new McpServer({
+    name: 'islamic-finance-knowledge',
+    version: '1.0.0',
+  });
+
+  server.registerTool(
+    'search_knowledge',
+    {
+      title: 'Search the Islamic Finance Knowledge Base',
+      description:
+        'Semantic search over the curated Islamic finance corpus (principles, products, compliance, comparison and calculation documents). ' +
+        'Returns the most similar chunks ranked by cosine similarity, with document titles and categories. ' +
+        'Narrow results with filters.category or filters.documentId and raise threshold for stricter matches.',
+      inputSchema: SearchInputSchema,
+      outputSchema: SearchKnowledgeOutputSchema,
+    },
+    async (input) => {
+      try {
+        const validatedInput = SearchInputSchema.parse(input);
+        const results = await searchService.search(validatedInput);
+
+        const output: SearchKnowledgeOutput = {
+          query: validatedInput.query,
+          results: results.map((r, index) => ({
+            rank: index + 1,
+            chunkId: r.id,
+            documentId: r.documentId,
+            title: r.metadata.title,
+            category: r.metadata.category,
+            chunkIndex: r.metadata.chunkIndex,
+            similarity: r.similarity,
+            content: r.content,
+          })),
+        };
+
+        const text =
+          output.results.length === 0
+            ? `No knowledge base chunks matched "${output.query}".`
+            : output.results
+                .map(
+                  (r) =>
+                    `${r.rank}. ${r.title} [${r.category}] (similarity ${r.similarity.toFixed(3)})\n${r.content}`
+                )
+                .join('\n\n');
+
+        return {
+          content: [{ type: 'text', text }],
+          structuredContent: output,
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return validationError(error);
+        }
+        throw error;
+      }
+    }
+  );
+
+  if (knowledgeAgent) {
+    server.registerTool(
+      'ask_question',
+      {
+        title: 'Answer a Question from the Islamic Finance Knowledge Base',
+        description:
+          'Answer a question using retrieval-augmented generation over the curated corpus for one category. ' +
+          'Returns the answer, a retrieval confidence score and the source chunks used.',
+        inputSchema: AskQuestionInputSchema,
+        outputSchema: AskQuestionOutputSchema,
+      },
+      async (input) => {
+        try {
+          const { question, category } = AskQuestionInputSchema.parse(input);
+          const result = await knowledgeAgent.process(question, category);
+
+          const output: AskQuestionOutput = {
+            answer: result.answer,
+            confidence: result.confidence,
+            category: result.category,
+            sources: result.sources,
+          };
+
+          return {
+            content: [{ type: 'text', text: output.answer }],
+            structuredContent: output,
+          };
+        } catch (error) {
+          if (error instanceof z.ZodError) {
+            return validationError(error);
+          }
+          throw error;
+        }
+      }
+    );
+  }
+
+  return server;
+}
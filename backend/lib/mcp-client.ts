@@ -1,7 +1,10 @@
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
-import { spawn } from 'child_process';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { ErrorCode, McpError, type Tool } from '@modelcontextprotocol/sdk/types.js';
 import { resolve } from 'path';
+import { onShutdown } from '@/lib/shutdown';
 
 export class MCPClientError extends Error {
   constructor(
@@ -19,114 +22,337 @@ export interface MCPToolResult {
     type: string;
     text: string;
   }>;
+  // Present for tools that declare an output schema, already validated against it
+  structuredContent?: Record<string, unknown>;
   isError?: boolean;
 }
 
+// Tool as listed by the server: name, description and JSON Schema for its arguments
+export type MCPToolDefinition = Pick<Tool, 'name' | 'description' | 'inputSchema'>;
+
+// Where to reach the MCP server: a Streamable HTTP endpoint, or a command run over stdio
+export type MCPServerTarget = { url: string } | { command: string; args?: string[] };
+
+export type MCPConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
+export interface MCPHealth {
+  status: MCPConnectionStatus;
+  transport: 'stdio' | 'http';
+  // Server child process, stdio transport only
+  pid?: number;
+  connectedAt?: string;
+  reconnectAttempts: number;
+  lastError?: string;
+}
+
+export interface MCPClientOptions {
+  // Per-request limit for tool calls, tool listing, ping and the handshake
+  callTimeoutMs?: number;
+  // Backoff between reconnect attempts after the server goes away: base × 2^attempt, capped
+  reconnectBaseDelayMs?: number;
+  reconnectMaxDelayMs?: number;
+  // Give up reconnecting in the background after this many attempts; the next call tries again
+  maxReconnectAttempts?: number;
+}
+
+// MCP_SERVER_URL selects the HTTP transport; otherwise MCP_SERVER_PATH is spawned with node
+function targetFromEnv(): MCPServerTarget {
+  if (process.env.MCP_SERVER_URL) {
+    return { url: process.env.MCP_SERVER_URL };
+  }
+  const serverPath = process.env.MCP_SERVER_PATH || '../mcp-server/dist/index.js';
+  return { command: 'node', args: [resolve(process.cwd(), serverPath)] };
+}
+
 export class MCPClient {
   private static instance: MCPClient | null = null;
   private client: Client | null = null;
-  private transport: StdioClientTransport | null = null;
-  private isConnected = false;
+  private transport: Transport | null = null;
+  private tools: MCPToolDefinition[] = [];
+  private status: MCPConnectionStatus = 'disconnected';
+  private connecting: Promise<void> | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectAttempts = 0;
+  private connectedAt: Date | null = null;
+  private lastError: string | null = null;
+  // Bumped by disconnect, so a connect still in flight knows to back out
+  private generation = 0;
+  private callTimeoutMs: number;
+  private reconnectBaseDelayMs: number;
+  private reconnectMaxDelayMs: number;
+  private maxReconnectAttempts: number;
 
-  private constructor() {}
+  constructor(
+    private target: MCPServerTarget,
+    options: MCPClientOptions = {}
+  ) {
+    const {
+      callTimeoutMs = Number(process.env.MCP_CALL_TIMEOUT_MS) || 30000,
+      reconnectBaseDelayMs = 500,
+      reconnectMaxDelayMs = 30000,
+      maxReconnectAttempts = 10,
+    } = options;
+
+    this.callTimeoutMs = callTimeoutMs;
+    this.reconnectBaseDelayMs = reconnectBaseDelayMs;
+    this.reconnectMaxDelayMs = reconnectMaxDelayMs;
+    this.maxReconnectAttempts = maxReconnectAttempts;
+  }
 
-  static getInstance(): MCPClient {
+  /**
+   * Shared client, disconnected by the app's shutdown
+   *
+   * @param target - Server to connect to; only used when the instance is first created,
+   *   defaults to MCP_SERVER_URL or MCP_SERVER_PATH
+   */
+  static getInstance(target: MCPServerTarget = targetFromEnv()): MCPClient {
     if (!MCPClient.instance) {
-      MCPClient.instance = new MCPClient();
+      const instance = new MCPClient(target);
+      MCPClient.instance = instance;
+      onShutdown('MCP client', () => instance.disconnect());
     }
     return MCPClient.instance;
   }
 
+  /**
+   * Connect unless already connected; concurrent callers share one attempt
+   */
   async connect(): Promise<void> {
-    if (this.isConnected && this.client) {
+    if (this.status === 'connected' && this.client) {
       return;
     }
+    if (!this.connecting) {
+      this.connecting = this.establish().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  private async establish(): Promise<void> {
+    const generation = this.generation;
+    this.clearReconnectTimer();
+    if (this.status !== 'reconnecting') {
+      this.status = 'connecting';
+    }
+
+    const transport = this.createTransport();
+    const client = new Client(
+      {
+        name: 'calculation-agent-client',
+        version: '1.0.0',
+      },
+      {
+        capabilities: {},
+      }
+    );
+    // Fires when the server exits or the connection drops, and on our own close
+    client.onclose = () => this.handleClose(client);
 
     try {
-      const serverPath = process.env.MCP_SERVER_PATH || '../mcp-server/dist/index.js';
-      const absolutePath = resolve(process.cwd(), serverPath);
+      await client.connect(transport, { timeout: this.callTimeoutMs });
 
-      // Spawn MCP server process
-      const serverProcess = spawn('node', [absolutePath], {
-        stdio: ['pipe', 'pipe', 'pipe'],
-      });
+      // Listing tools caches their output schemas, so the SDK validates every
+      // structuredContent result in callTool; names and input schemas are kept
+      // for callers that discover tools at runtime
+      const { tools } = await client.listTools(undefined, { timeout: this.callTimeoutMs });
+      this.tools = tools.map(({ name, description, inputSchema }) => ({
+        name,
+        description,
+        inputSchema,
+      }));
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      this.status = 'disconnected';
+      // Closing also stops a child process that started but never answered
+      await client.close().catch(() => undefined);
+      throw new MCPClientError('Failed to connect to MCP server', 'CONNECTION_ERROR', error);
+    }
 
-      serverProcess.on('error', (error) => {
-        console.error('MCP server process error:', error);
-      });
+    if (generation !== this.generation) {
+      await client.close().catch(() => undefined);
+      throw new MCPClientError('MCP client was disconnected while connecting', 'CONNECTION_ERROR');
+    }
 
-      serverProcess.stderr?.on('data', (data) => {
-        console.error('MCP server stderr:', data.toString());
-      });
+    this.client = client;
+    this.transport = transport;
+    this.status = 'connected';
+    this.connectedAt = new Date();
+    this.reconnectAttempts = 0;
+    this.lastError = null;
 
-      // Create stdio transport
-      this.transport = new StdioClientTransport({
-        command: 'node',
-        args: [absolutePath],
-      });
+    console.log('MCP client connected successfully');
+  }
 
-      // Create client and connect
-      this.client = new Client(
-        {
-          name: 'calculation-agent-client',
-          version: '1.0.0',
-        },
-        {
-          capabilities: {},
-        }
+  private createTransport(): Transport {
+    if ('url' in this.target) {
+      // Shared calculator server reached over the network
+      return new StreamableHTTPClientTransport(new URL(this.target.url));
+    }
+
+    // The transport spawns and owns the server process; its stderr carries the server's logs
+    const { command, args = [] } = this.target;
+    const transport = new StdioClientTransport({ command, args, stderr: 'pipe' });
+    transport.stderr?.on('data', (data: Buffer) => {
+      console.error('MCP server stderr:', data.toString());
+    });
+    return transport;
+  }
+
+  /**
+   * Unexpected close (server exited or connection lost): reconnect in the background
+   */
+  private handleClose(client: Client): void {
+    // Ignore clients we replaced or closed on purpose
+    if (client !== this.client) {
+      return;
+    }
+
+    console.error('MCP server connection lost');
+    this.client = null;
+    this.transport = null;
+    this.connectedAt = null;
+    this.lastError = 'Connection closed';
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+      this.status = 'disconnected';
+      console.error(
+        `MCP client gave up reconnecting after ${this.reconnectAttempts} attempts, the next call will retry`
       );
+      this.reconnectAttempts = 0;
+      return;
+    }
 
-      await this.client.connect(this.transport);
-      this.isConnected = true;
+    const delay = Math.min(
+      this.reconnectBaseDelayMs * 2 ** this.reconnectAttempts,
+      this.reconnectMaxDelayMs
+    );
+    this.reconnectAttempts++;
+    this.status = 'reconnecting';
+    console.log(`MCP client reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
 
-      console.log('MCP client connected successfully');
-    } catch (error) {
-      this.isConnected = false;
-      throw new MCPClientError('Failed to connect to MCP server', 'CONNECTION_ERROR', error);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect().catch(() => this.scheduleReconnect());
+    }, delay);
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
     }
   }
 
+  /**
+   * Tools the server listed when this client connected
+   */
+  async listTools(): Promise<MCPToolDefinition[]> {
+    await this.connect();
+    return this.tools;
+  }
+
   async callTool(toolName: string, args: Record<string, unknown>): Promise<MCPToolResult> {
-    if (!this.isConnected || !this.client) {
-      await this.connect();
-    }
+    // A call does not wait out the reconnect backoff, it connects straight away
+    await this.connect();
 
     try {
-      const result = await this.client!.callTool({
-        name: toolName,
-        arguments: args,
-      });
+      const result = await this.client!.callTool(
+        {
+          name: toolName,
+          arguments: args,
+        },
+        undefined,
+        { timeout: this.callTimeoutMs }
+      );
 
       return result as MCPToolResult;
     } catch (error) {
+      if (error instanceof McpError && error.code === ErrorCode.RequestTimeout) {
+        throw new MCPClientError(
+          `Tool call timed out after ${this.callTimeoutMs}ms: ${toolName}`,
+          'TIMEOUT',
+          error
+        );
+      }
+      if (error instanceof McpError && error.code === ErrorCode.ConnectionClosed) {
+        throw new MCPClientError(
+          `MCP server connection lost during ${toolName}`,
+          'CONNECTION_ERROR',
+          error
+        );
+      }
+      if (error instanceof McpError && /structured content/i.test(error.message)) {
+        throw new MCPClientError(
+          `Tool output does not match its schema: ${toolName}`,
+          'OUTPUT_VALIDATION_ERROR',
+          error
+        );
+      }
       throw new MCPClientError(`Tool call failed: ${toolName}`, 'TOOL_CALL_ERROR', error);
     }
   }
 
+  /**
+   * Round trip to the server, connecting first if needed
+   *
+   * @returns Latency in milliseconds
+   */
+  async ping(): Promise<number> {
+    await this.connect();
+
+    const started = Date.now();
+    try {
+      await this.client!.ping({ timeout: this.callTimeoutMs });
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      const timedOut = error instanceof McpError && error.code === ErrorCode.RequestTimeout;
+      throw new MCPClientError(
+        timedOut ? `Ping timed out after ${this.callTimeoutMs}ms` : 'Ping failed',
+        timedOut ? 'TIMEOUT' : 'CONNECTION_ERROR',
+        error
+      );
+    }
+    return Date.now() - started;
+  }
+
+  getHealth(): MCPHealth {
+    return {
+      status: this.status,
+      transport: 'url' in this.target ? 'http' : 'stdio',
+      pid:
+        this.transport instanceof StdioClientTransport
+          ? (this.transport.pid ?? undefined)
+          : undefined,
+      connectedAt: this.connectedAt?.toISOString(),
+      reconnectAttempts: this.reconnectAttempts,
+      lastError: this.lastError ?? undefined,
+    };
+  }
+
   async disconnect(): Promise<void> {
-    if (this.client) {
+    this.generation++;
+    this.clearReconnectTimer();
+    this.reconnectAttempts = 0;
+
+    const client = this.client;
+    this.client = null;
+    this.transport = null;
+    this.tools = [];
+    this.status = 'disconnected';
+    this.connectedAt = null;
+
+    if (client) {
       try {
-        await this.client.close();
+        // Stops the server child process (SIGTERM, then SIGKILL if it lingers)
+        await client.close();
       } catch (error) {
         console.error('Error closing MCP client:', error);
       }
-      this.client = null;
-      this.transport = null;
-      this.isConnected = false;
       console.log('MCP client disconnected');
     }
   }
 }
-
-// Graceful shutdown
-process.on('SIGTERM', async () => {
-  console.log('SIGTERM received, disconnecting MCP client...');
-  await MCPClient.getInstance().disconnect();
-  process.exit(0);
-});
-
-process.on('SIGINT', async () => {
-  console.log('SIGINT received, disconnecting MCP client...');
-  await MCPClient.getInstance().disconnect();
-  process.exit(0);
-});
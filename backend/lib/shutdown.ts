@@ -0,0 +1,46 @@
+type ShutdownHandler = () => void | Promise<void>;
+
+// Longest a single handler may hold up shutdown
+const HANDLER_TIMEOUT_MS = 5000;
+
+const handlers: Array<{ name: string; handler: ShutdownHandler }> = [];
+let shuttingDown: Promise<void> | null = null;
+
+/**
+ * Register cleanup to run when the app shuts down. Handlers run in reverse
+ * order of registration, so the HTTP server registered last stops first.
+ */
+export function onShutdown(name: string, handler: ShutdownHandler): void {
+  handlers.push({ name, handler });
+}
+
+/**
+ * Run every shutdown handler once; later calls wait for the first
+ */
+export function shutdown(): Promise<void> {
+  if (!shuttingDown) {
+    shuttingDown = runHandlers();
+  }
+  return shuttingDown;
+}
+
+async function runHandlers(): Promise<void> {
+  for (const { name, handler } of [...handlers].reverse()) {
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      await Promise.race([
+        Promise.resolve().then(handler),
+        new Promise((_, reject) => {
+          timer = setTimeout(
+            () => reject(new Error(`timed out after ${HANDLER_TIMEOUT_MS}ms`)),
+            HANDLER_TIMEOUT_MS
+          );
+        }),
+      ]);
+    } catch (error) {
+      console.error(`[Shutdown] ${name} failed:`, error);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
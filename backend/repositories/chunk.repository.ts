@@ -17,6 +17,7 @@ export interface SearchResult {
   documentId: string;
   similarity: number;
   metadata: {
+    title: string;
     category: string;
     chunkIndex: number;
   };
@@ -58,6 +59,7 @@ export class ChunkRepository {
         content: documentChunks.content,
         documentId: documentChunks.documentId,
         chunkIndex: documentChunks.chunkIndex,
+        title: documents.title,
         category: documents.category,
         similarity: sql<number>`1 - (${documentChunks.embedding} <=> ${vectorStr}::vector)`,
       })
@@ -73,6 +75,7 @@ export class ChunkRepository {
       documentId: r.documentId,
       similarity: r.similarity,
       metadata: {
+        title: r.title || '',
         category: r.category || '',
         chunkIndex: r.chunkIndex,
       },
@@ -0,0 +1,16 @@
+import { Hono } from 'hono';
+import { CalculatorController } from '@/controllers/calculator.controller';
+import { CalculatorService } from '@/services/calculator.service';
+import { MCPClient } from '@/lib/mcp-client';
+
+export const calculatorRoutes = (app: Hono) => {
+  const calculatorService = new CalculatorService(MCPClient.getInstance());
+
+  const controller = new CalculatorController(calculatorService);
+
+  // Scenario analysis (calculate_scenario_analysis) without the chat's LLM extraction
+  app.post('/api/calculate/scenarios', (c) => controller.scenarios(c));
+
+  // Any calculate_* tool with structured input, e.g. /api/calculate/murabaha
+  app.post('/api/calculate/:type', (c) => controller.calculate(c));
+};
@@ -1,2 +1,4 @@
 export { documentRoutes } from './document.routes';
 export { searchRoutes } from './search.routes';
+export { mcpRoutes } from './mcp.routes';
+export { calculatorRoutes } from './calculator.routes';
@@ -0,0 +1,19 @@
+import { Hono } from 'hono';
+import { McpController } from '@/controllers/mcp.controller';
+import { ChunkRepository } from '@/repositories/chunk.repository';
+import { EmbeddingService } from '@/services/embedding-service';
+import { SearchService } from '@/services/search.service';
+import { KnowledgeAgent } from '@/agents/knowledge-agent';
+
+export const mcpRoutes = (app: Hono) => {
+  const chunkRepo = new ChunkRepository();
+  const embedder = new EmbeddingService();
+
+  const searchService = new SearchService(chunkRepo, embedder);
+  const knowledgeAgent = new KnowledgeAgent(chunkRepo, embedder);
+
+  const controller = new McpController({ searchService, knowledgeAgent });
+
+  // Knowledge base MCP server (search_knowledge, ask_question) over Streamable HTTP
+  app.all('/api/mcp', (c) => controller.handle(c));
+};
@@ -8,6 +8,7 @@ import { KnowledgeAgent } from '@/agents/knowledge-agent';
 import { CalculationAgent } from '@/agents/calculation-agent';
 import { ComplianceAgent } from '@/agents/compliance-agent';
 import { AgentOrchestrator } from '@/agents/agent-orchestrator';
+import { onShutdown } from '@/lib/shutdown';
 
 export const searchRoutes = (app: Hono) => {
   const chunkRepo = new ChunkRepository();
@@ -32,7 +33,5 @@ export const searchRoutes = (app: Hono) => {
   app.post('/api/session', (c) => controller.createSession(c));
   app.post('/api/search', (c) => controller.search(c));
 
-  // Cleanup on shutdown
-  process.on('SIGTERM', () => sessionStore.destroy());
-  process.on('SIGINT', () => sessionStore.destroy());
+  onShutdown('Session store', () => sessionStore.destroy());
 };
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { DocumentCategoryEnum } from './common.schemas';
 
 export const SearchFiltersSchema = z
   .object({
@@ -27,3 +28,50 @@ export const SearchInputSchema = z.object({
 
 export type SearchFilters = z.infer<typeof SearchFiltersSchema>;
 export type SearchInput = z.infer<typeof SearchInputSchema>;
+
+/**
+ * Schema for one ranked chunk returned by the search_knowledge MCP tool
+ */
+export const KnowledgeChunkSchema = z.object({
+  rank: z.number().int().describe('1-based rank by similarity'),
+  chunkId: z.string(),
+  documentId: z.string(),
+  title: z.string().describe('Title of the source document'),
+  category: z.string().describe('Document category'),
+  chunkIndex: z.number().int().describe('Position of the chunk within its document'),
+  similarity: z.number().describe('Cosine similarity to the query (0-1)'),
+  content: z.string(),
+});
+
+export const SearchKnowledgeOutputSchema = z.object({
+  query: z.string(),
+  results: z.array(KnowledgeChunkSchema),
+});
+
+/**
+ * Schema for the ask_question MCP tool (RAG answer via KnowledgeAgent)
+ */
+export const AskQuestionInputSchema = z.object({
+  question: z.string().min(1, 'Question must not be empty').describe('Question to answer'),
+  category: DocumentCategoryEnum.default('general').describe(
+    'Knowledge base category to answer from'
+  ),
+});
+
+export const AskQuestionOutputSchema = z.object({
+  answer: z.string(),
+  confidence: z.number().describe('Retrieval confidence (0-1)'),
+  category: z.string(),
+  sources: z.array(
+    z.object({
+      documentId: z.string(),
+      content: z.string(),
+      relevance: z.number(),
+    })
+  ),
+});
+
+export type KnowledgeChunk = z.infer<typeof KnowledgeChunkSchema>;
+export type SearchKnowledgeOutput = z.infer<typeof SearchKnowledgeOutputSchema>;
+export type AskQuestionInput = z.infer<typeof AskQuestionInputSchema>;
+export type AskQuestionOutput = z.infer<typeof AskQuestionOutputSchema>;
@@ -1,11 +1,23 @@
 import { serve } from '@hono/node-server';
 import { app } from './app';
+import { onShutdown, shutdown } from './lib/shutdown';
 
 const port = parseInt(process.env.PORT || '3001');
 
 console.log(`Server is running on http://localhost:${port}`);
 
-serve({
+const server = serve({
   fetch: app.fetch,
   port,
 });
+
+// Stop accepting requests before the services behind them are torn down
+onShutdown('HTTP server', () => new Promise<void>((resolve) => server.close(() => resolve())));
+
+for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+  process.once(signal, async () => {
+    console.log(`${signal} received, shutting down...`);
+    await shutdown();
+    process.exit(0);
+  });
+}
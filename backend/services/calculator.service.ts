@@ -0,0 +1,105 @@
+import {
+  DiminishingMusharakahInputSchema,
+  IjarahInputSchema,
+  IstisnaInputSchema,
+  MudharabahInputSchema,
+  MudharabahPoolInputSchema,
+  MurabahaInputSchema,
+  MusharakahInputSchema,
+  QardHasanInputSchema,
+  SalamInputSchema,
+  ScenarioAnalysisInputSchema,
+  StockScreeningInputSchema,
+  SukukInputSchema,
+  TakafulInputSchema,
+  ZakatInputSchema,
+} from 'mcp-server/schemas';
+import { MCPClient, MCPClientError, type MCPToolResult } from '@/lib/mcp-client';
+
+/**
+ * Input schemas of the calculate_* tools, shared with the MCP server so the
+ * API rejects bad input with the same rules before any tool call
+ */
+export const CALCULATOR_INPUT_SCHEMAS = {
+  musharakah: MusharakahInputSchema,
+  mudharabah: MudharabahInputSchema,
+  mudharabah_pool: MudharabahPoolInputSchema,
+  murabaha: MurabahaInputSchema,
+  ijarah: IjarahInputSchema,
+  diminishing_musharakah: DiminishingMusharakahInputSchema,
+  zakat: ZakatInputSchema,
+  scenario_analysis: ScenarioAnalysisInputSchema,
+  salam: SalamInputSchema,
+  istisna: IstisnaInputSchema,
+  sukuk: SukukInputSchema,
+  takaful: TakafulInputSchema,
+  qard_hasan: QardHasanInputSchema,
+  stock_screening: StockScreeningInputSchema,
+};
+
+export type CalculatorType = keyof typeof CALCULATOR_INPUT_SCHEMAS;
+
+export const CALCULATOR_TYPES = Object.keys(CALCULATOR_INPUT_SCHEMAS) as CalculatorType[];
+
+export function isCalculatorType(type: string): type is CalculatorType {
+  return Object.hasOwn(CALCULATOR_INPUT_SCHEMAS, type);
+}
+
+/**
+ * Custom error for direct calculator calls
+ */
+export class CalculatorServiceError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public originalError?: unknown
+  ) {
+    super(message);
+    this.name = 'CalculatorServiceError';
+  }
+}
+
+/**
+ * Calls the MCP calculators directly with structured input, skipping the
+ * LLM routing and extraction of the chat path
+ */
+export class CalculatorService {
+  constructor(private mcpClient: MCPClient) {}
+
+  /**
+   * @param type - Calculator type, e.g. "scenario_analysis" for calculate_scenario_analysis
+   * @param input - Tool arguments
+   * @returns The tool's structured output
+   * @throws z.ZodError when the input does not match the tool's schema
+   */
+  async calculate(type: CalculatorType, input: unknown): Promise<Record<string, unknown>> {
+    const args = CALCULATOR_INPUT_SCHEMAS[type].parse(input);
+
+    let result: MCPToolResult;
+    try {
+      result = await this.mcpClient.callTool(`calculate_${type}`, args);
+    } catch (error) {
+      throw new CalculatorServiceError(
+        `Calculator unavailable: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof MCPClientError ? error.code : 'CONNECTION_ERROR',
+        error
+      );
+    }
+
+    // Contract rule violations the schema cannot express come back as tool errors
+    if (result.isError) {
+      throw new CalculatorServiceError(
+        result.content[0]?.text || 'Calculation failed',
+        'CALCULATION_ERROR'
+      );
+    }
+    if (!result.structuredContent) {
+      throw new CalculatorServiceError(
+        `calculate_${type} returned no structured content`,
+        'INVALID_OUTPUT'
+      );
+    }
+
+    return result.structuredContent;
+  }
+}
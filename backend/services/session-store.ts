@@ -1,5 +1,5 @@
 import { nanoid } from 'nanoid';
-import type { QueryCategory, ComplianceStatus } from '@/agents/types';
+import type { QueryCategory, ComplianceStatus, PendingCalculation } from '@/agents/types';
 
 export interface ConversationMessage {
   role: 'user' | 'assistant';
@@ -18,6 +18,8 @@ export interface Session {
     totalQueries: number;
     flaggedQueries: number;
   };
+  // Calculation waiting for the user's answer to a clarification question
+  pendingCalculation?: PendingCalculation;
 }
 
 export interface SessionStoreConfig {
@@ -127,6 +129,32 @@ export class SessionStore {
     session.lastAccessedAt = new Date();
   }
 
+  /**
+   * Hold a partially extracted calculation until the user replies
+   */
+  setPendingCalculation(sessionId: string, pending: PendingCalculation): void {
+    const session = this.getSession(sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+
+    session.pendingCalculation = pending;
+  }
+
+  /**
+   * Take the pending calculation, if any, removing it from the session
+   */
+  takePendingCalculation(sessionId: string): PendingCalculation | undefined {
+    const session = this.getSession(sessionId);
+    if (!session) {
+      return undefined;
+    }
+
+    const pending = session.pendingCalculation;
+    delete session.pendingCalculation;
+    return pending;
+  }
+
   /**
    * Delete session
    */
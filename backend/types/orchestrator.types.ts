@@ -3,6 +3,8 @@ import type {
   RoutingResult,
   ComplianceResult,
   ComplianceStatus,
+  CalculationType,
+  CalculationClarification,
 } from '@/agents/types';
 
 /**
@@ -14,6 +16,7 @@ export type StreamEvent =
   | { type: 'routing'; data: RoutingResult }
   | { type: 'content'; data: string }
   | { type: 'compliance'; data: ComplianceResult }
+  | { type: 'clarification'; data: CalculationClarification }
   | { type: 'done'; data: OrchestratorResult }
   | {
       type: 'error';
@@ -30,12 +33,8 @@ export interface OrchestratorResult {
     documentId: string;
     relevance: number;
   }>;
-  calculation?: {
-    type: 'musharakah' | 'mudharabah';
-    inputs: Record<string, number>;
-    outputs: Record<string, number>;
-    steps: string[];
-  };
+  // One calculation as an object, several (compound query) as an array
+  calculation?: CalculationType | CalculationType[];
   metadata: {
     routingConfidence: number;
     processingTime: number;
@@ -0,0 +1,47 @@
+import type { CalculatorResult } from 'shared';
+import { CalculationTable } from '~/components/chat';
+import { Badge } from '~/components/ui/badge';
+import { buildResultTables } from '~/utils/calculator';
+
+interface CalculationResultProps {
+  result: CalculatorResult;
+}
+
+export function CalculationResult({ result }: CalculationResultProps) {
+  const tables = buildResultTables(result);
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-1">
+        <div className="flex flex-wrap items-center gap-2">
+          <h2 className="text-lg font-semibold">{result.summary}</h2>
+          {result.currency && <Badge variant="outline">{result.currency}</Badge>}
+        </div>
+        <p className="text-sm text-muted-foreground">{result.contract_type}</p>
+      </div>
+
+      {tables.map(({ title, table }) => (
+        <section key={title}>
+          <h3 className="text-sm font-medium">{title}</h3>
+          <CalculationTable table={table} />
+        </section>
+      ))}
+
+      <section>
+        <h3 className="text-sm font-medium">Calculation Steps</h3>
+        <ol className="mt-2 space-y-1 text-sm">
+          {result.calculation_steps.map((step, index) => (
+            <li key={index} className="whitespace-pre-wrap font-mono text-xs sm:text-sm">
+              {step}
+            </li>
+          ))}
+        </ol>
+      </section>
+
+      <section>
+        <h3 className="text-sm font-medium">Shariah Basis</h3>
+        <p className="mt-2 text-sm text-muted-foreground">{result.shariah_explanation}</p>
+      </section>
+    </div>
+  );
+}
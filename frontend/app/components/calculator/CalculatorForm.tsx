@@ -0,0 +1,206 @@
+import { Plus, X } from 'lucide-react';
+import { Button } from '~/components/ui/button';
+import { Input } from '~/components/ui/input';
+import { Label } from '~/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '~/components/ui/select';
+import { Textarea } from '~/components/ui/textarea';
+import type {
+  CalculatorField,
+  CalculatorForm as CalculatorFormDefinition,
+  CalculatorFormValues,
+  CalculatorListField,
+  CalculatorRow,
+} from '~/constants/calculator';
+
+interface CalculatorFormProps {
+  form: CalculatorFormDefinition;
+  values: CalculatorFormValues;
+  // Validation messages by field name
+  errors: Record<string, string>;
+  onChange: (name: string, value: CalculatorFormValues[string]) => void;
+}
+
+export function CalculatorForm({ form, values, errors, onChange }: CalculatorFormProps) {
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      {form.fields.map((field) =>
+        field.kind === 'list' ? (
+          <ListField
+            key={field.name}
+            field={field}
+            rows={(values[field.name] as CalculatorRow[] | undefined) ?? []}
+            error={errors[field.name]}
+            onChange={(rows) => onChange(field.name, rows)}
+          />
+        ) : (
+          <div
+            key={field.name}
+            className={
+              field.kind === 'checkbox' || field.kind === 'multiline' ? 'sm:col-span-2' : ''
+            }
+          >
+            <ScalarField
+              id={`calc-${field.name}`}
+              field={field}
+              value={values[field.name]}
+              error={errors[field.name]}
+              onChange={(value) => onChange(field.name, value)}
+            />
+          </div>
+        )
+      )}
+    </div>
+  );
+}
+
+interface ScalarFieldProps {
+  id: string;
+  field: CalculatorField;
+  value: CalculatorFormValues[string] | undefined;
+  error?: string;
+  onChange: (value: string | boolean) => void;
+  hideLabel?: boolean;
+}
+
+function ScalarField({ id, field, value, error, onChange, hideLabel }: ScalarFieldProps) {
+  if (field.kind === 'checkbox') {
+    return (
+      <div className="flex items-center gap-2">
+        <input
+          id={id}
+          type="checkbox"
+          checked={value === true}
+          onChange={(e) => onChange(e.target.checked)}
+          className="h-4 w-4 rounded border-input"
+        />
+        <Label htmlFor={id}>{field.label}</Label>
+      </div>
+    );
+  }
+
+  const text = typeof value === 'string' ? value : '';
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id} className={hideLabel ? 'sr-only' : ''}>
+        {field.label}
+        {field.required && ' *'}
+      </Label>
+      {field.kind === 'select' ? (
+        <Select value={text} onValueChange={onChange}>
+          <SelectTrigger id={id} className={error ? 'border-destructive' : ''}>
+            <SelectValue placeholder={`Select ${field.label.toLowerCase()}`} />
+          </SelectTrigger>
+          <SelectContent>
+            {field.options?.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : field.kind === 'multiline' ? (
+        <Textarea
+          id={id}
+          rows={5}
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          className={`font-mono text-xs ${error ? 'border-destructive' : ''}`}
+        />
+      ) : (
+        <Input
+          id={id}
+          type={inputType(field.kind)}
+          inputMode={field.kind === 'text' || field.kind === 'date' ? undefined : 'decimal'}
+          step="any"
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          className={error ? 'border-destructive' : ''}
+        />
+      )}
+      {field.hint && !hideLabel && <p className="text-xs text-muted-foreground">{field.hint}</p>}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
+
+function inputType(kind: CalculatorField['kind']): string {
+  if (kind === 'number' || kind === 'percent') return 'number';
+  return kind === 'date' ? 'date' : 'text';
+}
+
+interface ListFieldProps {
+  field: CalculatorListField;
+  rows: CalculatorRow[];
+  error?: string;
+  onChange: (rows: CalculatorRow[]) => void;
+}
+
+function ListField({ field, rows, error, onChange }: ListFieldProps) {
+  const emptyRow = () => Object.fromEntries(field.columns.map((column) => [column.name, '']));
+
+  const updateRow = (index: number, name: string, value: string) => {
+    onChange(rows.map((row, i) => (i === index ? { ...row, [name]: value } : row)));
+  };
+
+  return (
+    <fieldset className="space-y-2 sm:col-span-2">
+      <legend className="text-sm font-medium">{field.label}</legend>
+      <div
+        className="grid gap-2 text-xs text-muted-foreground"
+        style={{ gridTemplateColumns: `repeat(${field.columns.length}, minmax(0, 1fr)) 2.5rem` }}
+      >
+        {field.columns.map((column) => (
+          <span key={column.name}>
+            {column.label}
+            {column.required && ' *'}
+          </span>
+        ))}
+        <span />
+      </div>
+      {rows.map((row, index) => (
+        <div
+          key={index}
+          className="grid items-start gap-2"
+          style={{ gridTemplateColumns: `repeat(${field.columns.length}, minmax(0, 1fr)) 2.5rem` }}
+        >
+          {field.columns.map((column) => (
+            <ScalarField
+              key={column.name}
+              id={`calc-${field.name}-${index}-${column.name}`}
+              field={column}
+              value={row[column.name]}
+              onChange={(value) => updateRow(index, column.name, String(value))}
+              hideLabel
+            />
+          ))}
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(rows.filter((_, i) => i !== index))}
+            aria-label={`Remove row ${index + 1}`}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...rows, emptyRow()])}
+      >
+        <Plus className="mr-1 h-4 w-4" />
+        Add row
+      </Button>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </fieldset>
+  );
+}
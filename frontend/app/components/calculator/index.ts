@@ -0,0 +1,2 @@
+export { CalculatorForm } from './CalculatorForm';
+export { CalculationResult } from './CalculationResult';
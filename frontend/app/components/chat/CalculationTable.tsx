@@ -0,0 +1,50 @@
+import type { CalculationTable as CalculationTableData } from 'shared';
+import { cn } from '@/lib/utils';
+
+interface CalculationTableProps {
+  table: CalculationTableData;
+}
+
+export function CalculationTable({ table }: CalculationTableProps) {
+  return (
+    <div className="mt-3 overflow-x-auto rounded-md border border-border">
+      <table className="w-full text-left text-xs sm:text-sm">
+        <thead className="bg-muted-foreground/10">
+          <tr>
+            {table.columns.map((column) => (
+              <th key={column} className="whitespace-nowrap px-2 py-1.5 font-medium">
+                {column}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {table.rows.map((row, rowIndex) => (
+            <tr key={rowIndex} className="border-t border-border">
+              {row.map((cell, cellIndex) =>
+                typeof cell === 'number' ? (
+                  <td
+                    key={cellIndex}
+                    className={cn(
+                      'whitespace-nowrap px-2 py-1 text-right tabular-nums',
+                      cell < 0 && 'text-destructive'
+                    )}
+                  >
+                    {cell.toLocaleString('en-US', {
+                      minimumFractionDigits: 2,
+                      maximumFractionDigits: 2,
+                    })}
+                  </td>
+                ) : (
+                  <td key={cellIndex} className="whitespace-nowrap px-2 py-1">
+                    {cell}
+                  </td>
+                )
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import ReactMarkdown from 'react-markdown';
 import { AlertCircle } from 'lucide-react';
 import { Message } from './types';
 import { StreamingIndicator } from './StreamingIndicator';
+import { CalculationTable } from './CalculationTable';
 import { cn } from '@/lib/utils';
 
 interface MessageBubbleProps {
@@ -57,6 +58,11 @@ export function MessageBubble({ message }: MessageBubbleProps) {
           )}
         </div>
 
+        {/* Scenario matrices from calculations */}
+        {message.tables?.map((table, index) => (
+          <CalculationTable key={index} table={table} />
+        ))}
+
         {/* Streaming indicator */}
         {isStreaming && (
           <div className="mt-2">
@@ -2,4 +2,5 @@ export { Chat } from './Chat';
 export { MessageBubble } from './MessageBubble';
 export { ChatInput } from './ChatInput';
 export { StreamingIndicator } from './StreamingIndicator';
+export { CalculationTable } from './CalculationTable';
 export * from './types';
@@ -1,3 +1,5 @@
+import type { CalculationTable } from 'shared';
+
 export type MessageRole = 'user' | 'assistant';
 
 export type MessageStatus = 'sending' | 'sent' | 'error' | 'streaming';
@@ -9,6 +11,8 @@ export interface Message {
   status: MessageStatus;
   timestamp: Date;
   error?: string;
+  // Matrix results (scenario analysis) shown below the answer
+  tables?: CalculationTable[];
 }
 
 export interface ChatState {
@@ -20,6 +24,7 @@ export interface ChatState {
 export type ChatAction =
   | { type: 'ADD_MESSAGE'; payload: Message }
   | { type: 'UPDATE_MESSAGE'; payload: { id: string; content: string } }
+  | { type: 'SET_MESSAGE_TABLES'; payload: { id: string; tables: CalculationTable[] } }
   | {
       type: 'SET_MESSAGE_STATUS';
       payload: { id: string; status: MessageStatus };
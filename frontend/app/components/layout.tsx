@@ -1,5 +1,5 @@
 import { Link, useLocation } from 'react-router';
-import { MessageSquare, Settings } from 'lucide-react';
+import { Calculator, MessageSquare, Settings } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface LayoutProps {
@@ -42,6 +42,16 @@ export function Layout({ children }: LayoutProps) {
             >
               Chat
             </Link>
+            <Link
+              to="/calculator"
+              className={cn(
+                'flex items-center gap-2 transition-all duration-200 hover:text-foreground/80 hover:scale-105',
+                isActive('/calculator') ? 'text-foreground' : 'text-foreground/60'
+              )}
+            >
+              <Calculator className="h-4 w-4" />
+              Calculator
+            </Link>
             <Link
               to="/admin"
               className={cn(
@@ -0,0 +1,694 @@
+import type { CalculatorType } from 'shared';
+
+/**
+ * How a form value is turned into tool input:
+ * - percent: 10 -> 0.1
+ * - ratio: "60:40" -> [0.6, 0.4]
+ * - ratios: "50:50, 70:30" -> [[0.5, 0.5], [0.7, 0.3]]
+ * - numbers: "-20000, 0, 20000" -> [-20000, 0, 20000]
+ * - date: kept as the YYYY-MM-DD string of the date input
+ * - multiline: kept as text, line breaks included (e.g. pasted CSV)
+ */
+export type CalculatorFieldKind =
+  | 'text'
+  | 'multiline'
+  | 'date'
+  | 'number'
+  | 'percent'
+  | 'select'
+  | 'checkbox'
+  | 'ratio'
+  | 'ratios'
+  | 'numbers';
+
+export interface CalculatorField {
+  // Path in the tool input, dotted for nested objects (e.g. "assets.cash")
+  name: string;
+  label: string;
+  kind: CalculatorFieldKind;
+  required?: boolean;
+  hint?: string;
+  options?: { value: string; label: string }[];
+}
+
+// Repeated rows such as partners or depositors
+export interface CalculatorListField {
+  name: string;
+  label: string;
+  kind: 'list';
+  columns: CalculatorField[];
+}
+
+export type CalculatorFormField = CalculatorField | CalculatorListField;
+
+export type CalculatorRow = Record<string, string>;
+export type CalculatorFormValues = Record<string, string | boolean | CalculatorRow[]>;
+
+export interface CalculatorForm {
+  type: CalculatorType;
+  label: string;
+  description: string;
+  fields: CalculatorFormField[];
+  // Example values so a result shows straight away
+  defaults: CalculatorFormValues;
+}
+
+const CURRENCY_FIELD: CalculatorField = {
+  name: 'currency',
+  label: 'Currency',
+  kind: 'text',
+  hint: 'ISO 4217 code, e.g. USD, MYR, IDR',
+};
+
+export const CALCULATOR_FORMS: CalculatorForm[] = [
+  {
+    type: 'musharakah',
+    label: 'Musharakah',
+    description: 'Partnership: profit by agreed ratio, loss by capital ratio',
+    fields: [
+      {
+        name: 'partners',
+        label: 'Partners',
+        kind: 'list',
+        columns: [
+          { name: 'name', label: 'Name', kind: 'text', required: true },
+          { name: 'investment', label: 'Investment', kind: 'number', required: true },
+        ],
+      },
+      {
+        name: 'totalProfit',
+        label: 'Total Profit/Loss',
+        kind: 'number',
+        required: true,
+        hint: 'Negative for a loss',
+      },
+      {
+        name: 'profitRatio',
+        label: 'Profit Ratio',
+        kind: 'ratio',
+        hint: 'One share per partner, e.g. 60:40 (blank = capital ratio)',
+      },
+      CURRENCY_FIELD,
+    ],
+    defaults: {
+      partners: [
+        { name: 'Partner A', investment: '60000' },
+        { name: 'Partner B', investment: '40000' },
+      ],
+      totalProfit: '20000',
+      profitRatio: '',
+      currency: '',
+    },
+  },
+  {
+    type: 'mudharabah',
+    label: 'Mudharabah',
+    description: 'Capital provider and entrepreneur: profit by agreed ratio, loss on capital',
+    fields: [
+      { name: 'capitalAmount', label: 'Capital Amount', kind: 'number', required: true },
+      { name: 'profit', label: 'Profit/Loss', kind: 'number', hint: 'Negative for a loss' },
+      {
+        name: 'grossRevenue',
+        label: 'Gross Revenue',
+        kind: 'number',
+        hint: 'Instead of profit, with expenses',
+      },
+      { name: 'expenses', label: 'Expenses', kind: 'number' },
+      { name: 'priorLosses', label: 'Prior Losses', kind: 'number' },
+      {
+        name: 'capitalProviderRatio',
+        label: 'Capital Provider Share (%)',
+        kind: 'percent',
+        required: true,
+      },
+      {
+        name: 'entrepreneurRatio',
+        label: 'Entrepreneur Share (%)',
+        kind: 'percent',
+        required: true,
+      },
+      { name: 'mudaribNegligence', label: 'Loss caused by Mudarib negligence', kind: 'checkbox' },
+      CURRENCY_FIELD,
+    ],
+    defaults: {
+      capitalAmount: '100000',
+      profit: '20000',
+      grossRevenue: '',
+      expenses: '',
+      priorLosses: '',
+      capitalProviderRatio: '60',
+      entrepreneurRatio: '40',
+      mudaribNegligence: false,
+      currency: '',
+    },
+  },
+  {
+    type: 'mudharabah_pool',
+    label: 'Mudharabah Pool',
+    description: 'Investment account pool shared by tenor weightage after PER and IRR',
+    fields: [
+      {
+        name: 'depositors',
+        label: 'Depositors',
+        kind: 'list',
+        columns: [
+          { name: 'name', label: 'Name', kind: 'text', required: true },
+          { name: 'amount', label: 'Amount', kind: 'number', required: true },
+          { name: 'tenorMonths', label: 'Tenor (months)', kind: 'number', required: true },
+        ],
+      },
+      {
+        name: 'weightages',
+        label: 'Weightages',
+        kind: 'list',
+        columns: [
+          { name: 'tenorMonths', label: 'Tenor (months)', kind: 'number', required: true },
+          { name: 'weightage', label: 'Weightage', kind: 'number', required: true },
+        ],
+      },
+      { name: 'grossIncome', label: 'Gross Income', kind: 'number', required: true },
+      { name: 'mudaribShareRatio', label: 'Mudarib Share (%)', kind: 'percent', required: true },
+      { name: 'perRate', label: 'PER Appropriation (%)', kind: 'percent' },
+      { name: 'irrRate', label: 'IRR Appropriation (%)', kind: 'percent' },
+      CURRENCY_FIELD,
+    ],
+    defaults: {
+      depositors: [
+        { name: 'Account 1', amount: '100000', tenorMonths: '1' },
+        { name: 'Account 2', amount: '200000', tenorMonths: '12' },
+      ],
+      weightages: [
+        { tenorMonths: '1', weightage: '0.5' },
+        { tenorMonths: '12', weightage: '1' },
+      ],
+      grossIncome: '30000',
+      mudaribShareRatio: '30',
+      perRate: '',
+      irrRate: '',
+      currency: '',
+    },
+  },
+  {
+    type: 'murabaha',
+    label: 'Murabaha',
+    description: 'Cost-plus sale with a disclosed markup, paid in installments',
+    fields: [
+      { name: 'costPrice', label: 'Cost Price', kind: 'number', required: true },
+      { name: 'markupRate', label: 'Markup (%)', kind: 'percent', required: true },
+      { name: 'downPayment', label: 'Down Payment', kind: 'number' },
+      { name: 'tenorMonths', label: 'Tenor (months)', kind: 'number', required: true },
+      CURRENCY_FIELD,
+    ],
+    defaults: {
+      costPrice: '80000',
+      markupRate: '10',
+      downPayment: '',
+      tenorMonths: '12',
+      currency: '',
+    },
+  },
+  {
+    type: 'ijarah',
+    label: 'Ijarah',
+    description: 'Lease rental schedule, operating or ending in ownership (IMBT)',
+    fields: [
+      {
+        name: 'leaseType',
+        label: 'Lease Type',
+        kind: 'select',
+        required: true,
+        options: [
+          { value: 'operating', label: 'Operating' },
+          { value: 'muntahia_bittamleek', label: 'Muntahia Bittamleek (IMBT)' },
+        ],
+      },
+      { name: 'assetCost', label: 'Asset Cost', kind: 'number', required: true },
+      { name: 'leaseTermMonths', label: 'Lease Term (months)', kind: 'number', required: true },
+      {
+        name: 'annualRentalRate',
+        label: 'Annual Rental Rate (%)',
+        kind: 'percent',
+        required: true,
+      },
+      { name: 'residualValue', label: 'Residual Value', kind: 'number' },
+      { name: 'reviewPeriodMonths', label: 'Review Period (months)', kind: 'number' },
+      {
+        name: 'reviewedRates',
+        label: 'Reviewed Rates',
+        kind: 'numbers',
+        hint: 'Decimal annual rates per later review period, e.g. 0.065, 0.07',
+      },
+      {
+        name: 'majorMaintenanceBy',
+        label: 'Major Maintenance By',
+        kind: 'select',
+        options: [
+          { value: 'lessor', label: 'Lessor' },
+          { value: 'lessee', label: 'Lessee' },
+        ],
+      },
+      { name: 'annualMaintenanceCost', label: 'Annual Maintenance Cost', kind: 'number' },
+      CURRENCY_FIELD,
+    ],
+    defaults: {
+      leaseType: 'muntahia_bittamleek',
+      assetCost: '500000',
+      leaseTermMonths: '36',
+      annualRentalRate: '6',
+      residualValue: '',
+      reviewPeriodMonths: '',
+      reviewedRates: '',
+      majorMaintenanceBy: 'lessor',
+      annualMaintenanceCost: '',
+      currency: '',
+    },
+  },
+  {
+    type: 'diminishing_musharakah',
+    label: 'Diminishing Musharakah',
+    description: 'Co-ownership where the customer buys out the bank while paying rent',
+    fields: [
+      { name: 'bank.name', label: 'Bank Name', kind: 'text', required: true },
+      { name: 'bank.investment', label: 'Bank Contribution', kind: 'number', required: true },
+      { name: 'customer.name', label: 'Customer Name', kind: 'text', required: true },
+      {
+        name: 'customer.investment',
+        label: 'Customer Contribution',
+        kind: 'number',
+        required: true,
+      },
+      { name: 'tenorMonths', label: 'Tenor (months)', kind: 'number', required: true },
+      {
+        name: 'annualRentalRate',
+        label: 'Annual Rental Rate (%)',
+        kind: 'percent',
+        required: true,
+      },
+      CURRENCY_FIELD,
+    ],
+    defaults: {
+      'bank.name': 'Bank',
+      'bank.investment': '400000',
+      'customer.name': 'Customer',
+      'customer.investment': '100000',
+      tenorMonths: '24',
+      annualRentalRate: '5',
+      currency: '',
+    },
+  },
+  {
+    type: 'zakat',
+    label: 'Zakat',
+    description: '2.5% on net zakatable wealth above the nisab after one lunar year',
+    fields: [
+      { name: 'assets.cash', label: 'Cash', kind: 'number' },
+      { name: 'assets.goldGrams', label: 'Gold (grams)', kind: 'number' },
+      { name: 'assets.silverGrams', label: 'Silver (grams)', kind: 'number' },
+      { name: 'assets.tradeGoods', label: 'Trade Goods', kind: 'number' },
+      { name: 'assets.receivables', label: 'Receivables', kind: 'number' },
+      { name: 'assets.investments', label: 'Investments', kind: 'number' },
+      { name: 'liabilities', label: 'Liabilities', kind: 'number' },
+      { name: 'goldPricePerGram', label: 'Gold Price per Gram', kind: 'number' },
+      { name: 'silverPricePerGram', label: 'Silver Price per Gram', kind: 'number' },
+      {
+        name: 'nisabBasis',
+        label: 'Nisab Basis',
+        kind: 'select',
+        options: [
+          { value: 'gold', label: 'Gold (85g)' },
+          { value: 'silver', label: 'Silver (595g)' },
+        ],
+      },
+      { name: 'haulCompleted', label: 'Held for one lunar year (haul)', kind: 'checkbox' },
+      CURRENCY_FIELD,
+    ],
+    defaults: {
+      'assets.cash': '20000',
+      'assets.goldGrams': '',
+      'assets.silverGrams': '',
+      'assets.tradeGoods': '',
+      'assets.receivables': '',
+      'assets.investments': '',
+      liabilities: '',
+      goldPricePerGram: '65',
+      silverPricePerGram: '',
+      nisabBasis: 'gold',
+      haulCompleted: true,
+      currency: '',
+    },
+  },
+  {
+    type: 'scenario_analysis',
+    label: 'Scenario Analysis',
+    description: 'What-if matrix of partnership outcomes across profit levels and ratios',
+    fields: [
+      {
+        name: 'contractType',
+        label: 'Contract',
+        kind: 'select',
+        required: true,
+        options: [
+          { value: 'musharakah', label: 'Musharakah' },
+          { value: 'mudharabah', label: 'Mudharabah' },
+        ],
+      },
+      {
+        name: 'partners',
+        label: 'Partners (Musharakah)',
+        kind: 'list',
+        columns: [
+          { name: 'name', label: 'Name', kind: 'text', required: true },
+          { name: 'investment', label: 'Investment', kind: 'number', required: true },
+        ],
+      },
+      { name: 'capitalAmount', label: 'Capital Amount (Mudharabah)', kind: 'number' },
+      {
+        name: 'profits',
+        label: 'Profit/Loss Levels',
+        kind: 'numbers',
+        hint: 'e.g. -20000, 0, 20000 (or use the range below)',
+      },
+      { name: 'profitRange.from', label: 'Range From', kind: 'number' },
+      { name: 'profitRange.to', label: 'Range To', kind: 'number' },
+      { name: 'profitRange.step', label: 'Range Step', kind: 'number' },
+      {
+        name: 'profitRatios',
+        label: 'Profit Ratios',
+        kind: 'ratios',
+        hint: 'e.g. 50:50, 70:30',
+      },
+      CURRENCY_FIELD,
+    ],
+    defaults: {
+      contractType: 'musharakah',
+      partners: [
+        { name: 'Ali', investment: '50000' },
+        { name: 'Sara', investment: '30000' },
+      ],
+      capitalAmount: '',
+      profits: '',
+      'profitRange.from': '-20000',
+      'profitRange.to': '40000',
+      'profitRange.step': '20000',
+      profitRatios: '50:50, 70:30',
+      currency: '',
+    },
+  },
+  {
+    type: 'salam',
+    label: 'Salam',
+    description: 'Forward purchase paid in full upfront, with an optional parallel Salam',
+    fields: [
+      { name: 'commodity', label: 'Commodity', kind: 'text', required: true },
+      { name: 'quantity', label: 'Quantity', kind: 'number', required: true },
+      { name: 'unit', label: 'Unit', kind: 'text', hint: 'e.g. tonnes' },
+      { name: 'pricePerUnit', label: 'Salam Price per Unit', kind: 'number', required: true },
+      { name: 'contractDate', label: 'Contract Date', kind: 'date', required: true },
+      { name: 'deliveryDate', label: 'Delivery Date', kind: 'date', required: true },
+      {
+        name: 'capitalPaid',
+        label: 'Capital Paid at Contract',
+        kind: 'number',
+        hint: 'Leave blank for the full Salam price',
+      },
+      { name: 'capitalPaymentDate', label: 'Capital Payment Date', kind: 'date' },
+      {
+        name: 'parallelSalam.margin',
+        label: 'Parallel Salam Margin (%)',
+        kind: 'percent',
+        hint: 'Or leave blank and give an expected sale price',
+      },
+      { name: 'parallelSalam.contractDate', label: 'Parallel Salam Date', kind: 'date' },
+      { name: 'parallelSalam.deliveryDate', label: 'Parallel Delivery Date', kind: 'date' },
+      { name: 'expectedSalePricePerUnit', label: 'Expected Sale Price per Unit', kind: 'number' },
+      CURRENCY_FIELD,
+    ],
+    defaults: {
+      commodity: 'Wheat, grade A',
+      quantity: '100',
+      unit: 'tonnes',
+      pricePerUnit: '250',
+      contractDate: '2026-01-15',
+      deliveryDate: '2026-07-15',
+      capitalPaid: '',
+      capitalPaymentDate: '',
+      'parallelSalam.margin': '8',
+      'parallelSalam.contractDate': '2026-02-01',
+      'parallelSalam.deliveryDate': '',
+      expectedSalePricePerUnit: '',
+      currency: '',
+    },
+  },
+  {
+    type: 'istisna',
+    label: "Istisna'",
+    description: "Asset built to order with milestone payments, through a parallel Istisna'",
+    fields: [
+      { name: 'asset', label: 'Asset', kind: 'text', required: true },
+      { name: 'contractPrice', label: "Istisna' Price", kind: 'number', required: true },
+      { name: 'contractDate', label: 'Contract Date', kind: 'date', required: true },
+      { name: 'deliveryDate', label: 'Delivery Date', kind: 'date', required: true },
+      {
+        name: 'payments',
+        label: 'Customer Payments',
+        kind: 'list',
+        columns: [
+          { name: 'milestone', label: 'Milestone', kind: 'text', required: true },
+          { name: 'date', label: 'Date', kind: 'date', required: true },
+          { name: 'ratio', label: 'Share (%)', kind: 'percent', required: true },
+        ],
+      },
+      {
+        name: 'parallelIstisna.contractorPrice',
+        label: 'Contractor Price',
+        kind: 'number',
+        required: true,
+      },
+      { name: 'parallelIstisna.deliveryDate', label: 'Contractor Delivery Date', kind: 'date' },
+      {
+        name: 'parallelIstisna.payments',
+        label: 'Contractor Payments',
+        kind: 'list',
+        columns: [
+          { name: 'milestone', label: 'Milestone', kind: 'text', required: true },
+          { name: 'date', label: 'Date', kind: 'date', required: true },
+          { name: 'ratio', label: 'Share (%)', kind: 'percent', required: true },
+        ],
+      },
+      CURRENCY_FIELD,
+    ],
+    defaults: {
+      asset: 'Warehouse',
+      contractPrice: '1200000',
+      contractDate: '2026-01-01',
+      deliveryDate: '2026-12-31',
+      payments: [
+        { milestone: 'Signing', date: '2026-01-01', ratio: '20' },
+        { milestone: 'Handover', date: '2026-12-31', ratio: '80' },
+      ],
+      'parallelIstisna.contractorPrice': '1000000',
+      'parallelIstisna.deliveryDate': '2026-12-15',
+      'parallelIstisna.payments': [
+        { milestone: 'Foundation', date: '2026-03-01', ratio: '30' },
+        { milestone: 'Structure', date: '2026-07-01', ratio: '40' },
+        { milestone: 'Completion', date: '2026-12-15', ratio: '30' },
+      ],
+      currency: '',
+    },
+  },
+  {
+    type: 'sukuk',
+    label: 'Sukuk',
+    description: 'Periodic distributions and redemption per certificate',
+    fields: [
+      {
+        name: 'sukukType',
+        label: 'Sukuk Type',
+        kind: 'select',
+        required: true,
+        options: [
+          { value: 'ijarah', label: 'Ijarah (rental)' },
+          { value: 'musharakah', label: 'Musharakah (profit)' },
+          { value: 'mudharabah', label: 'Mudharabah (profit)' },
+        ],
+      },
+      { name: 'issueSize', label: 'Issue Size', kind: 'number', required: true },
+      { name: 'faceValue', label: 'Face Value per Certificate', kind: 'number', required: true },
+      { name: 'tenorYears', label: 'Tenor (years)', kind: 'number', required: true },
+      {
+        name: 'distributionFrequency',
+        label: 'Distributions',
+        kind: 'select',
+        options: [
+          { value: 'annual', label: 'Annual' },
+          { value: 'semi_annual', label: 'Semi-annual' },
+          { value: 'quarterly', label: 'Quarterly' },
+          { value: 'monthly', label: 'Monthly' },
+        ],
+      },
+      { name: 'annualRentalRate', label: 'Rental Rate (%, Ijarah)', kind: 'percent' },
+      { name: 'expectedProfitRate', label: 'Expected Profit Rate (%)', kind: 'percent' },
+      {
+        name: 'actualProfits',
+        label: 'Actual Profits per Period',
+        kind: 'numbers',
+        hint: 'e.g. 50000, 20000, -10000 (blank to project at the expected rate)',
+      },
+      { name: 'holdersProfitRatio', label: "Holders' Profit Share (%)", kind: 'percent' },
+      { name: 'assetValueAtMaturity', label: 'Asset Value at Maturity', kind: 'number' },
+      CURRENCY_FIELD,
+    ],
+    defaults: {
+      sukukType: 'ijarah',
+      issueSize: '1000000',
+      faceValue: '1000',
+      tenorYears: '5',
+      distributionFrequency: 'semi_annual',
+      annualRentalRate: '5',
+      expectedProfitRate: '',
+      actualProfits: '',
+      holdersProfitRatio: '',
+      assetValueAtMaturity: '',
+      currency: '',
+    },
+  },
+  {
+    type: 'takaful',
+    label: 'Takaful',
+    description: "Participants' risk fund surplus or deficit and its distribution",
+    fields: [
+      {
+        name: 'model',
+        label: 'Operating Model',
+        kind: 'select',
+        required: true,
+        options: [
+          { value: 'wakalah', label: 'Wakalah (agency fee)' },
+          { value: 'mudharabah', label: 'Mudharabah (investment profit share)' },
+          { value: 'hybrid', label: 'Hybrid (Wakalah + Mudharabah)' },
+        ],
+      },
+      { name: 'contributions', label: 'Contributions', kind: 'number', required: true },
+      { name: 'wakalahFeeRate', label: 'Wakalah Fee (%)', kind: 'percent' },
+      { name: 'mudharabahShareRatio', label: "Operator's Investment Share (%)", kind: 'percent' },
+      { name: 'claimsPaid', label: 'Claims Paid', kind: 'number', required: true },
+      { name: 'retakafulContributions', label: 'Retakaful Contributions', kind: 'number' },
+      { name: 'retakafulRecoveries', label: 'Retakaful Recoveries', kind: 'number' },
+      {
+        name: 'investmentProfit',
+        label: 'Investment Profit',
+        kind: 'number',
+        hint: 'Negative for a loss',
+      },
+      { name: 'openingReserve', label: 'Opening Reserve', kind: 'number' },
+      { name: 'qardOutstanding', label: 'Qard Owed to Operator', kind: 'number' },
+      {
+        name: 'surplusDistributionRatio',
+        label: 'Surplus Distributed (%)',
+        kind: 'percent',
+        hint: 'The rest is kept as a reserve in the fund',
+      },
+      {
+        name: 'participants',
+        label: 'Participants',
+        kind: 'list',
+        columns: [
+          { name: 'name', label: 'Name', kind: 'text', required: true },
+          { name: 'contribution', label: 'Contribution', kind: 'number', required: true },
+          { name: 'claims', label: 'Claims Paid', kind: 'number' },
+        ],
+      },
+      {
+        name: 'distributionMethod',
+        label: 'Surplus Goes To',
+        kind: 'select',
+        options: [
+          { value: 'pro_rata', label: 'All participants, pro rata' },
+          { value: 'non_claimants', label: 'Participants without claims' },
+        ],
+      },
+      CURRENCY_FIELD,
+    ],
+    defaults: {
+      model: 'hybrid',
+      contributions: '1000000',
+      wakalahFeeRate: '25',
+      mudharabahShareRatio: '30',
+      claimsPaid: '500000',
+      retakafulContributions: '80000',
+      retakafulRecoveries: '50000',
+      investmentProfit: '40000',
+      openingReserve: '',
+      qardOutstanding: '',
+      surplusDistributionRatio: '50',
+      participants: [
+        { name: 'Ali', contribution: '400000', claims: '' },
+        { name: 'Sara', contribution: '350000', claims: '500000' },
+        { name: 'Omar', contribution: '250000', claims: '' },
+      ],
+      distributionMethod: 'pro_rata',
+      currency: '',
+    },
+  },
+  {
+    type: 'qard_hasan',
+    label: 'Qard al-Hasan',
+    description: 'Benevolent loan repaid at face value, with an actual-cost admin fee',
+    fields: [
+      { name: 'principal', label: 'Principal', kind: 'number', required: true },
+      { name: 'tenorMonths', label: 'Tenor (months)', kind: 'number', required: true },
+      { name: 'gracePeriodMonths', label: 'Grace Period (months)', kind: 'number' },
+      {
+        name: 'adminFee.amount',
+        label: 'Administration Fee',
+        kind: 'number',
+        hint: 'One-time actual cost, not a rate or a monthly charge',
+      },
+      { name: 'adminFee.description', label: 'Fee Covers', kind: 'text' },
+      CURRENCY_FIELD,
+    ],
+    defaults: {
+      principal: '12000',
+      tenorMonths: '12',
+      gracePeriodMonths: '3',
+      'adminFee.amount': '50',
+      'adminFee.description': 'Documentation',
+      currency: '',
+    },
+  },
+  {
+    type: 'stock_screening',
+    label: 'Stock Screening',
+    description: 'AAOIFI ratio and business activity screens with purification',
+    fields: [
+      {
+        name: 'holdingsCsv',
+        label: 'Holdings (CSV)',
+        kind: 'multiline',
+        required: true,
+        hint: 'One row per company; excluded_activities separated by ";" (e.g. alcohol; gambling)',
+      },
+      { name: 'thresholds.debtToMarketCap', label: 'Max Debt / Market Cap (%)', kind: 'percent' },
+      { name: 'thresholds.cashToMarketCap', label: 'Max Cash / Market Cap (%)', kind: 'percent' },
+      {
+        name: 'thresholds.nonPermissibleIncome',
+        label: 'Max Non-permissible Income (%)',
+        kind: 'percent',
+      },
+      { name: 'purifyCapitalGains', label: 'Purify capital gains too', kind: 'checkbox' },
+      CURRENCY_FIELD,
+    ],
+    defaults: {
+      holdingsCsv: [
+        'name,ticker,market_cap,interest_bearing_debt,cash_and_interest_bearing_securities,total_revenue,non_permissible_income,excluded_activities,dividends,capital_gain',
+        'Acme Industries,ACM,1000000,120000,50000,400000,12000,,5000,2000',
+        'Brewco,BRW,500000,200000,10000,100000,1000,alcohol,1000,0',
+      ].join('\n'),
+      'thresholds.debtToMarketCap': '30',
+      'thresholds.cashToMarketCap': '30',
+      'thresholds.nonPermissibleIncome': '5',
+      purifyCapitalGains: true,
+      currency: '',
+    },
+  },
+];
@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import type { CalculatorType } from 'shared';
+import { calculatorApi } from '~/lib/api/calculator';
+
+export const CALCULATOR_QUERY_KEY = 'calculator';
+
+// Wait for typing to pause before recalculating
+const INPUT_DEBOUNCE_MS = 400;
+
+/**
+ * Live calculation: reruns the calculator whenever the input settles,
+ * keeping the previous result on screen while the next one loads
+ */
+export function useCalculation(type: CalculatorType, input: Record<string, unknown>) {
+  // Type and input settle together, so a new form never runs with the old input
+  const [request, setRequest] = useState({ type, input });
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setRequest({ type, input }), INPUT_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [type, input]);
+
+  return useQuery({
+    queryKey: [CALCULATOR_QUERY_KEY, request.type, request.input],
+    queryFn: () => calculatorApi.calculate(request.type, request.input),
+    placeholderData: keepPreviousData,
+    staleTime: Infinity,
+    retry: false,
+  });
+}
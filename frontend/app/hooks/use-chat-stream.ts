@@ -63,18 +63,36 @@ export function useChatStream(dispatch: Dispatch<ChatAction>) {
               console.log('[SSE] Compliance:', event.data);
               break;
 
-            case 'done':
+            case 'clarification':
+              // Calculation needs more values: show the question as the reply,
+              // the user's next message answers it
+              accumulatedContentRef.current = event.data.question;
+              dispatch({
+                type: 'UPDATE_MESSAGE',
+                payload: { id: messageId, content: event.data.question },
+              });
+              break;
+
+            case 'done': {
               // Show final answer only
               dispatch({
                 type: 'UPDATE_MESSAGE',
                 payload: { id: messageId, content: event.data.answer },
               });
+
+              // Markdown has no tables here, so matrices are rendered from the calculation
+              const calculations = [event.data.calculation ?? []].flat();
+              const tables = calculations.flatMap((c) => (c.table ? [c.table] : []));
+              if (tables.length > 0) {
+                dispatch({ type: 'SET_MESSAGE_TABLES', payload: { id: messageId, tables } });
+              }
               dispatch({
                 type: 'SET_MESSAGE_STATUS',
                 payload: { id: messageId, status: 'sent' },
               });
               dispatch({ type: 'STOP_STREAMING' });
               break;
+            }
 
             case 'error': {
               const userMessage = mapErrorToMessage(event.data.code);
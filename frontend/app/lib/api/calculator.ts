@@ -0,0 +1,37 @@
+import {
+  CalculatorErrorSchema,
+  CalculatorResultSchema,
+  type CalculatorError,
+  type CalculatorResult,
+  type CalculatorType,
+} from 'shared';
+import { fetcher, FetchError } from '../fetcher';
+
+export const calculatorApi = {
+  async calculate(type: CalculatorType, input: Record<string, unknown>): Promise<CalculatorResult> {
+    return fetcher(`/api/calculate/${type}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+      schema: CalculatorResultSchema,
+    });
+  },
+};
+
+/**
+ * Reads the backend's error body (validation details or calculator message)
+ * out of a failed request
+ */
+export function parseCalculatorError(error: Error): CalculatorError {
+  if (error instanceof FetchError) {
+    try {
+      const parsed = CalculatorErrorSchema.safeParse(JSON.parse(error.message));
+      if (parsed.success) {
+        return parsed.data;
+      }
+    } catch {
+      // Not JSON, fall through to the raw message
+    }
+  }
+  return { error: error.message || 'Calculation failed' };
+}
@@ -6,6 +6,7 @@ import { Layout } from './components/layout';
 import { Toaster } from './components/ui/toaster';
 import ChatPage from './routes/index';
 import AdminPage from './routes/admin';
+import CalculatorPage from './routes/calculator';
 import './index.css';
 
 const queryClient = new QueryClient();
@@ -17,6 +18,7 @@ ReactDOM.createRoot(document.getElementById('root')!).render(
         <Layout>
           <Routes>
             <Route path="/" element={<ChatPage />} />
+            <Route path="/calculator" element={<CalculatorPage />} />
             <Route path="/admin" element={<AdminPage />} />
           </Routes>
         </Layout>
@@ -22,6 +22,14 @@ export function chatReducer(state: ChatState, action: ChatAction): ChatState {
         ),
       };
 
+    case 'SET_MESSAGE_TABLES':
+      return {
+        ...state,
+        messages: state.messages.map((msg) =>
+          msg.id === action.payload.id ? { ...msg, tables: action.payload.tables } : msg
+        ),
+      };
+
     case 'SET_MESSAGE_STATUS':
       return {
         ...state,
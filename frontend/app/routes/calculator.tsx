@@ -0,0 +1,127 @@
+import { useMemo, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import type { CalculatorType } from 'shared';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Separator } from '@/components/ui/separator';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '~/components/ui/select';
+import { CalculationResult, CalculatorForm } from '~/components/calculator';
+import { CALCULATOR_FORMS, type CalculatorFormValues } from '~/constants/calculator';
+import { useCalculation } from '~/hooks/use-calculator';
+import { parseCalculatorError } from '~/lib/api/calculator';
+import { buildCalculatorInput } from '~/utils/calculator';
+
+const INITIAL_VALUES = Object.fromEntries(
+  CALCULATOR_FORMS.map((form) => [form.type, form.defaults])
+) as Record<CalculatorType, CalculatorFormValues>;
+
+export default function CalculatorPage() {
+  const [type, setType] = useState<CalculatorType>('musharakah');
+  // Values are kept per calculator so switching back does not lose input
+  const [values, setValues] = useState(INITIAL_VALUES);
+
+  const form = CALCULATOR_FORMS.find((f) => f.type === type) ?? CALCULATOR_FORMS[0];
+  const input = useMemo(() => buildCalculatorInput(form, values[type]), [form, values, type]);
+  const { data, error, isFetching } = useCalculation(type, input);
+
+  const problem = error ? parseCalculatorError(error) : null;
+
+  // Validation details point at input paths such as "partners.1.investment"
+  const fieldErrors: Record<string, string> = {};
+  const otherErrors: string[] = [];
+  problem?.details?.forEach((detail) => {
+    const field = form.fields.find(
+      (f) => detail.field === f.name || detail.field.startsWith(`${f.name}.`)
+    );
+    if (field && !fieldErrors[field.name]) {
+      fieldErrors[field.name] = detail.message;
+    } else if (!field) {
+      otherErrors.push(`${detail.field}: ${detail.message}`);
+    }
+  });
+
+  const handleChange = (name: string, value: CalculatorFormValues[string]) => {
+    setValues((prev) => ({ ...prev, [type]: { ...prev[type], [name]: value } }));
+  };
+
+  return (
+    <div className="container px-4 py-4 sm:px-6 sm:py-6 md:py-8">
+      <div className="mx-auto max-w-6xl space-y-4 sm:space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Calculator</h1>
+          <p className="text-sm sm:text-base text-muted-foreground mt-1">
+            Exact inputs straight to the Shariah calculators, recalculated as you type
+          </p>
+        </div>
+
+        <Separator />
+
+        <div className="grid gap-4 sm:gap-6 lg:grid-cols-2">
+          {/* Inputs */}
+          <Card>
+            <CardHeader>
+              <CardTitle>{form.label}</CardTitle>
+              <CardDescription>{form.description}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <Select value={type} onValueChange={(value) => setType(value as CalculatorType)}>
+                <SelectTrigger aria-label="Calculator">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CALCULATOR_FORMS.map((f) => (
+                    <SelectItem key={f.type} value={f.type}>
+                      {f.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <CalculatorForm
+                form={form}
+                values={values[type]}
+                errors={fieldErrors}
+                onChange={handleChange}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Result */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                Result
+                {isFetching && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {problem && (
+                <div
+                  role="alert"
+                  className="rounded-md border border-destructive/50 p-3 text-sm text-destructive"
+                >
+                  <p>{problem.error}</p>
+                  {otherErrors.length > 0 && (
+                    <ul className="mt-1 list-disc pl-5">
+                      {otherErrors.map((message) => (
+                        <li key={message}>{message}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+              {data && !problem && <CalculationResult result={data} />}
+              {!data && !problem && <p className="text-sm text-muted-foreground">Calculating...</p>}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
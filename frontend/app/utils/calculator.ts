@@ -0,0 +1,246 @@
+import type { CalculationTable, CalculatorResult } from 'shared';
+import type {
+  CalculatorField,
+  CalculatorForm,
+  CalculatorFormValues,
+  CalculatorRow,
+} from '~/constants/calculator';
+
+/**
+ * Builds the tool input from form values. Blank fields are left out so the
+ * server's defaults apply and its validation reports what is missing.
+ */
+export function buildCalculatorInput(
+  form: CalculatorForm,
+  values: CalculatorFormValues
+): Record<string, unknown> {
+  const input: Record<string, unknown> = {};
+
+  for (const field of form.fields) {
+    const value = values[field.name];
+
+    if (field.kind === 'list') {
+      const rows = Array.isArray(value) ? value : [];
+      const items = rows
+        .filter((row) => Object.values(row).some((cell) => cell.trim() !== ''))
+        .map((row) => buildRow(field.columns, row));
+      if (items.length > 0) {
+        setPath(input, field.name, items);
+      }
+      continue;
+    }
+
+    const converted = convertValue(field, value);
+    if (converted !== undefined) {
+      setPath(input, field.name, converted);
+    }
+  }
+
+  return input;
+}
+
+function buildRow(columns: CalculatorField[], row: CalculatorRow): Record<string, unknown> {
+  const item: Record<string, unknown> = {};
+  for (const column of columns) {
+    const converted = convertValue(column, row[column.name]);
+    if (converted !== undefined) {
+      item[column.name] = converted;
+    }
+  }
+  return item;
+}
+
+function convertValue(field: CalculatorField, value: CalculatorFormValues[string] | undefined) {
+  if (field.kind === 'checkbox') {
+    return value === true;
+  }
+  if (typeof value !== 'string' || value.trim() === '') {
+    return undefined;
+  }
+
+  const text = value.trim();
+  switch (field.kind) {
+    case 'number':
+      return toNumber(text);
+    case 'percent': {
+      const percent = toNumber(text);
+      return typeof percent === 'number' ? Number((percent / 100).toFixed(10)) : percent;
+    }
+    case 'numbers':
+      return splitList(text).map(toNumber);
+    case 'ratio':
+      return parseRatio(text);
+    case 'ratios':
+      return splitList(text).map(parseRatio);
+    default:
+      return text;
+  }
+}
+
+// Unparseable text is passed through so the server names the field in its error
+function toNumber(text: string): number | string {
+  const number = Number(text);
+  return Number.isFinite(number) ? number : text;
+}
+
+function splitList(text: string): string[] {
+  return text
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+// "60:40" -> [0.6, 0.4], "2:1" -> [0.666667, 0.333333]
+function parseRatio(text: string): number[] | string {
+  const parts = text.split(/[:/]/).map((part) => Number(part.trim()));
+  if (parts.some((part) => !Number.isFinite(part))) {
+    return text;
+  }
+  const total = parts.reduce((sum, part) => sum + part, 0);
+  if (total <= 0) {
+    return parts;
+  }
+
+  // The server checks the sum to the millionth, so the last share takes the remainder
+  const shares = parts.slice(0, -1).map((part) => Math.round((part / total) * 1e6));
+  const last = 1e6 - shares.reduce((sum, share) => sum + share, 0);
+  return [...shares, last].map((share) => share / 1e6);
+}
+
+function setPath(target: Record<string, unknown>, path: string, value: unknown) {
+  const keys = path.split('.');
+  let node = target;
+  for (const key of keys.slice(0, -1)) {
+    node[key] = (node[key] as Record<string, unknown> | undefined) ?? {};
+    node = node[key] as Record<string, unknown>;
+  }
+  node[keys[keys.length - 1]] = value;
+}
+
+export interface ResultTable {
+  title: string;
+  table: CalculationTable;
+}
+
+// Shown as text around the tables rather than in them
+const NON_TABLE_KEYS = new Set([
+  'summary',
+  'contract_type',
+  'currency',
+  'minor_units',
+  'shariah_explanation',
+  'calculation_steps',
+]);
+
+// Counters that should not be formatted as amounts
+const COUNTER_KEYS = new Set([
+  'installment',
+  'period',
+  'quantity',
+  'certificates',
+  'periods',
+  'tenorMonths',
+  'tenor_months',
+  'lease_term_months',
+  'tenor_years',
+  'month',
+  'grace_period_months',
+  'companies_screened',
+  'compliant_count',
+  'non_compliant_count',
+]);
+
+/**
+ * Lays out a calculator's structured output as tables: one of the scalar
+ * results, then one per list (schedule, distribution, depositors, scenarios)
+ */
+export function buildResultTables(result: CalculatorResult): ResultTable[] {
+  const overview: CalculationTable['rows'] = [];
+  const tables: ResultTable[] = [];
+
+  const addScalars = (label: string, value: unknown) => {
+    if (isScalar(value)) {
+      overview.push([label, formatCell(value)]);
+    } else if (Array.isArray(value) && value.every(isScalar)) {
+      overview.push([label, value.join(', ')]);
+    } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+      Object.entries(value).forEach(([key, nested]) =>
+        addScalars(`${label} – ${humanize(key)}`, nested)
+      );
+    }
+  };
+
+  for (const [key, value] of Object.entries(result)) {
+    if (NON_TABLE_KEYS.has(key)) {
+      continue;
+    }
+    if (COUNTER_KEYS.has(key) && typeof value === 'number') {
+      overview.push([humanize(key), String(value)]);
+    } else if (Array.isArray(value) && value.length > 0 && value.every(isPlainObject)) {
+      tables.push({ title: humanize(key), table: listTable(key, value, result) });
+    } else {
+      addScalars(humanize(key), value);
+    }
+  }
+
+  return overview.length > 0
+    ? [{ title: 'Result', table: { columns: ['Item', 'Value'], rows: overview } }, ...tables]
+    : tables;
+}
+
+function listTable(
+  key: string,
+  items: Record<string, unknown>[],
+  result: CalculatorResult
+): CalculationTable {
+  // Scenario rows carry one outcome per party, so give each party a column
+  const parties = key === 'scenarios' && Array.isArray(result.parties) ? result.parties : null;
+  const keys = [...new Set(items.flatMap((item) => Object.keys(item)))];
+
+  const columns = keys.flatMap((k) =>
+    parties && k === 'outcomes'
+      ? parties.map((party: { name?: string }, i: number) => party.name ?? `Party ${i + 1}`)
+      : [humanize(k)]
+  );
+  const rows = items.map((item) =>
+    keys.flatMap((k) => {
+      const value = item[k];
+      if (parties && k === 'outcomes' && Array.isArray(value)) {
+        return value.map((outcome) => formatCell(outcome));
+      }
+      if (COUNTER_KEYS.has(k) && typeof value === 'number') {
+        return [String(value)];
+      }
+      if (Array.isArray(value)) {
+        return [value.join(', ')];
+      }
+      return [isScalar(value) ? formatCell(value) : ''];
+    })
+  );
+
+  return { columns, rows };
+}
+
+function isScalar(value: unknown): value is string | number | boolean {
+  return ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function formatCell(value: unknown): string | number {
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+  return typeof value === 'number' ? value : String(value);
+}
+
+// "capital_provider_rabb_al_mal" / "remainingBalance" -> "Capital Provider Rabb Al Mal" / "Remaining Balance"
+function humanize(key: string): string {
+  return key
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .split(/[_\s]+/)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
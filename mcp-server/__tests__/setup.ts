@@ -0,0 +1,6 @@
+import { afterEach, vi } from 'vitest';
+
+afterEach(() => {
+  // Clear all mocks after each test
+  vi.clearAllMocks();
+});
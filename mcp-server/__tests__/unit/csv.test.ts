@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsv } from '@/utils/csv';
+
+describe('parseCsv', () => {
+  it('should split rows and trim cells', () => {
+    expect(parseCsv('name, ticker\nAcme , ACM\n')).toEqual([
+      ['name', 'ticker'],
+      ['Acme', 'ACM'],
+    ]);
+  });
+
+  it('should keep commas, line breaks and doubled quotes inside quoted cells', () => {
+    expect(parseCsv('"Acme, Inc.","Line one\nline two","Say ""hi"""')).toEqual([
+      ['Acme, Inc.', 'Line one\nline two', 'Say "hi"'],
+    ]);
+  });
+
+  it('should accept CRLF line endings and skip blank lines', () => {
+    expect(parseCsv('a,b\r\n\r\n1,2\r\n,\r\n')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+
+  it('should reject a quoted cell that is never closed', () => {
+    expect(() => parseCsv('name\n"Acme')).toThrow('CSV has a quoted cell that is never closed');
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { calculateDiminishingMusharakah } from '@/calculators/diminishing-musharakah';
+import { DiminishingMusharakahInputSchema } from '@/schemas/index';
+
+describe('calculateDiminishingMusharakah', () => {
+  it("should charge rent only on the bank's remaining share as the customer buys units", () => {
+    const result = calculateDiminishingMusharakah(
+      DiminishingMusharakahInputSchema.parse({
+        bank: { name: 'Bank', investment: 80000 },
+        customer: { name: 'Customer', investment: 20000 },
+        tenorMonths: 4,
+        annualRentalRate: 0.06,
+      })
+    );
+
+    expect(result.unitPurchase).toBe(20000);
+    expect(result.schedule.map((p) => p.rent)).toEqual([400, 300, 200, 100]);
+    expect(result.schedule.map((p) => p.bankShareEnd)).toEqual([60000, 40000, 20000, 0]);
+    expect(result.schedule[3].customerOwnership).toBe('100.00%');
+    expect(result.totalRent).toBe(1000);
+    expect(result.totalPayments).toBe(81000);
+  });
+
+  it('should make the final unit purchase absorb the rounding remainder', () => {
+    const result = calculateDiminishingMusharakah(
+      DiminishingMusharakahInputSchema.parse({
+        bank: { name: 'Bank', investment: 100 },
+        customer: { name: 'Customer', investment: 50 },
+        tenorMonths: 3,
+        annualRentalRate: 0,
+      })
+    );
+
+    expect(result.schedule.map((p) => p.unitPurchase)).toEqual([33.33, 33.33, 33.34]);
+    expect(result.schedule[2].bankShareEnd).toBe(0);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { MCP_ENDPOINT, startHttpServer } from '@/http';
+
+describe('startHttpServer', () => {
+  let httpServer: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    // Port 0 lets the OS pick a free port
+    httpServer = await startHttpServer(0, '127.0.0.1');
+    const { port } = httpServer.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+  });
+
+  it('should answer the liveness probe on GET /health', async () => {
+    const response = await fetch(`${baseUrl}/health`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: 'ok' });
+  });
+
+  it('should list and call tools over POST /mcp', async () => {
+    const client = new Client({ name: 'http-test', version: '1.0.0' });
+    await client.connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}${MCP_ENDPOINT}`)));
+
+    try {
+      const { tools } = await client.listTools();
+      expect(tools.map((t) => t.name)).toContain('calculate_mudharabah');
+
+      const result = await client.callTool({
+        name: 'calculate_mudharabah',
+        arguments: {
+          capitalAmount: 100000,
+          profit: 20000,
+          capitalProviderRatio: 0.6,
+          entrepreneurRatio: 0.4,
+        },
+      });
+
+      expect(result.isError).toBeFalsy();
+      expect(result.structuredContent).toMatchObject({
+        contract_type: 'Mudharabah (مضاربة)',
+        capital_amount: 100000,
+        profit_loss: 20000,
+        is_loss: false,
+      });
+    } finally {
+      await client.close();
+    }
+  });
+
+  it('should refuse to open a session stream on GET /mcp', async () => {
+    const response = await fetch(`${baseUrl}${MCP_ENDPOINT}`);
+
+    expect(response.status).toBe(405);
+    expect(await response.json()).toMatchObject({ error: { message: 'Method not allowed' } });
+  });
+
+  it('should answer 404 outside the MCP endpoint', async () => {
+    const response = await fetch(`${baseUrl}/other`, { method: 'POST' });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should reject when the port is already in use', async () => {
+    const { port } = httpServer.address() as AddressInfo;
+
+    await expect(startHttpServer(port, '127.0.0.1')).rejects.toMatchObject({
+      code: 'EADDRINUSE',
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { calculateIjarah } from '@/calculators/ijarah';
+import { IjarahInputSchema } from '@/schemas/index';
+
+const ijarah = (input: Record<string, unknown>) => calculateIjarah(IjarahInputSchema.parse(input));
+
+describe('calculateIjarah', () => {
+  it('should recover cost net of residual value with rent on the outstanding cost', () => {
+    const result = ijarah({
+      leaseType: 'operating',
+      assetCost: 12000,
+      leaseTermMonths: 12,
+      annualRentalRate: 0.12,
+    });
+
+    expect(result.schedule[0]).toMatchObject({
+      capitalRecovery: 1000,
+      profitComponent: 120,
+      rental: 1120,
+      outstandingCost: 11000,
+    });
+    expect(result.schedule[11]).toMatchObject({ profitComponent: 10, outstandingCost: 0 });
+    expect(result.lessorProfit).toBe(780);
+    expect(result.totalRental).toBe(12780);
+  });
+
+  it('should apply reviewed rates per review period and sell at the transfer price', () => {
+    const result = ijarah({
+      leaseType: 'muntahia_bittamleek',
+      assetCost: 12000,
+      leaseTermMonths: 12,
+      annualRentalRate: 0.12,
+      reviewPeriodMonths: 6,
+      reviewedRates: [0.24],
+      residualValue: 1200,
+    });
+
+    expect(result.schedule[5]).toMatchObject({ annualRate: 0.12, profitComponent: 75 });
+    expect(result.schedule[6]).toMatchObject({ annualRate: 0.24, profitComponent: 132 });
+    expect(result.schedule[11].outstandingCost).toBe(1200);
+    expect(result.lessorProfit).toBe(1107);
+    expect(result.totalRental).toBe(11907);
+    expect(result.endOfLease).toMatchObject({ method: 'sale', amount: 1200 });
+  });
+
+  it('should reject more rates than review periods', () => {
+    expect(() =>
+      ijarah({
+        leaseType: 'operating',
+        assetCost: 12000,
+        leaseTermMonths: 12,
+        annualRentalRate: 0.12,
+        reviewPeriodMonths: 12,
+        reviewedRates: [0.1],
+      })
+    ).toThrow('2 rental rates given but the lease only has 1 review period(s)');
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { calculateIstisna } from '@/calculators/istisna';
+import { IstisnaInputSchema } from '@/schemas/index';
+
+const istisna = (input: Record<string, unknown>) =>
+  calculateIstisna(IstisnaInputSchema.parse(input));
+
+const contract = {
+  asset: 'Warehouse',
+  contractPrice: 1200000,
+  contractDate: '2026-01-01',
+  deliveryDate: '2026-12-31',
+  payments: [
+    { milestone: 'Signing', date: '2026-01-01', ratio: 0.2 },
+    { milestone: 'Handover', date: '2026-12-31', ratio: 0.8 },
+  ],
+  parallelIstisna: {
+    contractorPrice: 1000000,
+    deliveryDate: '2026-12-15',
+    payments: [
+      { milestone: 'Foundation', date: '2026-03-01', ratio: 1 / 3 },
+      { milestone: 'Structure', date: '2026-07-01', ratio: 1 / 3 },
+      { milestone: 'Completion', date: '2026-12-15', ratio: 1 / 3 },
+    ],
+  },
+};
+
+describe('calculateIstisna', () => {
+  it('should split both prices over their milestones and reconcile exactly in KWD', () => {
+    const result = istisna({ ...contract, currency: 'KWD' });
+
+    expect(result.customerPayments.map((p) => p.amount)).toEqual([240000, 960000]);
+    expect(result.contractorPayments.map((p) => p.amount)).toEqual([
+      333333.334, 333333.333, 333333.333,
+    ]);
+    expect(result.financierProfit).toBe(200000);
+    expect(result.profitRate).toBe('20.00%');
+  });
+
+  it("should track the financier's cash position and peak funding over the timeline", () => {
+    const result = istisna(contract);
+
+    expect(result.timeline.map((e) => e.date)).toEqual([
+      '2026-01-01',
+      '2026-03-01',
+      '2026-07-01',
+      '2026-12-15',
+      '2026-12-15',
+      '2026-12-31',
+      '2026-12-31',
+    ]);
+    expect(result.timeline[3].netPosition).toBe(-760000);
+    expect(result.timeline[6].netPosition).toBe(200000);
+    expect(result.peakFunding).toBe(760000);
+  });
+
+  it('should reject milestone shares that do not sum to 1', () => {
+    expect(() =>
+      istisna({
+        ...contract,
+        payments: [{ milestone: 'Signing', date: '2026-01-01', ratio: 0.5 }],
+      })
+    ).toThrow('Customer payment ratios must sum to 1, got 0.5');
+  });
+
+  it('should reject a payment before the contract date', () => {
+    expect(() =>
+      istisna({
+        ...contract,
+        payments: [{ milestone: 'Deposit', date: '2025-12-01', ratio: 1 }],
+      })
+    ).toThrow('Customer payment "Deposit" on 2025-12-01 is before the contract date (2026-01-01)');
+  });
+});
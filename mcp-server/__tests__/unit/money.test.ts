@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { allocateMinor, minorUnitsFor, ratiosSumToOne, toMinor } from '@/utils/money';
+import { calculateMusharakah } from '@/calculators/musharakah';
+import { MusharakahInputSchema } from '@/schemas/index';
+
+describe('ratiosSumToOne', () => {
+  it.each([
+    [[1 / 3, 1 / 3, 1 / 3]],
+    [[0.333333, 0.333333, 0.333333]],
+    [[0.6, 0.4]],
+    [[0.1, 0.2, 0.7]],
+  ])('should accept %j', (ratios) => {
+    expect(ratiosSumToOne(ratios)).toBe(true);
+  });
+
+  it.each([[[0.5, 0.4]], [[0.6, 0.6]], [[0.333, 0.333, 0.333]]])('should reject %j', (ratios) => {
+    expect(ratiosSumToOne(ratios)).toBe(false);
+  });
+
+  it('should accept an equal three-way Musharakah profit split', () => {
+    const result = calculateMusharakah(
+      MusharakahInputSchema.parse({
+        partners: [
+          { name: 'A', investment: 10000 },
+          { name: 'B', investment: 10000 },
+          { name: 'C', investment: 10000 },
+        ],
+        totalProfit: 100,
+        profitRatio: [1 / 3, 1 / 3, 1 / 3],
+      })
+    );
+
+    expect(result.distribution.map((d) => d.shareAmount)).toEqual([33.34, 33.33, 33.33]);
+  });
+});
+
+describe('allocateMinor', () => {
+  it('should hand leftover units to the largest remainders, earlier party first on ties', () => {
+    expect(allocateMinor(100, [1, 1, 1])).toEqual([34, 33, 33]);
+    expect(allocateMinor(1000, [2, 3, 5])).toEqual([200, 300, 500]);
+    expect(allocateMinor(10, [0.15, 0.15, 0.7])).toEqual([2, 1, 7]);
+  });
+
+  it('should split a loss with the same reconciliation', () => {
+    const shares = allocateMinor(-1001, [1, 1]);
+
+    expect(shares).toEqual([-501, -500]);
+    expect(shares.reduce((a, b) => a + b, 0)).toBe(-1001);
+  });
+
+  it('should reconcile exactly in JPY (no minor units) and KWD (3 decimals)', () => {
+    expect(minorUnitsFor('JPY')).toBe(0);
+    expect(minorUnitsFor('KWD')).toBe(3);
+
+    const yen = allocateMinor(toMinor(100000, 0), [1, 1, 1]);
+    expect(yen).toEqual([33334, 33333, 33333]);
+
+    const fils = allocateMinor(toMinor(10, 3), [1, 2, 4]);
+    expect(fils).toEqual([1429, 2857, 5714]);
+    expect(fils.reduce((a, b) => a + b, 0)).toBe(10000);
+  });
+
+  it('should reject weights without a positive total', () => {
+    expect(() => allocateMinor(100, [0, 0])).toThrow();
+    expect(() => allocateMinor(100, [1, -1])).toThrow();
+  });
+});
+
+describe('currency minor units in calculators', () => {
+  const partners = (investments: number[]) =>
+    investments.map((investment, i) => ({ name: `P${i + 1}`, investment }));
+
+  it('should split and reconcile in whole yen for JPY', () => {
+    const result = calculateMusharakah(
+      MusharakahInputSchema.parse({
+        partners: partners([10000, 10000, 10000]),
+        totalProfit: 100000,
+        currency: 'JPY',
+      })
+    );
+
+    expect(result.distribution.map((d) => d.shareAmount)).toEqual([33334, 33333, 33333]);
+    expect(result.calculationSteps.join('\n')).toContain(
+      'Reconciliation: 33334 + 33333 + 33333 = 100000'
+    );
+  });
+
+  it('should split and reconcile in fils (3 decimals) for KWD', () => {
+    const result = calculateMusharakah(
+      MusharakahInputSchema.parse({
+        partners: partners([1000, 2000, 4000]),
+        totalProfit: 10,
+        currency: 'KWD',
+      })
+    );
+
+    expect(result.distribution.map((d) => d.shareAmount)).toEqual([1.429, 2.857, 5.714]);
+    expect(result.calculationSteps.join('\n')).toContain(
+      'Reconciliation: 1.429 + 2.857 + 5.714 = 10.000'
+    );
+  });
+});
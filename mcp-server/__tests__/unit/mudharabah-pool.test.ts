@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { calculateMudharabahPool } from '@/calculators/mudharabah-pool';
+import { MudharabahPoolInputSchema } from '@/schemas/index';
+
+const pool = (input: Record<string, unknown>) =>
+  calculateMudharabahPool(MudharabahPoolInputSchema.parse(input));
+
+const depositors = [
+  { name: 'A', amount: 100000, tenorMonths: 1 },
+  { name: 'B', amount: 100000, tenorMonths: 12 },
+];
+const weightages = [
+  { tenorMonths: 1, weightage: 0.5 },
+  { tenorMonths: 12, weightage: 1 },
+];
+
+describe('calculateMudharabahPool', () => {
+  it('should appropriate PER and IRR and share profit by weighted amount', () => {
+    const result = pool({
+      depositors,
+      weightages,
+      grossIncome: 10000,
+      mudaribShareRatio: 0.3,
+      perRate: 0.1,
+      irrRate: 0.05,
+    });
+
+    expect(result.perAppropriation).toBe(1000);
+    expect(result.mudaribShare).toBe(2700);
+    expect(result.depositorsShare).toBe(6300);
+    expect(result.irrAppropriation).toBe(315);
+    expect(result.distributedProfit).toBe(5985);
+    expect(result.depositors.map((d) => d.weightedAmount)).toEqual([50000, 100000]);
+    expect(result.depositors.map((d) => d.profit)).toEqual([1995, 3990]);
+  });
+
+  it('should share a loss by capital with no reserves or Mudarib share', () => {
+    const result = pool({
+      depositors: [...depositors, { name: 'C', amount: 100000, tenorMonths: 12 }],
+      weightages,
+      grossIncome: -1000,
+      mudaribShareRatio: 0.3,
+      perRate: 0.1,
+    });
+
+    expect(result.isLoss).toBe(true);
+    expect(result.perAppropriation).toBe(0);
+    expect(result.mudaribShare).toBe(0);
+    expect(result.depositors.map((d) => d.profit)).toEqual([-333.34, -333.33, -333.33]);
+  });
+
+  it('should reject a depositor whose tenor has no declared weightage', () => {
+    expect(() =>
+      pool({
+        depositors: [{ name: 'D', amount: 1000, tenorMonths: 6 }],
+        weightages,
+        grossIncome: 100,
+        mudaribShareRatio: 0.3,
+      })
+    ).toThrow("No weightage declared for D's 6-month tenor");
+  });
+});
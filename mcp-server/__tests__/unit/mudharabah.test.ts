@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { calculateMudharabah } from '@/calculators/mudharabah';
+import { MudharabahInputSchema } from '@/schemas/index';
+
+const mudharabah = (input: Record<string, unknown>) =>
+  calculateMudharabah(MudharabahInputSchema.parse(input));
+
+const ratios = { capitalProviderRatio: 0.6, entrepreneurRatio: 0.4 };
+
+describe('calculateMudharabah', () => {
+  it('should net expenses and recover prior losses before sharing profit', () => {
+    const result = mudharabah({
+      capitalAmount: 100000,
+      grossRevenue: 30000,
+      expenses: 10000,
+      priorLosses: 5000,
+      ...ratios,
+    });
+
+    expect(result.profit).toBe(20000);
+    expect(result.priorLossRecovered).toBe(5000);
+    expect(result.unrecoveredLosses).toBe(0);
+    expect(result.distributableProfit).toBe(15000);
+    expect(result.distribution.capitalProvider.shareAmount).toBe(9000);
+    expect(result.distribution.entrepreneur.shareAmount).toBe(6000);
+  });
+
+  it('should carry prior losses the profit does not cover', () => {
+    const result = mudharabah({
+      capitalAmount: 100000,
+      profit: 2000,
+      priorLosses: 5000,
+      ...ratios,
+    });
+
+    expect(result.priorLossRecovered).toBe(2000);
+    expect(result.unrecoveredLosses).toBe(3000);
+    expect(result.distributableProfit).toBe(0);
+    expect(result.distribution.entrepreneur.shareAmount).toBe(0);
+  });
+
+  it('should put an ordinary loss entirely on the capital provider', () => {
+    const result = mudharabah({ capitalAmount: 100000, profit: -8000, ...ratios });
+
+    expect(result.distribution.capitalProvider.shareAmount).toBe(-8000);
+    expect(result.distribution.entrepreneur.shareAmount).toBe(0);
+  });
+
+  it('should make the mudarib liable for a loss caused by negligence', () => {
+    const result = mudharabah({
+      capitalAmount: 100000,
+      profit: -8000,
+      mudaribNegligence: true,
+      ...ratios,
+    });
+
+    expect(result.distribution.capitalProvider.shareAmount).toBe(0);
+    expect(result.distribution.entrepreneur.shareAmount).toBe(-8000);
+  });
+});
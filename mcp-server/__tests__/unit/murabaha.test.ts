@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { calculateMurabaha } from '@/calculators/murabaha';
+import { MurabahaInputSchema } from '@/schemas/index';
+
+const murabaha = (input: Record<string, unknown>) =>
+  calculateMurabaha(MurabahaInputSchema.parse(input));
+
+describe('calculateMurabaha', () => {
+  it('should fix the selling price from the disclosed cost and markup', () => {
+    const result = murabaha({ costPrice: 20000, markupRate: 0.15, tenorMonths: 10 });
+
+    expect(result.markupAmount).toBe(3000);
+    expect(result.sellingPrice).toBe(23000);
+    expect(result.downPayment).toBe(0);
+    expect(result.financedAmount).toBe(23000);
+    expect(result.installmentAmount).toBe(2300);
+    expect(result.schedule.every((i) => i.payment === 2300)).toBe(true);
+    expect(result.schedule[9].remainingBalance).toBe(0);
+  });
+
+  it('should let the last installment absorb the remainder so installments sum to the deferred balance', () => {
+    const result = murabaha({
+      costPrice: 10000,
+      markupRate: 0.15,
+      downPayment: 1500,
+      tenorMonths: 12,
+    });
+
+    expect(result.sellingPrice).toBe(11500);
+    expect(result.financedAmount).toBe(10000);
+    expect(result.installmentAmount).toBe(833.33);
+    expect(result.schedule.slice(0, 11).every((i) => i.payment === 833.33)).toBe(true);
+    expect(result.schedule[11]).toEqual({ installment: 12, payment: 833.37, remainingBalance: 0 });
+
+    const paidMinor = result.schedule.reduce((sum, i) => sum + Math.round(i.payment * 100), 0);
+    expect(paidMinor).toBe(1000000);
+    expect(result.calculationSteps).toContain(
+      '   Final installment adjusted to 833.37 so installments sum exactly to the deferred balance'
+    );
+  });
+
+  it('should split in whole yen for JPY', () => {
+    const result = murabaha({
+      costPrice: 1000000,
+      markupRate: 0.1,
+      tenorMonths: 7,
+      currency: 'JPY',
+    });
+
+    expect(result.sellingPrice).toBe(1100000);
+    expect(result.installmentAmount).toBe(157142);
+    expect(result.schedule[6].payment).toBe(157148);
+  });
+
+  it('should reject a down payment that covers the selling price', () => {
+    expect(() =>
+      murabaha({ costPrice: 1000, markupRate: 0.1, downPayment: 1100, tenorMonths: 12 })
+    ).toThrow('Down payment (1100) must be less than the selling price (1100.00)');
+  });
+});
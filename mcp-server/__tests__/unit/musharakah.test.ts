@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { calculateMusharakah } from '@/calculators/musharakah';
+import { MusharakahInputSchema } from '@/schemas/index';
+
+const musharakah = (input: Record<string, unknown>) =>
+  calculateMusharakah(MusharakahInputSchema.parse(input));
+
+// A withdraws half its capital half-way through 2024 (a leap year, 366 days)
+const partners = [
+  { name: 'A', investment: 100000, capitalMovements: [{ date: '2024-07-01', amount: -50000 }] },
+  { name: 'B', investment: 100000 },
+];
+
+describe('calculateMusharakah with capital movements', () => {
+  it('should time-weight capital by month after a mid-period withdrawal', () => {
+    const result = musharakah({
+      partners,
+      totalProfit: 30000,
+      periodStart: '2024-01-01',
+      periodEnd: '2024-12-31',
+      weighting: 'monthly',
+    });
+
+    expect(result.distribution.map((d) => d.weightedCapital)).toEqual([900000, 1200000]);
+    expect(result.distribution.map((d) => d.shareAmount)).toEqual([12857.14, 17142.86]);
+  });
+
+  it('should share a loss by daily time-weighted capital', () => {
+    const result = musharakah({
+      partners,
+      totalProfit: -30000,
+      periodStart: '2024-01-01',
+      periodEnd: '2024-12-31',
+    });
+
+    // A: 182 days at 100,000 + 184 days at 50,000; B: 366 days at 100,000
+    expect(result.distribution.map((d) => d.weightedCapital)).toEqual([27400000, 36600000]);
+    expect(result.distribution.map((d) => d.shareAmount)).toEqual([-12843.75, -17156.25]);
+  });
+
+  it('should require the period when capital moves', () => {
+    expect(() => musharakah({ partners, totalProfit: 30000 })).toThrow(
+      'periodStart and periodEnd are required when capital movements are provided'
+    );
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '@/server';
+
+describe('prompts', () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer().connect(serverTransport);
+    client = new Client({ name: 'prompts-test', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  const textOf = (message: { content: { type: string } }) =>
+    message.content.type === 'text' ? (message.content as { text: string }).text : '';
+
+  describe('explain-contract', () => {
+    it('should explain a contract found by alias with its calculator tool', async () => {
+      const result = await client.getPrompt({
+        name: 'explain-contract',
+        arguments: { contract: 'IMBT', audience: 'analyst' },
+      });
+
+      expect(result.description).toBe('Explain Ijarah Muntahia Bittamleek');
+      const text = textOf(result.messages[0]);
+      expect(text).toContain('for an analyst');
+      expect(text).toContain('Use the `calculate_ijarah` tool');
+    });
+
+    it('should say when the contract is not in the glossary', async () => {
+      const result = await client.getPrompt({
+        name: 'explain-contract',
+        arguments: { contract: 'bai al-inah' },
+      });
+
+      expect(textOf(result.messages[0])).toContain(
+        'This contract is not in the glossary (glossary://contract-types)'
+      );
+    });
+
+    it('should require the contract', async () => {
+      await expect(client.getPrompt({ name: 'explain-contract', arguments: {} })).rejects.toThrow(
+        'Invalid arguments for prompt explain-contract'
+      );
+    });
+
+    it('should reject an unknown audience', async () => {
+      await expect(
+        client.getPrompt({
+          name: 'explain-contract',
+          arguments: { contract: 'murabaha', audience: 'regulator' },
+        })
+      ).rejects.toThrow('Invalid arguments for prompt explain-contract');
+    });
+  });
+
+  describe('check-structure', () => {
+    const structure =
+      'Bank buys a car for 20000 and sells it to the customer for 23000 over 2 years';
+
+    it('should apply the rules of the contract the structure is presented as', async () => {
+      const result = await client.getPrompt({
+        name: 'check-structure',
+        arguments: { structure, contract: 'murabaha' },
+      });
+
+      expect(result.description).toBe('Shariah review of Murabaha');
+      const text = textOf(result.messages[0]);
+      expect(text).toContain(`Structure:\n${structure}`);
+      expect(text).toContain('The structure is presented as Murabaha. Apply its rules:');
+    });
+
+    it('should ask for the closest contract when none is given', async () => {
+      const result = await client.getPrompt({ name: 'check-structure', arguments: { structure } });
+
+      expect(result.description).toBe('Shariah review');
+      expect(textOf(result.messages[0])).toContain(
+        'Identify the closest contract type from the glossary'
+      );
+    });
+
+    it('should require the structure', async () => {
+      await expect(
+        client.getPrompt({ name: 'check-structure', arguments: { contract: 'murabaha' } })
+      ).rejects.toThrow('Invalid arguments for prompt check-structure');
+    });
+  });
+});
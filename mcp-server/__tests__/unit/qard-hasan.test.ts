@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { calculateQardHasan } from '@/calculators/qard-hasan';
+import { QardHasanAdminFeeSchema, QardHasanInputSchema } from '@/schemas/index';
+
+const qardHasan = (input: Record<string, unknown>) =>
+  calculateQardHasan(QardHasanInputSchema.parse(input));
+
+const issuesOf = (fee: Record<string, unknown>) => {
+  const parsed = QardHasanAdminFeeSchema.safeParse(fee);
+  return parsed.success
+    ? []
+    : parsed.error.issues.map((i) => ({ path: i.path, message: i.message }));
+};
+
+describe('QardHasanAdminFeeSchema', () => {
+  it('should accept a one-time fixed fee at actual cost', () => {
+    expect(issuesOf({ amount: 50, description: 'Documentation' })).toEqual([]);
+  });
+
+  it('should reject a fee set as a rate of the principal as riba', () => {
+    expect(issuesOf({ rate: 0.02 })).toEqual([
+      {
+        path: ['rate'],
+        message:
+          'A fee of 2.00% of the principal is tied to the amount lent, which is riba on a Qard al-Hasan; declare the actual cost as a fixed amount instead',
+      },
+    ]);
+  });
+
+  it('should reject a recurring fee as riba', () => {
+    expect(issuesOf({ amount: 10, basis: 'per_month' })).toEqual([
+      {
+        path: ['basis'],
+        message:
+          'A fee charged per month grows with the time the loan is outstanding, which is riba on a Qard al-Hasan; only a one-time fee at actual cost is allowed',
+      },
+    ]);
+  });
+
+  it('should require the fee amount', () => {
+    expect(issuesOf({ description: 'Processing' })).toEqual([
+      {
+        path: ['amount'],
+        message: 'Give the actual cost of administering the loan as a fixed amount',
+      },
+    ]);
+  });
+});
+
+describe('calculateQardHasan', () => {
+  it('should repay exactly the principal after the grace period', () => {
+    const result = qardHasan({ principal: 10000, tenorMonths: 3, gracePeriodMonths: 2 });
+
+    expect(result.schedule).toEqual([
+      { installment: 1, month: 3, payment: 3333.33, remainingBalance: 6666.67 },
+      { installment: 2, month: 4, payment: 3333.33, remainingBalance: 3333.34 },
+      { installment: 3, month: 5, payment: 3333.34, remainingBalance: 0 },
+    ]);
+    expect(result.totalRepayment).toBe(10000);
+    expect(result.adminFee).toBe(0);
+    expect(result.totalPaidByBorrower).toBe(10000);
+  });
+
+  it('should add a one-time fee separately from the principal', () => {
+    const result = qardHasan({
+      principal: 12000,
+      tenorMonths: 12,
+      adminFee: { amount: 50, description: 'Documentation' },
+    });
+
+    expect(result.installmentAmount).toBe(1000);
+    expect(result.totalRepayment).toBe(12000);
+    expect(result.adminFee).toBe(50);
+    expect(result.adminFeeDescription).toBe('Documentation');
+    expect(result.totalPaidByBorrower).toBe(12050);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '@/server';
+import { GLOSSARY_URI } from '@/resources/index';
+import { findGlossaryEntry, formatGlossaryEntry } from '@/resources/glossary';
+import { listDocs, readDoc } from '@/resources/docs';
+
+describe('resources', () => {
+  let docsDir: string;
+  let client: Client;
+
+  beforeAll(async () => {
+    docsDir = await mkdtemp(join(tmpdir(), 'mcp-docs-'));
+    await mkdir(join(docsDir, 'calculations'));
+    await mkdir(join(docsDir, 'principles'));
+    await writeFile(
+      join(docsDir, 'calculations', 'murabaha-pricing.md'),
+      '# Murabaha Pricing\n\nCost plus a disclosed markup.'
+    );
+    // Notion exports end with a 32-character id, which the slug drops
+    await writeFile(
+      join(docsDir, 'principles', 'Riba (Interest) 2e142f0e321781dd8166cbe034c1c4b2.md'),
+      'Riba is any increase on a loan.'
+    );
+    await writeFile(join(docsDir, 'principles', 'Riba.pdf'), '%PDF');
+  });
+
+  afterAll(async () => {
+    await rm(docsDir, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    vi.stubEnv('MCP_DOCS_DIR', docsDir);
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer().connect(serverTransport);
+    client = new Client({ name: 'resources-test', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    vi.unstubAllEnvs();
+  });
+
+  describe('listing', () => {
+    it('should list the glossary and the markdown documents present', async () => {
+      const { resources } = await client.listResources();
+
+      expect(resources.map((r) => [r.uri, r.name])).toEqual([
+        [GLOSSARY_URI, 'contract-glossary'],
+        ['docs://calculations/murabaha-pricing', 'Murabaha Pricing'],
+        ['docs://principles/riba-interest', 'riba-interest'],
+      ]);
+    });
+
+    it('should pick up documents added after the server started', async () => {
+      const path = join(docsDir, 'calculations', 'ijarah-rental.md');
+      await writeFile(path, '# Ijarah Rental');
+
+      try {
+        const { resources } = await client.listResources();
+        expect(resources.map((r) => r.uri)).toContain('docs://calculations/ijarah-rental');
+      } finally {
+        await rm(path);
+      }
+    });
+
+    it('should list no documents when the docs directory is missing', async () => {
+      vi.stubEnv('MCP_DOCS_DIR', join(docsDir, 'missing'));
+
+      expect(await listDocs()).toEqual([]);
+    });
+  });
+
+  describe('reading', () => {
+    it('should include each contract in the glossary', async () => {
+      const { contents } = await client.readResource({ uri: GLOSSARY_URI });
+      const murabaha = findGlossaryEntry('murabaha')!;
+
+      expect(contents[0].mimeType).toBe('text/markdown');
+      expect(contents[0].text).toContain(formatGlossaryEntry(murabaha));
+      expect(contents[0].text).toContain('**Calculator tool**: `calculate_murabaha`');
+    });
+
+    it('should find a glossary entry by alias ignoring case and punctuation', () => {
+      expect(findGlossaryEntry('IMBT')?.id).toBe('ijarah_muntahia_bittamleek');
+      expect(findGlossaryEntry('Qard al-Hasan')?.id).toBe('qard_al_hasan');
+      expect(findGlossaryEntry('bai al-inah')).toBeUndefined();
+    });
+
+    it('should read a document by collection and slug', async () => {
+      const { contents } = await client.readResource({
+        uri: 'docs://calculations/murabaha-pricing',
+      });
+
+      expect(contents).toEqual([
+        {
+          uri: 'docs://calculations/murabaha-pricing',
+          mimeType: 'text/markdown',
+          text: '# Murabaha Pricing\n\nCost plus a disclosed markup.',
+        },
+      ]);
+    });
+
+    it('should not read outside the known collections', async () => {
+      expect(await readDoc('products', 'murabaha-pricing')).toBeUndefined();
+    });
+
+    it('should report a document that is not present', async () => {
+      await expect(
+        client.readResource({ uri: 'docs://calculations/salam-pricing' })
+      ).rejects.toThrow('Document not found: docs://calculations/salam-pricing');
+    });
+
+    it('should report a URI no resource serves', async () => {
+      await expect(client.readResource({ uri: 'glossary://sukuk' })).rejects.toThrow(
+        'Resource glossary://sukuk not found'
+      );
+    });
+  });
+});
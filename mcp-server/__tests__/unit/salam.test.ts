@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { calculateSalam } from '@/calculators/salam';
+import { SalamInputSchema } from '@/schemas/index';
+
+const salam = (input: Record<string, unknown>) => calculateSalam(SalamInputSchema.parse(input));
+
+const contract = {
+  commodity: 'Wheat, grade A',
+  quantity: 100,
+  unit: 'tonnes',
+  pricePerUnit: 250,
+  contractDate: '2026-01-01',
+  deliveryDate: '2026-06-30',
+};
+
+describe('calculateSalam', () => {
+  it("should lock in the financier's profit through a parallel Salam", () => {
+    const result = salam({
+      ...contract,
+      parallelSalam: { margin: 0.08, contractDate: '2026-03-01' },
+    });
+
+    expect(result.salamCapital).toBe(25000);
+    expect(result.saleBasis).toBe('parallel_salam');
+    expect(result.saleProceeds).toBe(27000);
+    expect(result.financierProfit).toBe(2000);
+    expect(result.profitRate).toBe('8.00%');
+  });
+
+  it('should order payments before deliveries on the timeline and track peak funding', () => {
+    const result = salam({
+      ...contract,
+      parallelSalam: { margin: 0.08, contractDate: '2026-03-01' },
+    });
+
+    expect(result.timeline).toEqual([
+      {
+        date: '2026-01-01',
+        event: 'Financier pays Salam capital to seller',
+        cashFlow: -25000,
+        netPosition: -25000,
+      },
+      {
+        date: '2026-03-01',
+        event: 'Parallel buyer pays parallel Salam price to financier',
+        cashFlow: 27000,
+        netPosition: 2000,
+      },
+      {
+        date: '2026-06-30',
+        event: 'Seller delivers Wheat, grade A to financier',
+        cashFlow: 0,
+        quantity: 100,
+        netPosition: 2000,
+      },
+      {
+        date: '2026-06-30',
+        event: 'Financier delivers Wheat, grade A to parallel buyer',
+        cashFlow: 0,
+        quantity: 100,
+        netPosition: 2000,
+      },
+    ]);
+    expect(result.peakFunding).toBe(25000);
+  });
+
+  it('should leave market price risk with the financier without a parallel Salam', () => {
+    const result = salam({ ...contract, expectedSalePricePerUnit: 240 });
+
+    expect(result.saleBasis).toBe('expected_market_price');
+    expect(result.financierProfit).toBe(-1000);
+    expect(result.timeline.map((e) => e.netPosition)).toEqual([-25000, -25000, -1000]);
+  });
+
+  it('should require the capital to be paid in full at contract', () => {
+    expect(() => salam({ ...contract, expectedSalePricePerUnit: 270, capitalPaid: 20000 })).toThrow(
+      'Salam capital must be paid in full at contract'
+    );
+    expect(() =>
+      salam({ ...contract, expectedSalePricePerUnit: 270, capitalPaymentDate: '2026-02-01' })
+    ).toThrow(
+      'Salam capital must be paid at the time of contract (2026-01-01), not on 2026-02-01; deferring it makes the contract a sale of debt for debt'
+    );
+  });
+
+  it('should not deliver to the parallel buyer before the financier receives the commodity', () => {
+    expect(() =>
+      salam({
+        ...contract,
+        parallelSalam: { margin: 0.08, deliveryDate: '2026-06-01' },
+      })
+    ).toThrow(
+      'Parallel Salam delivery (2026-06-01) must not be before the financier receives the commodity (2026-06-30)'
+    );
+  });
+});
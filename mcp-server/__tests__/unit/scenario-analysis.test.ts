@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { calculateScenarioAnalysis, MAX_SCENARIOS } from '@/calculators/scenario-analysis';
+import { ScenarioAnalysisInputSchema } from '@/schemas/index';
+
+const analyse = (input: Record<string, unknown>) =>
+  calculateScenarioAnalysis(ScenarioAnalysisInputSchema.parse(input));
+
+const mudharabah = {
+  contractType: 'mudharabah',
+  capitalAmount: 10000,
+  profitRatios: [[0.6, 0.4]],
+};
+
+describe('calculateScenarioAnalysis', () => {
+  describe('profit levels', () => {
+    it('should sweep a range in minor units without drift', () => {
+      const result = analyse({ ...mudharabah, profitRange: { from: 0, to: 1, step: 0.1 } });
+
+      expect(result.profitLevels).toEqual([0, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1]);
+    });
+
+    it('should include the upper bound only when the step lands on it', () => {
+      const result = analyse({ ...mudharabah, profitRange: { from: -1000, to: 1000, step: 750 } });
+
+      expect(result.profitLevels).toEqual([-1000, -250, 500]);
+    });
+
+    it('should reject profits given together with a profitRange', () => {
+      expect(() =>
+        analyse({ ...mudharabah, profits: [1000], profitRange: { from: 0, to: 1000, step: 500 } })
+      ).toThrow('Provide either profits or profitRange, not both');
+    });
+
+    it('should reject a step smaller than the currency minor unit', () => {
+      expect(() =>
+        analyse({ ...mudharabah, profitRange: { from: 0, to: 1, step: 0.004 } })
+      ).toThrow('profitRange.step is smaller than the currency minor unit');
+      expect(() =>
+        analyse({ ...mudharabah, currency: 'JPY', profitRange: { from: 0, to: 10, step: 0.4 } })
+      ).toThrow('profitRange.step is smaller than the currency minor unit');
+    });
+  });
+
+  describe('scenario limit', () => {
+    it(`should allow up to ${MAX_SCENARIOS} scenarios`, () => {
+      const result = analyse({
+        ...mudharabah,
+        profitRatios: [
+          [0.6, 0.4],
+          [0.5, 0.5],
+        ],
+        profitRange: { from: 1, to: 100, step: 1 },
+      });
+
+      expect(result.scenarios).toHaveLength(MAX_SCENARIOS);
+    });
+
+    it('should reject a sweep with more profit levels than the limit', () => {
+      expect(() => analyse({ ...mudharabah, profitRange: { from: 0, to: 200, step: 1 } })).toThrow(
+        'Scenario analysis is limited to 200 scenarios, got 201 profit levels × 1 ratios'
+      );
+    });
+
+    it('should count every profit level against every ratio', () => {
+      expect(() =>
+        analyse({
+          ...mudharabah,
+          profitRatios: [
+            [0.6, 0.4],
+            [0.5, 0.5],
+          ],
+          profitRange: { from: 0, to: 100, step: 1 },
+        })
+      ).toThrow('Scenario analysis is limited to 200 scenarios, got 101 profit levels × 2 ratios');
+    });
+  });
+
+  describe('Mudharabah', () => {
+    it('should put every loss on the capital provider whatever the ratio', () => {
+      const result = analyse({
+        ...mudharabah,
+        profitRatios: [
+          [0.6, 0.4],
+          [0.5, 0.5],
+        ],
+        profits: [-1000, 2000],
+      });
+
+      expect(result.ratioScenarios).toEqual(['60:40', '50:50']);
+      expect(result.scenarios.map((s) => [s.ratio, s.profitLoss, s.outcomes])).toEqual([
+        ['60:40', -1000, [-1000, 0]],
+        ['60:40', 2000, [1200, 800]],
+        ['50:50', -1000, [-1000, 0]],
+        ['50:50', 2000, [1000, 1000]],
+      ]);
+    });
+
+    it('should reject a ratio that is not a [capital provider, entrepreneur] pair', () => {
+      expect(() =>
+        analyse({ ...mudharabah, profitRatios: [[0.5, 0.3, 0.2]], profits: [1000] })
+      ).toThrow(
+        'Mudharabah profit ratios must be [capital provider, entrepreneur] pairs, got 3 values'
+      );
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { calculateStockScreening } from '@/calculators/stock-screening';
+import { StockScreeningInputSchema } from '@/schemas/index';
+
+const screen = (input: Record<string, unknown>) =>
+  calculateStockScreening(StockScreeningInputSchema.parse(input));
+
+const company = {
+  name: 'Cashco',
+  ticker: 'CSH',
+  marketCap: 1000,
+  interestBearingDebt: 250,
+  cashAndInterestBearingSecurities: 350,
+  totalRevenue: 500,
+  nonPermissibleIncome: 20,
+  dividends: 100,
+  capitalGain: 500,
+};
+
+const holdingsCsv = [
+  'Company,Symbol,market_cap,interest_bearing_debt,cash_and_interest_bearing_securities,total_revenue,non_permissible_income,excluded_activities,dividends',
+  '"Acme, Inc.",ACM,1000,100,100,500,10,,200',
+  'Brewco,BRW,2000,100,100,1000,0,alcohol; gambling,50',
+].join('\n');
+
+describe('calculateStockScreening', () => {
+  it('should report each ratio against the AAOIFI thresholds', () => {
+    const result = screen({ company });
+
+    expect(result.thresholds).toEqual({
+      debtToMarketCap: '≤ 30.00%',
+      cashToMarketCap: '≤ 30.00%',
+      nonPermissibleIncome: '≤ 5.00%',
+    });
+    expect(result.screens.map((s) => [s.screen, s.value, s.result])).toEqual([
+      ['Business activity', 'none prohibited', 'pass'],
+      ['Interest-bearing debt / market cap', '25.00%', 'pass'],
+      ['Cash and interest-bearing securities / market cap', '35.00%', 'fail'],
+      ['Non-permissible income / revenue', '4.00%', 'pass'],
+    ]);
+    expect(result.companies[0]).toMatchObject({
+      status: 'non_compliant',
+      failedScreens: ['Cash and interest-bearing securities / market cap'],
+    });
+  });
+
+  it('should apply custom thresholds', () => {
+    const result = screen({ company, thresholds: { cashToMarketCap: 0.4 } });
+
+    expect(result.compliantCount).toBe(1);
+    expect(result.thresholds.cashToMarketCap).toBe('≤ 40.00%');
+  });
+
+  it('should purify the non-permissible share of dividends and capital gains', () => {
+    const result = screen({ company });
+
+    expect(result.companies[0]).toMatchObject({
+      nonPermissibleIncomeRatio: '4.00%',
+      dividendPurification: 4,
+      capitalGainPurification: 20,
+      totalPurification: 24,
+    });
+    expect(result.totalPurification).toBe(24);
+  });
+
+  it('should leave capital gains unpurified when asked', () => {
+    const result = screen({ company, purifyCapitalGains: false });
+
+    expect(result.companies[0].capitalGainPurification).toBe(0);
+    expect(result.totalPurification).toBe(4);
+  });
+
+  it('should screen CSV holdings with quoted names and prohibited activities', () => {
+    const result = screen({ holdingsCsv });
+
+    expect(result.companiesScreened).toBe(2);
+    expect(result.companies.map((c) => [c.name, c.ticker, c.status])).toEqual([
+      ['Acme, Inc.', 'ACM', 'compliant'],
+      ['Brewco', 'BRW', 'non_compliant'],
+    ]);
+    expect(result.screens[4]).toMatchObject({
+      company: 'Brewco (BRW)',
+      value: 'alcohol, gambling',
+      result: 'fail',
+    });
+    expect(result.totalPurification).toBe(4);
+  });
+
+  it('should name an unknown CSV column', () => {
+    expect(() => screen({ holdingsCsv: 'name,price\nAcme,10' })).toThrow(
+      'Unknown CSV column "price", expected columns:'
+    );
+  });
+
+  it('should require a header row and at least one holding', () => {
+    expect(() => screen({ holdingsCsv: 'name,market_cap' })).toThrow(
+      'holdingsCsv needs a header row and at least one holding'
+    );
+  });
+
+  it('should report the row and field of an invalid holding', () => {
+    expect(() =>
+      screen({
+        holdingsCsv:
+          'name,market_cap,interest_bearing_debt,cash_and_interest_bearing_securities,total_revenue\nAcme,-5,0,0,100',
+      })
+    ).toThrow('CSV holding 1 (Acme): marketCap: Number must be greater than 0');
+  });
+
+  it('should reject a row with more cells than columns', () => {
+    expect(() => screen({ holdingsCsv: 'name\nAcme,ACM' })).toThrow(
+      'CSV holding 1 has more cells than the header has columns'
+    );
+  });
+
+  it('should take either a company or CSV holdings', () => {
+    expect(() => screen({})).toThrow('Provide a company or holdingsCsv to screen');
+    expect(() => screen({ company, holdingsCsv })).toThrow(
+      'Provide either a company or holdingsCsv, not both'
+    );
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { calculateSukuk } from '@/calculators/sukuk';
+import { SukukInputSchema } from '@/schemas/index';
+
+const sukuk = (input: Record<string, unknown>) => calculateSukuk(SukukInputSchema.parse(input));
+
+describe('calculateSukuk', () => {
+  describe('Ijarah sukuk', () => {
+    const ijarah = {
+      sukukType: 'ijarah',
+      issueSize: 1000000,
+      faceValue: 1000,
+      tenorYears: 3,
+      annualRentalRate: 0.05,
+    };
+
+    it('should distribute the same rental per certificate every period', () => {
+      const result = sukuk(ijarah);
+
+      expect(result.certificates).toBe(1000);
+      expect(result.periods).toBe(6);
+      expect(result.schedule).toHaveLength(6);
+      expect(result.schedule[0]).toEqual({
+        period: 1,
+        expectedDistribution: 25000,
+        distribution: 25000,
+        perCertificate: 25,
+      });
+      expect(result.totalDistributions).toBe(150000);
+      expect(result.distributionsPerCertificate).toBe(150);
+    });
+
+    it('should redeem at face value under the purchase undertaking', () => {
+      const result = sukuk(ijarah);
+
+      expect(result.redemptionBasis).toBe('face_value');
+      expect(result.redemptionAmount).toBe(1000000);
+      expect(result.redemptionPerCertificate).toBe(1000);
+      expect(result.totalPerCertificate).toBe(1150);
+    });
+
+    it('should reject profit-sharing inputs', () => {
+      expect(() => sukuk({ ...ijarah, actualProfits: [1, 2, 3, 4, 5, 6] })).toThrow(
+        'actualProfits, holdersProfitRatio and assetValueAtMaturity apply only to Musharakah and Mudharabah sukuk'
+      );
+    });
+  });
+
+  describe('Musharakah sukuk', () => {
+    const musharakah = {
+      sukukType: 'musharakah',
+      issueSize: 100000,
+      faceValue: 100,
+      tenorYears: 1,
+      expectedProfitRate: 0.06,
+    };
+
+    it('should keep profit above the expected distribution in the reserve for a later shortfall', () => {
+      const result = sukuk({ ...musharakah, actualProfits: [5000, 1000] });
+
+      expect(result.schedule.map((p) => p.reserveMovement)).toEqual([2000, -2000]);
+      expect(result.schedule.map((p) => p.reserveBalance)).toEqual([2000, 0]);
+      expect(result.schedule.map((p) => p.perCertificate)).toEqual([3, 3]);
+      expect(result.totalDistributions).toBe(6000);
+      expect(result.redemptionPerCertificate).toBe(100);
+      expect(result.totalPerCertificate).toBe(106);
+    });
+
+    it('should recover a loss from later profit and redeem at the asset value', () => {
+      const result = sukuk({
+        ...musharakah,
+        actualProfits: [-4000, 5000],
+        assetValueAtMaturity: 95000,
+      });
+
+      expect(result.schedule.map((p) => p.lossCarriedForward)).toEqual([4000, 0]);
+      expect(result.schedule.map((p) => p.distribution)).toEqual([0, 1000]);
+      expect(result.distributionsPerCertificate).toBe(1);
+      expect(result.unrecoveredLosses).toBe(0);
+      expect(result.redemptionBasis).toBe('asset_value');
+      expect(result.redemptionAmount).toBe(95000);
+      expect(result.redemptionPerCertificate).toBe(95);
+      expect(result.totalPerCertificate).toBe(96);
+    });
+
+    it('should cut the redemption by losses never recovered', () => {
+      const result = sukuk({ ...musharakah, actualProfits: [-4000, 1000] });
+
+      expect(result.unrecoveredLosses).toBe(3000);
+      expect(result.redemptionAmount).toBe(97000);
+      expect(result.redemptionPerCertificate).toBe(97);
+    });
+
+    it('should require one actual profit per distribution period', () => {
+      expect(() => sukuk({ ...musharakah, actualProfits: [5000] })).toThrow(
+        '1 actual profits given for 2 distribution periods'
+      );
+    });
+  });
+
+  it('should require a whole number of certificates', () => {
+    expect(() =>
+      sukuk({
+        sukukType: 'ijarah',
+        issueSize: 1050,
+        faceValue: 100,
+        tenorYears: 1,
+        annualRentalRate: 0.05,
+      })
+    ).toThrow('Issue size (1050) must be a whole number of certificates of face value 100');
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { calculateTakaful } from '@/calculators/takaful';
+import { TakafulInputSchema } from '@/schemas/index';
+
+const takaful = (input: Record<string, unknown>) =>
+  calculateTakaful(TakafulInputSchema.parse(input));
+
+const fund = {
+  model: 'wakalah',
+  contributions: 100000,
+  wakalahFeeRate: 0.25,
+  claimsPaid: 40000,
+  retakafulContributions: 5000,
+  investmentProfit: 2000,
+  qardOutstanding: 2000,
+  surplusDistributionRatio: 0.5,
+  participants: [
+    { name: 'A', contribution: 50000 },
+    { name: 'B', contribution: 30000, claims: 10000 },
+    { name: 'C', contribution: 20000 },
+  ],
+};
+
+describe('calculateTakaful', () => {
+  it('should pay the operator a Wakalah fee on contributions and no share of the surplus', () => {
+    const result = takaful(fund);
+
+    expect(result.wakalahFee).toBe(25000);
+    expect(result.netContributions).toBe(75000);
+    expect(result.underwritingResult).toBe(30000);
+    expect(result.fundInvestmentShare).toBe(2000);
+    expect(result.fundResult).toBe(32000);
+    expect(result.operatorIncome).toBe(25000);
+  });
+
+  it('should repay the Qard from the surplus before distributing and retaining the rest', () => {
+    const result = takaful(fund);
+
+    expect(result.isDeficit).toBe(false);
+    expect(result.qardRepaid).toBe(2000);
+    expect(result.qardOutstanding).toBe(0);
+    expect(result.surplusDistributed).toBe(15000);
+    expect(result.surplusRetained).toBe(15000);
+    expect(result.closingReserve).toBe(15000);
+  });
+
+  it('should split the distributed surplus pro rata to every participant', () => {
+    const result = takaful(fund);
+
+    expect(result.distribution?.map((p) => p.surplusShare)).toEqual([7500, 4500, 3000]);
+    expect(result.distribution?.every((p) => p.eligible)).toBe(true);
+  });
+
+  it('should split only among participants without claims and reconcile to the minor unit', () => {
+    const result = takaful({ ...fund, distributionMethod: 'non_claimants' });
+
+    expect(result.distribution?.map((p) => p.eligible)).toEqual([true, false, true]);
+    expect(result.distribution?.map((p) => p.surplusShare)).toEqual([10714.29, 0, 4285.71]);
+    expect(result.calculationSteps).toContain(
+      '   B: not eligible (claims of 10000 paid in the period)'
+    );
+  });
+
+  it('should share investment profit with the operator as mudarib under the hybrid model', () => {
+    const result = takaful({
+      ...fund,
+      model: 'hybrid',
+      wakalahFeeRate: 0.2,
+      mudharabahShareRatio: 0.4,
+      investmentProfit: 10000,
+    });
+
+    expect(result.wakalahFee).toBe(20000);
+    expect(result.operatorInvestmentShare).toBe(4000);
+    expect(result.fundInvestmentShare).toBe(6000);
+    expect(result.operatorIncome).toBe(24000);
+  });
+
+  it('should reject a Wakalah fee under the Mudharabah model', () => {
+    expect(() => takaful({ ...fund, model: 'mudharabah', mudharabahShareRatio: 0.4 })).toThrow(
+      'wakalahFeeRate applies only to the wakalah and hybrid models'
+    );
+  });
+
+  it('should require participant contributions to sum to the total', () => {
+    expect(() => takaful({ ...fund, participants: [{ name: 'A', contribution: 90000 }] })).toThrow(
+      'Participant contributions (90000.00) must sum to total contributions (100000.00)'
+    );
+  });
+});
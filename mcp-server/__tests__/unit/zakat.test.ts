@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { calculateZakat } from '@/calculators/zakat';
+import { ZakatInputSchema } from '@/schemas/index';
+
+const zakat = (input: Record<string, unknown>) => calculateZakat(ZakatInputSchema.parse(input));
+
+describe('calculateZakat', () => {
+  it('should charge 2.5% on wealth net of short-term liabilities above the gold nisab', () => {
+    const result = zakat({
+      assets: { cash: 10000, goldGrams: 10 },
+      liabilities: 1000,
+      goldPricePerGram: 100,
+    });
+
+    expect(result.totalAssets).toBe(11000);
+    expect(result.zakatableWealth).toBe(10000);
+    expect(result.nisabThreshold).toBe(8500);
+    expect(result.nisabMet).toBe(true);
+    expect(result.zakatDue).toBe(250);
+  });
+
+  it('should owe nothing below the nisab', () => {
+    const result = zakat({ assets: { cash: 5000 }, goldPricePerGram: 100 });
+
+    expect(result.nisabMet).toBe(false);
+    expect(result.zakatDue).toBe(0);
+  });
+
+  it('should owe nothing before the haul is completed', () => {
+    const result = zakat({ assets: { cash: 10000 }, goldPricePerGram: 100, haulCompleted: false });
+
+    expect(result.nisabMet).toBe(true);
+    expect(result.zakatDue).toBe(0);
+  });
+
+  it('should use 595g of silver for the silver nisab', () => {
+    const result = zakat({ assets: { cash: 5000 }, silverPricePerGram: 1, nisabBasis: 'silver' });
+
+    expect(result.nisabThreshold).toBe(595);
+    expect(result.zakatDue).toBe(125);
+  });
+
+  it('should require the price of the nisab metal', () => {
+    expect(() => zakat({ assets: { cash: 5000 } })).toThrow(
+      'goldPricePerGram is required for the gold nisab'
+    );
+  });
+});
@@ -0,0 +1,133 @@
+import { DiminishingMusharakahInput } from '../schemas/index.js';
+import { formatMinor, fromMinor, minorUnitsFor, toMinor } from '../utils/money.js';
+
+export interface DiminishingMusharakahPeriod {
+  period: number;
+  bankShareStart: number;
+  rent: number;
+  unitPurchase: number;
+  payment: number;
+  bankShareEnd: number;
+  bankOwnership: string;
+  customerOwnership: string;
+}
+
+export interface DiminishingMusharakahResult {
+  type: 'diminishing_musharakah';
+  currency?: string;
+  assetValue: number;
+  bank: { name: string; investment: number; initialOwnership: string };
+  customer: { name: string; investment: number; initialOwnership: string };
+  tenorMonths: number;
+  annualRentalRate: number;
+  unitPurchase: number;
+  totalRent: number;
+  totalPayments: number;
+  schedule: DiminishingMusharakahPeriod[];
+  explanation: string;
+  calculationSteps: string[];
+}
+
+/**
+ * Calculate the buyout schedule of a Diminishing Musharakah (Musharakah Mutanaqisah)
+ *
+ * Islamic Finance Rule:
+ * - Bank and customer co-own the asset in proportion to their capital
+ * - Customer leases the bank's share and pays rent only on the portion the bank still owns
+ * - Customer gradually buys the bank's units; each purchase is a separate sale,
+ *   so ownership (and the rent base) diminishes until the customer owns the asset outright
+ *
+ * @param input - Diminishing Musharakah calculation parameters
+ * @returns Ownership and payment table until full buyout
+ */
+export function calculateDiminishingMusharakah(
+  input: DiminishingMusharakahInput
+): DiminishingMusharakahResult {
+  const steps: string[] = [];
+  const minorUnits = minorUnitsFor(input.currency);
+
+  // Step 1: Establish joint ownership
+  const assetValue = input.bank.investment + input.customer.investment;
+  const bankRatio = input.bank.investment / assetValue;
+  steps.push(
+    `1. Asset Value = ${input.bank.investment} (${input.bank.name}) + ${input.customer.investment} (${input.customer.name}) = ${assetValue}`
+  );
+  steps.push(
+    `2. Initial Ownership: ${input.bank.name} ${(bankRatio * 100).toFixed(2)}%, ${input.customer.name} ${((1 - bankRatio) * 100).toFixed(2)}%`
+  );
+
+  // Step 2: Split the bank's share into equal units (in minor units),
+  // the final unit absorbs any rounding remainder
+  const bankMinor = toMinor(input.bank.investment, minorUnits);
+  const unitMinor = Math.floor(bankMinor / input.tenorMonths);
+  steps.push(
+    `3. Monthly Unit Purchase = ${input.bank.investment} ÷ ${input.tenorMonths} = ${formatMinor(unitMinor, minorUnits)}`
+  );
+  steps.push(
+    `4. Monthly Rent = ${input.bank.name}'s remaining share × ${(input.annualRentalRate * 100).toFixed(2)}% ÷ 12`
+  );
+
+  // Step 3: Build the buyout schedule
+  const schedule: DiminishingMusharakahPeriod[] = [];
+  let bankShareMinor = bankMinor;
+  let totalRentMinor = 0;
+
+  for (let period = 1; period <= input.tenorMonths; period++) {
+    const startMinor = bankShareMinor;
+    const rentMinor = Math.round((startMinor * input.annualRentalRate) / 12);
+    const purchaseMinor = period === input.tenorMonths ? startMinor : unitMinor;
+
+    bankShareMinor -= purchaseMinor;
+    totalRentMinor += rentMinor;
+
+    const bankOwnership = fromMinor(bankShareMinor, minorUnits) / assetValue;
+    schedule.push({
+      period,
+      bankShareStart: fromMinor(startMinor, minorUnits),
+      rent: fromMinor(rentMinor, minorUnits),
+      unitPurchase: fromMinor(purchaseMinor, minorUnits),
+      payment: fromMinor(rentMinor + purchaseMinor, minorUnits),
+      bankShareEnd: fromMinor(bankShareMinor, minorUnits),
+      bankOwnership: (bankOwnership * 100).toFixed(2) + '%',
+      customerOwnership: ((1 - bankOwnership) * 100).toFixed(2) + '%',
+    });
+  }
+
+  const first = schedule[0];
+  steps.push(
+    `5. First Payment = ${first.unitPurchase.toFixed(minorUnits)} (unit) + ${first.rent.toFixed(minorUnits)} (rent on ${first.bankShareStart.toFixed(minorUnits)}) = ${first.payment.toFixed(minorUnits)}`
+  );
+  steps.push(
+    `6. Rent falls each month as ${input.bank.name}'s share diminishes; ${input.customer.name} owns 100% after month ${input.tenorMonths}`
+  );
+
+  const totalPaymentsMinor = bankMinor + totalRentMinor;
+  steps.push(
+    `7. Total Payments = ${input.bank.investment} (units) + ${formatMinor(totalRentMinor, minorUnits)} (rent) = ${formatMinor(totalPaymentsMinor, minorUnits)}`
+  );
+
+  return {
+    type: 'diminishing_musharakah',
+    currency: input.currency,
+    assetValue,
+    bank: {
+      name: input.bank.name,
+      investment: input.bank.investment,
+      initialOwnership: (bankRatio * 100).toFixed(2) + '%',
+    },
+    customer: {
+      name: input.customer.name,
+      investment: input.customer.investment,
+      initialOwnership: ((1 - bankRatio) * 100).toFixed(2) + '%',
+    },
+    tenorMonths: input.tenorMonths,
+    annualRentalRate: input.annualRentalRate,
+    unitPurchase: fromMinor(unitMinor, minorUnits),
+    totalRent: fromMinor(totalRentMinor, minorUnits),
+    totalPayments: fromMinor(totalPaymentsMinor, minorUnits),
+    schedule,
+    explanation:
+      "In Diminishing Musharakah, the bank and customer co-own the asset. The customer pays rent only for using the bank's share and buys the bank's units through separate sales, so the bank's ownership and the rent diminish until the customer owns the asset outright.",
+    calculationSteps: steps,
+  };
+}
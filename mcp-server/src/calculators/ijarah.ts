@@ -0,0 +1,200 @@
+import { IjarahInput } from '../schemas/index.js';
+import { formatMinor, fromMinor, minorUnitsFor, toMinor } from '../utils/money.js';
+
+export interface IjarahRentalPeriod {
+  period: number;
+  annualRate: number;
+  capitalRecovery: number;
+  profitComponent: number;
+  maintenanceComponent: number;
+  rental: number;
+  outstandingCost: number;
+}
+
+export interface IjarahEndOfLease {
+  method: 'return_to_lessor' | 'gift' | 'sale';
+  amount: number;
+  description: string;
+}
+
+export interface IjarahResult {
+  type: 'ijarah';
+  currency?: string;
+  leaseType: IjarahInput['leaseType'];
+  assetCost: number;
+  leaseTermMonths: number;
+  residualValue: number;
+  majorMaintenanceBy: IjarahInput['majorMaintenanceBy'];
+  totalRental: number;
+  lessorProfit: number;
+  schedule: IjarahRentalPeriod[];
+  endOfLease: IjarahEndOfLease;
+  explanation: string;
+  calculationSteps: string[];
+}
+
+/**
+ * Calculate the rental schedule of an Ijarah (lease) contract
+ *
+ * Islamic Finance Rule:
+ * - Lessor retains ownership, so ownership risks and major maintenance stay with the lessor
+ * - Rental is the price of usufruct; it may be reviewed for future periods only if agreed upfront
+ * - Ijarah Muntahia Bittamleek transfers ownership at the end through a separate gift or sale,
+ *   never as a condition embedded in the lease itself
+ *
+ * @param input - Ijarah calculation parameters
+ * @returns Period-by-period rental schedule with end-of-lease handling
+ */
+export function calculateIjarah(input: IjarahInput): IjarahResult {
+  const steps: string[] = [];
+  const minorUnits = minorUnitsFor(input.currency);
+  const isIMBT = input.leaseType === 'muntahia_bittamleek';
+
+  // Step 1: Validate inputs
+  if (input.residualValue >= input.assetCost) {
+    throw new Error(
+      `Residual value (${input.residualValue}) must be less than asset cost (${input.assetCost})`
+    );
+  }
+  if (input.reviewedRates && input.reviewedRates.length > 0 && !input.reviewPeriodMonths) {
+    throw new Error('reviewPeriodMonths is required when reviewedRates are provided');
+  }
+
+  const rates = [input.annualRentalRate, ...(input.reviewedRates ?? [])];
+  const reviewPeriod = input.reviewPeriodMonths ?? input.leaseTermMonths;
+  const reviewCount = Math.ceil(input.leaseTermMonths / reviewPeriod);
+  if (rates.length > reviewCount) {
+    throw new Error(
+      `${rates.length} rental rates given but the lease only has ${reviewCount} review period(s)`
+    );
+  }
+
+  steps.push(
+    `1. Lease Type: ${isIMBT ? 'Ijarah Muntahia Bittamleek (ownership transfers to lessee)' : 'Operating Ijarah (asset returns to lessor)'}`
+  );
+
+  // Step 2: Determine capital to be recovered through rentals
+  const recoverableMinor = toMinor(input.assetCost - input.residualValue, minorUnits);
+  const baseRecoveryMinor = Math.floor(recoverableMinor / input.leaseTermMonths);
+  steps.push(
+    `2. Capital Recovered Through Rentals = ${input.assetCost} - ${input.residualValue} (${isIMBT ? 'transfer price' : 'residual value'}) = ${formatMinor(recoverableMinor, minorUnits)}`
+  );
+  steps.push(
+    `3. Monthly Capital Recovery = ${formatMinor(recoverableMinor, minorUnits)} ÷ ${input.leaseTermMonths} = ${formatMinor(baseRecoveryMinor, minorUnits)}`
+  );
+
+  // Step 3: Rental rate per review period
+  if (input.reviewPeriodMonths) {
+    steps.push(`4. Rental Reviewed Every ${reviewPeriod} Month(s):`);
+    for (let r = 0; r < reviewCount; r++) {
+      const rate = rates[Math.min(r, rates.length - 1)];
+      const from = r * reviewPeriod + 1;
+      const to = Math.min((r + 1) * reviewPeriod, input.leaseTermMonths);
+      steps.push(`   Months ${from}-${to}: ${(rate * 100).toFixed(2)}% p.a. on outstanding cost`);
+    }
+  } else {
+    steps.push(
+      `4. Fixed Rental Rate: ${(input.annualRentalRate * 100).toFixed(2)}% p.a. on outstanding cost`
+    );
+  }
+
+  // Step 4: Major maintenance responsibility
+  const lessorBearsMaintenance = input.majorMaintenanceBy === 'lessor';
+  const monthlyMaintenanceMinor = lessorBearsMaintenance
+    ? Math.round(toMinor(input.annualMaintenanceCost, minorUnits) / 12)
+    : 0;
+  if (lessorBearsMaintenance) {
+    steps.push(
+      `5. Major Maintenance: Borne by lessor as owner${input.annualMaintenanceCost > 0 ? `, recovered through rental at ${input.annualMaintenanceCost} ÷ 12 = ${formatMinor(monthlyMaintenanceMinor, minorUnits)} per month` : ''}`
+    );
+  } else {
+    steps.push(
+      '5. Major Maintenance: Stipulated on lessee - NOT permissible under AAOIFI Shariah Standard 9. ' +
+        'The lessor remains liable as owner; the lessee may only carry it out as agent with costs reimbursed'
+    );
+  }
+
+  // Step 5: Build period-by-period schedule
+  const schedule: IjarahRentalPeriod[] = [];
+  let outstandingMinor = toMinor(input.assetCost, minorUnits);
+  let recoveredMinor = 0;
+  let profitMinor = 0;
+  let rentalMinor = 0;
+
+  for (let period = 1; period <= input.leaseTermMonths; period++) {
+    const annualRate = rates[Math.min(Math.floor((period - 1) / reviewPeriod), rates.length - 1)];
+    const capitalMinor =
+      period === input.leaseTermMonths ? recoverableMinor - recoveredMinor : baseRecoveryMinor;
+    const periodProfitMinor = Math.round((outstandingMinor * annualRate) / 12);
+    const periodRentalMinor = capitalMinor + periodProfitMinor + monthlyMaintenanceMinor;
+
+    outstandingMinor -= capitalMinor;
+    recoveredMinor += capitalMinor;
+    profitMinor += periodProfitMinor;
+    rentalMinor += periodRentalMinor;
+
+    schedule.push({
+      period,
+      annualRate,
+      capitalRecovery: fromMinor(capitalMinor, minorUnits),
+      profitComponent: fromMinor(periodProfitMinor, minorUnits),
+      maintenanceComponent: fromMinor(monthlyMaintenanceMinor, minorUnits),
+      rental: fromMinor(periodRentalMinor, minorUnits),
+      outstandingCost: fromMinor(outstandingMinor, minorUnits),
+    });
+  }
+
+  steps.push(
+    '6. Monthly Rental = Capital Recovery + (Outstanding Cost × Annual Rate ÷ 12) + Maintenance Component'
+  );
+  steps.push(
+    `   First Rental = ${schedule[0].capitalRecovery.toFixed(minorUnits)} + ${schedule[0].profitComponent.toFixed(minorUnits)} + ${schedule[0].maintenanceComponent.toFixed(minorUnits)} = ${schedule[0].rental.toFixed(minorUnits)}`
+  );
+  steps.push(
+    `7. Total Rental Over ${input.leaseTermMonths} Months = ${formatMinor(rentalMinor, minorUnits)}`
+  );
+  steps.push(
+    `8. Lessor Profit (rental above capital and maintenance) = ${formatMinor(profitMinor, minorUnits)}`
+  );
+
+  // Step 6: End-of-lease handling
+  let endOfLease: IjarahEndOfLease;
+  if (!isIMBT) {
+    endOfLease = {
+      method: 'return_to_lessor',
+      amount: input.residualValue,
+      description: `Asset returns to the lessor, who retains its residual value of ${input.residualValue}`,
+    };
+  } else if (input.residualValue === 0) {
+    endOfLease = {
+      method: 'gift',
+      amount: 0,
+      description: 'Ownership transfers to the lessee by gift (hibah) under a separate promise',
+    };
+  } else {
+    endOfLease = {
+      method: 'sale',
+      amount: input.residualValue,
+      description: `Ownership transfers to the lessee by sale at ${input.residualValue} under a separate promise`,
+    };
+  }
+  steps.push(`9. End of Lease: ${endOfLease.description}`);
+
+  return {
+    type: 'ijarah',
+    currency: input.currency,
+    leaseType: input.leaseType,
+    assetCost: input.assetCost,
+    leaseTermMonths: input.leaseTermMonths,
+    residualValue: input.residualValue,
+    majorMaintenanceBy: input.majorMaintenanceBy,
+    totalRental: fromMinor(rentalMinor, minorUnits),
+    lessorProfit: fromMinor(profitMinor, minorUnits),
+    schedule,
+    endOfLease,
+    explanation: isIMBT
+      ? 'In Ijarah Muntahia Bittamleek, the lessor owns the asset and bears ownership risks throughout the lease, while the lessee pays rental for its use. Ownership transfers at the end through a separate gift or sale promise, not as a condition of the lease.'
+      : 'In operating Ijarah, the lessor owns the asset and bears ownership risks and major maintenance, while the lessee pays rental for its use. The asset returns to the lessor at the end of the lease.',
+    calculationSteps: steps,
+  };
+}
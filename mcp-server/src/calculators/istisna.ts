@@ -0,0 +1,187 @@
+import { IstisnaInput } from '../schemas/index.js';
+import {
+  allocateMinor,
+  formatMinor,
+  fromMinor,
+  minorUnitsFor,
+  ratiosSumToOne,
+  reconciliationLine,
+  toMinor,
+} from '../utils/money.js';
+import { buildTimeline, type TimelineEntry, type TimelineEvent } from '../utils/timeline.js';
+
+export interface MilestoneAmount {
+  milestone: string;
+  date: string;
+  ratio: string;
+  amount: number;
+}
+
+export interface IstisnaResult {
+  type: 'istisna';
+  currency?: string;
+  asset: string;
+  contractPrice: number;
+  contractorPrice: number;
+  contractDate: string;
+  deliveryDate: string;
+  contractorDeliveryDate: string;
+  customerPayments: MilestoneAmount[];
+  contractorPayments: MilestoneAmount[];
+  financierProfit: number;
+  profitRate: string;
+  peakFunding: number;
+  timeline: TimelineEntry[];
+  explanation: string;
+  calculationSteps: string[];
+}
+
+/**
+ * Calculate the payment/delivery timeline and financier's profit of an Istisna'
+ * (manufacturing contract) financed through a parallel Istisna'
+ *
+ * Islamic Finance Rule:
+ * - The asset, its specifications, the price and the delivery date are fixed at contract
+ * - Unlike Salam, the price need not be paid upfront: it may be paid in advance, in
+ *   progress payments as work is done, or deferred after delivery
+ * - The financier sells the asset to the customer and commissions it from a contractor in a
+ *   separate parallel Istisna'; it stays liable to the customer whatever the contractor does
+ * - The financier's profit is the difference between the two prices, fixed at contract
+ *
+ * @param input - Istisna' calculation parameters
+ * @returns Customer and contractor payment schedules, timeline and financier's profit
+ */
+export function calculateIstisna(input: IstisnaInput): IstisnaResult {
+  const steps: string[] = [];
+  const minorUnits = minorUnitsFor(input.currency);
+  const format = (minor: number) => formatMinor(minor, minorUnits);
+  const parallel = input.parallelIstisna;
+  const contractorDeliveryDate = parallel.deliveryDate ?? input.deliveryDate;
+
+  // Step 1: Validate dates and payment schedules
+  if (input.deliveryDate <= input.contractDate) {
+    throw new Error(
+      `Delivery date (${input.deliveryDate}) must be after the contract date (${input.contractDate})`
+    );
+  }
+  if (contractorDeliveryDate < input.contractDate || contractorDeliveryDate > input.deliveryDate) {
+    throw new Error(
+      `Contractor delivery (${contractorDeliveryDate}) must fall between the contract date (${input.contractDate}) and delivery to the customer (${input.deliveryDate})`
+    );
+  }
+  validateMilestones('Customer', input.payments, input.contractDate);
+  validateMilestones('Contractor', parallel.payments, input.contractDate);
+
+  // Step 2: Split both prices over their milestones
+  const priceMinor = toMinor(input.contractPrice, minorUnits);
+  const contractorMinor = toMinor(parallel.contractorPrice, minorUnits);
+  const customerMinor = allocateMinor(
+    priceMinor,
+    input.payments.map((p) => p.ratio)
+  );
+  const contractorShares = allocateMinor(
+    contractorMinor,
+    parallel.payments.map((p) => p.ratio)
+  );
+
+  steps.push(`1. Istisna' Price (customer to financier) = ${format(priceMinor)}`);
+  input.payments.forEach((p, i) => {
+    steps.push(
+      `   ${p.date} ${p.milestone}: ${format(priceMinor)} × ${(p.ratio * 100).toFixed(2)}% = ${format(customerMinor[i])}`
+    );
+  });
+  steps.push(`   ${reconciliationLine(customerMinor, priceMinor, minorUnits)}`);
+
+  steps.push(`2. Parallel Istisna' Price (financier to contractor) = ${format(contractorMinor)}`);
+  parallel.payments.forEach((p, i) => {
+    steps.push(
+      `   ${p.date} ${p.milestone}: ${format(contractorMinor)} × ${(p.ratio * 100).toFixed(2)}% = ${format(contractorShares[i])}`
+    );
+  });
+  steps.push(`   ${reconciliationLine(contractorShares, contractorMinor, minorUnits)}`);
+
+  // Step 3: Financier's profit and funding
+  const profitMinor = priceMinor - contractorMinor;
+  const profitRate = ((profitMinor / contractorMinor) * 100).toFixed(2) + '%';
+  steps.push(
+    `3. Financier's Profit = ${format(priceMinor)} - ${format(contractorMinor)} = ${format(profitMinor)} (${profitRate} of the contractor price)`
+  );
+
+  const events: TimelineEvent[] = [
+    ...input.payments.map((p, i) => ({
+      date: p.date,
+      event: `Customer pays financier: ${p.milestone}`,
+      cashFlowMinor: customerMinor[i],
+    })),
+    ...parallel.payments.map((p, i) => ({
+      date: p.date,
+      event: `Financier pays contractor: ${p.milestone}`,
+      cashFlowMinor: -contractorShares[i],
+    })),
+    {
+      date: contractorDeliveryDate,
+      event: `Contractor delivers ${input.asset} to financier`,
+      cashFlowMinor: 0,
+    },
+    {
+      date: input.deliveryDate,
+      event: `Financier delivers ${input.asset} to customer`,
+      cashFlowMinor: 0,
+    },
+  ];
+  const { timeline, peakFundingMinor } = buildTimeline(events, minorUnits);
+  steps.push(
+    peakFundingMinor > 0
+      ? `4. Peak Funding = ${format(peakFundingMinor)} paid to the contractor ahead of the customer's payments`
+      : "4. Peak Funding = 0, the customer's payments cover each contractor payment as it falls due"
+  );
+
+  const toMilestoneAmounts = (
+    payments: IstisnaInput['payments'],
+    amounts: number[]
+  ): MilestoneAmount[] =>
+    payments.map((p, i) => ({
+      milestone: p.milestone,
+      date: p.date,
+      ratio: (p.ratio * 100).toFixed(2) + '%',
+      amount: fromMinor(amounts[i], minorUnits),
+    }));
+
+  return {
+    type: 'istisna',
+    currency: input.currency,
+    asset: input.asset,
+    contractPrice: input.contractPrice,
+    contractorPrice: parallel.contractorPrice,
+    contractDate: input.contractDate,
+    deliveryDate: input.deliveryDate,
+    contractorDeliveryDate,
+    customerPayments: toMilestoneAmounts(input.payments, customerMinor),
+    contractorPayments: toMilestoneAmounts(parallel.payments, contractorShares),
+    financierProfit: fromMinor(profitMinor, minorUnits),
+    profitRate,
+    peakFunding: fromMinor(peakFundingMinor, minorUnits),
+    timeline,
+    explanation:
+      "In Istisna', the financier sells an asset to be built to specification at a price fixed at contract, and has it built by a contractor under a separate parallel Istisna'. Unlike Salam, the price may be paid in progress payments or deferred. The financier remains liable to the customer for delivery whatever the contractor does, and earns the difference between the two prices.",
+    calculationSteps: steps,
+  };
+}
+
+function validateMilestones(
+  party: string,
+  payments: IstisnaInput['payments'],
+  contractDate: string
+): void {
+  if (!ratiosSumToOne(payments.map((p) => p.ratio))) {
+    const sum = payments.reduce((acc, p) => acc + p.ratio, 0);
+    throw new Error(`${party} payment ratios must sum to 1, got ${sum}`);
+  }
+  for (const p of payments) {
+    if (p.date < contractDate) {
+      throw new Error(
+        `${party} payment "${p.milestone}" on ${p.date} is before the contract date (${contractDate})`
+      );
+    }
+  }
+}
@@ -0,0 +1,224 @@
+import { MudharabahPoolInput } from '../schemas/index.js';
+import {
+  allocateMinor,
+  formatMinor,
+  fromMinor,
+  minorUnitsFor,
+  reconciliationLine,
+  toMinor,
+} from '../utils/money.js';
+
+export interface PoolDepositorResult {
+  name: string;
+  amount: number;
+  tenorMonths: number;
+  weightage: number;
+  weightedAmount: number;
+  sharingRatio: string;
+  profit: number;
+  returnRate: string;
+}
+
+export interface MudharabahPoolResult {
+  type: 'mudharabah_pool';
+  totalDeposits: number;
+  grossIncome: number;
+  isLoss: boolean;
+  currency?: string;
+  perAppropriation: number;
+  mudaribShare: number;
+  depositorsShare: number;
+  irrAppropriation: number;
+  distributedProfit: number;
+  depositors: PoolDepositorResult[];
+  explanation: string;
+  calculationSteps: string[];
+}
+
+/**
+ * Calculate profit/loss distribution of a pooled Mudharabah investment account
+ *
+ * Islamic Finance Rule:
+ * - Depositors (Rabb al-Mal) pool capital, the bank acts as Mudarib for the whole pool
+ * - Profit Equalisation Reserve (PER) is appropriated from gross income before the Mudarib share
+ * - Investment Risk Reserve (IRR) is appropriated from the depositors' share after the Mudarib share
+ * - Depositors' profit is shared by weighted amount (deposit × tenor weightage)
+ * - Losses are borne by depositors in proportion to capital; the Mudarib earns nothing
+ *
+ * @param input - Pool calculation parameters
+ * @returns Reserve appropriations and per-depositor profit with step-by-step explanation
+ */
+export function calculateMudharabahPool(input: MudharabahPoolInput): MudharabahPoolResult {
+  const steps: string[] = [];
+  const minorUnits = minorUnitsFor(input.currency);
+
+  // Step 1: Validate weightages
+  const weightageByTenor = new Map<number, number>();
+  for (const w of input.weightages) {
+    if (weightageByTenor.has(w.tenorMonths)) {
+      throw new Error(`Duplicate weightage declared for ${w.tenorMonths}-month tenor`);
+    }
+    weightageByTenor.set(w.tenorMonths, w.weightage);
+  }
+
+  const tiers = [...input.weightages].sort((a, b) => a.tenorMonths - b.tenorMonths);
+  for (let i = 1; i < tiers.length; i++) {
+    if (tiers[i].weightage < tiers[i - 1].weightage) {
+      throw new Error(
+        `Weightage for ${tiers[i].tenorMonths}-month tenor (${tiers[i].weightage}) must not be lower than for ${tiers[i - 1].tenorMonths}-month tenor (${tiers[i - 1].weightage})`
+      );
+    }
+  }
+
+  for (const d of input.depositors) {
+    if (!weightageByTenor.has(d.tenorMonths)) {
+      throw new Error(`No weightage declared for ${d.name}'s ${d.tenorMonths}-month tenor`);
+    }
+  }
+
+  // Step 2: Total deposits and weighted amounts (in minor units)
+  const amountMinor = input.depositors.map((d) => toMinor(d.amount, minorUnits));
+  const totalMinor = amountMinor.reduce((sum, c) => sum + c, 0);
+  const weightedMinor = input.depositors.map((d, i) =>
+    Math.round(amountMinor[i] * weightageByTenor.get(d.tenorMonths)!)
+  );
+  const totalWeightedMinor = weightedMinor.reduce((sum, c) => sum + c, 0);
+
+  steps.push(
+    `1. Total Deposits = ${input.depositors.map((d) => d.amount).join(' + ')} = ${formatMinor(totalMinor, minorUnits)}`
+  );
+  steps.push(
+    `2. Tenor Weightages: ${tiers.map((t) => `${t.tenorMonths}M = ${t.weightage}`).join(', ')}`
+  );
+
+  const grossMinor = toMinor(input.grossIncome, minorUnits);
+  const isLoss = grossMinor < 0;
+
+  if (isLoss) {
+    // Losses follow capital, weightages only apply to profit
+    steps.push(`3. Pool Loss = ${Math.abs(input.grossIncome)}`);
+    steps.push('4. No reserve appropriations or Mudarib share on a loss');
+    steps.push('5. Loss Borne by Depositors in Proportion to Capital:');
+
+    const lossShares = allocateMinor(grossMinor, amountMinor);
+    const depositors = input.depositors.map((d, i) => {
+      steps.push(
+        `   ${d.name}: ${input.grossIncome} × ${((amountMinor[i] / totalMinor) * 100).toFixed(2)}% = ${formatMinor(lossShares[i], minorUnits)}`
+      );
+      return buildDepositor(
+        d,
+        weightageByTenor,
+        weightedMinor[i],
+        amountMinor[i] / totalMinor,
+        lossShares[i],
+        minorUnits
+      );
+    });
+    steps.push(`6. ${reconciliationLine(lossShares, grossMinor, minorUnits)}`);
+
+    return {
+      type: 'mudharabah_pool',
+      totalDeposits: fromMinor(totalMinor, minorUnits),
+      grossIncome: input.grossIncome,
+      isLoss: true,
+      currency: input.currency,
+      perAppropriation: 0,
+      mudaribShare: 0,
+      depositorsShare: fromMinor(grossMinor, minorUnits),
+      irrAppropriation: 0,
+      distributedProfit: fromMinor(grossMinor, minorUnits),
+      depositors,
+      explanation:
+        'In a Mudharabah pool, losses are borne by the depositors (Rabb al-Mal) in proportion to their capital, regardless of tenor weightage. The Mudarib receives no share and loses only its effort. No reserves are appropriated from a loss.',
+      calculationSteps: steps,
+    };
+  }
+
+  // Step 3: Profit Equalisation Reserve from gross income
+  const perMinor = Math.round(grossMinor * input.perRate);
+  const distributableMinor = grossMinor - perMinor;
+  steps.push(
+    `3. PER Appropriation = ${input.grossIncome} × ${(input.perRate * 100).toFixed(2)}% = ${formatMinor(perMinor, minorUnits)}`
+  );
+  steps.push(
+    `   Distributable Profit = ${input.grossIncome} - ${formatMinor(perMinor, minorUnits)} = ${formatMinor(distributableMinor, minorUnits)}`
+  );
+
+  // Step 4: Mudarib share
+  const mudaribMinor = Math.round(distributableMinor * input.mudaribShareRatio);
+  const depositorsShareMinor = distributableMinor - mudaribMinor;
+  steps.push(
+    `4. Mudarib Share = ${formatMinor(distributableMinor, minorUnits)} × ${(input.mudaribShareRatio * 100).toFixed(2)}% = ${formatMinor(mudaribMinor, minorUnits)}`
+  );
+  steps.push(
+    `   Depositors' Share = ${formatMinor(distributableMinor, minorUnits)} - ${formatMinor(mudaribMinor, minorUnits)} = ${formatMinor(depositorsShareMinor, minorUnits)}`
+  );
+
+  // Step 5: Investment Risk Reserve from depositors' share
+  const irrMinor = Math.round(depositorsShareMinor * input.irrRate);
+  const distributedMinor = depositorsShareMinor - irrMinor;
+  steps.push(
+    `5. IRR Appropriation = ${formatMinor(depositorsShareMinor, minorUnits)} × ${(input.irrRate * 100).toFixed(2)}% = ${formatMinor(irrMinor, minorUnits)}`
+  );
+  steps.push(
+    `   Profit Distributed to Depositors = ${formatMinor(depositorsShareMinor, minorUnits)} - ${formatMinor(irrMinor, minorUnits)} = ${formatMinor(distributedMinor, minorUnits)}`
+  );
+
+  // Step 6: Distribute by weighted amount
+  steps.push(
+    `6. Weighted Distribution (total weighted amount ${formatMinor(totalWeightedMinor, minorUnits)}):`
+  );
+  const profitShares = allocateMinor(distributedMinor, weightedMinor);
+  const depositors = input.depositors.map((d, i) => {
+    const ratio = weightedMinor[i] / totalWeightedMinor;
+    steps.push(
+      `   ${d.name}: ${d.amount} × ${weightageByTenor.get(d.tenorMonths)} = ${formatMinor(weightedMinor[i], minorUnits)} → ${(ratio * 100).toFixed(2)}% × ${formatMinor(distributedMinor, minorUnits)} = ${formatMinor(profitShares[i], minorUnits)}`
+    );
+    return buildDepositor(
+      d,
+      weightageByTenor,
+      weightedMinor[i],
+      ratio,
+      profitShares[i],
+      minorUnits
+    );
+  });
+  steps.push(`7. ${reconciliationLine(profitShares, distributedMinor, minorUnits)}`);
+
+  return {
+    type: 'mudharabah_pool',
+    totalDeposits: fromMinor(totalMinor, minorUnits),
+    grossIncome: input.grossIncome,
+    isLoss: false,
+    currency: input.currency,
+    perAppropriation: fromMinor(perMinor, minorUnits),
+    mudaribShare: fromMinor(mudaribMinor, minorUnits),
+    depositorsShare: fromMinor(depositorsShareMinor, minorUnits),
+    irrAppropriation: fromMinor(irrMinor, minorUnits),
+    distributedProfit: fromMinor(distributedMinor, minorUnits),
+    depositors,
+    explanation:
+      "In a Mudharabah pool, the Profit Equalisation Reserve is set aside from gross income before the Mudarib takes its agreed share, and the Investment Risk Reserve is set aside from the depositors' share. The remaining profit is shared among depositors by weighted amount, using tenor weightages declared before the profit period.",
+    calculationSteps: steps,
+  };
+}
+
+function buildDepositor(
+  depositor: MudharabahPoolInput['depositors'][number],
+  weightageByTenor: Map<number, number>,
+  weightedMinor: number,
+  ratio: number,
+  profitMinor: number,
+  minorUnits: number
+): PoolDepositorResult {
+  return {
+    name: depositor.name,
+    amount: depositor.amount,
+    tenorMonths: depositor.tenorMonths,
+    weightage: weightageByTenor.get(depositor.tenorMonths)!,
+    weightedAmount: fromMinor(weightedMinor, minorUnits),
+    sharingRatio: (ratio * 100).toFixed(2) + '%',
+    profit: fromMinor(profitMinor, minorUnits),
+    returnRate: ((fromMinor(profitMinor, minorUnits) / depositor.amount) * 100).toFixed(2) + '%',
+  };
+}
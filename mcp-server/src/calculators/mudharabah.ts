@@ -1,23 +1,38 @@
 import { MudharabahInput } from '../schemas/index.js';
+import {
+  allocateMinor,
+  formatMinor,
+  fromMinor,
+  minorUnitsFor,
+  ratiosSumToOne,
+  reconciliationLine,
+  toMinor,
+} from '../utils/money.js';
+
+export interface MudharabahPartyShare {
+  ratio?: string;
+  share: string;
+  shareAmount: number;
+  explanation?: string;
+}
 
 export interface MudharabahDistribution {
-  capitalProvider: {
-    ratio?: string;
-    share: string;
-    explanation?: string;
-  };
-  entrepreneur: {
-    ratio?: string;
-    share: string;
-    explanation?: string;
-  };
+  capitalProvider: MudharabahPartyShare;
+  entrepreneur: MudharabahPartyShare;
 }
 
 export interface MudharabahResult {
   type: 'mudharabah';
   capitalAmount: number;
+  grossRevenue?: number;
+  expenses?: number;
   profit: number;
   isLoss: boolean;
+  currency?: string;
+  mudaribNegligence?: boolean;
+  priorLossRecovered?: number;
+  unrecoveredLosses?: number;
+  distributableProfit?: number;
   distribution: MudharabahDistribution;
   explanation: string;
   calculationSteps: string[];
@@ -29,86 +44,210 @@ export interface MudharabahResult {
  * Islamic Finance Rule:
  * - Capital Provider (Rabb al-Mal): Provides capital, bears all financial losses
  * - Entrepreneur (Mudarib): Provides labor/expertise, loses time/effort in case of loss
- * - Profits: Shared according to pre-agreed ratio
- * - Losses: Borne entirely by capital provider (entrepreneur receives nothing)
+ * - Profits: Shared according to pre-agreed ratio, only after allowable expenses are
+ *   deducted and capital impaired by prior losses is restored
+ * - Losses: Borne entirely by capital provider (entrepreneur receives nothing),
+ *   unless caused by the Mudarib's negligence or misconduct (ta'addi/taqsir)
  *
  * @param input - Mudharabah calculation parameters
  * @returns Detailed distribution with step-by-step explanation
  */
 export function calculateMudharabah(input: MudharabahInput): MudharabahResult {
   const steps: string[] = [];
+  const minorUnits = minorUnitsFor(input.currency);
+  let step = 1;
 
   // Step 1: Record capital amount
-  steps.push(`1. Capital Amount = ${input.capitalAmount}`);
+  steps.push(`${step++}. Capital Amount = ${input.capitalAmount}`);
+
+  // Step 2: Determine net result from either net profit or gross revenue less expenses
+  if (input.profit === undefined && input.grossRevenue === undefined) {
+    throw new Error('Provide either profit or grossRevenue');
+  }
+  if (input.profit !== undefined && input.grossRevenue !== undefined) {
+    throw new Error('Provide either profit or grossRevenue, not both');
+  }
+
+  let netMinor: number;
+  if (input.grossRevenue !== undefined) {
+    netMinor = toMinor(input.grossRevenue, minorUnits) - toMinor(input.expenses, minorUnits);
+    steps.push(
+      `${step++}. Net Result = ${input.grossRevenue} (gross revenue) - ${input.expenses} (allowable operating expenses) = ${formatMinor(netMinor, minorUnits)}`
+    );
+  } else {
+    netMinor = toMinor(input.profit ?? 0, minorUnits);
+  }
+  const netResult = fromMinor(netMinor, minorUnits);
 
-  // Step 2: Determine if profit or loss
-  const isLoss = input.profit < 0;
+  const isLoss = netMinor < 0;
   const profitOrLossType = isLoss ? 'Loss' : 'Profit';
-  steps.push(`2. ${profitOrLossType} Amount = ${Math.abs(input.profit)}`);
+  steps.push(`${step++}. ${profitOrLossType} Amount = ${Math.abs(netResult)}`);
 
   // Step 3: Validate ratios sum to 1
-  const ratioSum = input.capitalProviderRatio + input.entrepreneurRatio;
-  if (Math.abs(ratioSum - 1) > 0.0001) {
+  if (!ratiosSumToOne([input.capitalProviderRatio, input.entrepreneurRatio])) {
+    const ratioSum = input.capitalProviderRatio + input.entrepreneurRatio;
     throw new Error(
       `Capital provider ratio (${input.capitalProviderRatio}) + Entrepreneur ratio (${input.entrepreneurRatio}) must equal 1, got ${ratioSum}`
     );
   }
 
+  const revenueFields = input.grossRevenue !== undefined && {
+    grossRevenue: input.grossRevenue,
+    expenses: input.expenses,
+  };
+  const priorLossMinor = toMinor(input.priorLosses, minorUnits);
+
   if (isLoss) {
-    steps.push('3. Loss Distribution Rule: Capital provider (Rabb al-Mal) bears all losses');
-    steps.push(`   Capital Provider (Rabb al-Mal) Loss: ${input.profit}`);
-    steps.push('   Entrepreneur (Mudarib) Share: 0 (loses time/effort only)');
+    let distribution: MudharabahDistribution;
+    let explanation: string;
 
-    return {
-      type: 'mudharabah',
-      capitalAmount: input.capitalAmount,
-      profit: input.profit,
-      isLoss: true,
-      distribution: {
+    if (input.mudaribNegligence) {
+      steps.push(
+        `${step++}. Loss Distribution Rule: Mudarib negligence or misconduct (ta'addi/taqsir) - the Mudarib is liable for the loss`
+      );
+      steps.push('   Capital Provider (Rabb al-Mal) Loss: 0 (capital made whole by the Mudarib)');
+      steps.push(`   Entrepreneur (Mudarib) Loss: ${formatMinor(netMinor, minorUnits)}`);
+
+      distribution = {
+        capitalProvider: {
+          share: '0',
+          shareAmount: 0,
+          explanation: "Capital is made whole by the Mudarib due to the Mudarib's negligence",
+        },
+        entrepreneur: {
+          share: formatMinor(netMinor, minorUnits),
+          shareAmount: netResult,
+          explanation: "Liable for the loss caused by negligence or misconduct (ta'addi/taqsir)",
+        },
+      };
+      explanation =
+        "In Mudharabah, the Mudarib is a trustee (amin) and normally bears no financial loss. However, when a loss results from the Mudarib's negligence or misconduct (ta'addi/taqsir), the Mudarib becomes liable and must make the capital provider whole.";
+    } else {
+      steps.push(
+        `${step++}. Loss Distribution Rule: Capital provider (Rabb al-Mal) bears all losses`
+      );
+      steps.push(`   Capital Provider (Rabb al-Mal) Loss: ${netResult}`);
+      steps.push('   Entrepreneur (Mudarib) Share: 0 (loses time/effort only)');
+
+      distribution = {
         capitalProvider: {
-          share: input.profit.toFixed(2),
+          share: formatMinor(netMinor, minorUnits),
+          shareAmount: netResult,
           explanation: 'Bears all financial losses (Shariah requirement)',
         },
         entrepreneur: {
           share: '0',
+          shareAmount: 0,
           explanation: 'Receives nothing, loses time and effort invested',
         },
-      },
-      explanation:
-        'In Mudharabah, the capital provider (Rabb al-Mal) bears all financial losses as per Shariah. The entrepreneur (Mudarib) receives nothing but loses their time and effort.',
+      };
+      explanation =
+        'In Mudharabah, the capital provider (Rabb al-Mal) bears all financial losses as per Shariah. The entrepreneur (Mudarib) receives nothing but loses their time and effort.';
+    }
+
+    const lossShares = [
+      toMinor(distribution.capitalProvider.shareAmount, minorUnits),
+      toMinor(distribution.entrepreneur.shareAmount, minorUnits),
+    ];
+    steps.push(`${step++}. ${reconciliationLine(lossShares, netMinor, minorUnits)}`);
+
+    // Losses not compensated by the Mudarib impair capital and must be recovered from future profit
+    const unrecoveredMinor = priorLossMinor + (input.mudaribNegligence ? 0 : -netMinor);
+    if (priorLossMinor > 0) {
+      steps.push(
+        `${step++}. Unrecovered Losses Carried Forward = ${input.priorLosses} (prior) + ${input.mudaribNegligence ? 0 : Math.abs(netResult)} (current) = ${formatMinor(unrecoveredMinor, minorUnits)}`
+      );
+    }
+
+    return {
+      type: 'mudharabah',
+      capitalAmount: input.capitalAmount,
+      ...revenueFields,
+      profit: netResult,
+      isLoss: true,
+      currency: input.currency,
+      ...(input.mudaribNegligence && { mudaribNegligence: true }),
+      ...(priorLossMinor > 0 && { unrecoveredLosses: fromMinor(unrecoveredMinor, minorUnits) }),
+      distribution,
+      explanation,
       calculationSteps: steps,
     };
   }
 
-  // Step 3: Calculate profit distribution
-  const capitalProviderShare = input.profit * input.capitalProviderRatio;
-  const entrepreneurShare = input.profit * input.entrepreneurRatio;
+  // Step 4: Recover prior-period losses before any profit is shared
+  let distributableMinor = netMinor;
+  let recoveredMinor = 0;
+  if (priorLossMinor > 0) {
+    recoveredMinor = Math.min(netMinor, priorLossMinor);
+    distributableMinor = netMinor - recoveredMinor;
+    steps.push(
+      `${step++}. Loss Recovery Rule: Profit first restores capital impaired by prior losses (no profit before capital is made whole)`
+    );
+    steps.push(
+      `   Prior Losses Recovered = min(${netResult}, ${input.priorLosses}) = ${formatMinor(recoveredMinor, minorUnits)}`
+    );
+    steps.push(
+      `   Distributable Profit = ${netResult} - ${formatMinor(recoveredMinor, minorUnits)} = ${formatMinor(distributableMinor, minorUnits)}`
+    );
+    if (priorLossMinor > recoveredMinor) {
+      steps.push(
+        `   Unrecovered Losses Carried Forward = ${formatMinor(priorLossMinor - recoveredMinor, minorUnits)}`
+      );
+    }
+  }
+
+  // Step 5: Calculate profit distribution
+  const distributableProfit = fromMinor(distributableMinor, minorUnits);
+  const [capitalProviderMinor, entrepreneurMinor] = allocateMinor(distributableMinor, [
+    input.capitalProviderRatio,
+    input.entrepreneurRatio,
+  ]);
 
-  steps.push(`3. Profit Distribution:`);
+  steps.push(`${step++}. Profit Distribution:`);
+  steps.push(
+    `   Capital Provider (Rabb al-Mal): ${distributableProfit} × ${(input.capitalProviderRatio * 100).toFixed(0)}% = ${formatMinor(capitalProviderMinor, minorUnits)}`
+  );
   steps.push(
-    `   Capital Provider (Rabb al-Mal): ${input.profit} × ${(input.capitalProviderRatio * 100).toFixed(0)}% = ${capitalProviderShare.toFixed(2)}`
+    `   Entrepreneur (Mudarib): ${distributableProfit} × ${(input.entrepreneurRatio * 100).toFixed(0)}% = ${formatMinor(entrepreneurMinor, minorUnits)}`
   );
   steps.push(
-    `   Entrepreneur (Mudarib): ${input.profit} × ${(input.entrepreneurRatio * 100).toFixed(0)}% = ${entrepreneurShare.toFixed(2)}`
+    `${step++}. ${reconciliationLine([capitalProviderMinor, entrepreneurMinor], distributableMinor, minorUnits)}`
   );
+  if (input.mudaribNegligence) {
+    steps.push(
+      `${step++}. Negligence Rule: Mudarib liability for ta'addi/taqsir applies only to losses; profit is still shared by the agreed ratio`
+    );
+  }
 
   return {
     type: 'mudharabah',
     capitalAmount: input.capitalAmount,
-    profit: input.profit,
+    ...revenueFields,
+    profit: netResult,
     isLoss: false,
+    currency: input.currency,
+    ...(input.mudaribNegligence && { mudaribNegligence: true }),
+    ...(priorLossMinor > 0 && {
+      priorLossRecovered: fromMinor(recoveredMinor, minorUnits),
+      unrecoveredLosses: fromMinor(priorLossMinor - recoveredMinor, minorUnits),
+      distributableProfit,
+    }),
     distribution: {
       capitalProvider: {
         ratio: (input.capitalProviderRatio * 100).toFixed(0) + '%',
-        share: capitalProviderShare.toFixed(2),
+        share: formatMinor(capitalProviderMinor, minorUnits),
+        shareAmount: fromMinor(capitalProviderMinor, minorUnits),
       },
       entrepreneur: {
         ratio: (input.entrepreneurRatio * 100).toFixed(0) + '%',
-        share: entrepreneurShare.toFixed(2),
+        share: formatMinor(entrepreneurMinor, minorUnits),
+        shareAmount: fromMinor(entrepreneurMinor, minorUnits),
       },
     },
     explanation:
-      'In Mudharabah, profits are distributed according to the pre-agreed ratio between the capital provider (Rabb al-Mal) and the entrepreneur (Mudarib).',
+      priorLossMinor > 0
+        ? 'In Mudharabah, profit is only recognised once capital impaired by earlier losses has been restored. The remaining profit is distributed according to the pre-agreed ratio between the capital provider (Rabb al-Mal) and the entrepreneur (Mudarib).'
+        : 'In Mudharabah, profits are distributed according to the pre-agreed ratio between the capital provider (Rabb al-Mal) and the entrepreneur (Mudarib).',
     calculationSteps: steps,
   };
 }
@@ -0,0 +1,114 @@
+import { MurabahaInput } from '../schemas/index.js';
+import { formatMinor, fromMinor, minorUnitsFor, roundMoney, toMinor } from '../utils/money.js';
+
+export interface MurabahaInstallment {
+  installment: number;
+  payment: number;
+  remainingBalance: number;
+}
+
+export interface MurabahaResult {
+  type: 'murabaha';
+  currency?: string;
+  costPrice: number;
+  markupRate: number;
+  markupAmount: number;
+  sellingPrice: number;
+  downPayment: number;
+  financedAmount: number;
+  tenorMonths: number;
+  installmentAmount: number;
+  schedule: MurabahaInstallment[];
+  explanation: string;
+  calculationSteps: string[];
+}
+
+/**
+ * Calculate the selling price and installment schedule of a Murabaha (cost-plus sale)
+ *
+ * Islamic Finance Rule:
+ * - The seller must own the asset and disclose its cost price and the agreed markup
+ * - The selling price is fixed at contract time and becomes a debt on the buyer
+ * - The price cannot increase for late payment or longer tenor once agreed (no riba)
+ *
+ * @param input - Murabaha calculation parameters
+ * @returns Selling price, installment schedule and step-by-step explanation
+ */
+export function calculateMurabaha(input: MurabahaInput): MurabahaResult {
+  const steps: string[] = [];
+  const minorUnits = minorUnitsFor(input.currency);
+
+  // Step 1: Record cost price
+  steps.push(`1. Cost Price = ${input.costPrice}`);
+
+  // Step 2: Calculate markup and fixed selling price
+  const markupAmount = roundMoney(input.costPrice * input.markupRate, minorUnits);
+  const sellingPrice = roundMoney(input.costPrice + markupAmount, minorUnits);
+  steps.push(
+    `2. Markup = ${input.costPrice} × ${(input.markupRate * 100).toFixed(2)}% = ${markupAmount.toFixed(minorUnits)}`
+  );
+  steps.push(
+    `3. Selling Price = ${input.costPrice} + ${markupAmount.toFixed(minorUnits)} = ${sellingPrice.toFixed(minorUnits)} (fixed for the whole tenor)`
+  );
+
+  // Step 3: Validate down payment
+  if (input.downPayment >= sellingPrice) {
+    throw new Error(
+      `Down payment (${input.downPayment}) must be less than the selling price (${sellingPrice.toFixed(minorUnits)})`
+    );
+  }
+
+  const financedAmount = roundMoney(sellingPrice - input.downPayment, minorUnits);
+  steps.push(
+    `4. Deferred Balance = ${sellingPrice.toFixed(minorUnits)} - ${input.downPayment} (down payment) = ${financedAmount.toFixed(minorUnits)}`
+  );
+
+  // Step 4: Split deferred balance into equal installments in minor units,
+  // the final installment absorbs any rounding remainder
+  const financedMinor = toMinor(financedAmount, minorUnits);
+  const baseMinor = Math.floor(financedMinor / input.tenorMonths);
+  const lastMinor = financedMinor - baseMinor * (input.tenorMonths - 1);
+  const installmentAmount = fromMinor(baseMinor, minorUnits);
+
+  steps.push(
+    `5. Monthly Installment = ${financedAmount.toFixed(minorUnits)} ÷ ${input.tenorMonths} = ${installmentAmount.toFixed(minorUnits)}`
+  );
+  if (lastMinor !== baseMinor) {
+    steps.push(
+      `   Final installment adjusted to ${formatMinor(lastMinor, minorUnits)} so installments sum exactly to the deferred balance`
+    );
+  }
+
+  const schedule: MurabahaInstallment[] = [];
+  let remainingMinor = financedMinor;
+  for (let i = 1; i <= input.tenorMonths; i++) {
+    const paymentMinor = i === input.tenorMonths ? lastMinor : baseMinor;
+    remainingMinor -= paymentMinor;
+    schedule.push({
+      installment: i,
+      payment: fromMinor(paymentMinor, minorUnits),
+      remainingBalance: fromMinor(remainingMinor, minorUnits),
+    });
+  }
+
+  steps.push(
+    `6. Total Paid by Customer = ${input.downPayment} + ${financedAmount.toFixed(minorUnits)} = ${sellingPrice.toFixed(minorUnits)}`
+  );
+
+  return {
+    type: 'murabaha',
+    currency: input.currency,
+    costPrice: input.costPrice,
+    markupRate: input.markupRate,
+    markupAmount,
+    sellingPrice,
+    downPayment: input.downPayment,
+    financedAmount,
+    tenorMonths: input.tenorMonths,
+    installmentAmount,
+    schedule,
+    explanation:
+      'In Murabaha, the seller discloses the cost price and agreed markup, and the selling price is fixed at contract time. The markup is profit on a sale, not interest on a loan, so the price cannot be increased for late payment or a longer tenor.',
+    calculationSteps: steps,
+  };
+}
@@ -1,10 +1,21 @@
 import { MusharakahInput } from '../schemas/index.js';
+import {
+  allocateMinor,
+  formatMinor,
+  fromMinor,
+  minorUnitsFor,
+  ratiosSumToOne,
+  reconciliationLine,
+  toMinor,
+} from '../utils/money.js';
 
 export interface MusharakahPartnerResult {
   partner: string;
   investment: number;
+  weightedCapital?: number;
   capitalRatio: string;
   share: string;
+  shareAmount: number;
 }
 
 export interface MusharakahResult {
@@ -12,34 +23,42 @@ export interface MusharakahResult {
   totalInvestment: number;
   totalProfit: number;
   isLoss: boolean;
+  currency?: string;
+  weighting?: MusharakahInput['weighting'];
   distribution: MusharakahPartnerResult[];
   explanation: string;
   calculationSteps: string[];
 }
 
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
 /**
  * Calculate profit/loss distribution in a Musharakah (partnership) contract
  *
  * Islamic Finance Rule:
  * - Profits: Distributed according to agreed ratio (or capital ratio if not specified)
  * - Losses: MUST be distributed according to capital ratio (Shariah requirement)
+ * - When partners inject or withdraw capital mid-period, the capital ratio is
+ *   time-weighted by how long each amount was at risk in the venture
  *
  * @param input - Musharakah calculation parameters
  * @returns Detailed distribution with step-by-step explanation
  */
 export function calculateMusharakah(input: MusharakahInput): MusharakahResult {
   const steps: string[] = [];
+  const minorUnits = minorUnitsFor(input.currency);
+  let step = 1;
 
   // Step 1: Calculate total investment
   const totalInvestment = input.partners.reduce((sum, p) => sum + p.investment, 0);
   steps.push(
-    `1. Total Investment = ${input.partners.map((p) => p.investment).join(' + ')} = ${totalInvestment}`
+    `${step++}. Total Investment = ${input.partners.map((p) => p.investment).join(' + ')} = ${totalInvestment}`
   );
 
   // Step 2: Determine if profit or loss
   const isLoss = input.totalProfit < 0;
   const profitOrLossType = isLoss ? 'Loss' : 'Profit';
-  steps.push(`2. ${profitOrLossType} Amount = ${Math.abs(input.totalProfit)}`);
+  steps.push(`${step++}. ${profitOrLossType} Amount = ${Math.abs(input.totalProfit)}`);
 
   // Step 3: Validate profit ratio if provided
   if (input.profitRatio && input.profitRatio.length > 0) {
@@ -48,58 +67,172 @@ export function calculateMusharakah(input: MusharakahInput): MusharakahResult {
         `Profit ratio array length (${input.profitRatio.length}) must match number of partners (${input.partners.length})`
       );
     }
-    const ratioSum = input.profitRatio.reduce((sum, r) => sum + r, 0);
-    if (Math.abs(ratioSum - 1) > 0.0001) {
+    if (!ratiosSumToOne(input.profitRatio)) {
+      const ratioSum = input.profitRatio.reduce((sum, r) => sum + r, 0);
       throw new Error(`Profit ratios must sum to 1, got ${ratioSum}`);
     }
   }
 
-  // Step 4: Calculate each partner's share
+  // Step 4: Time-weight capital if any partner moved capital mid-period
+  const hasMovements = input.partners.some((p) => p.capitalMovements?.length);
+  let capitalWeights = input.partners.map((p) => p.investment);
+
+  if (hasMovements) {
+    const weighting = calculateTimeWeightedCapital(input);
+    capitalWeights = weighting.weights;
+    steps.push(`${step++}. ${weighting.header}`);
+    steps.push(...weighting.lines.map((line) => `   ${line}`));
+  }
+
+  const totalWeight = capitalWeights.reduce((sum, w) => sum + w, 0);
+  const capitalLabel = hasMovements ? 'Time-Weighted Capital Ratio' : 'Capital Ratio';
+
+  // Step 5: Calculate each partner's share
   steps.push(
-    `3. Distribution Method: ${isLoss ? 'Capital Ratio (Shariah requirement for losses)' : input.profitRatio ? 'Custom Profit Ratio' : 'Capital Ratio'}`
+    `${step++}. Distribution Method: ${isLoss ? `${capitalLabel} (Shariah requirement for losses)` : input.profitRatio ? 'Custom Profit Ratio' : capitalLabel}`
   );
 
+  // Losses always follow capital; profits follow the agreed ratio when given
+  const profitRatio =
+    !isLoss && input.profitRatio?.length === input.partners.length ? input.profitRatio : undefined;
+  const totalMinor = toMinor(input.totalProfit, minorUnits);
+  const shareMinor = allocateMinor(totalMinor, profitRatio ?? capitalWeights);
+
   const results = input.partners.map((partner, index) => {
-    const capitalRatio = partner.investment / totalInvestment;
-
-    let share: number;
-    let shareCalculation: string;
-
-    if (isLoss) {
-      // For losses, always use capital ratio (Shariah requirement)
-      share = input.totalProfit * capitalRatio;
-      shareCalculation = `${partner.name}: ${input.totalProfit} × ${(capitalRatio * 100).toFixed(2)}% = ${share.toFixed(2)}`;
-    } else if (input.profitRatio && input.profitRatio.length === input.partners.length) {
-      // For profits with custom ratio
-      share = input.totalProfit * input.profitRatio[index];
-      shareCalculation = `${partner.name}: ${input.totalProfit} × ${(input.profitRatio[index] * 100).toFixed(2)}% = ${share.toFixed(2)}`;
-    } else {
-      // For profits without custom ratio, use capital ratio
-      share = input.totalProfit * capitalRatio;
-      shareCalculation = `${partner.name}: ${input.totalProfit} × ${(capitalRatio * 100).toFixed(2)}% = ${share.toFixed(2)}`;
-    }
+    const capitalRatio = capitalWeights[index] / totalWeight;
+    const appliedRatio = profitRatio ? profitRatio[index] : capitalRatio;
 
-    steps.push(`   ${shareCalculation}`);
+    steps.push(
+      `   ${partner.name}: ${input.totalProfit} × ${(appliedRatio * 100).toFixed(2)}% = ${formatMinor(shareMinor[index], minorUnits)}`
+    );
 
     return {
       partner: partner.name,
       investment: partner.investment,
+      ...(hasMovements && { weightedCapital: capitalWeights[index] }),
       capitalRatio: (capitalRatio * 100).toFixed(2) + '%',
-      share: share.toFixed(2),
+      share: formatMinor(shareMinor[index], minorUnits),
+      shareAmount: fromMinor(shareMinor[index], minorUnits),
     };
   });
 
+  // Shares are rounded with the largest-remainder method so they always add back up
+  steps.push(`${step++}. ${reconciliationLine(shareMinor, totalMinor, minorUnits)}`);
+
   return {
     type: 'musharakah',
     totalInvestment,
     totalProfit: input.totalProfit,
     isLoss,
+    currency: input.currency,
+    ...(hasMovements && { weighting: input.weighting }),
     distribution: results,
     explanation: isLoss
-      ? 'In Musharakah, losses MUST be distributed according to capital ratio (Shariah requirement). Each partner bears losses proportional to their investment.'
+      ? `In Musharakah, losses MUST be distributed according to capital ratio (Shariah requirement). Each partner bears losses proportional to their ${hasMovements ? 'time-weighted capital, i.e. how much capital they had at risk and for how long' : 'investment'}.`
       : input.profitRatio
         ? 'Profits distributed according to the agreed custom ratio between partners.'
-        : 'Profits distributed according to capital ratio (proportional to investment).',
+        : `Profits distributed according to capital ratio (proportional to ${hasMovements ? 'time-weighted capital' : 'investment'}).`,
     calculationSteps: steps,
   };
 }
+
+/**
+ * Weight each partner's capital by the time it was invested during the period.
+ *
+ * Daily weighting counts calendar days from the movement date to the period end (inclusive).
+ * Monthly weighting counts whole calendar months; a movement takes effect from the
+ * start of its month if made on the 1st, otherwise from the following month.
+ */
+function calculateTimeWeightedCapital(input: MusharakahInput): {
+  weights: number[];
+  header: string;
+  lines: string[];
+} {
+  if (!input.periodStart || !input.periodEnd) {
+    throw new Error('periodStart and periodEnd are required when capital movements are provided');
+  }
+
+  const start = parseDate(input.periodStart);
+  const end = parseDate(input.periodEnd);
+  if (end < start) {
+    throw new Error(
+      `periodEnd (${input.periodEnd}) must not be before periodStart (${input.periodStart})`
+    );
+  }
+
+  const isMonthly = input.weighting === 'monthly';
+  const unit = isMonthly ? 'months' : 'days';
+  const periodUnits = isMonthly
+    ? monthIndex(end) - monthIndex(start) + 1
+    : daysBetween(start, end) + 1;
+  const unitsFrom = (date: Date): number => {
+    if (date.getTime() === start.getTime()) return periodUnits;
+    return isMonthly ? monthsRemaining(date, end) : daysBetween(date, end) + 1;
+  };
+
+  const lines: string[] = [];
+  const weights = input.partners.map((partner) => {
+    let balance = partner.investment;
+    let weight = partner.investment * periodUnits;
+    const terms = [`${partner.investment} × ${periodUnits} ${unit}`];
+
+    const movements = [...(partner.capitalMovements ?? [])].sort((a, b) =>
+      a.date.localeCompare(b.date)
+    );
+    for (const movement of movements) {
+      const date = parseDate(movement.date);
+      if (date < start || date > end) {
+        throw new Error(
+          `${partner.name}'s capital movement on ${movement.date} is outside the period ${input.periodStart} to ${input.periodEnd}`
+        );
+      }
+
+      balance += movement.amount;
+      if (balance < 0) {
+        throw new Error(
+          `${partner.name}'s withdrawal on ${movement.date} exceeds their capital balance`
+        );
+      }
+
+      const units = unitsFrom(date);
+      weight += movement.amount * units;
+      terms.push(
+        `${movement.amount < 0 ? '-' : '+'} ${Math.abs(movement.amount)} × ${units} ${unit} (${movement.date})`
+      );
+    }
+
+    lines.push(`${partner.name}: ${terms.join(' ')} = ${weight} capital-${unit}`);
+    return weight;
+  });
+
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  lines.push(`Total = ${totalWeight} capital-${unit}`);
+  input.partners.forEach((partner, index) => {
+    lines.push(
+      `${partner.name} Weighted Ratio = ${weights[index]} ÷ ${totalWeight} = ${((weights[index] / totalWeight) * 100).toFixed(2)}%`
+    );
+  });
+
+  return {
+    weights,
+    header: `Time-Weighted Capital (${input.weighting}, ${input.periodStart} to ${input.periodEnd}, ${periodUnits} ${unit}):`,
+    lines,
+  };
+}
+
+function parseDate(value: string): Date {
+  return new Date(`${value}T00:00:00Z`);
+}
+
+function daysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / MS_PER_DAY);
+}
+
+function monthIndex(date: Date): number {
+  return date.getUTCFullYear() * 12 + date.getUTCMonth();
+}
+
+function monthsRemaining(from: Date, end: Date): number {
+  const effectiveMonth = monthIndex(from) + (from.getUTCDate() === 1 ? 0 : 1);
+  return Math.max(0, monthIndex(end) - effectiveMonth + 1);
+}
@@ -0,0 +1,112 @@
+import { QardHasanInput } from '../schemas/index.js';
+import { formatMinor, fromMinor, minorUnitsFor, toMinor } from '../utils/money.js';
+
+export interface QardHasanInstallment {
+  installment: number;
+  month: number;
+  payment: number;
+  remainingBalance: number;
+}
+
+export interface QardHasanResult {
+  type: 'qard_hasan';
+  currency?: string;
+  principal: number;
+  tenorMonths: number;
+  gracePeriodMonths: number;
+  installmentAmount: number;
+  totalRepayment: number;
+  adminFee: number;
+  adminFeeDescription?: string;
+  totalPaidByBorrower: number;
+  schedule: QardHasanInstallment[];
+  explanation: string;
+  calculationSteps: string[];
+}
+
+/**
+ * Calculate the repayment schedule of a Qard al-Hasan (benevolent loan)
+ *
+ * Islamic Finance Rule:
+ * - The borrower repays exactly the principal; any stipulated increase is riba
+ * - A grace period or longer tenor costs the borrower nothing
+ * - Only the actual cost of administering the loan may be recovered, as a fixed fee
+ *   declared separately; a fee that grows with the amount lent or the time it is
+ *   outstanding is a disguised return on the loan and therefore riba
+ *
+ * @param input - Qard al-Hasan calculation parameters
+ * @returns Principal-only repayment schedule and administration fee
+ */
+export function calculateQardHasan(input: QardHasanInput): QardHasanResult {
+  const steps: string[] = [];
+  const minorUnits = minorUnitsFor(input.currency);
+  const format = (minor: number) => formatMinor(minor, minorUnits);
+  const principalMinor = toMinor(input.principal, minorUnits);
+
+  // Step 1: Administration fee, already checked by the schema to be a one-time
+  // fixed amount unrelated to the principal or tenor
+  const fee = input.adminFee;
+  const feeMinor = fee?.amount === undefined ? 0 : toMinor(fee.amount, minorUnits);
+
+  // Step 2: Principal, the only amount the borrower owes
+  steps.push(`1. Principal = ${format(principalMinor)}, repaid at face value with no increase`);
+
+  // Step 3: Split the principal into equal installments in minor units,
+  // the final installment absorbs any rounding remainder
+  const baseMinor = Math.floor(principalMinor / input.tenorMonths);
+  const lastMinor = principalMinor - baseMinor * (input.tenorMonths - 1);
+  steps.push(
+    `2. Monthly Installment = ${format(principalMinor)} ÷ ${input.tenorMonths} = ${format(baseMinor)}`
+  );
+  if (lastMinor !== baseMinor) {
+    steps.push(
+      `   Final installment adjusted to ${format(lastMinor)} so installments sum exactly to the principal`
+    );
+  }
+  if (input.gracePeriodMonths > 0) {
+    steps.push(
+      `3. Grace Period = ${input.gracePeriodMonths} months before the first installment, at no extra cost to the borrower`
+    );
+  }
+
+  const schedule: QardHasanInstallment[] = [];
+  let remainingMinor = principalMinor;
+  for (let i = 1; i <= input.tenorMonths; i++) {
+    const paymentMinor = i === input.tenorMonths ? lastMinor : baseMinor;
+    remainingMinor -= paymentMinor;
+    schedule.push({
+      installment: i,
+      month: input.gracePeriodMonths + i,
+      payment: fromMinor(paymentMinor, minorUnits),
+      remainingBalance: fromMinor(remainingMinor, minorUnits),
+    });
+  }
+
+  // Step 4: Administration fee and total cost to the borrower
+  let step = input.gracePeriodMonths > 0 ? 4 : 3;
+  steps.push(
+    feeMinor > 0
+      ? `${step++}. Administration Fee = ${format(feeMinor)}${fee?.description ? ` (${fee.description})` : ''}, charged once at actual cost, separate from the loan and the same whatever the amount or tenor`
+      : `${step++}. Administration Fee = 0, no charge besides the principal`
+  );
+  steps.push(
+    `${step}. Total Paid by Borrower = ${format(principalMinor)} (principal) + ${format(feeMinor)} (fee) = ${format(principalMinor + feeMinor)}`
+  );
+
+  return {
+    type: 'qard_hasan',
+    currency: input.currency,
+    principal: input.principal,
+    tenorMonths: input.tenorMonths,
+    gracePeriodMonths: input.gracePeriodMonths,
+    installmentAmount: fromMinor(baseMinor, minorUnits),
+    totalRepayment: fromMinor(principalMinor, minorUnits),
+    adminFee: fromMinor(feeMinor, minorUnits),
+    ...(fee?.description && { adminFeeDescription: fee.description }),
+    totalPaidByBorrower: fromMinor(principalMinor + feeMinor, minorUnits),
+    schedule,
+    explanation:
+      'Qard al-Hasan is a benevolent loan: the borrower repays exactly the principal, and any increase stipulated for the lender is riba. The lender may recover the actual cost of administering the loan as a fixed fee declared separately, but not a fee that grows with the amount lent or the time it is outstanding.',
+    calculationSteps: steps,
+  };
+}
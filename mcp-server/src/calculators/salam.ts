@@ -0,0 +1,183 @@
+import { SalamInput } from '../schemas/index.js';
+import { formatMinor, fromMinor, minorUnitsFor, toMinor } from '../utils/money.js';
+import { buildTimeline, type TimelineEntry, type TimelineEvent } from '../utils/timeline.js';
+
+export interface SalamResult {
+  type: 'salam';
+  currency?: string;
+  commodity: string;
+  quantity: number;
+  unit: string;
+  pricePerUnit: number;
+  salamCapital: number;
+  contractDate: string;
+  deliveryDate: string;
+  saleBasis: 'parallel_salam' | 'expected_market_price';
+  saleProceeds: number;
+  financierProfit: number;
+  profitRate: string;
+  peakFunding: number;
+  timeline: TimelineEntry[];
+  explanation: string;
+  calculationSteps: string[];
+}
+
+/**
+ * Calculate the payment/delivery timeline and financier's profit of a Salam (forward sale)
+ *
+ * Islamic Finance Rule:
+ * - The Salam capital (price) must be paid in full at the time of contract; a deferred
+ *   price would make it a sale of debt for debt (bay' al-kali' bil-kali'), which is void
+ * - The commodity is specified by type, quality and quantity and delivered on a known later date
+ * - The financier may sell the same specification in a parallel Salam, but the two contracts
+ *   are independent: its delivery to the parallel buyer cannot depend on the first seller
+ * - The financier may not sell the commodity itself before taking delivery
+ *
+ * @param input - Salam calculation parameters
+ * @returns Salam capital, timeline and financier's profit with step-by-step explanation
+ */
+export function calculateSalam(input: SalamInput): SalamResult {
+  const steps: string[] = [];
+  const minorUnits = minorUnitsFor(input.currency);
+  const format = (minor: number) => formatMinor(minor, minorUnits);
+
+  // Step 1: Validate dates and how the commodity is sold on
+  if (input.deliveryDate <= input.contractDate) {
+    throw new Error(
+      `Delivery date (${input.deliveryDate}) must be after the contract date (${input.contractDate}), Salam is a sale with deferred delivery`
+    );
+  }
+  if (!input.parallelSalam && input.expectedSalePricePerUnit === undefined) {
+    throw new Error(
+      "Provide parallelSalam or expectedSalePricePerUnit to calculate the financier's profit"
+    );
+  }
+  if (input.parallelSalam && input.expectedSalePricePerUnit !== undefined) {
+    throw new Error('Provide either parallelSalam or expectedSalePricePerUnit, not both');
+  }
+
+  // Step 2: Salam capital, which must be paid in full when the contract is made
+  const capitalMinor = toMinor(input.quantity * input.pricePerUnit, minorUnits);
+  steps.push(
+    `1. Salam Capital = ${input.quantity} ${input.unit} × ${input.pricePerUnit} = ${format(capitalMinor)}`
+  );
+
+  const paymentDate = input.capitalPaymentDate ?? input.contractDate;
+  if (paymentDate !== input.contractDate) {
+    throw new Error(
+      `Salam capital must be paid at the time of contract (${input.contractDate}), not on ${paymentDate}; deferring it makes the contract a sale of debt for debt`
+    );
+  }
+  const paidMinor =
+    input.capitalPaid === undefined ? capitalMinor : toMinor(input.capitalPaid, minorUnits);
+  if (paidMinor !== capitalMinor) {
+    throw new Error(
+      `Salam capital must be paid in full at contract: ${format(paidMinor)} paid, ${format(capitalMinor)} due`
+    );
+  }
+  steps.push(`2. Capital paid in full on ${input.contractDate} (contract date) ✓`);
+
+  const events: TimelineEvent[] = [
+    {
+      date: input.contractDate,
+      event: 'Financier pays Salam capital to seller',
+      cashFlowMinor: -capitalMinor,
+    },
+  ];
+
+  // Step 3: Sale of the commodity, locked in by a parallel Salam or at the expected market price
+  let proceedsMinor: number;
+  if (input.parallelSalam) {
+    const parallel = input.parallelSalam;
+    const parallelContractDate = parallel.contractDate ?? input.contractDate;
+    const parallelDeliveryDate = parallel.deliveryDate ?? input.deliveryDate;
+    if (parallelContractDate < input.contractDate || parallelContractDate >= input.deliveryDate) {
+      throw new Error(
+        `Parallel Salam date (${parallelContractDate}) must fall between the contract date (${input.contractDate}) and the delivery date (${input.deliveryDate})`
+      );
+    }
+    if (parallelDeliveryDate < input.deliveryDate) {
+      throw new Error(
+        `Parallel Salam delivery (${parallelDeliveryDate}) must not be before the financier receives the commodity (${input.deliveryDate})`
+      );
+    }
+
+    proceedsMinor = Math.round(capitalMinor * (1 + parallel.margin));
+    steps.push(
+      `3. Parallel Salam Price = ${format(capitalMinor)} × (1 + ${(parallel.margin * 100).toFixed(2)}%) = ${format(proceedsMinor)}, paid in full by the parallel buyer on ${parallelContractDate}`
+    );
+
+    events.push(
+      {
+        date: parallelContractDate,
+        event: 'Parallel buyer pays parallel Salam price to financier',
+        cashFlowMinor: proceedsMinor,
+      },
+      {
+        date: input.deliveryDate,
+        event: `Seller delivers ${input.commodity} to financier`,
+        cashFlowMinor: 0,
+        quantity: input.quantity,
+      },
+      {
+        date: parallelDeliveryDate,
+        event: `Financier delivers ${input.commodity} to parallel buyer`,
+        cashFlowMinor: 0,
+        quantity: input.quantity,
+      }
+    );
+  } else {
+    const salePrice = input.expectedSalePricePerUnit as number;
+    proceedsMinor = toMinor(input.quantity * salePrice, minorUnits);
+    steps.push(
+      `3. Expected Sale Proceeds = ${input.quantity} ${input.unit} × ${salePrice} = ${format(proceedsMinor)} on delivery (market price risk stays with the financier)`
+    );
+
+    events.push(
+      {
+        date: input.deliveryDate,
+        event: `Seller delivers ${input.commodity} to financier`,
+        cashFlowMinor: 0,
+        quantity: input.quantity,
+      },
+      {
+        date: input.deliveryDate,
+        event: `Financier sells ${input.commodity} at the market price`,
+        cashFlowMinor: proceedsMinor,
+      }
+    );
+  }
+
+  // Step 4: Financier's profit and funding
+  const profitMinor = proceedsMinor - capitalMinor;
+  const profitRate = ((profitMinor / capitalMinor) * 100).toFixed(2) + '%';
+  steps.push(
+    `4. Financier's Profit = ${format(proceedsMinor)} - ${format(capitalMinor)} = ${format(profitMinor)} (${profitRate} of capital)`
+  );
+
+  const { timeline, peakFundingMinor } = buildTimeline(events, minorUnits);
+  steps.push(
+    `5. Peak Funding = ${format(peakFundingMinor)} outstanding before the sale proceeds arrive`
+  );
+
+  return {
+    type: 'salam',
+    currency: input.currency,
+    commodity: input.commodity,
+    quantity: input.quantity,
+    unit: input.unit,
+    pricePerUnit: input.pricePerUnit,
+    salamCapital: fromMinor(capitalMinor, minorUnits),
+    contractDate: input.contractDate,
+    deliveryDate: input.deliveryDate,
+    saleBasis: input.parallelSalam ? 'parallel_salam' : 'expected_market_price',
+    saleProceeds: fromMinor(proceedsMinor, minorUnits),
+    financierProfit: fromMinor(profitMinor, minorUnits),
+    profitRate,
+    peakFunding: fromMinor(peakFundingMinor, minorUnits),
+    timeline,
+    explanation:
+      "In Salam, the financier pays the full price at contract for a precisely specified commodity delivered later, so the seller is financed in advance. A deferred price would be a sale of debt for debt, which is prohibited. The financier's profit comes from selling the commodity once owned, either at the market price or through a parallel Salam that must stand independently of the first contract.",
+    calculationSteps: steps,
+  };
+}
@@ -0,0 +1,253 @@
+import { ScenarioAnalysisInput } from '../schemas/index.js';
+import { calculateMusharakah } from './musharakah.js';
+import { calculateMudharabah } from './mudharabah.js';
+import { formatMinor, fromMinor, minorUnitsFor, toMinor } from '../utils/money.js';
+
+// Upper bound on profit levels × ratio scenarios in one analysis
+export const MAX_SCENARIOS = 200;
+
+export interface ScenarioParty {
+  name: string;
+  capital: number;
+  capitalRatio: string;
+}
+
+export interface ScenarioRow {
+  profitLoss: number;
+  ratio: string;
+  isLoss: boolean;
+  basis: string;
+  outcomes: number[];
+}
+
+export interface ScenarioAnalysisResult {
+  type: 'scenario_analysis';
+  contractType: ScenarioAnalysisInput['contractType'];
+  currency?: string;
+  parties: ScenarioParty[];
+  ratioScenarios: string[];
+  profitLevels: number[];
+  scenarios: ScenarioRow[];
+  explanation: string;
+  calculationSteps: string[];
+}
+
+/**
+ * What-if analysis of a Musharakah or Mudharabah contract
+ *
+ * Runs the contract's own calculator for every combination of profit/loss level
+ * and profit-sharing ratio, so each row follows exactly the same Shariah rules:
+ * - Musharakah: profits follow the agreed ratio, losses follow the capital ratio
+ * - Mudharabah: profits follow the agreed ratio, losses fall on the capital provider
+ *
+ * @param input - Contract, profit/loss levels and ratios to compare
+ * @returns Matrix of each party's outcome with step-by-step explanation
+ */
+export function calculateScenarioAnalysis(input: ScenarioAnalysisInput): ScenarioAnalysisResult {
+  const steps: string[] = [];
+  const minorUnits = minorUnitsFor(input.currency);
+
+  // Step 1: Resolve the profit/loss levels
+  const profitLevels = resolveProfitLevels(input, minorUnits);
+  steps.push(
+    `1. Profit/Loss Levels = ${profitLevels.join(', ')} (${profitLevels.length} level${profitLevels.length === 1 ? '' : 's'})`
+  );
+
+  const analysis =
+    input.contractType === 'musharakah'
+      ? analyseMusharakah(input, profitLevels)
+      : analyseMudharabah(input, profitLevels);
+
+  // Step 2: Ratios compared and the capital behind them
+  steps.push(`2. Ratio Scenarios = ${analysis.ratioScenarios.join(', ')}`);
+  steps.push(
+    `3. Capital: ${analysis.parties.map((p) => `${p.name} ${p.capital} (${p.capitalRatio})`).join(', ')}`
+  );
+  steps.push(
+    `4. Scenarios Evaluated = ${profitLevels.length} × ${analysis.ratioScenarios.length} = ${analysis.scenarios.length}`
+  );
+
+  // Step 3: One line per scenario
+  analysis.scenarios.forEach((row) => {
+    const shares = row.outcomes.map(
+      (amount, i) =>
+        `${analysis.parties[i].name} ${formatMinor(toMinor(amount, minorUnits), minorUnits)}`
+    );
+    steps.push(`   ${row.profitLoss} @ ${row.ratio} (${row.basis}): ${shares.join(', ')}`);
+  });
+
+  steps.push(`5. ${analysis.lossRule}`);
+
+  return {
+    type: 'scenario_analysis',
+    contractType: input.contractType,
+    currency: input.currency,
+    parties: analysis.parties,
+    ratioScenarios: analysis.ratioScenarios,
+    profitLevels,
+    scenarios: analysis.scenarios,
+    explanation: analysis.explanation,
+    calculationSteps: steps,
+  };
+}
+
+interface ContractAnalysis {
+  parties: ScenarioParty[];
+  ratioScenarios: string[];
+  scenarios: ScenarioRow[];
+  lossRule: string;
+  explanation: string;
+}
+
+function analyseMusharakah(input: ScenarioAnalysisInput, profitLevels: number[]): ContractAnalysis {
+  if (!input.partners) {
+    throw new Error('partners are required for a Musharakah scenario analysis');
+  }
+  const partners = input.partners;
+
+  // Without agreed ratios, profit is shared by capital like losses are
+  const ratioSets: Array<number[] | undefined> = input.profitRatios?.length
+    ? input.profitRatios
+    : [undefined];
+  checkScenarioCount(profitLevels.length, ratioSets.length);
+
+  const totalInvestment = partners.reduce((sum, p) => sum + p.investment, 0);
+  const scenarios: ScenarioRow[] = [];
+  for (const ratios of ratioSets) {
+    for (const profit of profitLevels) {
+      const result = calculateMusharakah({
+        partners,
+        totalProfit: profit,
+        profitRatio: ratios,
+        weighting: 'daily',
+        currency: input.currency,
+      });
+      scenarios.push({
+        profitLoss: profit,
+        ratio: ratios ? ratioLabel(ratios) : 'Capital ratio',
+        isLoss: result.isLoss,
+        basis: result.isLoss || !ratios ? 'Capital ratio' : 'Agreed ratio',
+        outcomes: result.distribution.map((d) => d.shareAmount),
+      });
+    }
+  }
+
+  return {
+    parties: partners.map((p) => ({
+      name: p.name,
+      capital: p.investment,
+      capitalRatio: ((p.investment / totalInvestment) * 100).toFixed(2) + '%',
+    })),
+    ratioScenarios: ratioSets.map((r) => (r ? ratioLabel(r) : 'Capital ratio')),
+    scenarios,
+    lossRule:
+      'Loss Rule: losses are shared by capital ratio whatever profit ratio is agreed, so loss rows are the same in every ratio scenario',
+    explanation:
+      "In Musharakah, partners may agree any ratio for sharing profit, but losses MUST follow each partner's share of capital. " +
+      'Across the scenarios, profit rows change with the agreed ratio while loss rows stay proportional to capital.',
+  };
+}
+
+function analyseMudharabah(input: ScenarioAnalysisInput, profitLevels: number[]): ContractAnalysis {
+  if (input.capitalAmount === undefined) {
+    throw new Error('capitalAmount is required for a Mudharabah scenario analysis');
+  }
+  if (!input.profitRatios?.length) {
+    throw new Error(
+      'profitRatios with [capital provider, entrepreneur] pairs are required for a Mudharabah scenario analysis'
+    );
+  }
+  const capitalAmount = input.capitalAmount;
+  const ratioSets = input.profitRatios;
+  checkScenarioCount(profitLevels.length, ratioSets.length);
+
+  const scenarios: ScenarioRow[] = [];
+  for (const ratios of ratioSets) {
+    if (ratios.length !== 2) {
+      throw new Error(
+        `Mudharabah profit ratios must be [capital provider, entrepreneur] pairs, got ${ratios.length} values`
+      );
+    }
+    for (const profit of profitLevels) {
+      const result = calculateMudharabah({
+        capitalAmount,
+        profit,
+        expenses: 0,
+        priorLosses: 0,
+        mudaribNegligence: false,
+        capitalProviderRatio: ratios[0],
+        entrepreneurRatio: ratios[1],
+        currency: input.currency,
+      });
+      scenarios.push({
+        profitLoss: profit,
+        ratio: ratioLabel(ratios),
+        isLoss: result.isLoss,
+        basis: result.isLoss ? 'Capital provider bears loss' : 'Agreed ratio',
+        outcomes: [
+          result.distribution.capitalProvider.shareAmount,
+          result.distribution.entrepreneur.shareAmount,
+        ],
+      });
+    }
+  }
+
+  return {
+    parties: [
+      { name: 'Capital Provider (Rabb al-Mal)', capital: capitalAmount, capitalRatio: '100.00%' },
+      { name: 'Entrepreneur (Mudarib)', capital: 0, capitalRatio: '0.00%' },
+    ],
+    ratioScenarios: ratioSets.map(ratioLabel),
+    scenarios,
+    lossRule:
+      'Loss Rule: the capital provider bears every loss whatever profit ratio is agreed; the Mudarib loses only time and effort',
+    explanation:
+      'In Mudharabah, the agreed ratio only decides how profit is shared. Losses are borne entirely by the capital provider (Rabb al-Mal), ' +
+      'so in every ratio scenario the Mudarib receives nothing on a loss.',
+  };
+}
+
+/**
+ * Profit/loss levels from an explicit list or an inclusive from..to sweep
+ */
+function resolveProfitLevels(input: ScenarioAnalysisInput, minorUnits: number): number[] {
+  if (input.profits && input.profitRange) {
+    throw new Error('Provide either profits or profitRange, not both');
+  }
+  if (input.profits) {
+    return input.profits;
+  }
+  if (!input.profitRange) {
+    throw new Error('Provide either profits or profitRange');
+  }
+
+  // Step in minor units so a sweep like 0..1 by 0.1 does not drift
+  const from = toMinor(input.profitRange.from, minorUnits);
+  const to = toMinor(input.profitRange.to, minorUnits);
+  const step = toMinor(input.profitRange.step, minorUnits);
+  if (to < from) {
+    throw new Error(
+      `profitRange.to (${input.profitRange.to}) must not be below profitRange.from (${input.profitRange.from})`
+    );
+  }
+  if (step <= 0) {
+    throw new Error('profitRange.step is smaller than the currency minor unit');
+  }
+
+  const count = Math.floor((to - from) / step) + 1;
+  checkScenarioCount(count, 1);
+  return Array.from({ length: count }, (_, i) => fromMinor(from + i * step, minorUnits));
+}
+
+function checkScenarioCount(profitLevels: number, ratioScenarios: number): void {
+  if (profitLevels * ratioScenarios > MAX_SCENARIOS) {
+    throw new Error(
+      `Scenario analysis is limited to ${MAX_SCENARIOS} scenarios, got ${profitLevels} profit levels × ${ratioScenarios} ratios`
+    );
+  }
+}
+
+// [0.6, 0.4] -> "60:40"
+function ratioLabel(ratios: number[]): string {
+  return ratios.map((r) => Number((r * 100).toFixed(2))).join(':');
+}
@@ -0,0 +1,269 @@
+import {
+  ScreeningCompanySchema,
+  type ScreeningCompany,
+  type StockScreeningInput,
+} from '../schemas/index.js';
+import { parseCsv } from '../utils/csv.js';
+import { formatMinor, fromMinor, minorUnitsFor, toMinor } from '../utils/money.js';
+
+export interface ScreenedCompany {
+  name: string;
+  ticker?: string;
+  status: 'compliant' | 'non_compliant';
+  failedScreens: string[];
+  nonPermissibleIncomeRatio: string;
+  dividendPurification: number;
+  capitalGainPurification: number;
+  totalPurification: number;
+}
+
+export interface ScreenResult {
+  company: string;
+  screen: string;
+  value: string;
+  threshold: string;
+  result: 'pass' | 'fail';
+}
+
+export interface StockScreeningResult {
+  type: 'stock_screening';
+  currency?: string;
+  thresholds: {
+    debtToMarketCap: string;
+    cashToMarketCap: string;
+    nonPermissibleIncome: string;
+  };
+  companiesScreened: number;
+  compliantCount: number;
+  nonCompliantCount: number;
+  totalPurification: number;
+  companies: ScreenedCompany[];
+  screens: ScreenResult[];
+  explanation: string;
+  calculationSteps: string[];
+}
+
+// CSV headers other than the company field names themselves
+const CSV_HEADER_ALIASES: Record<string, keyof ScreeningCompany> = {
+  company: 'name',
+  symbol: 'ticker',
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z]/g, '');
+const percent = (ratio: number) => (ratio * 100).toFixed(2) + '%';
+
+/**
+ * Screen companies for Shariah compliance and calculate the purification due
+ * on the investor's income from them (AAOIFI Shariah Standard 21)
+ *
+ * Islamic Finance Rule:
+ * - The core business must not be prohibited (conventional finance and insurance,
+ *   alcohol, pork, gambling, tobacco, adult entertainment, weapons)
+ * - Interest-bearing debt and cash plus interest-bearing securities must each not
+ *   exceed 30% of market capitalisation
+ * - Non-permissible income must not exceed 5% of total revenue
+ * - The investor donates the non-permissible share of dividends (and, on the stricter
+ *   view, of capital gains) to charity; it is purification, not a deductible cost
+ *
+ * @param input - Company or CSV holdings, thresholds and purification options
+ * @returns Pass/fail per screen with the thresholds used, and purification per holding
+ */
+export function calculateStockScreening(input: StockScreeningInput): StockScreeningResult {
+  const steps: string[] = [];
+  const minorUnits = minorUnitsFor(input.currency);
+  const format = (minor: number) => formatMinor(minor, minorUnits);
+  const { thresholds } = input;
+
+  // Step 1: Collect the companies to screen
+  if (!input.company && input.holdingsCsv === undefined) {
+    throw new Error('Provide a company or holdingsCsv to screen');
+  }
+  if (input.company && input.holdingsCsv !== undefined) {
+    throw new Error('Provide either a company or holdingsCsv, not both');
+  }
+  const holdings = input.company ? [input.company] : parseHoldingsCsv(input.holdingsCsv as string);
+
+  steps.push(
+    `1. Thresholds: interest-bearing debt ≤ ${percent(thresholds.debtToMarketCap)} of market cap, cash and interest-bearing securities ≤ ${percent(thresholds.cashToMarketCap)} of market cap, non-permissible income ≤ ${percent(thresholds.nonPermissibleIncome)} of revenue`
+  );
+
+  // Step 2: Apply every screen to every company and purify its income
+  const companies: ScreenedCompany[] = [];
+  const screens: ScreenResult[] = [];
+  let totalPurificationMinor = 0;
+
+  holdings.forEach((holding, i) => {
+    const label = holding.ticker ? `${holding.name} (${holding.ticker})` : holding.name;
+    const lines: string[] = [];
+    const failedScreens: string[] = [];
+
+    const addScreen = (screen: string, value: string, threshold: string, pass: boolean) => {
+      screens.push({ company: label, screen, value, threshold, result: pass ? 'pass' : 'fail' });
+      if (!pass) {
+        failedScreens.push(screen);
+      }
+    };
+
+    const activities = holding.excludedActivities;
+    addScreen(
+      'Business activity',
+      activities.length > 0 ? activities.join(', ') : 'none prohibited',
+      'no prohibited core activity',
+      activities.length === 0
+    );
+    lines.push(
+      activities.length > 0
+        ? `   Business activity: ${activities.join(', ')} ✗`
+        : '   Business activity: no prohibited core activity ✓'
+    );
+
+    const ratioScreen = (
+      screen: string,
+      numerator: number,
+      denominator: number,
+      threshold: number
+    ): number => {
+      const ratio = numerator / denominator;
+      const pass = ratio <= threshold;
+      addScreen(screen, percent(ratio), `≤ ${percent(threshold)}`, pass);
+      lines.push(
+        `   ${screen} = ${numerator} ÷ ${denominator} = ${percent(ratio)} ${pass ? '≤' : '>'} ${percent(threshold)} ${pass ? '✓' : '✗'}`
+      );
+      return ratio;
+    };
+
+    ratioScreen(
+      'Interest-bearing debt / market cap',
+      holding.interestBearingDebt,
+      holding.marketCap,
+      thresholds.debtToMarketCap
+    );
+    ratioScreen(
+      'Cash and interest-bearing securities / market cap',
+      holding.cashAndInterestBearingSecurities,
+      holding.marketCap,
+      thresholds.cashToMarketCap
+    );
+    const incomeRatio = ratioScreen(
+      'Non-permissible income / revenue',
+      holding.nonPermissibleIncome,
+      holding.totalRevenue,
+      thresholds.nonPermissibleIncome
+    );
+
+    // The non-permissible share of the investor's income is donated to charity
+    const dividendsMinor = toMinor(holding.dividends, minorUnits);
+    const gainMinor = input.purifyCapitalGains
+      ? Math.max(toMinor(holding.capitalGain, minorUnits), 0)
+      : 0;
+    const dividendPurificationMinor = Math.round(dividendsMinor * incomeRatio);
+    const gainPurificationMinor = Math.round(gainMinor * incomeRatio);
+    const purificationMinor = dividendPurificationMinor + gainPurificationMinor;
+    totalPurificationMinor += purificationMinor;
+
+    lines.push(
+      `   Purification = ${format(dividendsMinor)} (dividends) × ${percent(incomeRatio)} = ${format(dividendPurificationMinor)}` +
+        (input.purifyCapitalGains
+          ? ` + ${format(gainMinor)} (capital gain) × ${percent(incomeRatio)} = ${format(gainPurificationMinor)}, total ${format(purificationMinor)}`
+          : ' (capital gains not purified)')
+    );
+
+    const compliant = failedScreens.length === 0;
+    steps.push(
+      `${i + 2}. ${label}: ${compliant ? 'Compliant' : `Non-compliant (fails ${failedScreens.join(', ').toLowerCase()})`}`,
+      ...lines
+    );
+    if (!compliant) {
+      steps.push('   The holding should be divested; income already received is still purified');
+    }
+
+    companies.push({
+      name: holding.name,
+      ...(holding.ticker && { ticker: holding.ticker }),
+      status: compliant ? 'compliant' : 'non_compliant',
+      failedScreens,
+      nonPermissibleIncomeRatio: percent(incomeRatio),
+      dividendPurification: fromMinor(dividendPurificationMinor, minorUnits),
+      capitalGainPurification: fromMinor(gainPurificationMinor, minorUnits),
+      totalPurification: fromMinor(purificationMinor, minorUnits),
+    });
+  });
+
+  // Step 3: Portfolio totals
+  const compliantCount = companies.filter((c) => c.status === 'compliant').length;
+  steps.push(
+    `${holdings.length + 2}. ${compliantCount} of ${holdings.length} ${holdings.length === 1 ? 'company' : 'companies'} compliant, total purification to donate = ${format(totalPurificationMinor)}`
+  );
+
+  return {
+    type: 'stock_screening',
+    currency: input.currency,
+    thresholds: {
+      debtToMarketCap: `≤ ${percent(thresholds.debtToMarketCap)}`,
+      cashToMarketCap: `≤ ${percent(thresholds.cashToMarketCap)}`,
+      nonPermissibleIncome: `≤ ${percent(thresholds.nonPermissibleIncome)}`,
+    },
+    companiesScreened: holdings.length,
+    compliantCount,
+    nonCompliantCount: holdings.length - compliantCount,
+    totalPurification: fromMinor(totalPurificationMinor, minorUnits),
+    companies,
+    screens,
+    explanation:
+      "A share is Shariah-compliant when the company's core business is permissible and its interest-based dealings stay within tolerated limits: interest-bearing debt and interest-bearing cash and securities each no more than 30% of market capitalisation, and non-permissible income no more than 5% of revenue. The investor still donates the non-permissible share of dividends (and, on the stricter view, of capital gains) to charity to purify the investment.",
+    calculationSteps: steps,
+  };
+}
+
+/**
+ * Turn CSV holdings into companies, validating each row with the company schema
+ */
+function parseHoldingsCsv(csv: string): ScreeningCompany[] {
+  const [header, ...rows] = parseCsv(csv);
+  if (!header || rows.length === 0) {
+    throw new Error('holdingsCsv needs a header row and at least one holding');
+  }
+
+  const fields = Object.keys(ScreeningCompanySchema.shape) as (keyof ScreeningCompany)[];
+  const columns = header.map((name) => {
+    const key = normalizeHeader(name);
+    const field = fields.find((f) => normalizeHeader(f) === key) ?? CSV_HEADER_ALIASES[key];
+    if (!field) {
+      throw new Error(`Unknown CSV column "${name}", expected columns: ${fields.join(', ')}`);
+    }
+    return field;
+  });
+
+  return rows.map((cells, i) => {
+    if (cells.length > columns.length) {
+      throw new Error(`CSV holding ${i + 1} has more cells than the header has columns`);
+    }
+
+    const raw: Record<string, unknown> = {};
+    cells.forEach((cell, c) => {
+      const field = columns[c];
+      if (cell === '') {
+        return;
+      }
+      if (field === 'name' || field === 'ticker') {
+        raw[field] = cell;
+      } else if (field === 'excludedActivities') {
+        raw[field] = cell
+          .split(/[;|]/)
+          .map((activity) => activity.trim().toLowerCase().replace(/\s+/g, '_'))
+          .filter(Boolean);
+      } else {
+        raw[field] = Number(cell.replace(/[\s,]/g, ''));
+      }
+    });
+
+    const parsed = ScreeningCompanySchema.safeParse(raw);
+    if (!parsed.success) {
+      const issues = parsed.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`);
+      throw new Error(
+        `CSV holding ${i + 1}${raw.name ? ` (${raw.name})` : ''}: ${issues.join(', ')}`
+      );
+    }
+    return parsed.data;
+  });
+}
@@ -0,0 +1,290 @@
+import { SukukInput } from '../schemas/index.js';
+import { formatMinor, fromMinor, minorUnitsFor, toMinor } from '../utils/money.js';
+
+const PERIODS_PER_YEAR = { annual: 1, semi_annual: 2, quarterly: 4, monthly: 12 } as const;
+
+export interface SukukPeriod {
+  period: number;
+  expectedDistribution: number;
+  actualProfit?: number;
+  managerShare?: number;
+  reserveMovement?: number;
+  reserveBalance?: number;
+  lossCarriedForward?: number;
+  distribution: number;
+  perCertificate: number;
+}
+
+export interface SukukResult {
+  type: 'sukuk';
+  currency?: string;
+  sukukType: SukukInput['sukukType'];
+  issueSize: number;
+  faceValue: number;
+  certificates: number;
+  tenorYears: number;
+  distributionFrequency: SukukInput['distributionFrequency'];
+  periods: number;
+  annualRate: number;
+  totalDistributions: number;
+  distributionsPerCertificate: number;
+  managerShare?: number;
+  reserveAtMaturity?: number;
+  unrecoveredLosses?: number;
+  redemptionBasis: 'face_value' | 'asset_value';
+  redemptionAmount: number;
+  redemptionPerCertificate: number;
+  totalPerCertificate: number;
+  schedule: SukukPeriod[];
+  explanation: string;
+  calculationSteps: string[];
+}
+
+/**
+ * Calculate periodic distributions and redemption of a sukuk issue, per certificate
+ *
+ * Islamic Finance Rule:
+ * - Sukuk holders own the underlying assets or venture, and are paid from what those
+ *   assets earn, never a guaranteed return on the money paid for them
+ * - Ijarah sukuk distribute the rental paid by the lessee; the obligor may undertake to
+ *   buy the assets back at face value at maturity
+ * - Musharakah/Mudharabah sukuk distribute the holders' share of actual profit; the expected
+ *   rate is indicative, losses fall on the holders as owners of capital, and the manager may
+ *   not guarantee capital or buy the assets back at face value (AAOIFI Sukuk statement 2008)
+ *
+ * @param input - Sukuk calculation parameters
+ * @returns Distribution schedule, redemption and per-certificate payouts with step-by-step explanation
+ */
+export function calculateSukuk(input: SukukInput): SukukResult {
+  const steps: string[] = [];
+  const minorUnits = minorUnitsFor(input.currency);
+  const format = (minor: number) => formatMinor(minor, minorUnits);
+  const isIjarah = input.sukukType === 'ijarah';
+  const perYear = PERIODS_PER_YEAR[input.distributionFrequency];
+  const periods = input.tenorYears * perYear;
+
+  // Step 1: Validate the issue and the inputs its type needs
+  const issueMinor = toMinor(input.issueSize, minorUnits);
+  const faceMinor = toMinor(input.faceValue, minorUnits);
+  if (faceMinor === 0 || issueMinor % faceMinor !== 0) {
+    throw new Error(
+      `Issue size (${input.issueSize}) must be a whole number of certificates of face value ${input.faceValue}`
+    );
+  }
+  const certificates = issueMinor / faceMinor;
+
+  const annualRate = isIjarah ? input.annualRentalRate : input.expectedProfitRate;
+  if (annualRate === undefined) {
+    throw new Error(
+      isIjarah
+        ? 'annualRentalRate is required for Ijarah sukuk'
+        : 'expectedProfitRate is required for Musharakah and Mudharabah sukuk'
+    );
+  }
+  if (
+    isIjarah &&
+    (input.actualProfits !== undefined ||
+      input.holdersProfitRatio !== undefined ||
+      input.assetValueAtMaturity !== undefined)
+  ) {
+    throw new Error(
+      'actualProfits, holdersProfitRatio and assetValueAtMaturity apply only to Musharakah and Mudharabah sukuk'
+    );
+  }
+
+  steps.push(
+    `1. Certificates = ${input.issueSize} ÷ ${input.faceValue} = ${certificates}`,
+    `2. Distribution Periods = ${input.tenorYears} years × ${perYear} per year = ${periods}`
+  );
+
+  // Each certificate is paid the same amount, so the per-certificate figure is
+  // rounded and the total follows from it
+  const perCertificateMinor = Math.round((faceMinor * annualRate) / perYear);
+  const periodMinor = perCertificateMinor * certificates;
+  const label = isIjarah ? 'Rental' : 'Expected Distribution';
+  steps.push(
+    `3. ${label} per Certificate = ${input.faceValue} × ${(annualRate * 100).toFixed(2)}% ÷ ${perYear} = ${format(perCertificateMinor)} per period` +
+      `, ${format(periodMinor)} for the issue${isIjarah ? '' : ' (indicative, not guaranteed)'}`
+  );
+
+  if (isIjarah) {
+    const schedule: SukukPeriod[] = Array.from({ length: periods }, (_, i) => ({
+      period: i + 1,
+      expectedDistribution: fromMinor(periodMinor, minorUnits),
+      distribution: fromMinor(periodMinor, minorUnits),
+      perCertificate: fromMinor(perCertificateMinor, minorUnits),
+    }));
+    const totalMinor = periodMinor * periods;
+    steps.push(
+      `4. Total Rental Distributed = ${format(periodMinor)} × ${periods} = ${format(totalMinor)} (${format(perCertificateMinor * periods)} per certificate)`,
+      `5. Redemption = ${certificates} × ${input.faceValue} = ${format(issueMinor)}, the obligor buys the leased assets back at face value under its purchase undertaking`
+    );
+
+    return {
+      ...issueFields(input, certificates, periods, annualRate),
+      totalDistributions: fromMinor(totalMinor, minorUnits),
+      distributionsPerCertificate: fromMinor(perCertificateMinor * periods, minorUnits),
+      redemptionBasis: 'face_value',
+      redemptionAmount: fromMinor(issueMinor, minorUnits),
+      redemptionPerCertificate: input.faceValue,
+      totalPerCertificate: fromMinor(perCertificateMinor * periods + faceMinor, minorUnits),
+      schedule,
+      explanation:
+        'In Ijarah sukuk, holders own the leased assets and receive the rental the lessee pays for their use, so distributions come from the lease rather than interest on money. Holders carry the risks of ownership. At maturity the obligor may buy the assets back at face value under a purchase undertaking, which is permitted for Ijarah sukuk.',
+      calculationSteps: steps,
+    };
+  }
+
+  // Step 2: Holders' share of actual (or projected) profit, smoothed by the reserve
+  const ratio = input.holdersProfitRatio ?? (input.sukukType === 'musharakah' ? 1 : undefined);
+  if (ratio === undefined || (input.sukukType === 'mudharabah' && ratio >= 1)) {
+    throw new Error(
+      'holdersProfitRatio below 1 is required for Mudharabah sukuk, the mudarib is paid only by a share of profit'
+    );
+  }
+  if (input.actualProfits && input.actualProfits.length !== periods) {
+    throw new Error(
+      `${input.actualProfits.length} actual profits given for ${periods} distribution periods`
+    );
+  }
+
+  const profitsMinor = input.actualProfits
+    ? input.actualProfits.map((p) => toMinor(p, minorUnits))
+    : Array.from({ length: periods }, () => Math.round(periodMinor / ratio));
+  steps.push(
+    input.actualProfits
+      ? `4. Holders' Share = ${(ratio * 100).toFixed(2)}% of profit after recovering earlier losses; ` +
+          'excess over the expected distribution goes to the reserve, shortfalls are drawn from it'
+      : `4. No actual profits given: projected so the holders' ${(ratio * 100).toFixed(2)}% share meets the expected distribution each period`
+  );
+
+  let reserveMinor = 0;
+  let lossMinor = 0;
+  let managerTotalMinor = 0;
+  let distributedPerCertificateMinor = 0;
+  const schedule: SukukPeriod[] = profitsMinor.map((profitMinor, i) => {
+    let holdersMinor = 0;
+    let managerMinor = 0;
+    let recoveredMinor = 0;
+    if (profitMinor < 0) {
+      lossMinor += -profitMinor;
+    } else {
+      recoveredMinor = Math.min(profitMinor, lossMinor);
+      lossMinor -= recoveredMinor;
+      holdersMinor = Math.round((profitMinor - recoveredMinor) * ratio);
+      managerMinor = profitMinor - recoveredMinor - holdersMinor;
+    }
+    managerTotalMinor += managerMinor;
+
+    const targetMinor =
+      holdersMinor >= periodMinor
+        ? periodMinor
+        : holdersMinor + Math.min(periodMinor - holdersMinor, reserveMinor);
+    // What cannot be split into whole minor units per certificate stays in the reserve
+    const paidPerCertificateMinor = Math.floor(targetMinor / certificates);
+    const paidMinor = paidPerCertificateMinor * certificates;
+    const movementMinor = holdersMinor - paidMinor;
+    reserveMinor += movementMinor;
+    distributedPerCertificateMinor += paidPerCertificateMinor;
+
+    if (input.actualProfits) {
+      steps.push(
+        `   Period ${i + 1}: profit ${format(profitMinor)}${recoveredMinor > 0 ? ` - ${format(recoveredMinor)} earlier loss recovered` : ''} → holders ${format(holdersMinor)}, manager ${format(managerMinor)}; ` +
+          `reserve ${movementMinor >= 0 ? '+' : '-'}${format(Math.abs(movementMinor))} = ${format(reserveMinor)}` +
+          `${lossMinor > 0 ? `, loss carried ${format(lossMinor)}` : ''}; paid ${format(paidMinor)} (${format(paidPerCertificateMinor)} per certificate)`
+      );
+    }
+
+    return {
+      period: i + 1,
+      expectedDistribution: fromMinor(periodMinor, minorUnits),
+      actualProfit: fromMinor(profitMinor, minorUnits),
+      managerShare: fromMinor(managerMinor, minorUnits),
+      reserveMovement: fromMinor(movementMinor, minorUnits) + 0,
+      reserveBalance: fromMinor(reserveMinor, minorUnits),
+      lossCarriedForward: fromMinor(lossMinor, minorUnits),
+      distribution: fromMinor(paidMinor, minorUnits),
+      perCertificate: fromMinor(paidPerCertificateMinor, minorUnits),
+    };
+  });
+
+  const totalMinor = distributedPerCertificateMinor * certificates;
+  steps.push(
+    `5. Total Distributed = ${format(totalMinor)} (${format(distributedPerCertificateMinor)} per certificate), manager's share ${format(managerTotalMinor)}`
+  );
+
+  // Step 3: Redemption at the value the assets realise, plus the reserve released to holders
+  const bookValueMinor = Math.max(issueMinor - lossMinor, 0);
+  const assetValueMinor =
+    input.assetValueAtMaturity !== undefined
+      ? toMinor(input.assetValueAtMaturity, minorUnits)
+      : bookValueMinor;
+  const redemptionTotalMinor = assetValueMinor + reserveMinor;
+  const redemptionPerCertificateMinor = Math.floor(redemptionTotalMinor / certificates);
+  const redemptionMinor = redemptionPerCertificateMinor * certificates;
+  steps.push(
+    input.assetValueAtMaturity !== undefined
+      ? `6. Asset Value at Maturity = ${format(assetValueMinor)} (sale at market value, no face-value guarantee)`
+      : `6. Asset Value at Maturity = ${format(issueMinor)} - ${format(lossMinor)} (unrecovered losses) = ${format(assetValueMinor)}`,
+    `7. Redemption = ${format(assetValueMinor)} + ${format(reserveMinor)} (reserve released to holders) = ${format(redemptionTotalMinor)} → ${format(redemptionPerCertificateMinor)} per certificate`
+  );
+  if (redemptionMinor !== redemptionTotalMinor) {
+    steps.push(
+      `   ${format(redemptionTotalMinor - redemptionMinor)} cannot be split into whole minor units per certificate and is not paid out`
+    );
+  }
+
+  return {
+    ...issueFields(input, certificates, periods, annualRate),
+    totalDistributions: fromMinor(totalMinor, minorUnits),
+    distributionsPerCertificate: fromMinor(distributedPerCertificateMinor, minorUnits),
+    managerShare: fromMinor(managerTotalMinor, minorUnits),
+    reserveAtMaturity: fromMinor(reserveMinor, minorUnits),
+    unrecoveredLosses: fromMinor(lossMinor, minorUnits),
+    redemptionBasis: 'asset_value',
+    redemptionAmount: fromMinor(redemptionMinor, minorUnits),
+    redemptionPerCertificate: fromMinor(redemptionPerCertificateMinor, minorUnits),
+    totalPerCertificate: fromMinor(
+      distributedPerCertificateMinor + redemptionPerCertificateMinor,
+      minorUnits
+    ),
+    schedule,
+    explanation:
+      input.sukukType === 'musharakah'
+        ? 'In Musharakah sukuk, holders are partners in a venture and are paid their agreed share of its actual profit; the expected rate is only indicative. Profit above the expected distribution is kept in a reserve that tops up later shortfalls, and losses fall on the holders in proportion to capital and are made good from later profit before any is shared. The managing partner may not guarantee capital or buy the assets back at face value, so redemption is at the value the assets realise.'
+        : 'In Mudharabah sukuk, holders provide the capital (Rabb al-Mal) and the manager (Mudarib) earns only a share of actual profit; the expected rate is only indicative. Profit above the expected distribution is kept in a reserve that tops up later shortfalls, and losses fall on the holders as capital providers and are made good from later profit before any is shared. The mudarib may not guarantee capital or buy the assets back at face value, so redemption is at the value the assets realise.',
+    calculationSteps: steps,
+  };
+}
+
+function issueFields(
+  input: SukukInput,
+  certificates: number,
+  periods: number,
+  annualRate: number
+): Pick<
+  SukukResult,
+  | 'type'
+  | 'currency'
+  | 'sukukType'
+  | 'issueSize'
+  | 'faceValue'
+  | 'certificates'
+  | 'tenorYears'
+  | 'distributionFrequency'
+  | 'periods'
+  | 'annualRate'
+> {
+  return {
+    type: 'sukuk',
+    currency: input.currency,
+    sukukType: input.sukukType,
+    issueSize: input.issueSize,
+    faceValue: input.faceValue,
+    certificates,
+    tenorYears: input.tenorYears,
+    distributionFrequency: input.distributionFrequency,
+    periods,
+    annualRate,
+  };
+}
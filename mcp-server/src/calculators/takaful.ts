@@ -0,0 +1,274 @@
+import { TakafulInput } from '../schemas/index.js';
+import {
+  allocateMinor,
+  formatMinor,
+  fromMinor,
+  minorUnitsFor,
+  reconciliationLine,
+  toMinor,
+} from '../utils/money.js';
+
+export interface TakafulParticipantShare {
+  name: string;
+  contribution: number;
+  claims: number;
+  eligible: boolean;
+  surplusShare: number;
+}
+
+export interface TakafulResult {
+  type: 'takaful';
+  currency?: string;
+  model: TakafulInput['model'];
+  contributions: number;
+  wakalahFee: number;
+  netContributions: number;
+  claimsPaid: number;
+  netRetakafulCost: number;
+  underwritingResult: number;
+  investmentProfit: number;
+  operatorInvestmentShare: number;
+  fundInvestmentShare: number;
+  fundResult: number;
+  isDeficit: boolean;
+  reserveUsed: number;
+  qardProvided: number;
+  qardRepaid: number;
+  qardOutstanding: number;
+  surplusDistributed: number;
+  surplusRetained: number;
+  closingReserve: number;
+  operatorIncome: number;
+  distribution?: TakafulParticipantShare[];
+  explanation: string;
+  calculationSteps: string[];
+}
+
+/**
+ * Calculate the result of a Takaful participants' risk fund and its surplus distribution
+ *
+ * Islamic Finance Rule:
+ * - Contributions are donations (tabarru') to a fund owned by the participants, which
+ *   pays their claims; the operator only manages it
+ * - The operator is paid by a Wakalah fee fixed in advance and/or a Mudharabah share of
+ *   investment profit, never by a share of the underwriting surplus
+ * - Investment losses fall on the fund; the operator as mudarib loses only its effort
+ * - A deficit is met from the fund's reserves, then by an interest-free Qard al-Hasan
+ *   from the operator, repaid at face value from future surpluses only
+ * - The surplus belongs to participants: it repays any Qard first, then is distributed
+ *   to them or retained in the fund (AAOIFI Shariah Standard 26)
+ *
+ * @param input - Takaful fund parameters
+ * @returns Underwriting result, surplus or deficit handling and distribution with step-by-step explanation
+ */
+export function calculateTakaful(input: TakafulInput): TakafulResult {
+  const steps: string[] = [];
+  const minorUnits = minorUnitsFor(input.currency);
+  const format = (minor: number) => formatMinor(minor, minorUnits);
+  const usesWakalah = input.model !== 'mudharabah';
+  const usesMudharabah = input.model !== 'wakalah';
+
+  // Step 1: Validate the inputs the operator model needs
+  if (usesWakalah && input.wakalahFeeRate === undefined) {
+    throw new Error(`wakalahFeeRate is required for the ${input.model} model`);
+  }
+  if (!usesWakalah && input.wakalahFeeRate !== undefined) {
+    throw new Error('wakalahFeeRate applies only to the wakalah and hybrid models');
+  }
+  if (usesMudharabah && input.mudharabahShareRatio === undefined) {
+    throw new Error(`mudharabahShareRatio is required for the ${input.model} model`);
+  }
+  if (!usesMudharabah && input.mudharabahShareRatio !== undefined) {
+    throw new Error('mudharabahShareRatio applies only to the mudharabah and hybrid models');
+  }
+  if (input.retakafulRecoveries > input.claimsPaid) {
+    throw new Error(
+      `Retakaful recoveries (${input.retakafulRecoveries}) cannot exceed claims paid (${input.claimsPaid})`
+    );
+  }
+
+  const contributionsMinor = toMinor(input.contributions, minorUnits);
+  if (input.participants) {
+    const participantsMinor = input.participants.reduce(
+      (sum, p) => sum + toMinor(p.contribution, minorUnits),
+      0
+    );
+    if (participantsMinor !== contributionsMinor) {
+      throw new Error(
+        `Participant contributions (${format(participantsMinor)}) must sum to total contributions (${format(contributionsMinor)})`
+      );
+    }
+  }
+
+  // Step 2: Operator's Wakalah fee and the net contributions left in the risk fund
+  let step = 1;
+  steps.push(
+    `${step++}. Contributions (tabarru') = ${format(contributionsMinor)}, donated to the participants' risk fund`
+  );
+
+  const feeMinor = usesWakalah
+    ? Math.round(contributionsMinor * (input.wakalahFeeRate as number))
+    : 0;
+  steps.push(
+    usesWakalah
+      ? `${step++}. Wakalah Fee = ${format(contributionsMinor)} × ${((input.wakalahFeeRate as number) * 100).toFixed(2)}% = ${format(feeMinor)} (agency fee fixed in advance, paid to the operator)`
+      : `${step++}. No Wakalah fee: under the Mudharabah model the operator is paid only from investment profit`
+  );
+
+  const netContributionsMinor = contributionsMinor - feeMinor;
+  steps.push(
+    `${step++}. Net Contributions to Risk Fund = ${format(contributionsMinor)} - ${format(feeMinor)} = ${format(netContributionsMinor)}`
+  );
+
+  // Step 3: Underwriting result after claims and retakaful
+  const claimsMinor = toMinor(input.claimsPaid, minorUnits);
+  const retakafulMinor = toMinor(input.retakafulContributions, minorUnits);
+  const recoveriesMinor = toMinor(input.retakafulRecoveries, minorUnits);
+  const netRetakafulMinor = retakafulMinor - recoveriesMinor;
+  const underwritingMinor = netContributionsMinor - claimsMinor - netRetakafulMinor;
+  steps.push(
+    `${step++}. Net Retakaful Cost = ${format(retakafulMinor)} (retakaful contributions) - ${format(recoveriesMinor)} (recoveries) = ${format(netRetakafulMinor)}`,
+    `${step++}. Underwriting Result = ${format(netContributionsMinor)} - ${format(claimsMinor)} (claims) - ${format(netRetakafulMinor)} (net retakaful) = ${format(underwritingMinor)}`
+  );
+
+  // Step 4: Investment profit, shared with the operator only under Mudharabah
+  const investmentMinor = toMinor(input.investmentProfit, minorUnits);
+  let operatorInvestmentMinor = 0;
+  if (investmentMinor < 0) {
+    steps.push(
+      `${step++}. Investment Loss = ${format(investmentMinor)}, borne entirely by the risk fund${usesMudharabah ? '; the operator as mudarib loses only its effort' : ''}`
+    );
+  } else if (usesMudharabah) {
+    const ratio = input.mudharabahShareRatio as number;
+    operatorInvestmentMinor = Math.round(investmentMinor * ratio);
+    steps.push(
+      `${step++}. Investment Profit = ${format(investmentMinor)}: operator as mudarib ${(ratio * 100).toFixed(2)}% = ${format(operatorInvestmentMinor)}, ` +
+        `risk fund ${format(investmentMinor - operatorInvestmentMinor)} (profit shared by ratio, never a fixed amount)`
+    );
+  } else {
+    steps.push(
+      `${step++}. Investment Profit = ${format(investmentMinor)}, all belonging to the risk fund (the operator is paid by its Wakalah fee only)`
+    );
+  }
+  const fundInvestmentMinor = investmentMinor - operatorInvestmentMinor;
+
+  const fundResultMinor = underwritingMinor + fundInvestmentMinor;
+  const isDeficit = fundResultMinor < 0;
+  steps.push(
+    `${step++}. Fund ${isDeficit ? 'Deficit' : 'Surplus'} = ${format(underwritingMinor)} + ${format(fundInvestmentMinor)} = ${format(fundResultMinor)}`
+  );
+
+  // Step 5: Deficit met from reserves then Qard, or surplus repays Qard then is distributed
+  const openingReserveMinor = toMinor(input.openingReserve, minorUnits);
+  const priorQardMinor = toMinor(input.qardOutstanding, minorUnits);
+  let reserveUsedMinor = 0;
+  let qardProvidedMinor = 0;
+  let qardRepaidMinor = 0;
+  let distributedMinor = 0;
+  let retainedMinor = 0;
+  let distribution: TakafulParticipantShare[] | undefined;
+  let participantLines: string[] = [];
+
+  if (isDeficit) {
+    reserveUsedMinor = Math.min(-fundResultMinor, openingReserveMinor);
+    qardProvidedMinor = -fundResultMinor - reserveUsedMinor;
+    if (reserveUsedMinor > 0) {
+      steps.push(
+        `${step++}. Reserve Used = ${format(reserveUsedMinor)} of the fund's retained surplus`
+      );
+    }
+    if (qardProvidedMinor > 0) {
+      steps.push(
+        `${step++}. Qard al-Hasan from Operator = ${format(qardProvidedMinor)}, interest-free and repaid at face value from future surpluses only`
+      );
+    }
+    steps.push(`${step++}. No surplus to distribute; participants' claims are still paid in full`);
+  } else {
+    qardRepaidMinor = Math.min(fundResultMinor, priorQardMinor);
+    if (qardRepaidMinor > 0) {
+      steps.push(
+        `${step++}. Qard Repaid = ${format(qardRepaidMinor)} to the operator from surplus, at face value with no increase`
+      );
+    }
+    const netSurplusMinor = fundResultMinor - qardRepaidMinor;
+    distributedMinor = Math.round(netSurplusMinor * input.surplusDistributionRatio);
+
+    if (input.participants) {
+      const eligible = input.participants.map(
+        (p) => input.distributionMethod === 'pro_rata' || p.claims === 0
+      );
+      const weights = input.participants.map((p, i) =>
+        eligible[i] ? toMinor(p.contribution, minorUnits) : 0
+      );
+      const noneEligible = !eligible.some(Boolean);
+      if (noneEligible) {
+        distributedMinor = 0;
+      }
+      const shares =
+        distributedMinor > 0
+          ? allocateMinor(distributedMinor, weights)
+          : input.participants.map(() => 0);
+      distribution = input.participants.map((p, i) => ({
+        name: p.name,
+        contribution: p.contribution,
+        claims: p.claims,
+        eligible: eligible[i],
+        surplusShare: fromMinor(shares[i], minorUnits),
+      }));
+      participantLines = input.participants.map((p, i) =>
+        eligible[i]
+          ? `   ${p.name}: ${p.contribution} contributed → ${format(shares[i])}`
+          : `   ${p.name}: not eligible (claims of ${p.claims} paid in the period)`
+      );
+      if (distributedMinor > 0) {
+        participantLines.push(`   ${reconciliationLine(shares, distributedMinor, minorUnits)}`);
+      } else if (noneEligible) {
+        participantLines.push('   No participant is eligible, so the whole surplus is retained');
+      }
+    }
+    retainedMinor = netSurplusMinor - distributedMinor;
+
+    steps.push(
+      `${step++}. Surplus Distributed = ${format(netSurplusMinor)} × ${(input.surplusDistributionRatio * 100).toFixed(2)}% = ${format(distributedMinor)}, ` +
+        `retained in the fund ${format(retainedMinor)} (the surplus belongs to participants, the operator takes no share)`,
+      ...participantLines
+    );
+  }
+
+  const closingReserveMinor = openingReserveMinor - reserveUsedMinor + retainedMinor;
+  const qardOutstandingMinor = priorQardMinor - qardRepaidMinor + qardProvidedMinor;
+  const operatorIncomeMinor = feeMinor + operatorInvestmentMinor;
+  steps.push(
+    `${step++}. Operator Income = ${format(feeMinor)} (Wakalah fee) + ${format(operatorInvestmentMinor)} (Mudharabah share) = ${format(operatorIncomeMinor)}`,
+    `${step++}. Closing Reserve = ${format(closingReserveMinor)}, Qard Outstanding = ${format(qardOutstandingMinor)}`
+  );
+
+  return {
+    type: 'takaful',
+    currency: input.currency,
+    model: input.model,
+    contributions: input.contributions,
+    wakalahFee: fromMinor(feeMinor, minorUnits),
+    netContributions: fromMinor(netContributionsMinor, minorUnits),
+    claimsPaid: input.claimsPaid,
+    netRetakafulCost: fromMinor(netRetakafulMinor, minorUnits),
+    underwritingResult: fromMinor(underwritingMinor, minorUnits),
+    investmentProfit: input.investmentProfit,
+    operatorInvestmentShare: fromMinor(operatorInvestmentMinor, minorUnits),
+    fundInvestmentShare: fromMinor(fundInvestmentMinor, minorUnits),
+    fundResult: fromMinor(fundResultMinor, minorUnits),
+    isDeficit,
+    reserveUsed: fromMinor(reserveUsedMinor, minorUnits),
+    qardProvided: fromMinor(qardProvidedMinor, minorUnits),
+    qardRepaid: fromMinor(qardRepaidMinor, minorUnits),
+    qardOutstanding: fromMinor(qardOutstandingMinor, minorUnits),
+    surplusDistributed: fromMinor(distributedMinor, minorUnits),
+    surplusRetained: fromMinor(retainedMinor, minorUnits),
+    closingReserve: fromMinor(closingReserveMinor, minorUnits),
+    operatorIncome: fromMinor(operatorIncomeMinor, minorUnits),
+    ...(distribution && { distribution }),
+    explanation:
+      "In Takaful, participants donate (tabarru') to a risk fund they own, which pays their claims, so there is no sale of risk and no gharar or maisir. The operator manages the fund for a Wakalah fee fixed in advance and/or a Mudharabah share of investment profit, and takes no share of the underwriting surplus. A deficit is covered from the fund's reserves and then by an interest-free Qard al-Hasan from the operator, repaid only from future surpluses; a surplus repays any Qard first and then belongs to the participants, distributed to them or retained in the fund.",
+    calculationSteps: steps,
+  };
+}
@@ -0,0 +1,150 @@
+import { ZakatInput } from '../schemas/index.js';
+import { minorUnitsFor, roundMoney } from '../utils/money.js';
+
+// Nisab thresholds in grams (85g gold / 595g silver, per majority opinion)
+export const GOLD_NISAB_GRAMS = 85;
+export const SILVER_NISAB_GRAMS = 595;
+export const ZAKAT_RATE = 0.025;
+
+export interface ZakatAssetBreakdown {
+  category: string;
+  value: number;
+}
+
+export interface ZakatResult {
+  type: 'zakat';
+  currency?: string;
+  assets: ZakatAssetBreakdown[];
+  totalAssets: number;
+  liabilities: number;
+  zakatableWealth: number;
+  nisabBasis: ZakatInput['nisabBasis'];
+  nisabThreshold: number;
+  nisabMet: boolean;
+  haulCompleted: boolean;
+  zakatDue: number;
+  explanation: string;
+  calculationSteps: string[];
+}
+
+/**
+ * Calculate Zakat due on categorized wealth
+ *
+ * Islamic Finance Rule:
+ * - Zakat is due at 2.5% on net zakatable wealth (assets minus short-term debts)
+ * - Only when net wealth meets the nisab (85g gold or 595g silver equivalent)
+ * - And only after it has been held for one full lunar year (haul)
+ *
+ * @param input - Zakat calculation parameters
+ * @returns Zakatable wealth, nisab check and Zakat due with step-by-step explanation
+ */
+export function calculateZakat(input: ZakatInput): ZakatResult {
+  const steps: string[] = [];
+  const minorUnits = minorUnitsFor(input.currency);
+  const { assets } = input;
+
+  // Step 1: Validate metal prices
+  if (assets.goldGrams > 0 && !input.goldPricePerGram) {
+    throw new Error('goldPricePerGram is required to value gold holdings');
+  }
+  if (assets.silverGrams > 0 && !input.silverPricePerGram) {
+    throw new Error('silverPricePerGram is required to value silver holdings');
+  }
+  const nisabPrice =
+    input.nisabBasis === 'gold' ? input.goldPricePerGram : input.silverPricePerGram;
+  if (!nisabPrice) {
+    throw new Error(
+      `${input.nisabBasis}PricePerGram is required for the ${input.nisabBasis} nisab`
+    );
+  }
+
+  // Step 2: Value each asset category
+  const goldValue = roundMoney(assets.goldGrams * (input.goldPricePerGram ?? 0), minorUnits);
+  const silverValue = roundMoney(assets.silverGrams * (input.silverPricePerGram ?? 0), minorUnits);
+  const breakdown: ZakatAssetBreakdown[] = [
+    { category: 'cash', value: assets.cash },
+    { category: 'gold', value: goldValue },
+    { category: 'silver', value: silverValue },
+    { category: 'trade_goods', value: assets.tradeGoods },
+    { category: 'receivables', value: assets.receivables },
+    { category: 'investments', value: assets.investments },
+  ].filter((a) => a.value > 0);
+
+  steps.push('1. Zakatable Assets:');
+  if (goldValue > 0) {
+    steps.push(
+      `   Gold: ${assets.goldGrams}g × ${input.goldPricePerGram} = ${goldValue.toFixed(minorUnits)}`
+    );
+  }
+  if (silverValue > 0) {
+    steps.push(
+      `   Silver: ${assets.silverGrams}g × ${input.silverPricePerGram} = ${silverValue.toFixed(minorUnits)}`
+    );
+  }
+  breakdown
+    .filter((a) => a.category !== 'gold' && a.category !== 'silver')
+    .forEach((a) => steps.push(`   ${formatCategory(a.category)}: ${a.value.toFixed(minorUnits)}`));
+
+  const totalAssets = roundMoney(
+    breakdown.reduce((sum, a) => sum + a.value, 0),
+    minorUnits
+  );
+  steps.push(`2. Total Zakatable Assets = ${totalAssets.toFixed(minorUnits)}`);
+
+  // Step 3: Deduct short-term liabilities
+  const zakatableWealth = Math.max(0, roundMoney(totalAssets - input.liabilities, minorUnits));
+  steps.push(
+    `3. Net Zakatable Wealth = ${totalAssets.toFixed(minorUnits)} - ${input.liabilities} (short-term liabilities) = ${zakatableWealth.toFixed(minorUnits)}`
+  );
+
+  // Step 4: Compare against nisab
+  const nisabGrams = input.nisabBasis === 'gold' ? GOLD_NISAB_GRAMS : SILVER_NISAB_GRAMS;
+  const nisabThreshold = roundMoney(nisabGrams * nisabPrice, minorUnits);
+  const nisabMet = zakatableWealth >= nisabThreshold;
+  steps.push(
+    `4. Nisab (${input.nisabBasis}) = ${nisabGrams}g × ${nisabPrice} = ${nisabThreshold.toFixed(minorUnits)} → ${nisabMet ? 'met' : 'NOT met'}`
+  );
+
+  // Step 5: Check haul and compute Zakat
+  let zakatDue = 0;
+  let explanation: string;
+  if (!nisabMet) {
+    steps.push('5. Zakat Due = 0 (wealth is below nisab)');
+    explanation =
+      'Zakat is not due because net zakatable wealth is below the nisab threshold. Zakat only becomes obligatory once wealth reaches nisab and is held for a full lunar year.';
+  } else if (!input.haulCompleted) {
+    steps.push('5. Zakat Due = 0 (one lunar year (haul) has not yet passed)');
+    explanation =
+      'Wealth meets the nisab, but Zakat is not yet due because it has not been held for one full lunar year (haul). Zakat becomes due once the haul completes with wealth still at or above nisab.';
+  } else {
+    zakatDue = roundMoney(zakatableWealth * ZAKAT_RATE, minorUnits);
+    steps.push(
+      `5. Zakat Due = ${zakatableWealth.toFixed(minorUnits)} × 2.5% = ${zakatDue.toFixed(minorUnits)}`
+    );
+    explanation =
+      'Zakat is due at 2.5% of net zakatable wealth because it meets the nisab threshold and has been held for one full lunar year (haul). Short-term debts due within the year are deducted before applying the rate.';
+  }
+
+  return {
+    type: 'zakat',
+    currency: input.currency,
+    assets: breakdown,
+    totalAssets,
+    liabilities: input.liabilities,
+    zakatableWealth,
+    nisabBasis: input.nisabBasis,
+    nisabThreshold,
+    nisabMet,
+    haulCompleted: input.haulCompleted,
+    zakatDue,
+    explanation,
+    calculationSteps: steps,
+  };
+}
+
+function formatCategory(category: string): string {
+  return category
+    .split('_')
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+    .join(' ');
+}
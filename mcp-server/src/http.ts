@@ -0,0 +1,74 @@
+import { createServer as createHttpServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { createServer } from './server.js';
+
+export const MCP_ENDPOINT = '/mcp';
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
+
+/**
+ * Handle one MCP request in stateless mode
+ *
+ * No session is kept, so any replica can answer any request and backend
+ * instances can share the calculator behind a plain load balancer.
+ */
+async function handleMcpRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  if (req.method !== 'POST') {
+    // Stateless servers have no session stream to open (GET) or terminate (DELETE)
+    sendJsonRpcError(res, 405, 'Method not allowed');
+    return;
+  }
+
+  const server = createServer();
+  const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+
+  res.on('close', () => {
+    transport.close();
+    server.close();
+  });
+
+  try {
+    await server.connect(transport);
+    await transport.handleRequest(req, res);
+  } catch (error) {
+    console.error('MCP request error:', error);
+    if (!res.headersSent) {
+      sendJsonRpcError(res, 500, 'Internal server error');
+    }
+  }
+}
+
+/**
+ * Start the Streamable HTTP transport
+ *
+ * Serves MCP on POST /mcp and a liveness probe on GET /health.
+ *
+ * @param port - Port to listen on
+ * @param host - Interface to bind (0.0.0.0 inside containers)
+ */
+export function startHttpServer(port: number, host: string): Promise<Server> {
+  const httpServer = createHttpServer((req, res) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+    if (pathname === '/health' && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 'ok' }));
+      return;
+    }
+
+    if (pathname !== MCP_ENDPOINT) {
+      sendJsonRpcError(res, 404, 'Not found');
+      return;
+    }
+
+    void handleMcpRequest(req, res);
+  });
+
+  return new Promise((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(port, host, () => resolve(httpServer));
+  });
+}
@@ -1,41 +1,100 @@
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { registerTools } from './tools/index.js';
+import { createServer, TOOL_NAMES } from './server.js';
+import { MCP_ENDPOINT, startHttpServer } from './http.js';
 
 /**
  * Islamic Finance MCP Calculator Server
  *
- * Provides tools for calculating profit/loss distribution in Islamic finance contracts:
+ * Provides tools for calculating profit/loss distribution and pricing in Islamic finance contracts:
  * - Musharakah (شراكة - Partnership): Partners share both capital and profits/losses
  * - Mudharabah (مضاربة): Capital provider and entrepreneur partnership
+ * - Mudharabah Pool: Pooled deposits with tenor weightages and PER/IRR reserves
+ * - Murabaha (مرابحة - Cost-Plus Sale): Fixed selling price and installment schedule
+ * - Ijarah (إجارة - Lease): Rental schedule with end-of-lease ownership handling
+ * - Diminishing Musharakah (مشاركة متناقصة): Co-ownership buyout with rent on the bank's share
+ * - Zakat (زكاة): 2.5% due on net wealth above nisab after one lunar year
+ * - Scenario Analysis: what-if matrix of Musharakah/Mudharabah outcomes across profit levels and ratios
+ * - Salam (سلم - Forward Sale): Price paid upfront for later delivery, with parallel Salam
+ * - Istisna' (استصناع - Manufacturing): Milestone payments financed through a parallel Istisna'
+ * - Sukuk (صكوك): Ijarah rental or Musharakah/Mudharabah profit distributions and redemption per certificate
+ * - Takaful (تكافل): Risk fund surplus/deficit under Wakalah and/or Mudharabah, with operator Qard
+ * - Qard al-Hasan (قرض حسن): Principal-only repayment schedule with an actual-cost admin fee
+ * - Stock screening: AAOIFI ratio and business activity screens with dividend/capital gain purification
  *
  * All calculations follow Shariah-compliant principles.
+ *
+ * Also serves the contract glossary and docs/calculations + docs/principles as
+ * resources, and the explain-contract and check-structure prompts.
+ *
+ * Transports (select with --transport or MCP_TRANSPORT):
+ * - stdio (default): spawned as a child process by a single client
+ * - http: Streamable HTTP on --port / MCP_SERVER_PORT (default 3002), shared by many clients
  */
 
-// Initialize MCP server with new API
-const server = new McpServer({
-  name: 'islamic-finance-calculator',
-  version: '1.0.0',
-});
+type TransportMode = 'stdio' | 'http';
 
-// Register all calculation tools
-registerTools(server);
+/**
+ * Read a `--name value` or `--name=value` command-line option
+ */
+function readOption(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  const inline = args.find((arg) => arg.startsWith(`--${name}=`));
+  if (inline) {
+    return inline.slice(name.length + 3);
+  }
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
 
-// Start server with stdio transport
-async function main() {
+function resolveTransportMode(): TransportMode {
+  const mode = readOption('transport') ?? process.env.MCP_TRANSPORT ?? 'stdio';
+  if (mode !== 'stdio' && mode !== 'http') {
+    throw new Error(`Unknown transport "${mode}", expected "stdio" or "http"`);
+  }
+  return mode;
+}
+
+async function startStdio(): Promise<void> {
+  const server = createServer();
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error('Islamic Finance MCP Calculator server started');
-  console.error('Available tools: calculate_musharakah, calculate_mudharabah');
+  console.error(`Available tools: ${TOOL_NAMES.join(', ')}`);
+
+  // Graceful shutdown
+  process.stdin.on('close', () => {
+    console.error('Islamic Finance MCP Calculator server closed');
+    server.close();
+  });
 }
 
-// Graceful shutdown
-process.stdin.on('close', () => {
-  console.error('Islamic Finance MCP Calculator server closed');
-  server.close();
-});
+async function startHttp(): Promise<void> {
+  const port = Number(readOption('port') ?? process.env.MCP_SERVER_PORT ?? 3002);
+  const host = readOption('host') ?? process.env.MCP_SERVER_HOST ?? '0.0.0.0';
+  const httpServer = await startHttpServer(port, host);
+  console.error(
+    `Islamic Finance MCP Calculator server listening on http://${host}:${port}${MCP_ENDPOINT}`
+  );
+  console.error(`Available tools: ${TOOL_NAMES.join(', ')}`);
+
+  // Graceful shutdown
+  const shutdown = () => {
+    console.error('Islamic Finance MCP Calculator server closed');
+    httpServer.close(() => process.exit(0));
+  };
+  process.on('SIGTERM', shutdown);
+  process.on('SIGINT', shutdown);
+}
 
 // Start the server
+async function main() {
+  if (resolveTransportMode() === 'http') {
+    await startHttp();
+  } else {
+    await startStdio();
+  }
+}
+
 main().catch((error) => {
   console.error('Server error:', error);
   process.exit(1);
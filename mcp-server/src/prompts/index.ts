@@ -0,0 +1,129 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
+import { z } from 'zod';
+import { GLOSSARY, findGlossaryEntry, formatGlossaryEntry } from '../resources/glossary.js';
+import { docUri, listDocs, type DocEntry } from '../resources/docs.js';
+import { GLOSSARY_URI } from '../resources/index.js';
+
+const contractArgument = completable(
+  z.string().describe('Contract type, e.g. "murabaha", "diminishing musharakah" or "IMBT"'),
+  (value) => GLOSSARY.map((entry) => entry.id).filter((id) => id.startsWith(value.toLowerCase()))
+);
+
+function resourceLink(doc: DocEntry) {
+  return {
+    role: 'user' as const,
+    content: {
+      type: 'resource_link' as const,
+      uri: docUri(doc),
+      name: doc.title,
+      mimeType: 'text/markdown',
+    },
+  };
+}
+
+/**
+ * Register reusable prompts for MCP clients
+ *
+ * - explain-contract: explain a contract type using the glossary and calculation docs
+ * - check-structure: review a proposed deal structure against Shariah principles
+ *
+ * @param server - McpServer instance to register prompts with
+ */
+export function registerPrompts(server: McpServer): void {
+  // Register contract explanation prompt
+  server.registerPrompt(
+    'explain-contract',
+    {
+      title: 'Explain an Islamic Finance Contract',
+      description:
+        'Explain how a contract type works, its Shariah rules and how its profit, price or rental is calculated',
+      argsSchema: {
+        contract: contractArgument,
+        audience: z
+          .enum(['customer', 'analyst'])
+          .optional()
+          .describe('Who the explanation is for (default customer)'),
+      },
+    },
+    async ({ contract, audience = 'customer' }) => {
+      const entry = findGlossaryEntry(contract);
+      const reader = audience === 'analyst' ? 'an analyst' : 'a customer';
+      const style =
+        audience === 'analyst'
+          ? 'Be precise and cite the Shariah rule behind each point; include a worked numeric example.'
+          : 'Use plain language, avoid jargon and include a short numeric example.';
+
+      const text = [
+        `Explain the Islamic finance contract "${entry?.term ?? contract}" for ${reader}.`,
+        'Cover who provides capital or the asset, who bears risk, how the return is earned and how profit, price or rental is calculated.',
+        style,
+        entry
+          ? `Reference glossary entry:\n\n${formatGlossaryEntry(entry)}`
+          : `This contract is not in the glossary (${GLOSSARY_URI}); say so if it is not a recognised Islamic finance contract.`,
+        entry?.tool
+          ? `Use the \`${entry.tool}\` tool for any worked example so the numbers are exact.`
+          : '',
+      ]
+        .filter(Boolean)
+        .join('\n\n');
+
+      // Link calculation docs for this contract (e.g. musharakah-profit-loss-distribution)
+      const docs = entry
+        ? (await listDocs('calculations')).filter((doc) => doc.slug.startsWith(entry.id))
+        : [];
+
+      return {
+        description: `Explain ${entry?.term ?? contract}`,
+        messages: [{ role: 'user', content: { type: 'text', text } }, ...docs.map(resourceLink)],
+      };
+    }
+  );
+
+  // Register structure review prompt
+  server.registerPrompt(
+    'check-structure',
+    {
+      title: 'Check a Deal Structure for Shariah Compliance',
+      description:
+        'Review a proposed financing or investment structure for riba, gharar and maysir and the rules of its contract type',
+      argsSchema: {
+        structure: z
+          .string()
+          .describe(
+            'Description of the proposed structure: parties, cash flows, pricing and terms'
+          ),
+        contract: contractArgument.optional(),
+      },
+    },
+    async ({ structure, contract }) => {
+      const entry = contract ? findGlossaryEntry(contract) : undefined;
+
+      const text = [
+        'Review the following Islamic finance structure for Shariah compliance.',
+        `Structure:\n${structure}`,
+        [
+          'Check for:',
+          '1. Riba: any guaranteed return on capital or increase on a debt, including late-payment charges kept as income',
+          '2. Gharar: excessive uncertainty in the subject matter, price or delivery',
+          '3. Maysir: gambling or speculative payoffs',
+          '4. Ownership and risk: whether each party owns and bears the risk of what it sells or leases',
+          '5. Profit and loss sharing: ratios agreed in advance, losses borne by capital',
+        ].join('\n'),
+        entry
+          ? `The structure is presented as ${entry.term}. Apply its rules:\n\n${formatGlossaryEntry(entry)}`
+          : `Identify the closest contract type from the glossary (${GLOSSARY_URI}) and apply its rules.`,
+        'Conclude with COMPLIANT or FLAGGED, list each violation with the rule it breaks, and suggest a compliant alternative. ' +
+          'Use the calculate_* tools to verify any amounts.',
+      ].join('\n\n');
+
+      return {
+        description: `Shariah review${entry ? ` of ${entry.term}` : ''}`,
+        messages: [
+          { role: 'user', content: { type: 'text', text } },
+          ...(await listDocs('principles')).map(resourceLink),
+        ],
+      };
+    }
+  );
+}
@@ -0,0 +1,102 @@
+import { readdir, readFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+
+/**
+ * Knowledge-base collections exposed as resources, as subdirectories of the docs root
+ */
+export const DOC_COLLECTIONS = ['calculations', 'principles'] as const;
+export type DocCollection = (typeof DOC_COLLECTIONS)[number];
+
+export interface DocEntry {
+  collection: DocCollection;
+  slug: string;
+  title: string;
+  path: string;
+}
+
+/**
+ * Docs root: MCP_DOCS_DIR, or the repository's docs/ directory (three levels up
+ * from both src/resources and dist/resources)
+ */
+function docsRoot(): string {
+  return process.env.MCP_DOCS_DIR
+    ? resolve(process.env.MCP_DOCS_DIR)
+    : fileURLToPath(new URL('../../../docs/', import.meta.url));
+}
+
+/**
+ * Turn a file name into a URI-safe slug, dropping the Notion export id suffix
+ * ("Gharar (Uncertainty) - Risk ... 2e142f0e....md" -> "gharar-uncertainty-risk-...")
+ */
+function slugify(fileName: string): string {
+  return fileName
+    .replace(/\.md$/i, '')
+    .replace(/\s+[0-9a-f]{32}$/i, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+function titleOf(text: string, fallback: string): string {
+  const heading = text.match(/^#\s+(.+)$/m);
+  return heading ? heading[1].trim() : fallback;
+}
+
+/**
+ * List the markdown documents currently present in a collection
+ *
+ * A missing directory yields no documents, so a server deployed without the
+ * docs still serves tools and the glossary.
+ */
+async function listCollection(collection: DocCollection): Promise<DocEntry[]> {
+  const dir = join(docsRoot(), collection);
+  let fileNames: string[];
+  try {
+    fileNames = await readdir(dir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const entries = await Promise.all(
+    fileNames
+      .filter((fileName) => fileName.toLowerCase().endsWith('.md'))
+      .sort()
+      .map(async (fileName) => {
+        const path = join(dir, fileName);
+        const slug = slugify(fileName);
+        return { collection, slug, title: titleOf(await readFile(path, 'utf8'), slug), path };
+      })
+  );
+  return entries;
+}
+
+export async function listDocs(collection?: DocCollection): Promise<DocEntry[]> {
+  const collections = collection ? [collection] : DOC_COLLECTIONS;
+  return (await Promise.all(collections.map(listCollection))).flat();
+}
+
+export function isDocCollection(value: string): value is DocCollection {
+  return (DOC_COLLECTIONS as readonly string[]).includes(value);
+}
+
+export function docUri(entry: DocEntry): string {
+  return `docs://${entry.collection}/${entry.slug}`;
+}
+
+/**
+ * Read a document by collection and slug, or undefined if it is not present
+ */
+export async function readDoc(
+  collection: string,
+  slug: string
+): Promise<{ entry: DocEntry; text: string } | undefined> {
+  if (!isDocCollection(collection)) {
+    return undefined;
+  }
+  const entry = (await listCollection(collection)).find((doc) => doc.slug === slug);
+  return entry && { entry, text: await readFile(entry.path, 'utf8') };
+}
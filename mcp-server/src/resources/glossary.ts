@@ -0,0 +1,239 @@
+/**
+ * Glossary of Islamic finance contract types
+ *
+ * Served as the glossary://contract-types resource and used by the
+ * explain-contract prompt. `tool` names the calculator that prices the
+ * contract, when this server has one.
+ */
+export interface GlossaryEntry {
+  id: string;
+  term: string;
+  arabic: string;
+  category: 'partnership' | 'sale' | 'lease' | 'agency' | 'loan' | 'security' | 'obligation';
+  definition: string;
+  shariahRules: string[];
+  aliases?: string[];
+  tool?: string;
+}
+
+export const GLOSSARY: GlossaryEntry[] = [
+  {
+    id: 'musharakah',
+    term: 'Musharakah',
+    arabic: 'شراكة',
+    category: 'partnership',
+    definition:
+      'Partnership in which all partners contribute capital and may share in management of the venture.',
+    shariahRules: [
+      'Profit is shared by a pre-agreed ratio, never as a fixed amount or a percentage of capital',
+      'Losses are shared strictly in proportion to capital contributed',
+    ],
+    aliases: ['partnership', 'shirkah'],
+    tool: 'calculate_musharakah',
+  },
+  {
+    id: 'diminishing_musharakah',
+    term: 'Diminishing Musharakah',
+    arabic: 'مشاركة متناقصة',
+    category: 'partnership',
+    definition:
+      "Co-ownership in which the customer buys the financier's share unit by unit while paying rent on the share the financier still owns.",
+    shariahRules: [
+      'Partnership, unit sales and lease must be separate contracts, not conditions of one another',
+      'Units are bought at an agreed or market price; rent applies only to the financier-owned share',
+    ],
+    aliases: ['musharakah mutanaqisah', 'declining partnership'],
+    tool: 'calculate_diminishing_musharakah',
+  },
+  {
+    id: 'mudharabah',
+    term: 'Mudharabah',
+    arabic: 'مضاربة',
+    category: 'partnership',
+    definition:
+      'Partnership in which the capital provider (Rabb al-Mal) supplies the capital and the entrepreneur (Mudarib) supplies labour and expertise.',
+    shariahRules: [
+      'Profit is shared by a pre-agreed ratio after capital impaired by prior losses is restored',
+      "Financial loss falls on the capital provider unless caused by the Mudarib's negligence or misconduct",
+    ],
+    aliases: ['mudarabah', 'qirad'],
+    tool: 'calculate_mudharabah',
+  },
+  {
+    id: 'mudharabah_pool',
+    term: 'Mudharabah Investment Pool',
+    arabic: 'مضاربة مشتركة',
+    category: 'partnership',
+    definition:
+      'Pooled investment accounts in which many depositors are Rabb al-Mal and the bank is Mudarib, with profit weighted by deposit tenor.',
+    shariahRules: [
+      'Weightages must be disclosed in advance and cannot favour shorter tenors',
+      'Reserves (PER, IRR) are appropriated under disclosed policies with depositor consent',
+    ],
+    aliases: ['investment account', 'profit sharing investment account', 'psia'],
+    tool: 'calculate_mudharabah_pool',
+  },
+  {
+    id: 'murabaha',
+    term: 'Murabaha',
+    arabic: 'مرابحة',
+    category: 'sale',
+    definition:
+      'Cost-plus sale in which the seller discloses its cost and sells the asset at an agreed markup, usually on deferred payment.',
+    shariahRules: [
+      'The seller must own and bear the risk of the asset before selling it',
+      'The selling price is fixed at contract; it cannot grow with late payment or a longer tenor',
+    ],
+    aliases: ['cost plus', 'cost-plus sale', 'murabahah'],
+    tool: 'calculate_murabaha',
+  },
+  {
+    id: 'ijarah',
+    term: 'Ijarah',
+    arabic: 'إجارة',
+    category: 'lease',
+    definition: 'Lease of the usufruct of an asset for an agreed rental over an agreed period.',
+    shariahRules: [
+      'The lessor keeps ownership and bears ownership risk and major maintenance',
+      'Rental may be reviewed at agreed periods but must be known for each period in advance',
+    ],
+    aliases: ['lease', 'operating ijarah', 'ijara'],
+    tool: 'calculate_ijarah',
+  },
+  {
+    id: 'ijarah_muntahia_bittamleek',
+    term: 'Ijarah Muntahia Bittamleek',
+    arabic: 'إجارة منتهية بالتمليك',
+    category: 'lease',
+    definition:
+      'Lease ending with transfer of ownership to the lessee by gift or sale under a separate promise.',
+    shariahRules: [
+      'The transfer must be a separate contract executed at the end, not a condition of the lease',
+    ],
+    aliases: ['imbt', 'lease ending with ownership', 'ijarah wa iqtina'],
+    tool: 'calculate_ijarah',
+  },
+  {
+    id: 'salam',
+    term: 'Salam',
+    arabic: 'سلم',
+    category: 'sale',
+    definition:
+      'Forward sale of a commodity with specified quantity, quality and delivery date, paid for in full at contract.',
+    shariahRules: [
+      'The full price must be paid at the time of contract',
+      'The goods must be fungible and precisely specified',
+    ],
+    aliases: ['bai salam', 'forward sale'],
+    tool: 'calculate_salam',
+  },
+  {
+    id: 'istisna',
+    term: "Istisna'",
+    arabic: 'استصناع',
+    category: 'sale',
+    definition:
+      'Order to manufacture or construct an asset to specification, with price paid in advance, in instalments or on delivery.',
+    shariahRules: ['Specifications, price and delivery must be agreed at contract'],
+    aliases: ['istisnaa', 'manufacturing contract'],
+    tool: 'calculate_istisna',
+  },
+  {
+    id: 'wakalah',
+    term: 'Wakalah',
+    arabic: 'وكالة',
+    category: 'agency',
+    definition: 'Agency in which an agent acts for a principal, for a fixed fee or without charge.',
+    shariahRules: [
+      'The agent fee is fixed in advance; profit beyond the expected return may go to the agent as incentive',
+    ],
+    aliases: ['agency'],
+  },
+  {
+    id: 'qard_al_hasan',
+    term: 'Qard al-Hasan',
+    arabic: 'قرض حسن',
+    category: 'loan',
+    definition: 'Benevolent loan repaid at face value with no return to the lender.',
+    shariahRules: [
+      'Any stipulated increase over the principal is riba',
+      'Only actual administrative costs may be recovered',
+    ],
+    aliases: ['qard hasan', 'benevolent loan'],
+    tool: 'calculate_qard_hasan',
+  },
+  {
+    id: 'sukuk',
+    term: 'Sukuk',
+    arabic: 'صكوك',
+    category: 'security',
+    definition:
+      'Certificates representing undivided ownership in underlying assets, usufruct or a venture, paying returns from those assets.',
+    shariahRules: [
+      'Returns must come from the underlying assets, not a guaranteed interest on principal',
+    ],
+    aliases: ['islamic bonds', 'sukuk al-ijarah'],
+    tool: 'calculate_sukuk',
+  },
+  {
+    id: 'takaful',
+    term: 'Takaful',
+    arabic: 'تكافل',
+    category: 'agency',
+    definition:
+      'Cooperative insurance in which participants donate (tabarru) to a common fund that pays claims, managed by an operator.',
+    shariahRules: [
+      "The operator is paid by wakalah fee or mudharabah share, not by the fund's underwriting surplus",
+    ],
+    aliases: ['islamic insurance'],
+    tool: 'calculate_takaful',
+  },
+  {
+    id: 'zakat',
+    term: 'Zakat',
+    arabic: 'زكاة',
+    category: 'obligation',
+    definition:
+      'Obligatory almsgiving of 2.5% on net zakatable wealth above the nisab held for one lunar year (haul).',
+    shariahRules: [
+      'Nisab is 85g of gold or 595g of silver',
+      'Short-term liabilities due within the year are deducted',
+    ],
+    aliases: ['zakah', 'almsgiving'],
+    tool: 'calculate_zakat',
+  },
+];
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z]/g, '');
+
+/**
+ * Find a glossary entry by id, term or alias, ignoring case, spacing and punctuation
+ */
+export function findGlossaryEntry(name: string): GlossaryEntry | undefined {
+  const key = normalize(name);
+  return GLOSSARY.find((entry) =>
+    [entry.id, entry.term, ...(entry.aliases ?? [])].some(
+      (candidate) => normalize(candidate) === key
+    )
+  );
+}
+
+/**
+ * Render one entry as a markdown section
+ */
+export function formatGlossaryEntry(entry: GlossaryEntry): string {
+  const lines = [
+    `## ${entry.term} (${entry.arabic})`,
+    '',
+    `**Category**: ${entry.category}`,
+    '',
+    entry.definition,
+    '',
+    '**Shariah rules**:',
+    ...entry.shariahRules.map((rule) => `- ${rule}`),
+  ];
+  if (entry.tool) {
+    lines.push('', `**Calculator tool**: \`${entry.tool}\``);
+  }
+  return lines.join('\n');
+}
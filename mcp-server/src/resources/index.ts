@@ -0,0 +1,78 @@
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { GLOSSARY, formatGlossaryEntry } from './glossary.js';
+import { DOC_COLLECTIONS, docUri, listDocs, readDoc, isDocCollection } from './docs.js';
+
+export const GLOSSARY_URI = 'glossary://contract-types';
+
+/**
+ * Register the Islamic finance knowledge base as MCP resources
+ *
+ * - glossary://contract-types: contract types with Shariah rules and calculator tools
+ * - docs://{collection}/{slug}: markdown documents under docs/calculations and
+ *   docs/principles, listed from the files present at request time
+ *
+ * @param server - McpServer instance to register resources with
+ */
+export function registerResources(server: McpServer): void {
+  // Register contract type glossary
+  server.registerResource(
+    'contract-glossary',
+    GLOSSARY_URI,
+    {
+      title: 'Islamic Finance Contract Glossary',
+      description:
+        'Contract types (Musharakah, Mudharabah, Murabaha, Ijarah, ...) with Arabic terms, key Shariah rules and the calculator tool for each',
+      mimeType: 'text/markdown',
+    },
+    async (uri) => ({
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: 'text/markdown',
+          text: ['# Islamic Finance Contract Glossary', ...GLOSSARY.map(formatGlossaryEntry)].join(
+            '\n\n'
+          ),
+        },
+      ],
+    })
+  );
+
+  // Register knowledge base documents
+  server.registerResource(
+    'knowledge-docs',
+    new ResourceTemplate('docs://{collection}/{slug}', {
+      list: async () => ({
+        resources: (await listDocs()).map((doc) => ({
+          uri: docUri(doc),
+          name: doc.title,
+          description: `Islamic finance ${doc.collection} reference`,
+          mimeType: 'text/markdown',
+        })),
+      }),
+      complete: {
+        collection: (value) => DOC_COLLECTIONS.filter((c) => c.startsWith(value)),
+        slug: async (value, context) => {
+          const collection = context?.arguments?.collection;
+          const docs = await listDocs(
+            collection && isDocCollection(collection) ? collection : undefined
+          );
+          return docs.map((doc) => doc.slug).filter((slug) => slug.startsWith(value));
+        },
+      },
+    }),
+    {
+      title: 'Islamic Finance Knowledge Base',
+      description: 'Calculation methods and Shariah principles documents',
+      mimeType: 'text/markdown',
+    },
+    async (uri, { collection, slug }) => {
+      const doc = await readDoc(String(collection), String(slug));
+      if (!doc) {
+        throw new Error(`Document not found: ${uri.href}`);
+      }
+      return {
+        contents: [{ uri: uri.href, mimeType: 'text/markdown', text: doc.text }],
+      };
+    }
+  );
+}
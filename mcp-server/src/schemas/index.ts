@@ -1,5 +1,51 @@
 import { z } from 'zod';
 
+/**
+ * Schema for the optional ISO 4217 currency shared by all calculator inputs
+ */
+export const CurrencySchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .refine((code) => Intl.supportedValuesOf('currency').includes(code), {
+    message: 'Must be an ISO 4217 currency code (e.g. USD, MYR, IDR)',
+  })
+  .optional()
+  .describe('ISO 4217 currency code of all amounts (e.g. USD, MYR, IDR, KWD)');
+
+/**
+ * Schema for a partner contributing capital to a Musharakah
+ */
+export const PartnerSchema = z.object({
+  name: z.string().describe('Partner name'),
+  investment: z.number().positive().describe('Investment amount (must be positive)'),
+});
+
+/**
+ * Schema for a dated capital injection (positive) or withdrawal (negative)
+ */
+export const CapitalMovementSchema = z.object({
+  date: z.string().date().describe('Date of the movement (YYYY-MM-DD)'),
+  amount: z
+    .number()
+    .refine((v) => v !== 0, 'Amount must not be zero')
+    .describe('Amount injected (positive) or withdrawn (negative)'),
+});
+
+/**
+ * Schema for a Musharakah partner, optionally with mid-period capital movements
+ */
+export const MusharakahPartnerSchema = PartnerSchema.extend({
+  investment: z
+    .number()
+    .positive()
+    .describe('Investment amount at the start of the period (must be positive)'),
+  capitalMovements: z
+    .array(CapitalMovementSchema)
+    .optional()
+    .describe('Optional capital injections/withdrawals during the period'),
+});
+
 /**
  * Schema for Musharakah (partnership) contract calculations
  * Partners share profits according to agreement (or capital ratio)
@@ -7,12 +53,7 @@ import { z } from 'zod';
  */
 export const MusharakahInputSchema = z.object({
   partners: z
-    .array(
-      z.object({
-        name: z.string().describe('Partner name'),
-        investment: z.number().positive().describe('Investment amount (must be positive)'),
-      })
-    )
+    .array(MusharakahPartnerSchema)
     .min(2)
     .describe('List of partners with their investments (minimum 2 partners)'),
   totalProfit: z.number().describe('Total profit or loss (negative for loss)'),
@@ -20,6 +61,21 @@ export const MusharakahInputSchema = z.object({
     .array(z.number().min(0).max(1))
     .optional()
     .describe('Optional custom profit sharing ratios (must sum to 1)'),
+  periodStart: z
+    .string()
+    .date()
+    .optional()
+    .describe('Start of the profit period (YYYY-MM-DD), required with capital movements'),
+  periodEnd: z
+    .string()
+    .date()
+    .optional()
+    .describe('End of the profit period, inclusive (YYYY-MM-DD), required with capital movements'),
+  weighting: z
+    .enum(['daily', 'monthly'])
+    .default('daily')
+    .describe('Granularity for time-weighting capital movements (default daily)'),
+  currency: CurrencySchema,
 });
 
 /**
@@ -30,14 +86,1158 @@ export const MusharakahInputSchema = z.object({
  */
 export const MudharabahInputSchema = z.object({
   capitalAmount: z.number().positive().describe('Capital amount provided'),
-  profit: z.number().describe('Profit or loss (negative for loss)'),
+  profit: z
+    .number()
+    .optional()
+    .describe('Net profit or loss (negative for loss), omit when grossRevenue is given'),
+  grossRevenue: z
+    .number()
+    .min(0)
+    .optional()
+    .describe('Gross revenue of the venture, net result is grossRevenue minus expenses'),
+  expenses: z
+    .number()
+    .min(0)
+    .default(0)
+    .describe('Allowable operating expenses of the venture, used with grossRevenue (default 0)'),
+  priorLosses: z
+    .number()
+    .min(0)
+    .default(0)
+    .describe('Unrecovered losses from prior periods, recovered from profit before sharing'),
+  mudaribNegligence: z
+    .boolean()
+    .default(false)
+    .describe("Whether the loss was caused by the mudarib's negligence or misconduct"),
   capitalProviderRatio: z
     .number()
     .min(0)
     .max(1)
     .describe('Capital provider profit share ratio (0-1)'),
   entrepreneurRatio: z.number().min(0).max(1).describe('Entrepreneur profit share ratio (0-1)'),
+  currency: CurrencySchema,
+});
+
+/**
+ * Schema for a profit-sharing weightage assigned to a deposit tenor
+ */
+export const PoolWeightageSchema = z.object({
+  tenorMonths: z.number().int().positive().describe('Deposit tenor in months'),
+  weightage: z.number().positive().describe('Profit-sharing weightage for this tenor (e.g. 0.8)'),
+});
+
+/**
+ * Schema for a depositor (Rabb al-Mal) in a Mudharabah investment pool
+ */
+export const PoolDepositorSchema = z.object({
+  name: z.string().describe('Depositor name or account label'),
+  amount: z.number().positive().describe('Amount deposited in the pool (must be positive)'),
+  tenorMonths: z
+    .number()
+    .int()
+    .positive()
+    .describe('Deposit tenor in months, must match a declared weightage'),
+});
+
+/**
+ * Schema for pooled Mudharabah investment-account calculations
+ * Many depositors (Rabb al-Mal) invest through one mudarib (the bank),
+ * profit is shared by tenor weightage after reserve appropriations
+ */
+export const MudharabahPoolInputSchema = z.object({
+  depositors: z
+    .array(PoolDepositorSchema)
+    .min(1)
+    .describe('Depositors in the pool with their amounts and tenors'),
+  weightages: z
+    .array(PoolWeightageSchema)
+    .min(1)
+    .describe('Weightage per deposit tenor, declared before the profit period'),
+  grossIncome: z.number().describe('Gross pool income for the period (negative for loss)'),
+  mudaribShareRatio: z
+    .number()
+    .min(0)
+    .max(1)
+    .describe("Mudarib's share of distributable profit (0-1)"),
+  perRate: z
+    .number()
+    .min(0)
+    .max(1)
+    .default(0)
+    .describe('Profit Equalisation Reserve appropriation from gross income (0-1, default 0)'),
+  irrRate: z
+    .number()
+    .min(0)
+    .max(1)
+    .default(0)
+    .describe("Investment Risk Reserve appropriation from depositors' share (0-1, default 0)"),
+  currency: CurrencySchema,
+});
+
+/**
+ * Schema for Murabaha (cost-plus sale) calculations
+ * Seller discloses the cost price and an agreed markup,
+ * the resulting selling price is fixed and paid in installments
+ */
+export const MurabahaInputSchema = z.object({
+  costPrice: z.number().positive().describe('Cost price of the asset paid by the seller/bank'),
+  markupRate: z.number().min(0).describe('Agreed markup on cost price as a decimal (0.15 for 15%)'),
+  downPayment: z
+    .number()
+    .min(0)
+    .default(0)
+    .describe('Down payment paid by the customer at contract time (default 0)'),
+  tenorMonths: z
+    .number()
+    .int()
+    .positive()
+    .describe('Number of monthly installments for the deferred balance'),
+  currency: CurrencySchema,
+});
+
+/**
+ * Schema for Ijarah (lease) rental schedule calculations
+ * Lessor keeps ownership and its risks, lessee pays rental for the usufruct.
+ * Ijarah Muntahia Bittamleek ends with ownership transfer to the lessee
+ */
+export const IjarahInputSchema = z.object({
+  leaseType: z
+    .enum(['operating', 'muntahia_bittamleek'])
+    .describe(
+      'operating = asset returns to lessor at end, muntahia_bittamleek = ownership transfers to lessee at end'
+    ),
+  assetCost: z.number().positive().describe('Cost of the leased asset paid by the lessor'),
+  leaseTermMonths: z.number().int().positive().describe('Lease term in months'),
+  annualRentalRate: z
+    .number()
+    .min(0)
+    .describe("Lessor's annual return on outstanding asset cost as a decimal (0.06 for 6%)"),
+  reviewPeriodMonths: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Rental review period in months (omit for a fixed rental rate)'),
+  reviewedRates: z
+    .array(z.number().min(0))
+    .optional()
+    .describe('Annual rental rates agreed for each subsequent review period, in order'),
+  residualValue: z
+    .number()
+    .min(0)
+    .default(0)
+    .describe(
+      'Residual value retained by the lessor (operating) or transfer price paid by the lessee (muntahia_bittamleek), default 0'
+    ),
+  majorMaintenanceBy: z
+    .enum(['lessor', 'lessee'])
+    .default('lessor')
+    .describe('Party bearing major (structural) maintenance, Shariah places this on the lessor'),
+  annualMaintenanceCost: z
+    .number()
+    .min(0)
+    .default(0)
+    .describe('Expected annual major maintenance cost (default 0)'),
+  currency: CurrencySchema,
+});
+
+/**
+ * Schema for Diminishing Musharakah (Musharakah Mutanaqisah) calculations
+ * Bank and customer co-own an asset, the customer buys the bank's units
+ * each period while paying rent on the bank's remaining share
+ */
+export const DiminishingMusharakahInputSchema = z.object({
+  bank: PartnerSchema.describe("Financier's capital contribution to the asset"),
+  customer: PartnerSchema.describe("Customer's capital contribution to the asset"),
+  tenorMonths: z
+    .number()
+    .int()
+    .positive()
+    .describe("Number of monthly periods over which the customer buys out the bank's share"),
+  annualRentalRate: z
+    .number()
+    .min(0)
+    .describe("Annual rent on the bank's share as a decimal of its value (0.05 for 5%)"),
+  currency: CurrencySchema,
+});
+
+/**
+ * Schema for Zakat calculations
+ * Zakat (2.5%) is due on net zakatable wealth that meets the nisab
+ * threshold and has been held for one lunar year (haul)
+ */
+export const ZakatInputSchema = z.object({
+  assets: z
+    .object({
+      cash: z.number().min(0).default(0).describe('Cash in hand and bank balances'),
+      goldGrams: z.number().min(0).default(0).describe('Gold held, in grams'),
+      silverGrams: z.number().min(0).default(0).describe('Silver held, in grams'),
+      tradeGoods: z
+        .number()
+        .min(0)
+        .default(0)
+        .describe('Market value of inventory/goods held for trade'),
+      receivables: z
+        .number()
+        .min(0)
+        .default(0)
+        .describe('Money owed to you that is expected to be repaid'),
+      investments: z
+        .number()
+        .min(0)
+        .default(0)
+        .describe('Market value of zakatable investments (shares, funds)'),
+    })
+    .describe('Categorized zakatable assets'),
+  liabilities: z
+    .number()
+    .min(0)
+    .default(0)
+    .describe('Short-term debts due within the year, deductible from zakatable wealth'),
+  goldPricePerGram: z
+    .number()
+    .positive()
+    .optional()
+    .describe('Current gold price per gram (required for gold nisab or gold holdings)'),
+  silverPricePerGram: z
+    .number()
+    .positive()
+    .optional()
+    .describe('Current silver price per gram (required for silver nisab or silver holdings)'),
+  nisabBasis: z
+    .enum(['gold', 'silver'])
+    .default('gold')
+    .describe('Metal used for the nisab threshold: gold (85g) or silver (595g)'),
+  haulCompleted: z
+    .boolean()
+    .default(true)
+    .describe('Whether the wealth has been held for one full lunar year (haul)'),
+  currency: CurrencySchema,
+});
+
+/**
+ * Schema for an evenly spaced sweep of profit/loss values
+ */
+export const ProfitRangeSchema = z.object({
+  from: z.number().describe('First profit/loss value (negative for loss)'),
+  to: z.number().describe('Last profit/loss value, inclusive'),
+  step: z.number().positive().describe('Increment between values'),
+});
+
+/**
+ * Schema for what-if analysis of a partnership contract
+ * Sweeps profit/loss and the profit-sharing ratio to show each party's outcome,
+ * and that losses follow capital whatever ratio is agreed
+ */
+export const ScenarioAnalysisInputSchema = z.object({
+  contractType: z.enum(['musharakah', 'mudharabah']).describe('Partnership contract to analyse'),
+  partners: z
+    .array(PartnerSchema)
+    .min(2)
+    .optional()
+    .describe('Musharakah partners with their investments (minimum 2 partners)'),
+  capitalAmount: z
+    .number()
+    .positive()
+    .optional()
+    .describe('Mudharabah capital provided by the Rabb al-Mal'),
+  profits: z
+    .array(z.number())
+    .min(1)
+    .optional()
+    .describe('Profit/loss scenarios to evaluate (negative for loss), instead of profitRange'),
+  profitRange: ProfitRangeSchema.optional().describe(
+    'Sweep of profit/loss values from..to by step, instead of profits'
+  ),
+  profitRatios: z
+    .array(z.array(z.number().min(0).max(1)))
+    .optional()
+    .describe(
+      'Profit-sharing ratios to compare, each summing to 1: one share per partner for Musharakah ' +
+        '(omit to use the capital ratio), [capital provider, entrepreneur] for Mudharabah (required)'
+    ),
+  currency: CurrencySchema,
+});
+
+/**
+ * Schema for a sale in parallel to a Salam, in which the financier sells
+ * the same specification forward to a third party
+ */
+export const ParallelSalamSchema = z.object({
+  margin: z
+    .number()
+    .min(0)
+    .describe("Financier's margin over its own Salam price as a decimal (0.08 for 8%)"),
+  contractDate: z
+    .string()
+    .date()
+    .optional()
+    .describe('Date of the parallel Salam (YYYY-MM-DD, default: the first Salam contract date)'),
+  deliveryDate: z
+    .string()
+    .date()
+    .optional()
+    .describe(
+      'Delivery date promised to the parallel buyer (YYYY-MM-DD, default: the first delivery date)'
+    ),
+});
+
+/**
+ * Schema for Salam (forward sale) calculations
+ * The financier pays the full price of a specified commodity at contract
+ * and receives it later, optionally selling it on in a parallel Salam
+ */
+export const SalamInputSchema = z.object({
+  commodity: z
+    .string()
+    .describe('Commodity bought, specified by type and quality (e.g. "Wheat, grade A")'),
+  quantity: z.number().positive().describe('Quantity to be delivered'),
+  unit: z.string().default('units').describe('Unit of quantity (e.g. "tonnes", default "units")'),
+  pricePerUnit: z
+    .number()
+    .positive()
+    .describe('Salam (spot) price per unit, paid in full at contract'),
+  contractDate: z.string().date().describe('Date the Salam is concluded (YYYY-MM-DD)'),
+  deliveryDate: z.string().date().describe('Agreed delivery date of the commodity (YYYY-MM-DD)'),
+  capitalPaid: z
+    .number()
+    .min(0)
+    .optional()
+    .describe('Amount the financier pays at contract (default: the full Salam price)'),
+  capitalPaymentDate: z
+    .string()
+    .date()
+    .optional()
+    .describe('Date the Salam capital is paid (YYYY-MM-DD, default: the contract date)'),
+  parallelSalam: ParallelSalamSchema.optional().describe(
+    'Parallel Salam selling the commodity on, instead of expectedSalePricePerUnit'
+  ),
+  expectedSalePricePerUnit: z
+    .number()
+    .positive()
+    .optional()
+    .describe(
+      'Expected market price per unit when the commodity is sold on delivery, instead of parallelSalam'
+    ),
+  currency: CurrencySchema,
+});
+
+/**
+ * Schema for a payment due when a stage of work is reached
+ */
+export const MilestonePaymentSchema = z.object({
+  milestone: z.string().describe('Stage the payment falls due on (e.g. "Foundation complete")'),
+  date: z.string().date().describe('Expected date of the milestone (YYYY-MM-DD)'),
+  ratio: z
+    .number()
+    .positive()
+    .max(1)
+    .describe('Share of the price paid at this milestone as a decimal (0.3 for 30%)'),
+});
+
+/**
+ * Schema for the parallel Istisna' in which the financier commissions a
+ * contractor to build the asset it has sold
+ */
+export const ParallelIstisnaSchema = z.object({
+  contractorPrice: z
+    .number()
+    .positive()
+    .describe('Price the financier pays the contractor for the asset'),
+  deliveryDate: z
+    .string()
+    .date()
+    .optional()
+    .describe(
+      'Date the contractor delivers to the financier (YYYY-MM-DD, default: the customer delivery date)'
+    ),
+  payments: z
+    .array(MilestonePaymentSchema)
+    .min(1)
+    .describe('Progress payments to the contractor by milestone, ratios summing to 1'),
+});
+
+/**
+ * Schema for Istisna' (manufacturing contract) calculations
+ * The financier sells an asset to be built to specification and has it
+ * built by a contractor under a parallel Istisna'
+ */
+export const IstisnaInputSchema = z.object({
+  asset: z.string().describe('Asset to be manufactured or constructed, as specified'),
+  contractPrice: z
+    .number()
+    .positive()
+    .describe("Istisna' price the customer pays the financier for the finished asset"),
+  contractDate: z.string().date().describe("Date the Istisna' is concluded (YYYY-MM-DD)"),
+  deliveryDate: z
+    .string()
+    .date()
+    .describe('Agreed delivery date of the asset to the customer (YYYY-MM-DD)'),
+  payments: z
+    .array(MilestonePaymentSchema)
+    .min(1)
+    .describe(
+      'Customer payments by milestone, ratios summing to 1; dates may fall before, on or after delivery'
+    ),
+  parallelIstisna: ParallelIstisnaSchema.describe(
+    "Parallel Istisna' with the contractor who builds the asset"
+  ),
+  currency: CurrencySchema,
+});
+
+/**
+ * Schema for sukuk periodic distribution and redemption calculations
+ * Ijarah sukuk pay rental from leased assets; Musharakah and Mudharabah sukuk
+ * pay the holders' share of actual profit, smoothed by a profit reserve
+ */
+export const SukukInputSchema = z.object({
+  sukukType: z
+    .enum(['ijarah', 'musharakah', 'mudharabah'])
+    .describe(
+      'ijarah = rental from leased assets, musharakah/mudharabah = share of actual profit of a venture'
+    ),
+  issueSize: z
+    .number()
+    .positive()
+    .describe('Total face value of the issue, paid by holders for the underlying assets'),
+  faceValue: z
+    .number()
+    .positive()
+    .describe('Face value of one certificate; the issue must be a whole number of certificates'),
+  tenorYears: z.number().int().positive().describe('Years to maturity'),
+  distributionFrequency: z
+    .enum(['annual', 'semi_annual', 'quarterly', 'monthly'])
+    .default('semi_annual')
+    .describe('How often distributions are paid (default semi_annual)'),
+  annualRentalRate: z
+    .number()
+    .min(0)
+    .optional()
+    .describe('Ijarah: annual rental on face value as a decimal (0.05 for 5%)'),
+  expectedProfitRate: z
+    .number()
+    .min(0)
+    .optional()
+    .describe(
+      'Musharakah/Mudharabah: expected annual distribution rate on face value as a decimal, not guaranteed'
+    ),
+  actualProfits: z
+    .array(z.number())
+    .optional()
+    .describe(
+      'Musharakah/Mudharabah: actual profit on the sukuk assets for each distribution period, negative for a loss (omit to project at the expected rate)'
+    ),
+  holdersProfitRatio: z
+    .number()
+    .positive()
+    .max(1)
+    .optional()
+    .describe(
+      "Musharakah/Mudharabah: holders' share of profit as a decimal, the rest goes to the manager (default 1 for Musharakah, required for Mudharabah)"
+    ),
+  assetValueAtMaturity: z
+    .number()
+    .min(0)
+    .optional()
+    .describe(
+      'Musharakah/Mudharabah: value the sukuk assets are sold for at maturity (default: face value less unrecovered losses)'
+    ),
+  currency: CurrencySchema,
+});
+
+/**
+ * Schema for a Takaful participant sharing in the underwriting surplus
+ */
+export const TakafulParticipantSchema = z.object({
+  name: z.string().describe('Participant name or policy number'),
+  contribution: z.number().positive().describe("Participant's contribution (must be positive)"),
+  claims: z.number().min(0).default(0).describe('Claims paid to this participant (default 0)'),
+});
+
+/**
+ * Schema for Takaful (cooperative insurance) fund calculations
+ * Participants donate to a risk fund run by an operator paid by Wakalah fee
+ * and/or a Mudharabah share of investment profit; the operator never shares
+ * in the underwriting surplus and lends Qard al-Hasan to cover a deficit
+ */
+export const TakafulInputSchema = z.object({
+  model: z
+    .enum(['wakalah', 'mudharabah', 'hybrid'])
+    .describe(
+      'wakalah = fee on contributions, mudharabah = share of investment profit, hybrid = both'
+    ),
+  contributions: z
+    .number()
+    .positive()
+    .describe("Total participants' contributions (tabarru') for the period"),
+  wakalahFeeRate: z
+    .number()
+    .min(0)
+    .max(1)
+    .optional()
+    .describe("Wakalah/hybrid: operator's fee as a decimal of contributions (0.25 for 25%)"),
+  mudharabahShareRatio: z
+    .number()
+    .min(0)
+    .max(1)
+    .optional()
+    .describe("Mudharabah/hybrid: operator's share of investment profit as a decimal"),
+  claimsPaid: z.number().min(0).describe('Claims paid from the risk fund in the period'),
+  retakafulContributions: z
+    .number()
+    .min(0)
+    .default(0)
+    .describe('Contributions paid to retakaful operators (default 0)'),
+  retakafulRecoveries: z
+    .number()
+    .min(0)
+    .default(0)
+    .describe('Claims recovered from retakaful (default 0)'),
+  investmentProfit: z
+    .number()
+    .default(0)
+    .describe('Profit on investing the risk fund, negative for a loss (default 0)'),
+  openingReserve: z
+    .number()
+    .min(0)
+    .default(0)
+    .describe('Surplus retained in the risk fund from earlier periods (default 0)'),
+  qardOutstanding: z
+    .number()
+    .min(0)
+    .default(0)
+    .describe('Qard al-Hasan owed to the operator for earlier deficits (default 0)'),
+  surplusDistributionRatio: z
+    .number()
+    .min(0)
+    .max(1)
+    .default(1)
+    .describe(
+      'Share of the net surplus distributed to participants, the rest is retained (default 1)'
+    ),
+  participants: z
+    .array(TakafulParticipantSchema)
+    .min(1)
+    .optional()
+    .describe('Participants to distribute the surplus to; contributions must sum to the total'),
+  distributionMethod: z
+    .enum(['pro_rata', 'non_claimants'])
+    .default('pro_rata')
+    .describe(
+      'pro_rata = all participants by contribution, non_claimants = only participants without claims (default pro_rata)'
+    ),
+  currency: CurrencySchema,
+});
+
+/**
+ * Administration fee on a Qard al-Hasan. Only the actual cost of the service may
+ * be charged, so a fee tied to the amount lent (rate) or to time (recurring basis)
+ * is rejected as riba with the reason rather than dropped silently
+ */
+export const QardHasanAdminFeeSchema = z
+  .object({
+    amount: z
+      .number()
+      .min(0)
+      .optional()
+      .describe('Fixed fee equal to the actual cost of arranging and administering the loan'),
+    rate: z
+      .number()
+      .positive()
+      .optional()
+      .describe('Fee as a decimal of the principal (tied to the amount lent, rejected as riba)'),
+    basis: z
+      .enum(['one_time', 'per_installment', 'per_month', 'per_year'])
+      .default('one_time')
+      .describe('How often the fee is charged; a recurring fee grows with time and is rejected'),
+    description: z
+      .string()
+      .optional()
+      .describe('What the fee covers (e.g. documentation, processing)'),
+  })
+  .superRefine((fee, ctx) => {
+    if (fee.rate !== undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['rate'],
+        message: `A fee of ${(fee.rate * 100).toFixed(2)}% of the principal is tied to the amount lent, which is riba on a Qard al-Hasan; declare the actual cost as a fixed amount instead`,
+      });
+    }
+    if (fee.basis !== 'one_time') {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['basis'],
+        message: `A fee charged ${fee.basis.replace('_', ' ')} grows with the time the loan is outstanding, which is riba on a Qard al-Hasan; only a one-time fee at actual cost is allowed`,
+      });
+    }
+    if (fee.amount === undefined && fee.rate === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['amount'],
+        message: 'Give the actual cost of administering the loan as a fixed amount',
+      });
+    }
+  });
+
+/**
+ * Schema for Qard al-Hasan (benevolent loan) repayment schedules
+ * Only the principal is repaid; any stipulated increase is riba.
+ */
+export const QardHasanInputSchema = z.object({
+  principal: z.number().positive().describe('Amount lent'),
+  tenorMonths: z
+    .number()
+    .int()
+    .positive()
+    .describe('Number of monthly installments to repay the principal'),
+  gracePeriodMonths: z
+    .number()
+    .int()
+    .min(0)
+    .default(0)
+    .describe('Months before the first installment falls due (default 0)'),
+  adminFee: QardHasanAdminFeeSchema.optional().describe(
+    'Administration fee at actual cost, declared separately from the loan'
+  ),
+  currency: CurrencySchema,
+});
+
+/**
+ * Business activities that fail the Shariah screen when they are part of a
+ * company's core business
+ */
+export const ExcludedActivitySchema = z.enum([
+  'conventional_finance',
+  'conventional_insurance',
+  'alcohol',
+  'pork',
+  'gambling',
+  'tobacco',
+  'adult_entertainment',
+  'weapons',
+]);
+
+/**
+ * One company (or portfolio holding) to screen. Amounts come from the latest
+ * financial statements; dividends and capital gain are the investor's own
+ */
+export const ScreeningCompanySchema = z.object({
+  name: z.string().min(1).describe('Company name'),
+  ticker: z.string().optional().describe('Stock ticker'),
+  marketCap: z
+    .number()
+    .positive()
+    .describe('Market capitalisation (AAOIFI allows a trailing average to smooth volatility)'),
+  interestBearingDebt: z.number().min(0).describe('Total interest-bearing debt'),
+  cashAndInterestBearingSecurities: z
+    .number()
+    .min(0)
+    .describe('Cash plus interest-bearing deposits and securities'),
+  totalRevenue: z.number().positive().describe('Total revenue for the period'),
+  nonPermissibleIncome: z
+    .number()
+    .min(0)
+    .default(0)
+    .describe('Income from interest and other non-permissible sources (default 0)'),
+  excludedActivities: z
+    .array(ExcludedActivitySchema)
+    .default([])
+    .describe('Prohibited activities in the core business; any one fails the business screen'),
+  dividends: z
+    .number()
+    .min(0)
+    .default(0)
+    .describe('Dividends the investor received from the holding (default 0)'),
+  capitalGain: z
+    .number()
+    .default(0)
+    .describe('Capital gain the investor realised on the holding, negative for a loss (default 0)'),
+});
+
+/**
+ * Schema for Shariah stock screening and purification (AAOIFI Standard 21)
+ * Screens one company or a CSV of portfolio holdings against financial ratio
+ * thresholds and business activity exclusions.
+ */
+export const StockScreeningInputSchema = z.object({
+  company: ScreeningCompanySchema.optional().describe('A single company to screen'),
+  holdingsCsv: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      'Portfolio holdings as CSV with a header row naming the company fields in snake_case or camelCase ' +
+        '(name, ticker, market_cap, interest_bearing_debt, cash_and_interest_bearing_securities, total_revenue, ' +
+        'non_permissible_income, excluded_activities separated by ";", dividends, capital_gain)'
+    ),
+  thresholds: z
+    .object({
+      debtToMarketCap: z
+        .number()
+        .positive()
+        .max(1)
+        .default(0.3)
+        .describe('Maximum interest-bearing debt to market cap (default 0.30)'),
+      cashToMarketCap: z
+        .number()
+        .positive()
+        .max(1)
+        .default(0.3)
+        .describe('Maximum cash and interest-bearing securities to market cap (default 0.30)'),
+      nonPermissibleIncome: z
+        .number()
+        .positive()
+        .max(1)
+        .default(0.05)
+        .describe('Maximum non-permissible income to total revenue (default 0.05)'),
+    })
+    .default({})
+    .describe('Screening thresholds, AAOIFI by default'),
+  purifyCapitalGains: z
+    .boolean()
+    .default(true)
+    .describe(
+      'Also purify capital gains at the non-permissible income ratio (default true); some scholars require dividends only'
+    ),
+  currency: CurrencySchema,
+});
+
+/**
+ * Matrix result laid out for display, one row per case
+ */
+const ToolTableSchema = z.object({
+  columns: z.array(z.string()),
+  rows: z.array(z.array(z.union([z.string(), z.number()]))),
+});
+
+/**
+ * Fields shared by the structured output of every calculation tool
+ *
+ * Tools with period-by-period results declare their own row shape for
+ * `schedule`; `table` is for matrix results such as a scenario analysis.
+ */
+const ToolOutputBaseSchema = z.object({
+  summary: z.string().describe('One-line summary of the result'),
+  contract_type: z.string().describe('Contract name with its Arabic term'),
+  currency: z.string().optional().describe('ISO 4217 currency code, if one was given'),
+  minor_units: z.number().int().optional().describe('Decimal places used for amounts'),
+  shariah_explanation: z.string().describe('Shariah rationale for the result'),
+  calculation_steps: z.array(z.string()).describe('Numbered calculation steps'),
+  schedule: z
+    .array(z.record(z.union([z.string(), z.number()])))
+    .optional()
+    .describe('Period-by-period rows (installments, rentals, distributions)'),
+  table: ToolTableSchema.optional().describe('Matrix result laid out for display'),
+});
+
+/**
+ * Structured output of calculate_musharakah
+ */
+export const MusharakahOutputSchema = ToolOutputBaseSchema.extend({
+  total_investment: z.number(),
+  total_profit_loss: z.number(),
+  is_loss: z.boolean(),
+  capital_weighting: z.enum(['daily', 'monthly']).optional(),
+  distribution: z.array(
+    z.object({
+      partner: z.string(),
+      investment: z.number(),
+      weightedCapital: z.number().optional(),
+      capitalRatio: z.string(),
+      share: z.string(),
+      shareAmount: z.number(),
+    })
+  ),
+});
+
+const MudharabahPartyShareSchema = z.object({
+  ratio: z.string().optional(),
+  share: z.string(),
+  shareAmount: z.number(),
+  explanation: z.string().optional(),
+});
+
+/**
+ * Structured output of calculate_mudharabah
+ */
+export const MudharabahOutputSchema = ToolOutputBaseSchema.extend({
+  capital_amount: z.number(),
+  gross_revenue: z.number().optional(),
+  expenses: z.number().optional(),
+  profit_loss: z.number(),
+  is_loss: z.boolean(),
+  mudarib_negligence: z.boolean().optional(),
+  prior_loss_recovered: z.number().optional(),
+  unrecovered_losses: z.number().optional(),
+  distributable_profit: z.number().optional(),
+  distribution: z.object({
+    capital_provider_rabb_al_mal: MudharabahPartyShareSchema,
+    entrepreneur_mudarib: MudharabahPartyShareSchema,
+  }),
+});
+
+/**
+ * Structured output of calculate_murabaha
+ */
+export const MurabahaOutputSchema = ToolOutputBaseSchema.extend({
+  cost_price: z.number(),
+  markup_rate: z.number(),
+  markup_amount: z.number(),
+  selling_price: z.number(),
+  down_payment: z.number(),
+  financed_amount: z.number(),
+  tenor_months: z.number(),
+  installment_amount: z.number(),
+  schedule: z.array(
+    z.object({
+      installment: z.number(),
+      payment: z.number(),
+      remainingBalance: z.number(),
+    })
+  ),
+});
+
+/**
+ * Structured output of calculate_ijarah
+ */
+export const IjarahOutputSchema = ToolOutputBaseSchema.extend({
+  lease_type: z.enum(['operating', 'muntahia_bittamleek']),
+  asset_cost: z.number(),
+  lease_term_months: z.number(),
+  residual_value: z.number(),
+  major_maintenance_by: z.enum(['lessor', 'lessee']),
+  total_rental: z.number(),
+  lessor_profit: z.number(),
+  schedule: z.array(
+    z.object({
+      period: z.number(),
+      annualRate: z.number(),
+      capitalRecovery: z.number(),
+      profitComponent: z.number(),
+      maintenanceComponent: z.number(),
+      rental: z.number(),
+      outstandingCost: z.number(),
+    })
+  ),
+  end_of_lease: z.object({
+    method: z.enum(['return_to_lessor', 'gift', 'sale']),
+    amount: z.number(),
+    description: z.string(),
+  }),
+});
+
+const CoOwnerSchema = z.object({
+  name: z.string(),
+  investment: z.number(),
+  initialOwnership: z.string(),
+});
+
+/**
+ * Structured output of calculate_diminishing_musharakah
+ */
+export const DiminishingMusharakahOutputSchema = ToolOutputBaseSchema.extend({
+  asset_value: z.number(),
+  bank: CoOwnerSchema,
+  customer: CoOwnerSchema,
+  tenor_months: z.number(),
+  annual_rental_rate: z.number(),
+  unit_purchase: z.number(),
+  total_rent: z.number(),
+  total_payments: z.number(),
+  schedule: z.array(
+    z.object({
+      period: z.number(),
+      bankShareStart: z.number(),
+      rent: z.number(),
+      unitPurchase: z.number(),
+      payment: z.number(),
+      bankShareEnd: z.number(),
+      bankOwnership: z.string(),
+      customerOwnership: z.string(),
+    })
+  ),
+});
+
+/**
+ * Structured output of calculate_zakat
+ */
+export const ZakatOutputSchema = ToolOutputBaseSchema.extend({
+  assets: z.array(z.object({ category: z.string(), value: z.number() })),
+  total_assets: z.number(),
+  liabilities: z.number(),
+  zakatable_wealth: z.number(),
+  nisab_basis: z.enum(['gold', 'silver']),
+  nisab_threshold: z.number(),
+  nisab_met: z.boolean(),
+  haul_completed: z.boolean(),
+  zakat_due: z.number(),
+});
+
+/**
+ * Structured output of calculate_mudharabah_pool
+ */
+export const MudharabahPoolOutputSchema = ToolOutputBaseSchema.extend({
+  total_deposits: z.number(),
+  gross_income: z.number(),
+  is_loss: z.boolean(),
+  per_appropriation: z.number(),
+  mudarib_share: z.number(),
+  depositors_share: z.number(),
+  irr_appropriation: z.number(),
+  distributed_profit: z.number(),
+  depositors: z.array(
+    z.object({
+      name: z.string(),
+      amount: z.number(),
+      tenorMonths: z.number(),
+      weightage: z.number(),
+      weightedAmount: z.number(),
+      sharingRatio: z.string(),
+      profit: z.number(),
+      returnRate: z.string(),
+    })
+  ),
+});
+
+/**
+ * Structured output of calculate_scenario_analysis
+ */
+export const ScenarioAnalysisOutputSchema = ToolOutputBaseSchema.extend({
+  analysis_contract: z.enum(['musharakah', 'mudharabah']),
+  parties: z.array(
+    z.object({
+      name: z.string(),
+      capital: z.number(),
+      capital_ratio: z.string(),
+    })
+  ),
+  ratio_scenarios: z.array(z.string()).describe('Label of each profit-sharing ratio compared'),
+  profit_levels: z.array(z.number()),
+  scenarios: z.array(
+    z.object({
+      profit_loss: z.number(),
+      ratio: z.string().describe('Ratio scenario the row belongs to'),
+      is_loss: z.boolean(),
+      basis: z.string().describe('How the result was actually shared'),
+      outcomes: z.array(z.number()).describe("Each party's share, in the order of parties"),
+    })
+  ),
+  table: ToolTableSchema.describe('Profit/loss, ratio, each party and basis per scenario'),
+});
+
+const TimelineEntrySchema = z.object({
+  date: z.string(),
+  event: z.string(),
+  cashFlow: z.number().describe('Cash in (positive) or out (negative) for the financier'),
+  quantity: z.number().optional().describe('Quantity changing hands, for deliveries'),
+  netPosition: z.number().describe("Financier's cumulative net cash after the event"),
+});
+
+/**
+ * Structured output of calculate_salam
+ */
+export const SalamOutputSchema = ToolOutputBaseSchema.extend({
+  commodity: z.string(),
+  quantity: z.number(),
+  unit: z.string(),
+  price_per_unit: z.number(),
+  salam_capital: z.number(),
+  contract_date: z.string(),
+  delivery_date: z.string(),
+  sale_basis: z.enum(['parallel_salam', 'expected_market_price']),
+  sale_proceeds: z.number(),
+  financier_profit: z.number(),
+  profit_rate: z.string(),
+  peak_funding: z.number(),
+  timeline: z.array(TimelineEntrySchema),
+});
+
+const MilestoneAmountSchema = z.object({
+  milestone: z.string(),
+  date: z.string(),
+  ratio: z.string(),
+  amount: z.number(),
+});
+
+/**
+ * Structured output of calculate_istisna
+ */
+export const IstisnaOutputSchema = ToolOutputBaseSchema.extend({
+  asset: z.string(),
+  contract_price: z.number(),
+  contractor_price: z.number(),
+  contract_date: z.string(),
+  delivery_date: z.string(),
+  contractor_delivery_date: z.string(),
+  customer_payments: z.array(MilestoneAmountSchema),
+  contractor_payments: z.array(MilestoneAmountSchema),
+  financier_profit: z.number(),
+  profit_rate: z.string(),
+  peak_funding: z.number(),
+  timeline: z.array(TimelineEntrySchema),
+});
+
+/**
+ * Structured output of calculate_sukuk
+ */
+export const SukukOutputSchema = ToolOutputBaseSchema.extend({
+  sukuk_type: z.enum(['ijarah', 'musharakah', 'mudharabah']),
+  issue_size: z.number(),
+  face_value: z.number(),
+  certificates: z.number(),
+  tenor_years: z.number(),
+  distribution_frequency: z.enum(['annual', 'semi_annual', 'quarterly', 'monthly']),
+  periods: z.number(),
+  annual_rate: z.number().describe('Rental rate (Ijarah) or expected profit rate'),
+  total_distributions: z.number(),
+  distributions_per_certificate: z.number(),
+  manager_share: z.number().optional(),
+  reserve_at_maturity: z.number().optional(),
+  unrecovered_losses: z.number().optional(),
+  redemption_basis: z.enum(['face_value', 'asset_value']),
+  redemption_amount: z.number(),
+  redemption_per_certificate: z.number(),
+  total_per_certificate: z.number(),
+  schedule: z.array(
+    z.object({
+      period: z.number(),
+      expectedDistribution: z.number(),
+      actualProfit: z.number().optional(),
+      managerShare: z.number().optional(),
+      reserveMovement: z.number().optional(),
+      reserveBalance: z.number().optional(),
+      lossCarriedForward: z.number().optional(),
+      distribution: z.number(),
+      perCertificate: z.number(),
+    })
+  ),
+});
+
+/**
+ * Structured output of calculate_takaful
+ */
+export const TakafulOutputSchema = ToolOutputBaseSchema.extend({
+  model: z.enum(['wakalah', 'mudharabah', 'hybrid']),
+  contributions: z.number(),
+  wakalah_fee: z.number(),
+  net_contributions: z.number(),
+  claims_paid: z.number(),
+  net_retakaful_cost: z.number(),
+  underwriting_result: z.number(),
+  investment_profit: z.number(),
+  operator_investment_share: z.number(),
+  fund_investment_share: z.number(),
+  fund_result: z.number().describe('Surplus (positive) or deficit (negative) of the risk fund'),
+  is_deficit: z.boolean(),
+  reserve_used: z.number(),
+  qard_provided: z.number(),
+  qard_repaid: z.number(),
+  qard_outstanding: z.number(),
+  surplus_distributed: z.number(),
+  surplus_retained: z.number(),
+  closing_reserve: z.number(),
+  operator_income: z.number(),
+  distribution: z
+    .array(
+      z.object({
+        name: z.string(),
+        contribution: z.number(),
+        claims: z.number(),
+        eligible: z.boolean(),
+        surplusShare: z.number(),
+      })
+    )
+    .optional(),
+});
+
+/**
+ * Structured output of calculate_qard_hasan
+ */
+export const QardHasanOutputSchema = ToolOutputBaseSchema.extend({
+  principal: z.number(),
+  tenor_months: z.number(),
+  grace_period_months: z.number(),
+  installment_amount: z.number(),
+  total_repayment: z.number().describe('Always equal to the principal'),
+  admin_fee: z.number(),
+  admin_fee_description: z.string().optional(),
+  total_paid_by_borrower: z.number(),
+  schedule: z.array(
+    z.object({
+      installment: z.number(),
+      month: z.number(),
+      payment: z.number(),
+      remainingBalance: z.number(),
+    })
+  ),
+});
+
+/**
+ * Structured output of calculate_stock_screening
+ */
+export const StockScreeningOutputSchema = ToolOutputBaseSchema.extend({
+  thresholds: z.object({
+    debt_to_market_cap: z.string(),
+    cash_to_market_cap: z.string(),
+    non_permissible_income: z.string(),
+  }),
+  companies_screened: z.number(),
+  compliant_count: z.number(),
+  non_compliant_count: z.number(),
+  total_purification: z.number(),
+  companies: z.array(
+    z.object({
+      name: z.string(),
+      ticker: z.string().optional(),
+      status: z.enum(['compliant', 'non_compliant']),
+      failedScreens: z.array(z.string()),
+      nonPermissibleIncomeRatio: z.string(),
+      dividendPurification: z.number(),
+      capitalGainPurification: z.number(),
+      totalPurification: z.number(),
+    })
+  ),
+  screens: z
+    .array(
+      z.object({
+        company: z.string(),
+        screen: z.string(),
+        value: z.string(),
+        threshold: z.string(),
+        result: z.enum(['pass', 'fail']),
+      })
+    )
+    .describe('Every screen applied to every company, with the threshold used'),
 });
 
 export type MusharakahInput = z.infer<typeof MusharakahInputSchema>;
 export type MudharabahInput = z.infer<typeof MudharabahInputSchema>;
+export type MudharabahPoolInput = z.infer<typeof MudharabahPoolInputSchema>;
+export type MurabahaInput = z.infer<typeof MurabahaInputSchema>;
+export type IjarahInput = z.infer<typeof IjarahInputSchema>;
+export type DiminishingMusharakahInput = z.infer<typeof DiminishingMusharakahInputSchema>;
+export type ZakatInput = z.infer<typeof ZakatInputSchema>;
+export type ScenarioAnalysisInput = z.infer<typeof ScenarioAnalysisInputSchema>;
+export type SalamInput = z.infer<typeof SalamInputSchema>;
+export type IstisnaInput = z.infer<typeof IstisnaInputSchema>;
+export type SukukInput = z.infer<typeof SukukInputSchema>;
+export type TakafulInput = z.infer<typeof TakafulInputSchema>;
+export type QardHasanInput = z.infer<typeof QardHasanInputSchema>;
+export type ScreeningCompany = z.infer<typeof ScreeningCompanySchema>;
+export type StockScreeningInput = z.infer<typeof StockScreeningInputSchema>;
+
+export type ToolOutputBase = z.infer<typeof ToolOutputBaseSchema>;
+export type MusharakahOutput = z.infer<typeof MusharakahOutputSchema>;
+export type MudharabahOutput = z.infer<typeof MudharabahOutputSchema>;
+export type MudharabahPoolOutput = z.infer<typeof MudharabahPoolOutputSchema>;
+export type MurabahaOutput = z.infer<typeof MurabahaOutputSchema>;
+export type IjarahOutput = z.infer<typeof IjarahOutputSchema>;
+export type DiminishingMusharakahOutput = z.infer<typeof DiminishingMusharakahOutputSchema>;
+export type ZakatOutput = z.infer<typeof ZakatOutputSchema>;
+export type ScenarioAnalysisOutput = z.infer<typeof ScenarioAnalysisOutputSchema>;
+export type SalamOutput = z.infer<typeof SalamOutputSchema>;
+export type IstisnaOutput = z.infer<typeof IstisnaOutputSchema>;
+export type SukukOutput = z.infer<typeof SukukOutputSchema>;
+export type TakafulOutput = z.infer<typeof TakafulOutputSchema>;
+export type QardHasanOutput = z.infer<typeof QardHasanOutputSchema>;
+export type StockScreeningOutput = z.infer<typeof StockScreeningOutputSchema>;
@@ -0,0 +1,41 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { registerTools } from './tools/index.js';
+import { registerResources } from './resources/index.js';
+import { registerPrompts } from './prompts/index.js';
+
+export const TOOL_NAMES = [
+  'calculate_musharakah',
+  'calculate_mudharabah',
+  'calculate_murabaha',
+  'calculate_ijarah',
+  'calculate_diminishing_musharakah',
+  'calculate_zakat',
+  'calculate_mudharabah_pool',
+  'calculate_scenario_analysis',
+  'calculate_salam',
+  'calculate_istisna',
+  'calculate_sukuk',
+  'calculate_takaful',
+  'calculate_qard_hasan',
+  'calculate_stock_screening',
+];
+
+/**
+ * Create an MCP server instance with all calculation tools, knowledge base
+ * resources and prompts registered
+ *
+ * The stdio transport uses a single instance; the HTTP transport creates one
+ * per request because the calculators hold no state between calls.
+ */
+export function createServer(): McpServer {
+  const server = new McpServer({
+    name: 'islamic-finance-calculator',
+    version: '1.0.0',
+  });
+
+  registerTools(server);
+  registerResources(server);
+  registerPrompts(server);
+
+  return server;
+}
@@ -1,8 +1,80 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import { MusharakahInputSchema, MudharabahInputSchema } from '../schemas/index.js';
+import {
+  MusharakahInputSchema,
+  MudharabahInputSchema,
+  MudharabahPoolInputSchema,
+  MurabahaInputSchema,
+  IjarahInputSchema,
+  DiminishingMusharakahInputSchema,
+  ZakatInputSchema,
+  ScenarioAnalysisInputSchema,
+  SalamInputSchema,
+  IstisnaInputSchema,
+  SukukInputSchema,
+  TakafulInputSchema,
+  QardHasanInputSchema,
+  StockScreeningInputSchema,
+  MusharakahOutputSchema,
+  MudharabahOutputSchema,
+  MudharabahPoolOutputSchema,
+  MurabahaOutputSchema,
+  IjarahOutputSchema,
+  DiminishingMusharakahOutputSchema,
+  ZakatOutputSchema,
+  ScenarioAnalysisOutputSchema,
+  SalamOutputSchema,
+  IstisnaOutputSchema,
+  SukukOutputSchema,
+  TakafulOutputSchema,
+  QardHasanOutputSchema,
+  StockScreeningOutputSchema,
+  type MusharakahOutput,
+  type MudharabahOutput,
+  type MudharabahPoolOutput,
+  type MurabahaOutput,
+  type IjarahOutput,
+  type DiminishingMusharakahOutput,
+  type ZakatOutput,
+  type ScenarioAnalysisOutput,
+  type SalamOutput,
+  type IstisnaOutput,
+  type SukukOutput,
+  type TakafulOutput,
+  type QardHasanOutput,
+  type StockScreeningOutput,
+  type ToolOutputBase,
+} from '../schemas/index.js';
 import { calculateMusharakah } from '../calculators/musharakah.js';
 import { calculateMudharabah } from '../calculators/mudharabah.js';
+import { calculateMudharabahPool } from '../calculators/mudharabah-pool.js';
+import { calculateMurabaha } from '../calculators/murabaha.js';
+import { calculateIjarah } from '../calculators/ijarah.js';
+import { calculateDiminishingMusharakah } from '../calculators/diminishing-musharakah.js';
+import { calculateZakat } from '../calculators/zakat.js';
+import { calculateScenarioAnalysis, MAX_SCENARIOS } from '../calculators/scenario-analysis.js';
+import { calculateSalam } from '../calculators/salam.js';
+import { calculateIstisna } from '../calculators/istisna.js';
+import { calculateSukuk } from '../calculators/sukuk.js';
+import { calculateTakaful } from '../calculators/takaful.js';
+import { calculateQardHasan } from '../calculators/qard-hasan.js';
+import { calculateStockScreening } from '../calculators/stock-screening.js';
+import { currencyOutput } from '../utils/money.js';
+
+/**
+ * Human-readable text returned alongside the structured output, for clients
+ * that do not read structuredContent
+ */
+function formatTextSummary(output: ToolOutputBase): string {
+  return [
+    output.summary,
+    `Contract: ${output.contract_type}`,
+    '',
+    output.shariah_explanation,
+    '',
+    ...output.calculation_steps,
+  ].join('\n');
+}
 
 /**
  * Register all Islamic finance calculation tools with the MCP server
@@ -19,8 +91,11 @@ export function registerTools(server: McpServer): void {
         'Calculate profit/loss distribution in a Musharakah (شراكة - partnership) contract. ' +
         'In Musharakah, all partners contribute capital and share management. ' +
         'Profits are distributed according to pre-agreed ratio (or capital ratio if not specified). ' +
-        'Losses MUST be distributed according to capital ratio as per Shariah requirements.',
+        'Losses MUST be distributed according to capital ratio as per Shariah requirements. ' +
+        'If partners inject or withdraw capital mid-period, provide dated capitalMovements with periodStart/periodEnd ' +
+        'and capital ratios are time-weighted (daily or monthly).',
       inputSchema: MusharakahInputSchema,
+      outputSchema: MusharakahOutputSchema,
     },
     async (input) => {
       try {
@@ -28,12 +103,14 @@ export function registerTools(server: McpServer): void {
         const result = calculateMusharakah(validatedInput);
 
         // Format output with step-by-step explanation
-        const output = {
+        const output: MusharakahOutput = {
           summary: `${result.type.toUpperCase()} - ${result.isLoss ? 'Loss' : 'Profit'} Distribution`,
           contract_type: 'Musharakah (شراكة - Partnership)',
+          ...currencyOutput(result.currency),
           total_investment: result.totalInvestment,
           total_profit_loss: result.totalProfit,
           is_loss: result.isLoss,
+          ...(result.weighting && { capital_weighting: result.weighting }),
           distribution: result.distribution,
           shariah_explanation: result.explanation,
           calculation_steps: result.calculationSteps,
@@ -43,9 +120,10 @@ export function registerTools(server: McpServer): void {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(output, null, 2),
+              text: formatTextSummary(output),
             },
           ],
+          structuredContent: output,
         };
       } catch (error) {
         if (error instanceof z.ZodError) {
@@ -73,8 +151,11 @@ export function registerTools(server: McpServer): void {
         'Calculate profit/loss distribution in a Mudharabah (مضاربة) contract between capital provider (Rabb al-Mal) and entrepreneur (Mudarib). ' +
         'The capital provider supplies 100% capital, the entrepreneur provides labor and expertise. ' +
         'Profits are shared according to pre-agreed ratio. ' +
-        'Losses are borne entirely by the capital provider (Shariah requirement), while the entrepreneur loses their time and effort.',
+        'Losses are borne entirely by the capital provider (Shariah requirement), while the entrepreneur loses their time and effort. ' +
+        'Give either net profit, or grossRevenue with allowable expenses. Prior-period losses (priorLosses) are recovered from profit before sharing. ' +
+        "If the loss was caused by the mudarib's negligence or misconduct (ta'addi/taqsir), set mudaribNegligence and the loss shifts to the mudarib.",
       inputSchema: MudharabahInputSchema,
+      outputSchema: MudharabahOutputSchema,
     },
     async (input) => {
       try {
@@ -82,12 +163,25 @@ export function registerTools(server: McpServer): void {
         const result = calculateMudharabah(validatedInput);
 
         // Format output with step-by-step explanation
-        const output = {
+        const output: MudharabahOutput = {
           summary: `${result.type.toUpperCase()} - ${result.isLoss ? 'Loss' : 'Profit'} Distribution`,
           contract_type: 'Mudharabah (مضاربة)',
+          ...currencyOutput(result.currency),
           capital_amount: result.capitalAmount,
+          ...(result.grossRevenue !== undefined && {
+            gross_revenue: result.grossRevenue,
+            expenses: result.expenses,
+          }),
           profit_loss: result.profit,
           is_loss: result.isLoss,
+          ...(result.mudaribNegligence && { mudarib_negligence: true }),
+          ...(result.unrecoveredLosses !== undefined && {
+            prior_loss_recovered: result.priorLossRecovered ?? 0,
+            unrecovered_losses: result.unrecoveredLosses,
+          }),
+          ...(result.distributableProfit !== undefined && {
+            distributable_profit: result.distributableProfit,
+          }),
           distribution: {
             capital_provider_rabb_al_mal: result.distribution.capitalProvider,
             entrepreneur_mudarib: result.distribution.entrepreneur,
@@ -100,9 +194,824 @@ export function registerTools(server: McpServer): void {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(output, null, 2),
+              text: formatTextSummary(output),
+            },
+          ],
+          structuredContent: output,
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Validation Error: ${error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+        throw error;
+      }
+    }
+  );
+
+  // Register Murabaha calculation tool
+  server.registerTool(
+    'calculate_murabaha',
+    {
+      title: 'Calculate Murabaha Selling Price and Installment Schedule',
+      description:
+        'Calculate the selling price and installment schedule of a Murabaha (مرابحة - cost-plus sale) contract. ' +
+        'The bank buys the asset and sells it to the customer at the disclosed cost price plus an agreed markup. ' +
+        'The selling price is fixed at contract time; the deferred balance after any down payment is split into equal monthly installments. ' +
+        'The price cannot be increased for late payment or a longer tenor, as that would be riba.',
+      inputSchema: MurabahaInputSchema,
+      outputSchema: MurabahaOutputSchema,
+    },
+    async (input) => {
+      try {
+        const validatedInput = MurabahaInputSchema.parse(input);
+        const result = calculateMurabaha(validatedInput);
+
+        // Format output with step-by-step explanation
+        const output: MurabahaOutput = {
+          summary: `${result.type.toUpperCase()} - Selling Price and Installment Schedule`,
+          contract_type: 'Murabaha (مرابحة - Cost-Plus Sale)',
+          ...currencyOutput(result.currency),
+          cost_price: result.costPrice,
+          markup_rate: result.markupRate,
+          markup_amount: result.markupAmount,
+          selling_price: result.sellingPrice,
+          down_payment: result.downPayment,
+          financed_amount: result.financedAmount,
+          tenor_months: result.tenorMonths,
+          installment_amount: result.installmentAmount,
+          schedule: result.schedule,
+          shariah_explanation: result.explanation,
+          calculation_steps: result.calculationSteps,
+        };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatTextSummary(output),
+            },
+          ],
+          structuredContent: output,
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Validation Error: ${error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+        throw error;
+      }
+    }
+  );
+
+  // Register Ijarah calculation tool
+  server.registerTool(
+    'calculate_ijarah',
+    {
+      title: 'Calculate Ijarah Lease Rental Schedule',
+      description:
+        'Calculate the period-by-period rental schedule of an Ijarah (إجارة - lease) contract, either operating Ijarah or Ijarah Muntahia Bittamleek (lease ending with ownership). ' +
+        'The lessor owns the asset and bears ownership risks and major maintenance; the lessee pays rental for its use. ' +
+        'Rentals may be reviewed at agreed periods. ' +
+        'In Ijarah Muntahia Bittamleek, ownership transfers at the end by gift or sale at the transfer value under a separate promise.',
+      inputSchema: IjarahInputSchema,
+      outputSchema: IjarahOutputSchema,
+    },
+    async (input) => {
+      try {
+        const validatedInput = IjarahInputSchema.parse(input);
+        const result = calculateIjarah(validatedInput);
+
+        // Format output with step-by-step explanation
+        const output: IjarahOutput = {
+          summary: `${result.type.toUpperCase()} - Rental Schedule`,
+          contract_type:
+            result.leaseType === 'muntahia_bittamleek'
+              ? 'Ijarah Muntahia Bittamleek (إجارة منتهية بالتمليك - Lease Ending with Ownership)'
+              : 'Operating Ijarah (إجارة - Lease)',
+          ...currencyOutput(result.currency),
+          lease_type: result.leaseType,
+          asset_cost: result.assetCost,
+          lease_term_months: result.leaseTermMonths,
+          residual_value: result.residualValue,
+          major_maintenance_by: result.majorMaintenanceBy,
+          total_rental: result.totalRental,
+          lessor_profit: result.lessorProfit,
+          schedule: result.schedule,
+          end_of_lease: result.endOfLease,
+          shariah_explanation: result.explanation,
+          calculation_steps: result.calculationSteps,
+        };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatTextSummary(output),
+            },
+          ],
+          structuredContent: output,
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Validation Error: ${error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+        throw error;
+      }
+    }
+  );
+
+  // Register Diminishing Musharakah calculation tool
+  server.registerTool(
+    'calculate_diminishing_musharakah',
+    {
+      title: 'Calculate Diminishing Musharakah Buyout Schedule',
+      description:
+        'Calculate the ownership and payment schedule of a Diminishing Musharakah (مشاركة متناقصة - Musharakah Mutanaqisah) home or asset financing. ' +
+        'The bank and customer co-own the asset in proportion to capital. ' +
+        "Each month the customer buys a unit of the bank's share and pays rent on the share the bank still owns, " +
+        'so rent decreases until the customer owns 100% of the asset.',
+      inputSchema: DiminishingMusharakahInputSchema,
+      outputSchema: DiminishingMusharakahOutputSchema,
+    },
+    async (input) => {
+      try {
+        const validatedInput = DiminishingMusharakahInputSchema.parse(input);
+        const result = calculateDiminishingMusharakah(validatedInput);
+
+        // Format output with step-by-step explanation
+        const output: DiminishingMusharakahOutput = {
+          summary: 'DIMINISHING MUSHARAKAH - Ownership and Payment Schedule',
+          contract_type: 'Diminishing Musharakah (مشاركة متناقصة - Musharakah Mutanaqisah)',
+          ...currencyOutput(result.currency),
+          asset_value: result.assetValue,
+          bank: result.bank,
+          customer: result.customer,
+          tenor_months: result.tenorMonths,
+          annual_rental_rate: result.annualRentalRate,
+          unit_purchase: result.unitPurchase,
+          total_rent: result.totalRent,
+          total_payments: result.totalPayments,
+          schedule: result.schedule,
+          shariah_explanation: result.explanation,
+          calculation_steps: result.calculationSteps,
+        };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatTextSummary(output),
+            },
+          ],
+          structuredContent: output,
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Validation Error: ${error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+        throw error;
+      }
+    }
+  );
+
+  // Register Zakat calculation tool
+  server.registerTool(
+    'calculate_zakat',
+    {
+      title: 'Calculate Zakat Due',
+      description:
+        'Calculate Zakat (زكاة) due on categorized wealth: cash, gold and silver (in grams), trade goods, receivables and investments. ' +
+        'Short-term liabilities due within the year are deducted. ' +
+        'Zakat of 2.5% is due only if net wealth meets the nisab threshold (85g gold or 595g silver at the given price per gram) ' +
+        'and has been held for one full lunar year (haul).',
+      inputSchema: ZakatInputSchema,
+      outputSchema: ZakatOutputSchema,
+    },
+    async (input) => {
+      try {
+        const validatedInput = ZakatInputSchema.parse(input);
+        const result = calculateZakat(validatedInput);
+
+        // Format output with step-by-step explanation
+        const output: ZakatOutput = {
+          summary: `${result.type.toUpperCase()} - ${result.zakatDue > 0 ? 'Zakat Due' : 'No Zakat Due'}`,
+          contract_type: 'Zakat (زكاة - Obligatory Almsgiving)',
+          ...currencyOutput(result.currency),
+          assets: result.assets,
+          total_assets: result.totalAssets,
+          liabilities: result.liabilities,
+          zakatable_wealth: result.zakatableWealth,
+          nisab_basis: result.nisabBasis,
+          nisab_threshold: result.nisabThreshold,
+          nisab_met: result.nisabMet,
+          haul_completed: result.haulCompleted,
+          zakat_due: result.zakatDue,
+          shariah_explanation: result.explanation,
+          calculation_steps: result.calculationSteps,
+        };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatTextSummary(output),
+            },
+          ],
+          structuredContent: output,
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Validation Error: ${error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+        throw error;
+      }
+    }
+  );
+
+  // Register pooled Mudharabah calculation tool
+  server.registerTool(
+    'calculate_mudharabah_pool',
+    {
+      title: 'Calculate Mudharabah Investment Pool Distribution',
+      description:
+        'Calculate profit/loss distribution of a pooled Mudharabah (مضاربة) investment account with many depositors (Rabb al-Mal) and the bank as Mudarib. ' +
+        'Profit Equalisation Reserve (PER) is appropriated from gross income, then the Mudarib takes its agreed share, ' +
+        "then Investment Risk Reserve (IRR) is appropriated from the depositors' share. " +
+        'The remainder is distributed by weighted amount using tenor weightages (longer tenors may not have lower weightages). ' +
+        'Losses are borne by depositors in proportion to capital and the Mudarib receives nothing.',
+      inputSchema: MudharabahPoolInputSchema,
+      outputSchema: MudharabahPoolOutputSchema,
+    },
+    async (input) => {
+      try {
+        const validatedInput = MudharabahPoolInputSchema.parse(input);
+        const result = calculateMudharabahPool(validatedInput);
+
+        // Format output with step-by-step explanation
+        const output: MudharabahPoolOutput = {
+          summary: `MUDHARABAH POOL - ${result.isLoss ? 'Loss' : 'Profit'} Distribution`,
+          contract_type: 'Mudharabah Investment Pool (مضاربة مشتركة)',
+          ...currencyOutput(result.currency),
+          total_deposits: result.totalDeposits,
+          gross_income: result.grossIncome,
+          is_loss: result.isLoss,
+          per_appropriation: result.perAppropriation,
+          mudarib_share: result.mudaribShare,
+          depositors_share: result.depositorsShare,
+          irr_appropriation: result.irrAppropriation,
+          distributed_profit: result.distributedProfit,
+          depositors: result.depositors,
+          shariah_explanation: result.explanation,
+          calculation_steps: result.calculationSteps,
+        };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatTextSummary(output),
+            },
+          ],
+          structuredContent: output,
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Validation Error: ${error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+        throw error;
+      }
+    }
+  );
+
+  // Register partnership scenario (what-if) analysis tool
+  server.registerTool(
+    'calculate_scenario_analysis',
+    {
+      title: 'Musharakah/Mudharabah Scenario and Sensitivity Analysis',
+      description:
+        'What-if analysis of a Musharakah or Mudharabah contract: sweeps profit/loss over a list of values (profits) ' +
+        'or a from..to range by step (profitRange), and compares profit-sharing ratios (profitRatios), ' +
+        "returning a matrix of each party's outcome. " +
+        'Shows that profits follow the agreed ratio while losses follow capital (Musharakah) or fall on the capital provider (Mudharabah). ' +
+        `At most ${MAX_SCENARIOS} scenarios (profit levels × ratios).`,
+      inputSchema: ScenarioAnalysisInputSchema,
+      outputSchema: ScenarioAnalysisOutputSchema,
+    },
+    async (input) => {
+      try {
+        const validatedInput = ScenarioAnalysisInputSchema.parse(input);
+        const result = calculateScenarioAnalysis(validatedInput);
+
+        // Format output with step-by-step explanation
+        const output: ScenarioAnalysisOutput = {
+          summary: `${result.contractType.toUpperCase()} - Scenario Analysis (${result.scenarios.length} scenarios)`,
+          contract_type:
+            result.contractType === 'musharakah'
+              ? 'Musharakah (شراكة - Partnership)'
+              : 'Mudharabah (مضاربة)',
+          ...currencyOutput(result.currency),
+          analysis_contract: result.contractType,
+          parties: result.parties.map((p) => ({
+            name: p.name,
+            capital: p.capital,
+            capital_ratio: p.capitalRatio,
+          })),
+          ratio_scenarios: result.ratioScenarios,
+          profit_levels: result.profitLevels,
+          scenarios: result.scenarios.map((row) => ({
+            profit_loss: row.profitLoss,
+            ratio: row.ratio,
+            is_loss: row.isLoss,
+            basis: row.basis,
+            outcomes: row.outcomes,
+          })),
+          table: {
+            columns: ['Profit/Loss', 'Ratio', ...result.parties.map((p) => p.name), 'Basis'],
+            rows: result.scenarios.map((row) => [
+              row.profitLoss,
+              row.ratio,
+              ...row.outcomes,
+              row.basis,
+            ]),
+          },
+          shariah_explanation: result.explanation,
+          calculation_steps: result.calculationSteps,
+        };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatTextSummary(output),
+            },
+          ],
+          structuredContent: output,
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Validation Error: ${error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+        throw error;
+      }
+    }
+  );
+
+  // Register Salam calculation tool
+  server.registerTool(
+    'calculate_salam',
+    {
+      title: 'Calculate Salam Forward Sale Timeline and Profit',
+      description:
+        'Calculate the payment/delivery timeline and financier profit of a Salam (سلم - forward sale) contract. ' +
+        'The financier pays the full price (Salam capital = quantity × price per unit) at contract for a specified commodity delivered on a later date. ' +
+        'Salam capital MUST be paid in full at contract time; a partial or later payment is rejected as a sale of debt for debt. ' +
+        'The commodity is sold on either through a parallel Salam at a margin over the Salam price (parallelSalam) ' +
+        'or at an expected market price on delivery (expectedSalePricePerUnit).',
+      inputSchema: SalamInputSchema,
+      outputSchema: SalamOutputSchema,
+    },
+    async (input) => {
+      try {
+        const validatedInput = SalamInputSchema.parse(input);
+        const result = calculateSalam(validatedInput);
+
+        // Format output with step-by-step explanation
+        const output: SalamOutput = {
+          summary: `${result.type.toUpperCase()} - ${result.saleBasis === 'parallel_salam' ? 'Parallel Salam' : 'Forward Purchase'} Timeline`,
+          contract_type: 'Salam (سلم - Forward Sale)',
+          ...currencyOutput(result.currency),
+          commodity: result.commodity,
+          quantity: result.quantity,
+          unit: result.unit,
+          price_per_unit: result.pricePerUnit,
+          salam_capital: result.salamCapital,
+          contract_date: result.contractDate,
+          delivery_date: result.deliveryDate,
+          sale_basis: result.saleBasis,
+          sale_proceeds: result.saleProceeds,
+          financier_profit: result.financierProfit,
+          profit_rate: result.profitRate,
+          peak_funding: result.peakFunding,
+          timeline: result.timeline,
+          shariah_explanation: result.explanation,
+          calculation_steps: result.calculationSteps,
+        };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatTextSummary(output),
+            },
+          ],
+          structuredContent: output,
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Validation Error: ${error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+        throw error;
+      }
+    }
+  );
+
+  // Register Istisna' calculation tool
+  server.registerTool(
+    'calculate_istisna',
+    {
+      title: "Calculate Istisna' Progress Payments and Profit",
+      description:
+        "Calculate the payment/delivery timeline and financier profit of an Istisna' (استصناع - manufacturing/construction contract) " +
+        "financed through a parallel Istisna'. The financier sells the asset to the customer at contractPrice and commissions it " +
+        'from a contractor at contractorPrice. Both prices are paid by milestone (ratios summing to 1); ' +
+        'customer payments may fall before, on or after delivery. ' +
+        "Returns both payment schedules, the financier's cash timeline and peak funding, and its profit (the difference between the two prices).",
+      inputSchema: IstisnaInputSchema,
+      outputSchema: IstisnaOutputSchema,
+    },
+    async (input) => {
+      try {
+        const validatedInput = IstisnaInputSchema.parse(input);
+        const result = calculateIstisna(validatedInput);
+
+        // Format output with step-by-step explanation
+        const output: IstisnaOutput = {
+          summary: `${result.type.toUpperCase()} - Progress Payment Timeline`,
+          contract_type: "Istisna' (استصناع - Manufacturing Contract)",
+          ...currencyOutput(result.currency),
+          asset: result.asset,
+          contract_price: result.contractPrice,
+          contractor_price: result.contractorPrice,
+          contract_date: result.contractDate,
+          delivery_date: result.deliveryDate,
+          contractor_delivery_date: result.contractorDeliveryDate,
+          customer_payments: result.customerPayments,
+          contractor_payments: result.contractorPayments,
+          financier_profit: result.financierProfit,
+          profit_rate: result.profitRate,
+          peak_funding: result.peakFunding,
+          timeline: result.timeline,
+          shariah_explanation: result.explanation,
+          calculation_steps: result.calculationSteps,
+        };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatTextSummary(output),
+            },
+          ],
+          structuredContent: output,
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Validation Error: ${error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+        throw error;
+      }
+    }
+  );
+
+  // Register Sukuk calculation tool
+  server.registerTool(
+    'calculate_sukuk',
+    {
+      title: 'Calculate Sukuk Distributions and Redemption',
+      description:
+        'Calculate the periodic distributions and redemption of a sukuk (صكوك - Islamic certificates) issue, in total and per certificate. ' +
+        "Ijarah sukuk distribute the rental on the leased assets (annualRentalRate) and are redeemed at face value under the obligor's purchase undertaking. " +
+        "Musharakah/Mudharabah sukuk distribute the holders' share (holdersProfitRatio) of the actual profit each period (actualProfits, or projected at expectedProfitRate when omitted): " +
+        'profit above the expected distribution goes to a reserve that covers later shortfalls, losses are borne by holders and recovered from later profit, ' +
+        'and redemption is at the value the assets realise (no face-value guarantee) plus the reserve. ' +
+        'For comparisons between sukuk, call once per issue.',
+      inputSchema: SukukInputSchema,
+      outputSchema: SukukOutputSchema,
+    },
+    async (input) => {
+      try {
+        const validatedInput = SukukInputSchema.parse(input);
+        const result = calculateSukuk(validatedInput);
+
+        // Format output with step-by-step explanation
+        const output: SukukOutput = {
+          summary: `${result.type.toUpperCase()} - ${result.sukukType === 'ijarah' ? 'Rental' : 'Profit'} Distributions and Redemption`,
+          contract_type:
+            result.sukukType === 'ijarah'
+              ? 'Sukuk al-Ijarah (صكوك الإجارة - Lease Certificates)'
+              : result.sukukType === 'musharakah'
+                ? 'Sukuk al-Musharakah (صكوك المشاركة - Partnership Certificates)'
+                : 'Sukuk al-Mudharabah (صكوك المضاربة - Investment Certificates)',
+          ...currencyOutput(result.currency),
+          sukuk_type: result.sukukType,
+          issue_size: result.issueSize,
+          face_value: result.faceValue,
+          certificates: result.certificates,
+          tenor_years: result.tenorYears,
+          distribution_frequency: result.distributionFrequency,
+          periods: result.periods,
+          annual_rate: result.annualRate,
+          total_distributions: result.totalDistributions,
+          distributions_per_certificate: result.distributionsPerCertificate,
+          ...(result.managerShare !== undefined && {
+            manager_share: result.managerShare,
+            reserve_at_maturity: result.reserveAtMaturity,
+            unrecovered_losses: result.unrecoveredLosses,
+          }),
+          redemption_basis: result.redemptionBasis,
+          redemption_amount: result.redemptionAmount,
+          redemption_per_certificate: result.redemptionPerCertificate,
+          total_per_certificate: result.totalPerCertificate,
+          schedule: result.schedule,
+          shariah_explanation: result.explanation,
+          calculation_steps: result.calculationSteps,
+        };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatTextSummary(output),
+            },
+          ],
+          structuredContent: output,
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Validation Error: ${error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+        throw error;
+      }
+    }
+  );
+
+  // Register Takaful calculation tool
+  server.registerTool(
+    'calculate_takaful',
+    {
+      title: 'Calculate Takaful Fund Surplus/Deficit and Distribution',
+      description:
+        "Calculate the result of a Takaful (تكافل - cooperative insurance) participants' risk fund for a period. " +
+        "Participants' contributions (tabarru') go to the fund less the operator's Wakalah fee (wakalah/hybrid model); " +
+        'claims and net retakaful cost are paid from the fund; investment profit is shared with the operator as mudarib (mudharabah/hybrid model). ' +
+        'A surplus repays any outstanding Qard to the operator and is then distributed to participants (pro rata or to non-claimants) or retained; ' +
+        'a deficit is met from the reserve and then by an interest-free Qard al-Hasan from the operator. The operator never shares in the surplus.',
+      inputSchema: TakafulInputSchema,
+      outputSchema: TakafulOutputSchema,
+    },
+    async (input) => {
+      try {
+        const validatedInput = TakafulInputSchema.parse(input);
+        const result = calculateTakaful(validatedInput);
+
+        // Format output with step-by-step explanation
+        const output: TakafulOutput = {
+          summary: `${result.type.toUpperCase()} - Risk Fund ${result.isDeficit ? 'Deficit' : 'Surplus'}`,
+          contract_type:
+            result.model === 'wakalah'
+              ? 'Takaful (تكافل) - Wakalah Model'
+              : result.model === 'mudharabah'
+                ? 'Takaful (تكافل) - Mudharabah Model'
+                : 'Takaful (تكافل) - Hybrid Wakalah-Mudharabah Model',
+          ...currencyOutput(result.currency),
+          model: result.model,
+          contributions: result.contributions,
+          wakalah_fee: result.wakalahFee,
+          net_contributions: result.netContributions,
+          claims_paid: result.claimsPaid,
+          net_retakaful_cost: result.netRetakafulCost,
+          underwriting_result: result.underwritingResult,
+          investment_profit: result.investmentProfit,
+          operator_investment_share: result.operatorInvestmentShare,
+          fund_investment_share: result.fundInvestmentShare,
+          fund_result: result.fundResult,
+          is_deficit: result.isDeficit,
+          reserve_used: result.reserveUsed,
+          qard_provided: result.qardProvided,
+          qard_repaid: result.qardRepaid,
+          qard_outstanding: result.qardOutstanding,
+          surplus_distributed: result.surplusDistributed,
+          surplus_retained: result.surplusRetained,
+          closing_reserve: result.closingReserve,
+          operator_income: result.operatorIncome,
+          ...(result.distribution && { distribution: result.distribution }),
+          shariah_explanation: result.explanation,
+          calculation_steps: result.calculationSteps,
+        };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatTextSummary(output),
+            },
+          ],
+          structuredContent: output,
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Validation Error: ${error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+        throw error;
+      }
+    }
+  );
+
+  // Register Qard al-Hasan calculation tool
+  server.registerTool(
+    'calculate_qard_hasan',
+    {
+      title: 'Calculate Qard al-Hasan Repayment Schedule',
+      description:
+        'Calculate the repayment schedule of a Qard al-Hasan (قرض حسن - benevolent loan). ' +
+        'The borrower repays only the principal in equal monthly installments, optionally after a grace period at no extra cost. ' +
+        'An administration fee may be declared separately as a one-time fixed amount at actual cost; ' +
+        'a fee set as a rate of the principal or charged per month/installment/year is tied to the amount or time and is rejected as riba.',
+      inputSchema: QardHasanInputSchema,
+      outputSchema: QardHasanOutputSchema,
+    },
+    async (input) => {
+      try {
+        const validatedInput = QardHasanInputSchema.parse(input);
+        const result = calculateQardHasan(validatedInput);
+
+        // Format output with step-by-step explanation
+        const output: QardHasanOutput = {
+          summary: `${result.type.toUpperCase()} - Principal-Only Repayment Schedule`,
+          contract_type: 'Qard al-Hasan (قرض حسن - Benevolent Loan)',
+          ...currencyOutput(result.currency),
+          principal: result.principal,
+          tenor_months: result.tenorMonths,
+          grace_period_months: result.gracePeriodMonths,
+          installment_amount: result.installmentAmount,
+          total_repayment: result.totalRepayment,
+          admin_fee: result.adminFee,
+          ...(result.adminFeeDescription && { admin_fee_description: result.adminFeeDescription }),
+          total_paid_by_borrower: result.totalPaidByBorrower,
+          schedule: result.schedule,
+          shariah_explanation: result.explanation,
+          calculation_steps: result.calculationSteps,
+        };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatTextSummary(output),
+            },
+          ],
+          structuredContent: output,
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Validation Error: ${error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+        throw error;
+      }
+    }
+  );
+
+  // Register Shariah stock screening tool
+  server.registerTool(
+    'calculate_stock_screening',
+    {
+      title: 'Screen Stocks for Shariah Compliance and Calculate Purification',
+      description:
+        'Screen a company, or a portfolio of holdings given as CSV, for Shariah compliance using AAOIFI-style ratios: ' +
+        'interest-bearing debt and cash plus interest-bearing securities each at most 30% of market cap, and non-permissible income at most 5% of revenue, ' +
+        'plus business activity exclusions (conventional finance and insurance, alcohol, pork, gambling, tobacco, adult entertainment, weapons). ' +
+        "Returns pass/fail per screen with the thresholds used, and the purification the investor must donate from dividends and capital gains at the company's non-permissible income ratio.",
+      inputSchema: StockScreeningInputSchema,
+      outputSchema: StockScreeningOutputSchema,
+    },
+    async (input) => {
+      try {
+        const validatedInput = StockScreeningInputSchema.parse(input);
+        const result = calculateStockScreening(validatedInput);
+
+        // Format output with step-by-step explanation
+        const output: StockScreeningOutput = {
+          summary: `SHARIAH SCREENING - ${result.compliantCount} of ${result.companiesScreened} Compliant`,
+          contract_type: 'Shariah Stock Screening and Purification (AAOIFI Standard 21)',
+          ...currencyOutput(result.currency),
+          thresholds: {
+            debt_to_market_cap: result.thresholds.debtToMarketCap,
+            cash_to_market_cap: result.thresholds.cashToMarketCap,
+            non_permissible_income: result.thresholds.nonPermissibleIncome,
+          },
+          companies_screened: result.companiesScreened,
+          compliant_count: result.compliantCount,
+          non_compliant_count: result.nonCompliantCount,
+          total_purification: result.totalPurification,
+          companies: result.companies,
+          screens: result.screens,
+          shariah_explanation: result.explanation,
+          calculation_steps: result.calculationSteps,
+        };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatTextSummary(output),
             },
           ],
+          structuredContent: output,
         };
       } catch (error) {
         if (error instanceof z.ZodError) {
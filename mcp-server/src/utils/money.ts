@@ -0,0 +1,129 @@
+/**
+ * Money arithmetic helpers shared by the calculators
+ *
+ * Rounding policy:
+ * - Amounts are converted to integer minor units of the input currency (cents for USD,
+ *   whole rupiah for IDR, fils for KWD) once, at the input boundary, and all arithmetic
+ *   on money is done in integer minor units
+ * - When an amount is split by weights (capital, ratios, weightages), each party first
+ *   receives the floor of its exact share; the leftover minor units are then handed out
+ *   one at a time to the parties with the largest fractional remainders, ties going to
+ *   the earlier party (largest-remainder method)
+ * - Splits therefore always reconcile exactly to the amount being distributed
+ */
+
+// Ratios may be off 1 by this much, so thirds written as 1/3 or 0.333333 still sum to 1
+const RATIO_TOLERANCE = 0.0001;
+
+export const DEFAULT_MINOR_UNITS = 2;
+
+// ISO 4217 currencies whose minor unit is not 2 decimals. IDR is listed with 2 in
+// ISO 4217 but has no subunit in circulation, so amounts are kept in whole rupiah
+const MINOR_UNIT_EXCEPTIONS: Record<string, number> = {
+  BHD: 3,
+  IQD: 3,
+  JOD: 3,
+  KWD: 3,
+  LYD: 3,
+  OMR: 3,
+  TND: 3,
+  CLP: 0,
+  IDR: 0,
+  ISK: 0,
+  JPY: 0,
+  KRW: 0,
+  PYG: 0,
+  UGX: 0,
+  VND: 0,
+  XAF: 0,
+  XOF: 0,
+};
+
+/**
+ * Number of decimal places used for amounts in a currency (2 when no currency is given)
+ */
+export function minorUnitsFor(currency?: string): number {
+  return currency ? (MINOR_UNIT_EXCEPTIONS[currency] ?? DEFAULT_MINOR_UNITS) : DEFAULT_MINOR_UNITS;
+}
+
+export function toMinor(amount: number, minorUnits = DEFAULT_MINOR_UNITS): number {
+  return Math.round(amount * 10 ** minorUnits);
+}
+
+export function fromMinor(minor: number, minorUnits = DEFAULT_MINOR_UNITS): number {
+  return minor / 10 ** minorUnits;
+}
+
+export function formatMinor(minor: number, minorUnits = DEFAULT_MINOR_UNITS): string {
+  return fromMinor(minor, minorUnits).toFixed(minorUnits);
+}
+
+/**
+ * Round an amount to the minor-unit precision of its currency
+ */
+export function roundMoney(amount: number, minorUnits = DEFAULT_MINOR_UNITS): number {
+  return fromMinor(toMinor(amount, minorUnits), minorUnits);
+}
+
+/**
+ * Split an amount in minor units by weight using the largest-remainder method
+ *
+ * @param total - Amount to split in minor units (may be negative for losses)
+ * @param weights - Non-negative weights, at least one must be positive
+ * @returns Shares in minor units, in the order of the weights, summing exactly to total
+ */
+export function allocateMinor(total: number, weights: number[]): number[] {
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  if (weights.some((w) => w < 0) || totalWeight <= 0) {
+    throw new Error('Allocation weights must be non-negative with a positive total');
+  }
+
+  const sign = total < 0 ? -1 : 1;
+  const amount = Math.abs(total);
+  const exact = weights.map((w) => (amount * w) / totalWeight);
+  const shares = exact.map((e) => Math.floor(e));
+
+  let leftover = amount - shares.reduce((sum, s) => sum + s, 0);
+  const byRemainder = exact
+    .map((e, index) => ({ index, remainder: e - Math.floor(e) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+  for (let i = 0; leftover > 0; i = (i + 1) % byRemainder.length, leftover--) {
+    shares[byRemainder[i].index]++;
+  }
+
+  // Adding 0 turns -0 into 0 for zero shares of a loss
+  return shares.map((s) => sign * s + 0);
+}
+
+/**
+ * Check that ratios sum to 1 within RATIO_TOLERANCE
+ */
+export function ratiosSumToOne(ratios: number[]): boolean {
+  const sum = ratios.reduce((acc, r) => acc + r, 0);
+  return Math.abs(sum - 1) <= RATIO_TOLERANCE;
+}
+
+/**
+ * Build the reconciliation line proving that shares add back up to the total
+ */
+export function reconciliationLine(
+  shares: number[],
+  total: number,
+  minorUnits = DEFAULT_MINOR_UNITS
+): string {
+  const format = (minor: number) => formatMinor(minor, minorUnits);
+  const sum = shares.reduce((acc, s) => acc + s, 0);
+  if (sum !== total) {
+    throw new Error(
+      `Distribution does not reconcile: shares sum to ${format(sum)}, expected ${format(total)}`
+    );
+  }
+  return `Reconciliation: ${shares.map(format).join(' + ')} = ${format(sum)} (matches total exactly)`;
+}
+
+/**
+ * Currency fields added to tool output when the input specified a currency
+ */
+export function currencyOutput(currency?: string): { currency?: string; minor_units?: number } {
+  return currency ? { currency, minor_units: minorUnitsFor(currency) } : {};
+}
@@ -0,0 +1,49 @@
+import { fromMinor } from './money.js';
+
+export interface TimelineEvent {
+  date: string;
+  event: string;
+  // Cash in (positive) or out (negative) for the financier, in minor units
+  cashFlowMinor: number;
+  quantity?: number;
+}
+
+export interface TimelineEntry {
+  date: string;
+  event: string;
+  cashFlow: number;
+  quantity?: number;
+  netPosition: number;
+}
+
+/**
+ * Order contract events by date and track the financier's cumulative cash
+ *
+ * Events on the same date keep the order they were given in, so callers list
+ * them in the order they happen within a day (payment before delivery).
+ *
+ * @returns The timeline, with amounts in major units, and the largest amount the
+ *          financier has outstanding at any point (peak funding) in minor units
+ */
+export function buildTimeline(
+  events: TimelineEvent[],
+  minorUnits: number
+): { timeline: TimelineEntry[]; peakFundingMinor: number } {
+  const ordered = [...events].sort((a, b) => a.date.localeCompare(b.date));
+
+  let netMinor = 0;
+  let lowestMinor = 0;
+  const timeline = ordered.map((e) => {
+    netMinor += e.cashFlowMinor;
+    lowestMinor = Math.min(lowestMinor, netMinor);
+    return {
+      date: e.date,
+      event: e.event,
+      cashFlow: fromMinor(e.cashFlowMinor, minorUnits) + 0,
+      ...(e.quantity !== undefined && { quantity: e.quantity }),
+      netPosition: fromMinor(netMinor, minorUnits) + 0,
+    };
+  });
+
+  return { timeline, peakFundingMinor: -lowestMinor + 0 };
+}
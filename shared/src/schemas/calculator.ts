@@ -0,0 +1,40 @@
+import { z } from 'zod';
+
+export const CalculatorTypeEnum = z.enum([
+  'musharakah',
+  'mudharabah',
+  'mudharabah_pool',
+  'murabaha',
+  'ijarah',
+  'diminishing_musharakah',
+  'zakat',
+  'scenario_analysis',
+  'salam',
+  'istisna',
+  'sukuk',
+  'takaful',
+  'qard_hasan',
+  'stock_screening',
+]);
+
+// Fields every calculator returns, the rest depends on the contract
+export const CalculatorResultSchema = z
+  .object({
+    summary: z.string(),
+    contract_type: z.string(),
+    currency: z.string().optional(),
+    minor_units: z.number().optional(),
+    shariah_explanation: z.string(),
+    calculation_steps: z.array(z.string()),
+  })
+  .passthrough();
+
+export const CalculatorErrorSchema = z.object({
+  error: z.string(),
+  code: z.string().optional(),
+  details: z.array(z.object({ field: z.string(), message: z.string() })).optional(),
+});
+
+export type CalculatorType = z.infer<typeof CalculatorTypeEnum>;
+export type CalculatorResult = z.infer<typeof CalculatorResultSchema>;
+export type CalculatorError = z.infer<typeof CalculatorErrorSchema>;
@@ -1,3 +1,4 @@
+export * from './calculator';
 export * from './common';
 export * from './document';
 export * from './search';
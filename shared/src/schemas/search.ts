@@ -37,11 +37,21 @@ export const ComplianceResultSchema = z.object({
   suggestions: z.array(z.string()).optional(),
 });
 
+// Matrix results (scenario analysis) rendered as a table in the chat
+export const CalculationTableSchema = z.object({
+  columns: z.array(z.string()),
+  rows: z.array(z.array(z.union([z.string(), z.number()]))),
+});
+
 export const CalculationSchema = z.object({
-  type: z.enum(['musharakah', 'mudharabah']),
+  // Calculator type as discovered from the MCP server (musharakah, murabaha, ...)
+  type: z.string(),
+  currency: z.string().optional(),
   inputs: z.record(z.number()),
   outputs: z.record(z.number()),
   steps: z.array(z.string()),
+  schedule: z.array(z.record(z.number())).optional(),
+  table: CalculationTableSchema.optional(),
 });
 
 export const OrchestratorResultSchema = z.object({
@@ -55,7 +65,8 @@ export const OrchestratorResultSchema = z.object({
       })
     )
     .optional(),
-  calculation: CalculationSchema.optional(),
+  // An array when the query asked for several calculations
+  calculation: z.union([CalculationSchema, z.array(CalculationSchema)]).optional(),
   metadata: z.object({
     routingConfidence: z.number(),
     processingTime: z.number(),
@@ -69,6 +80,18 @@ export const SSEConnectedEventSchema = z.object({
   sessionId: z.string(),
 });
 
+// Sent instead of a result when a calculation needs values the query left out
+export const SSEClarificationEventSchema = z.object({
+  calculationType: z.string(),
+  missing: z.array(
+    z.object({
+      name: z.string(),
+      description: z.string().optional(),
+    })
+  ),
+  question: z.string(),
+});
+
 export const SSEErrorEventSchema = z.object({
   message: z.string(),
   code: z.string(),
@@ -87,9 +110,12 @@ export const SSEErrorEventSchema = z.object({
 export type SessionResponse = z.infer<typeof SessionResponseSchema>;
 export type QueryInput = z.infer<typeof QueryInputSchema>;
 export type OrchestratorResult = z.infer<typeof OrchestratorResultSchema>;
+export type Calculation = z.infer<typeof CalculationSchema>;
+export type CalculationTable = z.infer<typeof CalculationTableSchema>;
 export type RoutingResult = z.infer<typeof RoutingResultSchema>;
 export type ComplianceResult = z.infer<typeof ComplianceResultSchema>;
 export type SSEConnectedEvent = z.infer<typeof SSEConnectedEventSchema>;
+export type SSEClarificationEvent = z.infer<typeof SSEClarificationEventSchema>;
 export type SSEErrorEvent = z.infer<typeof SSEErrorEventSchema>;
 
 // SSE Event types
@@ -99,5 +125,6 @@ export type SSEEvent =
   | { type: 'routing'; data: RoutingResult }
   | { type: 'content'; data: string }
   | { type: 'compliance'; data: ComplianceResult }
+  | { type: 'clarification'; data: SSEClarificationEvent }
   | { type: 'done'; data: OrchestratorResult }
   | { type: 'error'; data: SSEErrorEvent };